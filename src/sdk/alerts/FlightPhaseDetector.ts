@@ -0,0 +1,432 @@
+import { CasEvents } from '../cas/CasSystem';
+import { ConsumerValue } from '../data/ConsumerValue';
+import { EventBus, Publisher } from '../data/EventBus';
+import { VirtualThrottleLeverEvents } from '../fadec/VirtualThrottleLeverEvents';
+import { AdcEvents } from '../instruments/Adc';
+import { ClockEvents } from '../instruments/Clock';
+import { Subscription } from '../sub/Subscription';
+import { AuralAlertControlEvents } from '../utils/sound/AuralAlertSystem';
+
+/**
+ * Phases of flight.
+ */
+export enum FlightPhase {
+  /** The airplane is on the ground and has not started taxiing. */
+  Preflight = 'Preflight',
+
+  /** The airplane is taxiing on the ground. */
+  Taxi = 'Taxi',
+
+  /** The airplane is on its takeoff roll. */
+  TakeoffRoll = 'TakeoffRoll',
+
+  /** The airplane is airborne and climbing after takeoff or a go-around. */
+  InitialClimb = 'InitialClimb',
+
+  /** The airplane is airborne away from the ground. */
+  Cruise = 'Cruise',
+
+  /** The airplane is airborne and close to the ground after descending from cruise. */
+  Approach = 'Approach',
+
+  /** The airplane is on its landing rollout. */
+  LandingRollout = 'LandingRollout'
+}
+
+/**
+ * Events published by {@link FlightPhaseDetector}.
+ */
+export interface FlightPhaseEvents {
+  /** The current phase of flight. */
+  flight_phase: FlightPhase;
+
+  /** Whether the takeoff inhibit state is active. */
+  flight_phase_takeoff_inhibit: boolean;
+
+  /** Whether the landing inhibit state is active. */
+  flight_phase_landing_inhibit: boolean;
+}
+
+/**
+ * Options for {@link FlightPhaseDetector}.
+ */
+export type FlightPhaseDetectorOptions = {
+  /**
+   * The indexes of the virtual throttle levers from which to source throttle position. The highest position among all
+   * levers is used. Defaults to `[1]`.
+   */
+  throttleLeverIndexes?: readonly number[];
+
+  /**
+   * The indicated airspeed, in knots, at or above which the airplane is considered to have started taxiing. Defaults
+   * to `5`.
+   */
+  taxiAirspeed?: number;
+
+  /**
+   * The throttle lever position at or above which the airplane is considered to have started taxiing. Defaults to
+   * `0.1`.
+   */
+  taxiThrottle?: number;
+
+  /**
+   * The indicated airspeed, in knots, at or above which the airplane is considered to be on its takeoff roll while on
+   * the ground. Defaults to `40`.
+   */
+  takeoffRollAirspeed?: number;
+
+  /**
+   * The throttle lever position at or above which the airplane is considered to be on its takeoff roll while on the
+   * ground, or to be going around while climbing during the approach. Defaults to `0.7`.
+   */
+  takeoffRollThrottle?: number;
+
+  /**
+   * The radio altitude, in feet, above which the initial climb and approach phases transition to the cruise phase.
+   * Defaults to `1500`.
+   */
+  cruiseRadioAltitude?: number;
+
+  /**
+   * The radio altitude, in feet, below which the cruise phase transitions to the approach phase. The initial climb
+   * phase also transitions to the approach phase when the airplane descends through this radio altitude. Should be
+   * less than the cruise radio altitude. Defaults to `1000`.
+   */
+  approachRadioAltitude?: number;
+
+  /**
+   * The vertical speed, in feet per minute, at or above which the airplane is considered to be climbing for the
+   * purpose of detecting a go-around. Defaults to `300`.
+   */
+  goAroundVerticalSpeed?: number;
+
+  /**
+   * The amount of time, in milliseconds, for which the airplane must continuously climb with the throttle at or above
+   * the takeoff roll throttle position during the approach for a go-around to be detected. Defaults to `3000`.
+   */
+  goAroundDuration?: number;
+
+  /**
+   * The indicated airspeed, in knots, below which the landing rollout phase transitions to the taxi phase. Defaults to
+   * `30`.
+   */
+  rolloutEndAirspeed?: number;
+
+  /** The name of the takeoff inhibit state. Defaults to `'takeoff'`. */
+  takeoffInhibitState?: string;
+
+  /**
+   * The indicated airspeed, in knots, at or above which the takeoff inhibit state is active during the takeoff roll.
+   * Defaults to `80`.
+   */
+  takeoffInhibitMinAirspeed?: number;
+
+  /**
+   * The radio altitude, in feet, below which the takeoff inhibit state is active during the initial climb. Defaults
+   * to `400`.
+   */
+  takeoffInhibitMaxRadioAltitude?: number;
+
+  /** The name of the landing inhibit state. Defaults to `'landing'`. */
+  landingInhibitState?: string;
+
+  /**
+   * The radio altitude, in feet, below which the landing inhibit state is active during the approach. Defaults to
+   * `200`.
+   */
+  landingInhibitMaxRadioAltitude?: number;
+
+  /**
+   * The indicated airspeed, in knots, at or above which the landing inhibit state is active during the landing
+   * rollout. Defaults to `80`.
+   */
+  landingInhibitMinAirspeed?: number;
+};
+
+/**
+ * A system which detects the current phase of flight and drives takeoff and landing inhibit states for CAS and aural
+ * alerts.
+ *
+ * A go-around is detected when the airplane climbs for a sustained period during the approach with the throttle at or
+ * above the takeoff roll throttle position, at which point the phase of flight changes to the initial climb. If the
+ * airplane then descends through the approach radio altitude without first climbing to cruise, the phase of flight
+ * changes back to the approach.
+ *
+ * The takeoff inhibit state is active during the takeoff roll at or above a minimum airspeed and during the initial
+ * climb below a maximum radio altitude. The landing inhibit state is active during the approach below a maximum radio
+ * altitude and during the landing rollout at or above a minimum airspeed. The inhibit states are activated and
+ * deactivated through both {@link CasEvents} and {@link AuralAlertControlEvents}, so alerts opt into inhibition by
+ * listing the states in the `inhibitedBy` property of their CAS or aural alert definitions.
+ *
+ * The system requires that the following topics be published on the event bus: `simTime` from {@link ClockEvents};
+ * and `ias`, `vertical_speed`, `radio_alt`, and `on_ground` from {@link AdcEvents}. Throttle position is sourced from the
+ * `v_throttle_lever_pos` topics in {@link VirtualThrottleLeverEvents}. If those topics are not published, then
+ * throttle position is assumed to be zero and only airspeed is used to detect taxi and the takeoff roll.
+ */
+export class FlightPhaseDetector {
+  private readonly publisher: Publisher<FlightPhaseEvents & CasEvents & AuralAlertControlEvents>;
+
+  private readonly taxiAirspeed: number;
+  private readonly taxiThrottle: number;
+  private readonly takeoffRollAirspeed: number;
+  private readonly takeoffRollThrottle: number;
+  private readonly cruiseRadioAltitude: number;
+  private readonly approachRadioAltitude: number;
+  private readonly goAroundVerticalSpeed: number;
+  private readonly goAroundDuration: number;
+  private readonly rolloutEndAirspeed: number;
+  private readonly takeoffInhibitState: string;
+  private readonly takeoffInhibitMinAirspeed: number;
+  private readonly takeoffInhibitMaxRadioAltitude: number;
+  private readonly landingInhibitState: string;
+  private readonly landingInhibitMaxRadioAltitude: number;
+  private readonly landingInhibitMinAirspeed: number;
+
+  private readonly ias: ConsumerValue<number>;
+  private readonly verticalSpeed: ConsumerValue<number>;
+  private readonly radioAltitude: ConsumerValue<number>;
+  private readonly isOnGround: ConsumerValue<boolean>;
+  private readonly throttleLevers: ConsumerValue<number>[];
+
+  private readonly consumerValues: Subscription[];
+
+  private simTimeSub?: Subscription;
+
+  private phase: FlightPhase | undefined = undefined;
+  private lastRadioAltitude: number | undefined = undefined;
+  private goAroundClimbStartTime: number | undefined = undefined;
+  private isTakeoffInhibitActive = false;
+  private isLandingInhibitActive = false;
+
+  private isAlive = true;
+  private isInit = false;
+
+  /**
+   * Creates a new instance of FlightPhaseDetector.
+   * @param bus The event bus.
+   * @param options Options with which to configure the detector.
+   */
+  public constructor(private readonly bus: EventBus, options?: Readonly<FlightPhaseDetectorOptions>) {
+    this.publisher = bus.getPublisher<FlightPhaseEvents & CasEvents & AuralAlertControlEvents>();
+
+    this.taxiAirspeed = options?.taxiAirspeed ?? 5;
+    this.taxiThrottle = options?.taxiThrottle ?? 0.1;
+    this.takeoffRollAirspeed = options?.takeoffRollAirspeed ?? 40;
+    this.takeoffRollThrottle = options?.takeoffRollThrottle ?? 0.7;
+    this.cruiseRadioAltitude = options?.cruiseRadioAltitude ?? 1500;
+    this.approachRadioAltitude = options?.approachRadioAltitude ?? 1000;
+    this.goAroundVerticalSpeed = options?.goAroundVerticalSpeed ?? 300;
+    this.goAroundDuration = options?.goAroundDuration ?? 3000;
+    this.rolloutEndAirspeed = options?.rolloutEndAirspeed ?? 30;
+    this.takeoffInhibitState = options?.takeoffInhibitState ?? 'takeoff';
+    this.takeoffInhibitMinAirspeed = options?.takeoffInhibitMinAirspeed ?? 80;
+    this.takeoffInhibitMaxRadioAltitude = options?.takeoffInhibitMaxRadioAltitude ?? 400;
+    this.landingInhibitState = options?.landingInhibitState ?? 'landing';
+    this.landingInhibitMaxRadioAltitude = options?.landingInhibitMaxRadioAltitude ?? 200;
+    this.landingInhibitMinAirspeed = options?.landingInhibitMinAirspeed ?? 80;
+
+    const sub = bus.getSubscriber<AdcEvents & VirtualThrottleLeverEvents>();
+
+    this.throttleLevers = (options?.throttleLeverIndexes ?? [1]).map(index => {
+      return ConsumerValue.create(sub.on(`v_throttle_lever_pos_${index}`), 0);
+    });
+
+    this.consumerValues = [
+      this.ias = ConsumerValue.create(sub.on('ias'), 0),
+      this.verticalSpeed = ConsumerValue.create(sub.on('vertical_speed'), 0),
+      this.radioAltitude = ConsumerValue.create(sub.on('radio_alt'), 0),
+      this.isOnGround = ConsumerValue.create(sub.on('on_ground'), true),
+      ...this.throttleLevers
+    ];
+  }
+
+  /**
+   * Gets the current phase of flight.
+   * @returns The current phase of flight, or `undefined` if this detector has not yet been initialized.
+   */
+  public getPhase(): FlightPhase | undefined {
+    return this.phase;
+  }
+
+  /**
+   * Initializes this detector. Once initialized, the detector will begin detecting the phase of flight and driving
+   * inhibit states.
+   * @throws Error if this detector has been destroyed.
+   */
+  public init(): void {
+    if (!this.isAlive) {
+      throw new Error('FlightPhaseDetector: cannot initialize a dead detector');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    this.isInit = true;
+
+    this.publisher.pub('flight_phase_takeoff_inhibit', false, true, true);
+    this.publisher.pub('flight_phase_landing_inhibit', false, true, true);
+
+    this.simTimeSub = this.bus.getSubscriber<ClockEvents>().on('simTime').handle(this.update.bind(this));
+  }
+
+  /**
+   * Updates this detector.
+   * @param simTime The current sim time, as a UNIX timestamp in milliseconds.
+   */
+  private update(simTime: number): void {
+    const phase = this.computePhase(simTime);
+    this.lastRadioAltitude = this.radioAltitude.get();
+
+    if (phase !== FlightPhase.Approach) {
+      this.goAroundClimbStartTime = undefined;
+    }
+
+    if (phase !== this.phase) {
+      this.phase = phase;
+      this.publisher.pub('flight_phase', phase, true, true);
+    }
+
+    this.updateInhibits(phase);
+  }
+
+  /**
+   * Computes the current phase of flight from the previous phase and the airplane's current state.
+   * @param simTime The current sim time, as a UNIX timestamp in milliseconds.
+   * @returns The current phase of flight.
+   */
+  private computePhase(simTime: number): FlightPhase {
+    const ias = this.ias.get();
+    const radioAltitude = this.radioAltitude.get();
+
+    if (this.isOnGround.get()) {
+      const throttle = this.getThrottle();
+      const isTakeoffRoll = ias >= this.takeoffRollAirspeed || throttle >= this.takeoffRollThrottle;
+
+      switch (this.phase) {
+        case undefined:
+        case FlightPhase.Preflight:
+          if (isTakeoffRoll) {
+            return FlightPhase.TakeoffRoll;
+          }
+          return ias >= this.taxiAirspeed || throttle >= this.taxiThrottle ? FlightPhase.Taxi : FlightPhase.Preflight;
+        case FlightPhase.Taxi:
+        case FlightPhase.TakeoffRoll:
+          // Returning to the taxi phase from the takeoff roll indicates a rejected takeoff.
+          return isTakeoffRoll ? FlightPhase.TakeoffRoll : FlightPhase.Taxi;
+        case FlightPhase.LandingRollout:
+          return ias < this.rolloutEndAirspeed ? FlightPhase.Taxi : FlightPhase.LandingRollout;
+        default:
+          return FlightPhase.LandingRollout;
+      }
+    } else {
+      switch (this.phase) {
+        case undefined:
+          return radioAltitude > this.cruiseRadioAltitude ? FlightPhase.Cruise : FlightPhase.Approach;
+        case FlightPhase.Cruise:
+          return radioAltitude < this.approachRadioAltitude ? FlightPhase.Approach : FlightPhase.Cruise;
+        case FlightPhase.Approach:
+          if (radioAltitude > this.cruiseRadioAltitude) {
+            return FlightPhase.Cruise;
+          }
+          // A sustained climb with takeoff power during the approach indicates a go-around.
+          if (this.verticalSpeed.get() >= this.goAroundVerticalSpeed && this.getThrottle() >= this.takeoffRollThrottle) {
+            this.goAroundClimbStartTime ??= simTime;
+            if (simTime - this.goAroundClimbStartTime >= this.goAroundDuration) {
+              return FlightPhase.InitialClimb;
+            }
+          } else {
+            this.goAroundClimbStartTime = undefined;
+          }
+          return FlightPhase.Approach;
+        default:
+          if (radioAltitude > this.cruiseRadioAltitude) {
+            return FlightPhase.Cruise;
+          }
+          // Descending through the approach radio altitude after the initial climb indicates a return to the approach,
+          // for example after a go-around or during a traffic pattern.
+          if (
+            this.lastRadioAltitude !== undefined
+            && this.lastRadioAltitude >= this.approachRadioAltitude
+            && radioAltitude < this.approachRadioAltitude
+          ) {
+            return FlightPhase.Approach;
+          }
+          return FlightPhase.InitialClimb;
+      }
+    }
+  }
+
+  /**
+   * Gets the current throttle position, as the highest position among all sourced throttle levers.
+   * @returns The current throttle position.
+   */
+  private getThrottle(): number {
+    let throttle = 0;
+    for (let i = 0; i < this.throttleLevers.length; i++) {
+      throttle = Math.max(throttle, this.throttleLevers[i].get());
+    }
+    return throttle;
+  }
+
+  /**
+   * Updates the takeoff and landing inhibit states.
+   * @param phase The current phase of flight.
+   */
+  private updateInhibits(phase: FlightPhase): void {
+    const ias = this.ias.get();
+    const radioAltitude = this.radioAltitude.get();
+
+    const isTakeoffInhibitActive = (phase === FlightPhase.TakeoffRoll && ias >= this.takeoffInhibitMinAirspeed)
+      || (phase === FlightPhase.InitialClimb && radioAltitude < this.takeoffInhibitMaxRadioAltitude);
+
+    const isLandingInhibitActive = (phase === FlightPhase.Approach && radioAltitude < this.landingInhibitMaxRadioAltitude)
+      || (phase === FlightPhase.LandingRollout && ias >= this.landingInhibitMinAirspeed);
+
+    if (isTakeoffInhibitActive !== this.isTakeoffInhibitActive) {
+      this.isTakeoffInhibitActive = isTakeoffInhibitActive;
+      this.setInhibitState(this.takeoffInhibitState, isTakeoffInhibitActive);
+      this.publisher.pub('flight_phase_takeoff_inhibit', isTakeoffInhibitActive, true, true);
+    }
+
+    if (isLandingInhibitActive !== this.isLandingInhibitActive) {
+      this.isLandingInhibitActive = isLandingInhibitActive;
+      this.setInhibitState(this.landingInhibitState, isLandingInhibitActive);
+      this.publisher.pub('flight_phase_landing_inhibit', isLandingInhibitActive, true, true);
+    }
+  }
+
+  /**
+   * Activates or deactivates a CAS and aural alert inhibit state.
+   * @param state The inhibit state to activate or deactivate.
+   * @param active Whether to activate the inhibit state.
+   */
+  private setInhibitState(state: string, active: boolean): void {
+    this.publisher.pub(active ? 'cas_activate_inhibit_state' : 'cas_deactivate_inhibit_state', state, true, false);
+    this.publisher.pub(active ? 'aural_alert_activate_inhibit_state' : 'aural_alert_deactivate_inhibit_state', state, true, false);
+  }
+
+  /**
+   * Destroys this detector. Any inhibit states activated by this detector are deactivated, and the detector will no
+   * longer publish any data.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+
+    this.simTimeSub?.destroy();
+
+    for (const value of this.consumerValues) {
+      value.destroy();
+    }
+
+    if (this.isTakeoffInhibitActive) {
+      this.isTakeoffInhibitActive = false;
+      this.setInhibitState(this.takeoffInhibitState, false);
+    }
+
+    if (this.isLandingInhibitActive) {
+      this.isLandingInhibitActive = false;
+      this.setInhibitState(this.landingInhibitState, false);
+    }
+  }
+}
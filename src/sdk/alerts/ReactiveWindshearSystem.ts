@@ -0,0 +1,421 @@
+import { ConsumerValue } from '../data/ConsumerValue';
+import { EventBus, Publisher } from '../data/EventBus';
+import { AdcEvents } from '../instruments/Adc';
+import { AhrsEvents } from '../instruments/Ahrs';
+import { AircraftInertialEvents } from '../instruments/AircraftInertialPublisher';
+import { ClockEvents } from '../instruments/Clock';
+import { ExpSmoother } from '../math/ExpSmoother';
+import { UnitType } from '../math/NumberUnit';
+import { Subscription } from '../sub/Subscription';
+import { AuralAlertControlEvents } from '../utils/sound/AuralAlertSystem';
+
+/**
+ * Windshear alert levels.
+ */
+export enum WindshearAlertLevel {
+  /** No windshear alert. */
+  None = 'None',
+
+  /** Increasing-performance windshear (increasing headwind or updraft) has been detected. */
+  Caution = 'Caution',
+
+  /** Decreasing-performance windshear (increasing tailwind or downdraft) has been detected. */
+  Warning = 'Warning'
+}
+
+/**
+ * Events published by {@link ReactiveWindshearSystem}.
+ */
+export interface ReactiveWindshearEvents {
+  /**
+   * The current smoothed windshear hazard index (F-factor). Positive values indicate decreasing-performance windshear
+   * and negative values indicate increasing-performance windshear.
+   */
+  windshear_f_factor: number;
+
+  /** Whether the airplane is within the envelope in which windshear alerts are enabled. */
+  windshear_envelope_active: boolean;
+
+  /** The current windshear alert level. */
+  windshear_alert_level: WindshearAlertLevel;
+
+  /** Whether windshear escape guidance is active. */
+  windshear_escape_guidance_active: boolean;
+
+  /**
+   * The pitch angle commanded by windshear escape guidance, in degrees. Positive values indicate upward pitch. Only
+   * valid while escape guidance is active. This is the default pitch target of {@link APEscapePitchDirector}.
+   */
+  windshear_escape_pitch_target: number;
+}
+
+/**
+ * Options for {@link ReactiveWindshearSystem}.
+ */
+export type ReactiveWindshearSystemOptions = {
+  /** The F-factor at or above which a windshear warning is issued. Defaults to `0.105`. */
+  warningThreshold?: number;
+
+  /**
+   * The F-factor at or below which a windshear caution is issued. Increasing-performance windshear produces negative
+   * F-factors, so this value should be negative. Defaults to `-0.1`.
+   */
+  cautionThreshold?: number;
+
+  /**
+   * The minimum amount of time an alert is held after the F-factor no longer exceeds the alert's threshold, in
+   * milliseconds. Defaults to `5000`.
+   */
+  alertHoldTime?: number;
+
+  /** The time constant with which to smooth the computed F-factor, in seconds. Defaults to `1.5`. */
+  fFactorSmoothingTime?: number;
+
+  /** The time constant with which to smooth the computed true airspeed rate, in seconds. Defaults to `0.5`. */
+  airspeedRateSmoothingTime?: number;
+
+  /**
+   * The minimum radio altitude, in feet, at which alerts are enabled while the airplane is airborne. Defaults to
+   * `50`.
+   */
+  minRadioAltitude?: number;
+
+  /** The maximum radio altitude, in feet, at which alerts are enabled. Defaults to `1500`. */
+  maxRadioAltitude?: number;
+
+  /**
+   * The minimum indicated airspeed, in knots, at which alerts are enabled during the takeoff roll. Defaults to `100`.
+   */
+  takeoffMinAirspeed?: number;
+
+  /** The true airspeed, in knots, below which the F-factor is not computed. Defaults to `40`. */
+  minComputeAirspeed?: number;
+
+  /** The maximum pitch angle commanded by escape guidance, in degrees. Defaults to `15`. */
+  escapeMaxPitch?: number;
+
+  /**
+   * The margin to maintain below the stall angle of attack when computing the escape guidance pitch target, in
+   * degrees. Defaults to `2`.
+   */
+  escapeAoaMargin?: number;
+
+  /** The ID of the aural alert to activate while a windshear warning is issued, if any. */
+  warningAuralUuid?: string;
+
+  /** The ID of the aural alert to activate while a windshear caution is issued, if any. */
+  cautionAuralUuid?: string;
+};
+
+/**
+ * A reactive windshear detection system. The system continuously computes the windshear hazard index (F-factor) from
+ * the rate of change of true airspeed, the airplane's inertial acceleration along its flight path, and the difference
+ * between its inertial vertical speed and its air mass flight path angle. Alerts are issued only within the
+ * takeoff/approach envelope.
+ *
+ * The F-factor is defined as `F = (a - dV/dt) / g - w / V`, where `a` is the inertial acceleration along the air mass
+ * flight path, `dV/dt` is the rate of change of true airspeed, `w` is the vertical wind speed (positive up), and `V`
+ * is true airspeed. Positive values indicate a loss of aircraft performance.
+ *
+ * The system requires that the following topics be published on the event bus: `simTime` from {@link ClockEvents};
+ * `ias`, `tas`, `vertical_speed`, `radio_alt`, `on_ground`, `aoa`, and `stall_aoa` from {@link AdcEvents};
+ * `actual_pitch_deg` from {@link AhrsEvents}; and `acceleration_body_y` and `acceleration_body_z` from
+ * {@link AircraftInertialEvents}.
+ */
+export class ReactiveWindshearSystem {
+  private static readonly G = 9.80665;
+
+  private readonly publisher: Publisher<ReactiveWindshearEvents & AuralAlertControlEvents>;
+
+  private readonly warningThreshold: number;
+  private readonly cautionThreshold: number;
+  private readonly alertHoldTime: number;
+  private readonly minRadioAltitude: number;
+  private readonly maxRadioAltitude: number;
+  private readonly takeoffMinAirspeed: number;
+  private readonly minComputeAirspeed: number;
+  private readonly escapeMaxPitch: number;
+  private readonly escapeAoaMargin: number;
+  private readonly warningAuralUuid?: string;
+  private readonly cautionAuralUuid?: string;
+
+  private readonly fFactorSmoother: ExpSmoother;
+  private readonly airspeedRateSmoother: ExpSmoother;
+
+  private readonly ias: ConsumerValue<number>;
+  private readonly tas: ConsumerValue<number>;
+  private readonly verticalSpeed: ConsumerValue<number>;
+  private readonly radioAltitude: ConsumerValue<number>;
+  private readonly isOnGround: ConsumerValue<boolean>;
+  private readonly aoa: ConsumerValue<number>;
+  private readonly stallAoa: ConsumerValue<number>;
+  private readonly pitch: ConsumerValue<number>;
+  private readonly accelBodyY: ConsumerValue<number>;
+  private readonly accelBodyZ: ConsumerValue<number>;
+
+  private readonly consumerValues: Subscription[];
+
+  private simTimeSub?: Subscription;
+
+  private lastSimTime: number | undefined = undefined;
+  private lastTas: number | undefined = undefined;
+
+  private fFactor = 0;
+  private isInEnvelope = false;
+  private alertLevel = WindshearAlertLevel.None;
+  private lastWarningExceedTime = -Infinity;
+  private lastCautionExceedTime = -Infinity;
+  private escapePitchTarget = 0;
+
+  private isAlive = true;
+  private isInit = false;
+
+  /**
+   * Creates a new instance of ReactiveWindshearSystem.
+   * @param bus The event bus.
+   * @param options Options with which to configure the system.
+   */
+  public constructor(private readonly bus: EventBus, options?: Readonly<ReactiveWindshearSystemOptions>) {
+    this.publisher = bus.getPublisher<ReactiveWindshearEvents & AuralAlertControlEvents>();
+
+    this.warningThreshold = options?.warningThreshold ?? 0.105;
+    this.cautionThreshold = options?.cautionThreshold ?? -0.1;
+    this.alertHoldTime = options?.alertHoldTime ?? 5000;
+    this.minRadioAltitude = options?.minRadioAltitude ?? 50;
+    this.maxRadioAltitude = options?.maxRadioAltitude ?? 1500;
+    this.takeoffMinAirspeed = options?.takeoffMinAirspeed ?? 100;
+    this.minComputeAirspeed = options?.minComputeAirspeed ?? 40;
+    this.escapeMaxPitch = options?.escapeMaxPitch ?? 15;
+    this.escapeAoaMargin = options?.escapeAoaMargin ?? 2;
+    this.warningAuralUuid = options?.warningAuralUuid;
+    this.cautionAuralUuid = options?.cautionAuralUuid;
+
+    this.fFactorSmoother = new ExpSmoother(options?.fFactorSmoothingTime ?? 1.5, 0, 1);
+    this.airspeedRateSmoother = new ExpSmoother(options?.airspeedRateSmoothingTime ?? 0.5, 0, 1);
+
+    const sub = bus.getSubscriber<AdcEvents & AhrsEvents & AircraftInertialEvents>();
+
+    this.consumerValues = [
+      this.ias = ConsumerValue.create(sub.on('ias'), 0),
+      this.tas = ConsumerValue.create(sub.on('tas'), 0),
+      this.verticalSpeed = ConsumerValue.create(sub.on('vertical_speed'), 0),
+      this.radioAltitude = ConsumerValue.create(sub.on('radio_alt'), 0),
+      this.isOnGround = ConsumerValue.create(sub.on('on_ground'), true),
+      this.aoa = ConsumerValue.create(sub.on('aoa'), 0),
+      this.stallAoa = ConsumerValue.create(sub.on('stall_aoa'), 0),
+      this.pitch = ConsumerValue.create(sub.on('actual_pitch_deg'), 0),
+      this.accelBodyY = ConsumerValue.create(sub.on('acceleration_body_y'), 0),
+      this.accelBodyZ = ConsumerValue.create(sub.on('acceleration_body_z'), 0)
+    ];
+  }
+
+  /**
+   * Gets the current smoothed windshear hazard index (F-factor).
+   * @returns The current smoothed windshear hazard index (F-factor).
+   */
+  public getFFactor(): number {
+    return this.fFactor;
+  }
+
+  /**
+   * Gets the current windshear alert level.
+   * @returns The current windshear alert level.
+   */
+  public getAlertLevel(): WindshearAlertLevel {
+    return this.alertLevel;
+  }
+
+  /**
+   * Initializes this system. Once initialized, the system will begin detecting windshear and publishing data.
+   * @throws Error if this system has been destroyed.
+   */
+  public init(): void {
+    if (!this.isAlive) {
+      throw new Error('ReactiveWindshearSystem: cannot initialize a dead system');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    this.isInit = true;
+
+    this.publisher.pub('windshear_f_factor', 0, true, true);
+    this.publisher.pub('windshear_envelope_active', false, true, true);
+    this.publisher.pub('windshear_alert_level', WindshearAlertLevel.None, true, true);
+    this.publisher.pub('windshear_escape_guidance_active', false, true, true);
+    this.publisher.pub('windshear_escape_pitch_target', 0, true, true);
+
+    this.simTimeSub = this.bus.getSubscriber<ClockEvents>().on('simTime').handle(this.update.bind(this));
+  }
+
+  /**
+   * Updates this system.
+   * @param simTime The current simulation time, as a Javascript timestamp.
+   */
+  private update(simTime: number): void {
+    const dt = this.lastSimTime === undefined ? 0 : (simTime - this.lastSimTime) / 1000;
+    this.lastSimTime = simTime;
+
+    // Do not update while paused or when time runs backwards.
+    if (dt <= 0) {
+      return;
+    }
+
+    this.updateFFactor(dt);
+    this.updateEnvelope();
+    this.updateEscapeGuidance();
+    this.updateAlertLevel(simTime);
+  }
+
+  /**
+   * Updates the F-factor.
+   * @param dt The elapsed time since the last update, in seconds.
+   */
+  private updateFFactor(dt: number): void {
+    const tasKnots = this.tas.get();
+    const tas = UnitType.KNOT.convertTo(tasKnots, UnitType.MPS);
+
+    const lastTas = this.lastTas;
+    this.lastTas = tas;
+
+    let fFactor: number;
+
+    if (tasKnots < this.minComputeAirspeed || lastTas === undefined) {
+      this.airspeedRateSmoother.reset(0);
+      fFactor = this.fFactorSmoother.reset(0);
+    } else {
+      const airspeedRate = this.airspeedRateSmoother.next((tas - lastTas) / dt, dt);
+
+      const aoa = this.aoa.get() * Avionics.Utils.DEG2RAD;
+      const pitch = -this.pitch.get() * Avionics.Utils.DEG2RAD;
+      const airMassFpa = pitch - aoa;
+
+      // Inertial acceleration along the air mass velocity vector, which is rotated downward from the longitudinal
+      // axis by the angle of attack.
+      const accel = this.accelBodyZ.get() * Math.cos(aoa) - this.accelBodyY.get() * Math.sin(aoa);
+
+      const verticalSpeed = UnitType.FPM.convertTo(this.verticalSpeed.get(), UnitType.MPS);
+      const verticalWindRatio = verticalSpeed / tas - Math.sin(airMassFpa);
+
+      fFactor = this.fFactorSmoother.next((accel - airspeedRate) / ReactiveWindshearSystem.G - verticalWindRatio, dt);
+    }
+
+    if (fFactor !== this.fFactor) {
+      this.fFactor = fFactor;
+      this.publisher.pub('windshear_f_factor', fFactor, true, true);
+    }
+  }
+
+  /**
+   * Updates whether the airplane is within the alerting envelope.
+   */
+  private updateEnvelope(): void {
+    const radioAltitude = this.radioAltitude.get();
+    const isInEnvelope = this.isOnGround.get()
+      ? this.ias.get() >= this.takeoffMinAirspeed
+      : radioAltitude >= this.minRadioAltitude && radioAltitude <= this.maxRadioAltitude;
+
+    if (isInEnvelope !== this.isInEnvelope) {
+      this.isInEnvelope = isInEnvelope;
+      this.publisher.pub('windshear_envelope_active', isInEnvelope, true, true);
+    }
+  }
+
+  /**
+   * Updates the alert level.
+   * @param simTime The current simulation time, as a Javascript timestamp.
+   */
+  private updateAlertLevel(simTime: number): void {
+    let level = WindshearAlertLevel.None;
+
+    if (this.isInEnvelope) {
+      if (this.fFactor >= this.warningThreshold) {
+        this.lastWarningExceedTime = simTime;
+      } else if (this.fFactor <= this.cautionThreshold) {
+        this.lastCautionExceedTime = simTime;
+      }
+
+      if (simTime - this.lastWarningExceedTime <= this.alertHoldTime) {
+        level = WindshearAlertLevel.Warning;
+      } else if (simTime - this.lastCautionExceedTime <= this.alertHoldTime) {
+        level = WindshearAlertLevel.Caution;
+      }
+    } else {
+      this.lastWarningExceedTime = -Infinity;
+      this.lastCautionExceedTime = -Infinity;
+    }
+
+    if (level === this.alertLevel) {
+      return;
+    }
+
+    const oldLevel = this.alertLevel;
+    this.alertLevel = level;
+
+    this.setAural(oldLevel, false);
+    this.setAural(level, true);
+
+    this.publisher.pub('windshear_alert_level', level, true, true);
+
+    if ((oldLevel === WindshearAlertLevel.Warning) !== (level === WindshearAlertLevel.Warning)) {
+      this.publisher.pub('windshear_escape_guidance_active', level === WindshearAlertLevel.Warning, true, true);
+    }
+  }
+
+  /**
+   * Activates or deactivates the aural alert associated with an alert level.
+   * @param level The alert level.
+   * @param active Whether to activate the aural alert.
+   */
+  private setAural(level: WindshearAlertLevel, active: boolean): void {
+    let uuid: string | undefined;
+
+    switch (level) {
+      case WindshearAlertLevel.Warning:
+        uuid = this.warningAuralUuid;
+        break;
+      case WindshearAlertLevel.Caution:
+        uuid = this.cautionAuralUuid;
+        break;
+    }
+
+    if (uuid !== undefined) {
+      this.publisher.pub(active ? 'aural_alert_activate' : 'aural_alert_deactivate', uuid, true, false);
+    }
+  }
+
+  /**
+   * Updates the escape guidance pitch target. The target is kept up to date even while escape guidance is inactive so
+   * that it is valid as soon as guidance becomes active.
+   */
+  private updateEscapeGuidance(): void {
+    // Command the maximum escape pitch, but do not command a pitch that would exceed the stall angle of attack less
+    // the required margin at the current flight path angle.
+    const pitch = -this.pitch.get();
+    const aoaHeadroom = this.stallAoa.get() - this.escapeAoaMargin - this.aoa.get();
+    const target = Math.min(this.escapeMaxPitch, pitch + aoaHeadroom);
+
+    if (target !== this.escapePitchTarget) {
+      this.escapePitchTarget = target;
+      this.publisher.pub('windshear_escape_pitch_target', target, true, true);
+    }
+  }
+
+  /**
+   * Destroys this system.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+
+    if (this.alertLevel !== WindshearAlertLevel.None) {
+      this.setAural(this.alertLevel, false);
+    }
+
+    this.simTimeSub?.destroy();
+
+    for (const value of this.consumerValues) {
+      value.destroy();
+    }
+  }
+}
@@ -1,2 +1,4 @@
 export * from './SystemAlertPublisher';
-export * from './SystemAlertManager';
\ No newline at end of file
+export * from './SystemAlertManager';
+export * from './ReactiveWindshearSystem';
+export * from './FlightPhaseDetector';
@@ -1,3 +1,5 @@
+import { APModeTransitionTable } from './APModeTransitions';
+import { APSpeedProtectionOptions } from './APSpeedProtection';
 import { APValues } from './APValues';
 import { AutopilotDriverOptions } from './AutopilotDriver';
 import { PlaneDirector } from './directors/PlaneDirector';
@@ -112,6 +114,26 @@ export interface APConfig {
    */
   readonly autopilotDriverOptions?: Readonly<AutopilotDriverOptions>;
 
+  /**
+   * A declarative description of the autopilot's mode transitions. If defined, the autopilot uses the description to
+   * decide which modes can be selected, which modes can remain armed together, which active modes an armed mode can
+   * capture from, which modes to arm when a mode activates, and the mode to revert to when a mode fails. The
+   * description is checked for unreachable modes and conflicting transitions when the autopilot is created.
+   */
+  readonly modeTransitions?: Readonly<APModeTransitionTable>;
+
+  /**
+   * Whether to throw an error instead of emitting console warnings when issues are found in the mode transition
+   * description. Defaults to `false`.
+   */
+  readonly throwOnModeTransitionIssues?: boolean;
+
+  /**
+   * Options for the autopilot's speed-on-elevator envelope protection. If not defined, then speed protection is
+   * disabled.
+   */
+  readonly speedProtectionOptions?: Readonly<APSpeedProtectionOptions>;
+
   /**
    * Whether to publish the active and armed autopilot modes as LVars. Defaults to false.
    */
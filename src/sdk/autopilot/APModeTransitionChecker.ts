@@ -0,0 +1,250 @@
+import { APVerticalModes } from './APTypes';
+import { APModeAxis, APModeTransitionRuleTable, APModeTransitions, APModeTransitionTable } from './APModeTransitions';
+
+/**
+ * Types of issues found in an autopilot mode transition table.
+ */
+export enum APModeTransitionIssueType {
+  /** A rule references a mode for which the autopilot has no director. */
+  UnknownMode = 'UnknownMode',
+
+  /** A mode for which the autopilot has a director can never become active. */
+  UnreachableMode = 'UnreachableMode',
+
+  /** A rule references its own mode. */
+  SelfReference = 'SelfReference',
+
+  /** A mode can remain armed when another mode is armed, but not the other way around. */
+  ConflictingArm = 'ConflictingArm',
+
+  /** A mode arms another mode on activation, but the armed mode cannot capture from the arming mode. */
+  ConflictingCapture = 'ConflictingCapture',
+
+  /** Following the reversion rules starting from a mode leads back to the same mode. */
+  RevertCycle = 'RevertCycle'
+}
+
+/**
+ * An issue found in an autopilot mode transition table.
+ */
+export type APModeTransitionIssue = {
+  /** The type of the issue. */
+  type: APModeTransitionIssueType;
+
+  /** The axis of the modes involved in the issue. */
+  axis: APModeAxis;
+
+  /** The mode whose rule has the issue. */
+  mode: number;
+
+  /** The other mode involved in the issue, if any. */
+  relatedMode?: number;
+
+  /** A human-readable description of the issue. */
+  message: string;
+};
+
+/**
+ * Checks autopilot mode transition tables for unreachable modes and conflicting transitions.
+ */
+export class APModeTransitionChecker {
+  /** Vertical modes that the autopilot arms automatically without a mode selection. */
+  private static readonly AUTO_ARMED_VERTICAL_MODES: readonly number[] = [APVerticalModes.CAP];
+
+  /**
+   * Checks a mode transition table against the modes available to an autopilot.
+   * @param table The mode transition table to check.
+   * @param lateralModes The lateral modes for which the autopilot has directors.
+   * @param verticalModes The vertical modes for which the autopilot has directors.
+   * @param defaultLateralMode The autopilot's default lateral mode, or `undefined` if the default mode is not fixed.
+   * @param defaultVerticalMode The autopilot's default vertical mode, or `undefined` if the default mode is not fixed.
+   * @returns The issues found in the table.
+   */
+  public static check(
+    table: Readonly<APModeTransitionTable>,
+    lateralModes: Iterable<number>,
+    verticalModes: Iterable<number>,
+    defaultLateralMode?: number,
+    defaultVerticalMode?: number
+  ): APModeTransitionIssue[] {
+    return [
+      ...APModeTransitionChecker.checkAxis(
+        APModeAxis.Lateral, APModeTransitions.getRuleTable(table, APModeAxis.Lateral), new Set(lateralModes), defaultLateralMode, []
+      ),
+      ...APModeTransitionChecker.checkAxis(
+        APModeAxis.Vertical, APModeTransitions.getRuleTable(table, APModeAxis.Vertical), new Set(verticalModes), defaultVerticalMode,
+        APModeTransitionChecker.AUTO_ARMED_VERTICAL_MODES
+      )
+    ];
+  }
+
+  /**
+   * Checks the mode transition rules for one axis.
+   * @param axis The axis to check.
+   * @param rules The rules for the axis.
+   * @param availableModes The modes on the axis for which the autopilot has directors.
+   * @param defaultMode The default mode on the axis, or `undefined` if the default mode is not fixed.
+   * @param autoArmedModes The modes on the axis that the autopilot arms automatically.
+   * @returns The issues found in the rules.
+   */
+  private static checkAxis(
+    axis: APModeAxis,
+    rules: APModeTransitionRuleTable,
+    availableModes: ReadonlySet<number>,
+    defaultMode: number | undefined,
+    autoArmedModes: readonly number[]
+  ): APModeTransitionIssue[] {
+    const issues: APModeTransitionIssue[] = [];
+    const isAvailable = (mode: number): boolean => mode === 0 || availableModes.has(mode);
+
+    for (const key in rules) {
+      const mode = Number(key);
+      const rule = rules[mode];
+
+      if (rule === undefined) {
+        continue;
+      }
+
+      if (!isAvailable(mode)) {
+        issues.push({ type: APModeTransitionIssueType.UnknownMode, axis, mode, message: `rule defined for mode ${mode}, which has no director` });
+      }
+
+      const references: [string, readonly number[] | undefined][] = [
+        ['armsWith', rule.armsWith],
+        ['capturesFrom', rule.capturesFrom],
+        ['armsOnActivation', rule.armsOnActivation],
+        ['revertsTo', rule.revertsTo === undefined ? undefined : [rule.revertsTo]]
+      ];
+
+      for (const [property, modes] of references) {
+        for (const related of modes ?? []) {
+          if (related === mode) {
+            issues.push({ type: APModeTransitionIssueType.SelfReference, axis, mode, message: `mode ${mode} references itself in ${property}` });
+          } else if (!isAvailable(related)) {
+            issues.push({ type: APModeTransitionIssueType.UnknownMode, axis, mode, relatedMode: related, message: `mode ${mode} references mode ${related} in ${property}, which has no director` });
+          }
+        }
+      }
+
+      for (const related of rule.armsWith ?? []) {
+        const relatedArmsWith = rules[related]?.armsWith;
+        if (related !== mode && relatedArmsWith !== undefined && !relatedArmsWith.includes(mode)) {
+          issues.push({
+            type: APModeTransitionIssueType.ConflictingArm,
+            axis,
+            mode,
+            relatedMode: related,
+            message: `mode ${mode} can stay armed with mode ${related}, but arming mode ${related} disarms mode ${mode}`
+          });
+        }
+      }
+
+      for (const related of rule.armsOnActivation ?? []) {
+        const capturesFrom = rules[related]?.capturesFrom;
+        if (related !== mode && capturesFrom !== undefined && !capturesFrom.includes(mode)) {
+          issues.push({
+            type: APModeTransitionIssueType.ConflictingCapture,
+            axis,
+            mode,
+            relatedMode: related,
+            message: `mode ${mode} arms mode ${related} on activation, but mode ${related} cannot capture from mode ${mode}`
+          });
+        }
+      }
+
+      const cycle = APModeTransitionChecker.findRevertCycle(rules, mode);
+      if (cycle !== undefined && cycle[cycle.length - 1] === mode && cycle.length > 2) {
+        issues.push({ type: APModeTransitionIssueType.RevertCycle, axis, mode, relatedMode: cycle[1], message: `mode reversion cycle: ${cycle.join(' -> ')}` });
+      }
+    }
+
+    const reachable = APModeTransitionChecker.findReachableModes(rules, availableModes, defaultMode, autoArmedModes);
+    for (const mode of availableModes) {
+      if (mode !== 0 && !reachable.has(mode)) {
+        issues.push({ type: APModeTransitionIssueType.UnreachableMode, axis, mode, message: `mode ${mode} can never become active` });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Finds a cycle in the reversion chain starting from a mode.
+   * @param rules The rules for an axis.
+   * @param mode The mode from which to start.
+   * @returns The modes in the reversion chain from the specified mode up to and including the first repeated mode, or
+   * `undefined` if the chain does not contain a cycle.
+   */
+  private static findRevertCycle(rules: APModeTransitionRuleTable, mode: number): number[] | undefined {
+    const chain = [mode];
+    let current = rules[mode]?.revertsTo;
+
+    while (current !== undefined) {
+      chain.push(current);
+
+      if (chain.indexOf(current) !== chain.length - 1) {
+        return chain;
+      }
+
+      current = rules[current]?.revertsTo;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the modes on an axis that can become active.
+   * @param rules The rules for the axis.
+   * @param availableModes The modes on the axis for which the autopilot has directors.
+   * @param defaultMode The default mode on the axis, or `undefined` if the default mode is not fixed.
+   * @param autoArmedModes The modes on the axis that the autopilot arms automatically.
+   * @returns The modes on the axis that can become active.
+   */
+  private static findReachableModes(
+    rules: APModeTransitionRuleTable,
+    availableModes: ReadonlySet<number>,
+    defaultMode: number | undefined,
+    autoArmedModes: readonly number[]
+  ): Set<number> {
+    const reachable = new Set<number>([0]);
+
+    if (defaultMode !== undefined && availableModes.has(defaultMode)) {
+      reachable.add(defaultMode);
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+
+      for (const mode of availableModes) {
+        if (reachable.has(mode)) {
+          continue;
+        }
+
+        const rule = rules[mode];
+        let isReachable = rule?.selectable ?? true;
+
+        if (!isReachable) {
+          // A mode that cannot be selected must be armed automatically, be armed by another mode, or be reverted to.
+          const canCapture = rule?.capturesFrom === undefined || rule.capturesFrom.some(from => reachable.has(from));
+          isReachable = canCapture && autoArmedModes.includes(mode);
+
+          for (const other of reachable) {
+            if (isReachable) {
+              break;
+            }
+
+            isReachable = rules[other]?.revertsTo === mode || (canCapture && (rules[other]?.armsOnActivation?.includes(mode) ?? false));
+          }
+        }
+
+        if (isReachable) {
+          reachable.add(mode);
+          changed = true;
+        }
+      }
+    }
+
+    return reachable;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Autopilot mode axes.
+ */
+export enum APModeAxis {
+  Lateral = 'Lateral',
+  Vertical = 'Vertical'
+}
+
+/**
+ * A declarative description of how an autopilot mode transitions to and from other modes on the same axis.
+ */
+export type APModeTransitionRule = {
+  /**
+   * Whether the mode can be armed or activated directly by a mode selection (e.g. a mode button press). Modes that are
+   * not selectable can only be reached by capture after being armed by another mode, or by reversion. Defaults to
+   * `true`.
+   */
+  readonly selectable?: boolean;
+
+  /**
+   * The modes that can remain armed while this mode is armed. Arming this mode disarms any armed mode that is not in
+   * this list. If not defined, then arming this mode does not disarm any other mode.
+   */
+  readonly armsWith?: readonly number[];
+
+  /**
+   * The active modes from which this mode can capture (transition from armed to active). While armed, this mode is not
+   * evaluated for capture when any other mode is active. If not defined, then this mode can capture from any active
+   * mode.
+   */
+  readonly capturesFrom?: readonly number[];
+
+  /** The modes to arm when this mode becomes active. */
+  readonly armsOnActivation?: readonly number[];
+
+  /**
+   * The mode to which the autopilot reverts when this mode fails while active. If not defined, then the autopilot
+   * reverts to its default mode.
+   */
+  readonly revertsTo?: number;
+};
+
+/**
+ * A declarative table of autopilot mode transition rules, keyed by mode.
+ */
+export type APModeTransitionRuleTable = Readonly<Partial<Record<number, Readonly<APModeTransitionRule>>>>;
+
+/**
+ * A declarative description of autopilot mode transitions. Modes that do not have a rule defined can be selected
+ * directly, do not disarm other modes when armed, can capture from any active mode, and revert to the
+ * default mode.
+ */
+export type APModeTransitionTable = {
+  /** The lateral mode transition rules. */
+  readonly lateral?: APModeTransitionRuleTable;
+
+  /** The vertical mode transition rules. */
+  readonly vertical?: APModeTransitionRuleTable;
+};
+
+/**
+ * Answers queries about autopilot mode transitions against an {@link APModeTransitionTable}.
+ */
+export class APModeTransitions {
+  private static readonly EMPTY_RULE: Readonly<APModeTransitionRule> = {};
+
+  /**
+   * Creates a new instance of APModeTransitions.
+   * @param table The mode transition table to query.
+   */
+  public constructor(public readonly table: Readonly<APModeTransitionTable>) {
+  }
+
+  /**
+   * Gets the transition rule for a mode.
+   * @param axis The axis of the mode.
+   * @param mode The mode for which to get the rule.
+   * @returns The transition rule for the specified mode. If the table does not define a rule for the mode, then an
+   * empty rule is returned.
+   */
+  public getRule(axis: APModeAxis, mode: number): Readonly<APModeTransitionRule> {
+    return APModeTransitions.getRuleTable(this.table, axis)[mode] ?? APModeTransitions.EMPTY_RULE;
+  }
+
+  /**
+   * Checks whether a mode can be armed or activated directly by a mode selection.
+   * @param axis The axis of the mode.
+   * @param mode The mode to check.
+   * @returns Whether the specified mode can be armed or activated directly by a mode selection.
+   */
+  public isSelectable(axis: APModeAxis, mode: number): boolean {
+    return this.getRule(axis, mode).selectable ?? true;
+  }
+
+  /**
+   * Checks whether a mode that is already armed can remain armed when another mode is armed.
+   * @param axis The axis of the modes.
+   * @param armingMode The mode being armed.
+   * @param armedMode The mode that is already armed.
+   * @returns Whether the already-armed mode can remain armed when the other mode is armed. If the rule for the mode
+   * being armed does not define the modes it can be armed with, then this is always `true`.
+   */
+  public canArmWith(axis: APModeAxis, armingMode: number, armedMode: number): boolean {
+    return this.getRule(axis, armingMode).armsWith?.includes(armedMode) ?? true;
+  }
+
+  /**
+   * Checks whether an armed mode can capture from an active mode.
+   * @param axis The axis of the modes.
+   * @param armedMode The armed mode.
+   * @param activeMode The active mode.
+   * @returns Whether the armed mode can capture from the active mode.
+   */
+  public canCapture(axis: APModeAxis, armedMode: number, activeMode: number): boolean {
+    return this.getRule(axis, armedMode).capturesFrom?.includes(activeMode) ?? true;
+  }
+
+  /**
+   * Gets the modes to arm when a mode becomes active.
+   * @param axis The axis of the mode.
+   * @param mode The mode that became active.
+   * @returns The modes to arm when the specified mode becomes active.
+   */
+  public getArmsOnActivation(axis: APModeAxis, mode: number): readonly number[] {
+    return this.getRule(axis, mode).armsOnActivation ?? [];
+  }
+
+  /**
+   * Gets the mode to which the autopilot reverts when a mode fails while active.
+   * @param axis The axis of the mode.
+   * @param mode The mode that failed.
+   * @returns The mode to which the autopilot reverts when the specified mode fails, or `undefined` if the autopilot
+   * should revert to its default mode.
+   */
+  public getRevertMode(axis: APModeAxis, mode: number): number | undefined {
+    return this.getRule(axis, mode).revertsTo;
+  }
+
+  /**
+   * Gets the rule table for an axis from a mode transition table.
+   * @param table A mode transition table.
+   * @param axis The axis for which to get the rule table.
+   * @returns The rule table for the specified axis.
+   */
+  public static getRuleTable(table: Readonly<APModeTransitionTable>, axis: APModeAxis): APModeTransitionRuleTable {
+    return (axis === APModeAxis.Lateral ? table.lateral : table.vertical) ?? {};
+  }
+}
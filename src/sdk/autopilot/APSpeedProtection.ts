@@ -0,0 +1,277 @@
+import { ConsumerValue } from '../data/ConsumerValue';
+import { EventBus, Publisher } from '../data/EventBus';
+import { AdcEvents } from '../instruments/Adc';
+import { Accessible } from '../sub/Accessible';
+import { Subject } from '../sub/Subject';
+import { Subscribable } from '../sub/Subscribable';
+import { Value } from '../sub/Value';
+import { APVerticalModes } from './APTypes';
+import { APValues } from './APValues';
+import { GenericFlcComputer } from './calculators/GenericFlcComputer';
+
+/**
+ * Autopilot speed protection states.
+ */
+export enum APSpeedProtectionState {
+  /** Speed protection is not active. */
+  None = 'None',
+
+  /** Low speed protection is active. */
+  LowSpeed = 'LowSpeed',
+
+  /** High speed protection is active. */
+  HighSpeed = 'HighSpeed'
+}
+
+/**
+ * Events published by {@link APSpeedProtection}.
+ */
+export interface APSpeedProtectionEvents {
+  /** The autopilot's speed protection state. */
+  ap_speed_protection_state: APSpeedProtectionState;
+
+  /**
+   * The speed targeted by the autopilot's speed protection, rounded to the nearest knot indicated airspeed, or `null`
+   * if speed protection is not active.
+   */
+  ap_speed_protection_target_ias: number | null;
+}
+
+/**
+ * Options for {@link APSpeedProtection}.
+ */
+export type APSpeedProtectionOptions = {
+  /**
+   * The minimum speed, in knots indicated airspeed. Low speed protection activates when airspeed falls below this
+   * value. If not defined, then low speed protection is disabled.
+   */
+  minIas?: number | Accessible<number>;
+
+  /**
+   * The maximum operating speed (Vmo), in knots indicated airspeed. High speed protection activates when airspeed
+   * exceeds this value. If not defined, then the maximum operating speed is not protected.
+   */
+  maxIas?: number | Accessible<number>;
+
+  /**
+   * The maximum operating mach number (Mmo). High speed protection activates when airspeed exceeds the indicated
+   * airspeed equivalent of this value. If not defined, then the maximum operating mach number is not protected.
+   */
+  maxMach?: number | Accessible<number>;
+
+  /**
+   * The hysteresis applied to the speed limits, in knots. Speed protection deactivates once airspeed has recovered
+   * past the limit that triggered it by this amount. Defaults to `5`.
+   */
+  hysteresis?: number;
+
+  /**
+   * The margin beyond the limit that triggered speed protection that protection targets while active, in knots. The
+   * margin should be larger than the hysteresis so that airspeed can recover enough for protection to deactivate.
+   * Defaults to `10`.
+   */
+  targetMargin?: number;
+
+  /**
+   * The vertical modes in which speed protection can override the commanded pitch. Defaults to VS, FPA, PITCH, PATH,
+   * and ALT.
+   */
+  modes?: Iterable<number>;
+
+  /** The indicated airspeed source, in knots. Defaults to the `ias` topic published by the ADC. */
+  ias?: Accessible<number>;
+
+  /**
+   * The source of the conversion factor from mach number to knots indicated airspeed at the airplane's current
+   * altitude. Defaults to the `mach_to_kias_factor` topic published by the ADC.
+   */
+  machToKiasFactor?: Accessible<number>;
+
+  /** The FLC computer used to calculate the pitch required to fly the protection speed. */
+  flcComputer?: GenericFlcComputer;
+};
+
+/**
+ * An autopilot speed-on-elevator envelope protection layer. While the autopilot or flight director is engaged in one
+ * of the protected vertical modes, the layer monitors airspeed against minimum and maximum speed limits. When a limit
+ * is exceeded, the layer calculates the pitch required to return airspeed to within the limits and overrides any
+ * commanded pitch that would further decay or increase airspeed. The active vertical mode remains selected while
+ * protection is active, so the autopilot reverts to flying the mode once airspeed has recovered.
+ */
+export class APSpeedProtection {
+  private static readonly DEFAULT_MODES = [
+    APVerticalModes.VS,
+    APVerticalModes.FPA,
+    APVerticalModes.PITCH,
+    APVerticalModes.PATH,
+    APVerticalModes.ALT
+  ];
+
+  private readonly publisher: Publisher<APSpeedProtectionEvents>;
+
+  private readonly minIas?: Accessible<number>;
+  private readonly maxIas?: Accessible<number>;
+  private readonly maxMach?: Accessible<number>;
+  private readonly hysteresis: number;
+  private readonly targetMargin: number;
+  private readonly modes: ReadonlySet<number>;
+  private readonly ias: Accessible<number>;
+  private readonly machToKiasFactor: Accessible<number>;
+  private readonly flcComputer: GenericFlcComputer;
+
+  private readonly _state = Subject.create(APSpeedProtectionState.None);
+  /** The current speed protection state. */
+  public readonly state: Subscribable<APSpeedProtectionState> = this._state;
+
+  private targetIas: number | null = null;
+
+  /**
+   * Creates a new instance of APSpeedProtection.
+   * @param bus The event bus.
+   * @param apValues Autopilot values from this layer's parent autopilot.
+   * @param options Options with which to configure the layer.
+   */
+  public constructor(
+    bus: EventBus,
+    private readonly apValues: APValues,
+    options?: Readonly<APSpeedProtectionOptions>
+  ) {
+    this.publisher = bus.getPublisher<APSpeedProtectionEvents>();
+
+    this.minIas = APSpeedProtection.toAccessible(options?.minIas);
+    this.maxIas = APSpeedProtection.toAccessible(options?.maxIas);
+    this.maxMach = APSpeedProtection.toAccessible(options?.maxMach);
+    this.hysteresis = options?.hysteresis ?? 5;
+    this.targetMargin = options?.targetMargin ?? 10;
+    this.modes = new Set(options?.modes ?? APSpeedProtection.DEFAULT_MODES);
+    this.flcComputer = options?.flcComputer ?? new GenericFlcComputer({ kP: 2, kI: 0, kD: 0, maxOut: 90, minOut: -90 });
+
+    const sub = bus.getSubscriber<AdcEvents>();
+    this.ias = options?.ias ?? ConsumerValue.create(sub.on('ias'), 0);
+    this.machToKiasFactor = options?.machToKiasFactor ?? ConsumerValue.create(sub.on('mach_to_kias_factor'), 1);
+
+    this._state.sub(state => {
+      this.publisher.pub('ap_speed_protection_state', state, true, true);
+    }, true);
+    this.publisher.pub('ap_speed_protection_target_ias', null, true, true);
+  }
+
+  /**
+   * Updates this layer.
+   * @param isEngaged Whether the autopilot or flight director is engaged.
+   */
+  public update(isEngaged: boolean): void {
+    if (!isEngaged || !this.modes.has(this.apValues.verticalActive.get())) {
+      this.setState(APSpeedProtectionState.None);
+      return;
+    }
+
+    const ias = this.ias.get();
+    const minIas = this.minIas?.get() ?? -Infinity;
+    const maxIas = Math.min(this.maxIas?.get() ?? Infinity, (this.maxMach?.get() ?? Infinity) * this.machToKiasFactor.get());
+
+    switch (this._state.get()) {
+      case APSpeedProtectionState.None:
+        if (ias < minIas) {
+          this.setState(APSpeedProtectionState.LowSpeed);
+        } else if (ias > maxIas) {
+          this.setState(APSpeedProtectionState.HighSpeed);
+        }
+        break;
+      case APSpeedProtectionState.LowSpeed:
+        if (!(ias < minIas + this.hysteresis)) {
+          this.setState(APSpeedProtectionState.None);
+        }
+        break;
+      case APSpeedProtectionState.HighSpeed:
+        if (!(ias > maxIas - this.hysteresis)) {
+          this.setState(APSpeedProtectionState.None);
+        }
+        break;
+    }
+
+    switch (this._state.get()) {
+      case APSpeedProtectionState.LowSpeed:
+        this.setTargetIas(minIas + this.targetMargin);
+        break;
+      case APSpeedProtectionState.HighSpeed:
+        this.setTargetIas(maxIas - this.targetMargin);
+        break;
+      default:
+        return;
+    }
+
+    this.flcComputer.update();
+  }
+
+  /**
+   * Applies this layer's protection to a commanded pitch angle. While low speed protection is active, pitch angles
+   * above the protection pitch are replaced by the protection pitch. While high speed protection is active, pitch
+   * angles below the protection pitch are replaced by the protection pitch.
+   * @param pitch The commanded pitch angle, in degrees. Positive values indicate downward pitch.
+   * @returns The protected pitch angle, in degrees. Positive values indicate downward pitch.
+   */
+  public protectPitch(pitch: number): number {
+    const protectionPitch = this.flcComputer.pitchTarget.get();
+
+    if (protectionPitch === null) {
+      return pitch;
+    }
+
+    switch (this._state.get()) {
+      case APSpeedProtectionState.LowSpeed:
+        return Math.max(pitch, protectionPitch);
+      case APSpeedProtectionState.HighSpeed:
+        return Math.min(pitch, protectionPitch);
+      default:
+        return pitch;
+    }
+  }
+
+  /**
+   * Sets this layer's protection state.
+   * @param state The state to set.
+   */
+  private setState(state: APSpeedProtectionState): void {
+    if (state === this._state.get()) {
+      return;
+    }
+
+    if (state === APSpeedProtectionState.None) {
+      this.flcComputer.deactivate();
+      this.setTargetIas(null);
+    } else {
+      // Low speed protection must never pitch up to regain speed, and high speed protection must never pitch down to
+      // lose speed.
+      this.flcComputer.activate(state === APSpeedProtectionState.HighSpeed);
+    }
+
+    this._state.set(state);
+  }
+
+  /**
+   * Sets the speed targeted by this layer.
+   * @param ias The speed to target, in knots indicated airspeed, or `null` if protection is not active.
+   */
+  private setTargetIas(ias: number | null): void {
+    if (ias !== null) {
+      this.flcComputer.setTargetSpeed(ias);
+    }
+
+    // Mach-based limits change with altitude, so only publish changes in the whole-knot value.
+    const published = ias === null ? null : Math.round(ias);
+    if (published !== this.targetIas) {
+      this.targetIas = published;
+      this.publisher.pub('ap_speed_protection_target_ias', published, true, true);
+    }
+  }
+
+  /**
+   * Converts an optional number or accessible number to an accessible number.
+   * @param value The value to convert.
+   * @returns An accessible for the specified value, or `undefined` if the value is not defined.
+   */
+  private static toAccessible(value: number | Accessible<number> | undefined): Accessible<number> | undefined {
+    return typeof value === 'number' ? Value.create(value) : value;
+  }
+}
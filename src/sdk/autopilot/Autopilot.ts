@@ -15,6 +15,9 @@ import { MSFSAPStates } from '../navigation/AutopilotListener';
 import { Subject } from '../sub/Subject';
 import { APConfig } from './APConfig';
 import { APControlEvents } from './APControlEvents';
+import { APModeTransitionChecker } from './APModeTransitionChecker';
+import { APModeAxis, APModeTransitions, APModeTransitionTable } from './APModeTransitions';
+import { APSpeedProtection } from './APSpeedProtection';
 import { AutopilotModeVars } from './APModeVars';
 import { APAltitudeModes, APLateralModes, APVerticalModes } from './APTypes';
 import { APValues } from './APValues';
@@ -40,11 +43,17 @@ export class Autopilot<Config extends APConfig = APConfig> {
   /** This autopilot's variable bank angle Manager. */
   public readonly variableBankManager: Record<any, any> | undefined;
 
+  /** This autopilot's speed-on-elevator envelope protection layer, or `undefined` if speed protection is disabled. */
+  public readonly speedProtection: APSpeedProtection | undefined;
+
   /** This autopilot's sim autopilot driver. */
   protected readonly apDriver: AutopilotDriver;
 
   protected cdiSource: Readonly<NavSourceId> = { type: NavSourceType.Nav, index: 0 };
 
+  /** This autopilot's declarative mode transitions, or `undefined` if the configuration does not describe them. */
+  protected readonly modeTransitions?: APModeTransitions;
+
   protected readonly lateralModes = new Map<number, PlaneDirector>();
   protected readonly verticalModes = new Map<number, PlaneDirector>();
 
@@ -122,6 +131,12 @@ export class Autopilot<Config extends APConfig = APConfig> {
     }
 
     this.createDirectors(config);
+
+    if (config.modeTransitions) {
+      this.modeTransitions = new APModeTransitions(config.modeTransitions);
+      this.checkModeTransitions(config.modeTransitions);
+    }
+
     this.vnavManager = config.createVNavManager?.(this.apValues);
     this.navToNavManager = config.createNavToNavManager?.(this.apValues);
     this.variableBankManager = config.createVariableBankManager?.(this.apValues);
@@ -149,6 +164,11 @@ export class Autopilot<Config extends APConfig = APConfig> {
       this.config.autopilotDriverOptions
     );
 
+    if (config.speedProtectionOptions) {
+      const speedProtection = this.speedProtection = new APSpeedProtection(this.bus, this.apValues, config.speedProtectionOptions);
+      this.apDriver.setPitchProtection(speedProtection.protectPitch.bind(speedProtection));
+    }
+
     this.initLateralModes();
     this.initVerticalModes();
     this.initNavToNavManager();
@@ -195,6 +215,31 @@ export class Autopilot<Config extends APConfig = APConfig> {
     this.verticalModes.set(APVerticalModes.NONE, new APNoneVerticalDirector());
   }
 
+  /**
+   * Checks this autopilot's mode transition description for unreachable modes and conflicting transitions, and reports
+   * any issues found.
+   * @param table The mode transition description to check.
+   * @throws Error if any issues are found and this autopilot is configured to throw on mode transition issues.
+   */
+  protected checkModeTransitions(table: Readonly<APModeTransitionTable>): void {
+    const issues = APModeTransitionChecker.check(
+      table,
+      this.lateralModes.keys(),
+      this.verticalModes.keys(),
+      typeof this.config.defaultLateralMode === 'number' ? this.config.defaultLateralMode : undefined,
+      typeof this.config.defaultVerticalMode === 'number' ? this.config.defaultVerticalMode : undefined
+    );
+
+    for (const issue of issues) {
+      const message = `Autopilot: ${issue.axis.toLowerCase()} mode transition issue (${issue.type}): ${issue.message}`;
+      if (this.config.throwOnModeTransitionIssues) {
+        throw new Error(message);
+      } else {
+        console.warn(message);
+      }
+    }
+  }
+
   /**
    * Initializes this autopilot's lateral modes.
    */
@@ -370,6 +415,7 @@ export class Autopilot<Config extends APConfig = APConfig> {
       this.updateNavToNavManagerBefore();
       this.apDriver.update();
       this.checkModes();
+      this.updateSpeedProtection();
       this.manageAltitudeCapture();
       this.updateModes();
       this.updateNavToNavManagerAfter();
@@ -414,6 +460,9 @@ export class Autopilot<Config extends APConfig = APConfig> {
         return;
       }
     }
+    if (this.modeTransitions && !this.modeTransitions.isSelectable(APModeAxis.Lateral, mode)) {
+      return;
+    }
     if (set === undefined || set === true) {
       if (this.config.autoEngageFd !== false && !this.stateManager.isAnyFlightDirectorOn.get()) {
         this.stateManager.setFlightDirector(true);
@@ -462,6 +511,9 @@ export class Autopilot<Config extends APConfig = APConfig> {
         return;
       }
     }
+    if (this.modeTransitions && !this.modeTransitions.isSelectable(APModeAxis.Vertical, mode)) {
+      return;
+    }
     if (set === undefined || set === true) {
       if (this.config.autoEngageFd !== false && !this.stateManager.isAnyFlightDirectorOn.get()) {
         this.stateManager.setFlightDirector(true);
@@ -708,6 +760,7 @@ export class Autopilot<Config extends APConfig = APConfig> {
       const currentMode = this.lateralModes.get(lateralActive.get());
       currentMode?.deactivate();
       lateralActive.set(mode);
+      this.armModesOnActivation(APModeAxis.Lateral, mode);
     }
   }
 
@@ -740,6 +793,7 @@ export class Autopilot<Config extends APConfig = APConfig> {
         currentMode?.deactivate();
       }
       verticalActive.set(mode);
+      this.armModesOnActivation(APModeAxis.Vertical, mode);
     }
   }
 
@@ -749,6 +803,9 @@ export class Autopilot<Config extends APConfig = APConfig> {
    */
   protected setVerticalArmed(mode: number): void {
     const { verticalArmed } = this.apValues;
+    if (mode !== APVerticalModes.NONE) {
+      this.disarmIncompatibleVerticalModes(mode);
+    }
     if (mode !== verticalArmed.get()) {
       const currentMode = this.verticalModes.get(verticalArmed.get());
       if (currentMode?.state !== DirectorState.Inactive) {
@@ -767,11 +824,104 @@ export class Autopilot<Config extends APConfig = APConfig> {
       return;
     }
 
+    if (mode !== APVerticalModes.NONE) {
+      this.disarmIncompatibleVerticalModes(mode);
+    }
+
     const currentMode = this.verticalModes.get(this.verticalApproachArmed);
     currentMode?.deactivate();
     this.verticalApproachArmed = mode;
   }
 
+  /**
+   * Arms the modes that this autopilot's mode transition description specifies should be armed when a mode becomes
+   * active. Modes that are already armed or active are left unchanged.
+   * @param axis The axis of the mode that became active.
+   * @param mode The mode that became active.
+   */
+  protected armModesOnActivation(axis: APModeAxis, mode: number): void {
+    if (!this.modeTransitions) {
+      return;
+    }
+
+    const directors = axis === APModeAxis.Lateral ? this.lateralModes : this.verticalModes;
+    for (const armMode of this.modeTransitions.getArmsOnActivation(axis, mode)) {
+      const director = directors.get(armMode);
+      if (director?.state === DirectorState.Inactive) {
+        director.arm();
+      }
+    }
+  }
+
+  /**
+   * Disarms the armed vertical modes (including altitude capture) that this autopilot's mode transition description
+   * does not allow to remain armed while a mode is armed.
+   * @param mode The vertical mode being armed.
+   */
+  protected disarmIncompatibleVerticalModes(mode: number): void {
+    if (!this.modeTransitions) {
+      return;
+    }
+
+    const verticalArmed = this.apValues.verticalArmed.get();
+    if (verticalArmed !== APVerticalModes.NONE && verticalArmed !== mode && !this.modeTransitions.canArmWith(APModeAxis.Vertical, mode, verticalArmed)) {
+      this.setVerticalArmed(APVerticalModes.NONE);
+    }
+    if (
+      this.verticalApproachArmed !== APVerticalModes.NONE
+      && this.verticalApproachArmed !== mode
+      && !this.modeTransitions.canArmWith(APModeAxis.Vertical, mode, this.verticalApproachArmed)
+    ) {
+      this.setVerticalApproachArmed(APVerticalModes.NONE);
+    }
+    if (this.altCapArmed && mode !== APVerticalModes.CAP && !this.modeTransitions.canArmWith(APModeAxis.Vertical, mode, APVerticalModes.CAP)) {
+      this.verticalModes.get(APVerticalModes.CAP)?.deactivate();
+      this.altCapArmed = false;
+    }
+  }
+
+  /**
+   * Checks whether this autopilot's mode transition description allows altitude capture to be armed alongside the
+   * currently armed vertical modes. Because altitude capture is armed automatically, it is withheld while an
+   * incompatible mode is armed instead of disarming that mode. Altitude capture is only withheld when the rule for
+   * altitude capture or the rule for an armed mode explicitly excludes the other.
+   * @returns Whether altitude capture can be armed.
+   */
+  protected canArmAltitudeCapture(): boolean {
+    if (!this.modeTransitions) {
+      return true;
+    }
+
+    return this.canArmAltitudeCaptureWith(this.apValues.verticalArmed.get())
+      && this.canArmAltitudeCaptureWith(this.verticalApproachArmed);
+  }
+
+  /**
+   * Checks whether this autopilot's mode transition description allows altitude capture and an armed vertical mode to
+   * remain armed together.
+   * @param armedMode The armed vertical mode.
+   * @returns Whether altitude capture and the armed vertical mode can remain armed together.
+   */
+  protected canArmAltitudeCaptureWith(armedMode: number): boolean {
+    if (!this.modeTransitions || armedMode === APVerticalModes.NONE || armedMode === APVerticalModes.CAP) {
+      return true;
+    }
+
+    return this.modeTransitions.canArmWith(APModeAxis.Vertical, APVerticalModes.CAP, armedMode)
+      && this.modeTransitions.canArmWith(APModeAxis.Vertical, armedMode, APVerticalModes.CAP);
+  }
+
+  /**
+   * Checks whether this autopilot's mode transition description allows an armed mode to capture from an active mode.
+   * @param axis The axis of the modes.
+   * @param armedMode The armed mode.
+   * @param activeMode The active mode.
+   * @returns Whether the armed mode can capture from the active mode.
+   */
+  protected canModeCapture(axis: APModeAxis, armedMode: number, activeMode: number): boolean {
+    return this.modeTransitions?.canCapture(axis, armedMode, activeMode) ?? true;
+  }
+
   /**
    * Method called when the ALT button is pressed.
    */
@@ -802,14 +952,14 @@ export class Autopilot<Config extends APConfig = APConfig> {
       if (lateralActive.get() !== APLateralModes.NONE) {
         this.lateralModeFailed = true;
       }
-      this.lateralModes.get(this.getDefaultLateralMode())?.arm();
+      this.lateralModes.get(this.getRevertLateralMode(lateralActive.get()))?.arm();
     }
     if (lateralArmed.get() !== APLateralModes.NONE
       && (!this.lateralModes.has(lateralArmed.get()) || this.lateralModes.get(lateralArmed.get())?.state !== DirectorState.Armed)) {
       this.setLateralArmed(APLateralModes.NONE);
     }
     if (!this.verticalModes.has(verticalActive.get()) || this.verticalModes.get(verticalActive.get())?.state !== DirectorState.Active) {
-      this.verticalModes.get(this.getDefaultVerticalMode())?.arm();
+      this.verticalModes.get(this.getRevertVerticalMode(verticalActive.get()))?.arm();
     }
     if (verticalArmed.get() !== APVerticalModes.NONE
       && (!this.verticalModes.has(verticalArmed.get()) || this.verticalModes.get(verticalArmed.get())?.state !== DirectorState.Armed)) {
@@ -830,19 +980,31 @@ export class Autopilot<Config extends APConfig = APConfig> {
     if (lateralActive.get() !== APLateralModes.NONE && this.lateralModes.has(lateralActive.get())) {
       this.lateralModes.get(lateralActive.get())?.update();
     }
-    if (lateralArmed.get() !== APLateralModes.NONE && this.lateralModes.has(lateralArmed.get())) {
+    if (
+      lateralArmed.get() !== APLateralModes.NONE
+      && this.lateralModes.has(lateralArmed.get())
+      && this.canModeCapture(APModeAxis.Lateral, lateralArmed.get(), lateralActive.get())
+    ) {
       this.lateralModes.get(lateralArmed.get())?.update();
     }
     if (verticalActive.get() !== APVerticalModes.NONE && this.verticalModes.has(verticalActive.get())) {
       this.verticalModes.get(verticalActive.get())?.update();
     }
-    if (verticalArmed.get() !== APVerticalModes.NONE && this.verticalModes.has(verticalArmed.get())) {
+    if (
+      verticalArmed.get() !== APVerticalModes.NONE
+      && this.verticalModes.has(verticalArmed.get())
+      && this.canModeCapture(APModeAxis.Vertical, verticalArmed.get(), verticalActive.get())
+    ) {
       this.verticalModes.get(verticalArmed.get())?.update();
     }
-    if (this.verticalApproachArmed !== APVerticalModes.NONE && this.verticalModes.has(this.verticalApproachArmed)) {
+    if (
+      this.verticalApproachArmed !== APVerticalModes.NONE
+      && this.verticalModes.has(this.verticalApproachArmed)
+      && this.canModeCapture(APModeAxis.Vertical, this.verticalApproachArmed, verticalActive.get())
+    ) {
       this.verticalModes.get(this.verticalApproachArmed)?.update();
     }
-    if (this.altCapArmed) {
+    if (this.altCapArmed && this.canModeCapture(APModeAxis.Vertical, APVerticalModes.CAP, verticalActive.get())) {
       this.verticalModes.get(APVerticalModes.CAP)?.update();
     }
     //while vnav and vnav director are one in the same we always want to
@@ -850,6 +1012,13 @@ export class Autopilot<Config extends APConfig = APConfig> {
     this.vnavManager?.update();
   }
 
+  /**
+   * Updates this autopilot's speed protection layer.
+   */
+  protected updateSpeedProtection(): void {
+    this.speedProtection?.update(this.stateManager.apMasterOn.get() || this.stateManager.isAnyFlightDirectorOn.get());
+  }
+
   /**
    * Checks and sets the proper armed altitude mode.
    */
@@ -884,6 +1053,9 @@ export class Autopilot<Config extends APConfig = APConfig> {
     if (this.verticalAltitudeArmed !== altCapType) {
       this.verticalAltitudeArmed = altCapType;
     }
+    if (armAltCap && !this.canArmAltitudeCapture()) {
+      armAltCap = false;
+    }
     if (armAltCap && (!this.altCapArmed || this.verticalModes.get(APVerticalModes.CAP)?.state === DirectorState.Inactive)) {
       this.verticalModes.get(APVerticalModes.CAP)?.arm();
     } else if (!armAltCap && this.altCapArmed) {
@@ -1130,6 +1302,26 @@ export class Autopilot<Config extends APConfig = APConfig> {
     }
   }
 
+  /**
+   * Gets the lateral mode to which this autopilot reverts when a lateral mode fails.
+   * @param mode The lateral mode that failed.
+   * @returns The lateral mode to which this autopilot reverts when the specified mode fails.
+   */
+  protected getRevertLateralMode(mode: number): number {
+    const revertMode = this.modeTransitions?.getRevertMode(APModeAxis.Lateral, mode);
+    return revertMode !== undefined && this.lateralModes.has(revertMode) ? revertMode : this.getDefaultLateralMode();
+  }
+
+  /**
+   * Gets the vertical mode to which this autopilot reverts when a vertical mode fails.
+   * @param mode The vertical mode that failed.
+   * @returns The vertical mode to which this autopilot reverts when the specified mode fails.
+   */
+  protected getRevertVerticalMode(mode: number): number {
+    const revertMode = this.modeTransitions?.getRevertMode(APModeAxis.Vertical, mode);
+    return revertMode !== undefined && this.verticalModes.has(revertMode) ? revertMode : this.getDefaultVerticalMode();
+  }
+
   /**
    * Get the default vertical mode from APConfig
    * @returns default vertical mode
@@ -80,6 +80,8 @@ export class AutopilotDriver {
   private readonly rudderServo: LinearServo;
   private rudderSet = 0;
 
+  private pitchProtection?: (pitch: number) => number;
+
   private readonly verticalWindSmoother = new ExpSmoother(AutopilotDriver.VERTICAL_WIND_SMOOTHING_TAU);
   private verticalWindAverageValue = 0;
   private _lastVerticalWindTime?: number;
@@ -268,8 +270,8 @@ export class AutopilotDriver {
       }
 
       this._lastPitchSetTime = currentTime;
-      const limitedPitch = MathUtils.clamp(pitch, -maxNoseDownPitch, maxNoseUpPitch);
-      this.setPitch(this.pitchServo.drive(this.currentPitchRef, limitedPitch, currentTime, rate), false, maxNoseDownPitch, maxNoseUpPitch);
+      const limitedPitch = MathUtils.clamp(this.pitchProtection ? this.pitchProtection(pitch) : pitch, -maxNoseDownPitch, maxNoseUpPitch);
+      this.setPitchRef(this.pitchServo.drive(this.currentPitchRef, limitedPitch, currentTime, rate), false, maxNoseDownPitch, maxNoseUpPitch);
     } else {
       console.warn('AutopilotDriver: Non-finite pitch angle was attempted to be set.');
     }
@@ -283,6 +285,27 @@ export class AutopilotDriver {
    * @param maxNoseUpPitch The maximum nose up pitch angle, defaults to the global AP pitch limit.
    */
   public setPitch(pitch: number, resetServo = true, maxNoseDownPitch = this.apValues.maxNoseDownPitchAngle.get(), maxNoseUpPitch = this.apValues.maxNoseUpPitchAngle.get()): void {
+    this.setPitchRef(this.pitchProtection && isFinite(pitch) ? this.pitchProtection(pitch) : pitch, resetServo, maxNoseDownPitch, maxNoseUpPitch);
+  }
+
+  /**
+   * Sets a function which protects commanded pitch angles. The function is applied to the pitch angles passed to
+   * `setPitch()` and to the desired pitch angles passed to `drivePitch()` after they have been adjusted.
+   * @param protection A function which accepts a commanded pitch angle and returns the protected pitch angle, both in
+   * degrees with positive values indicating downward pitch, or `undefined` to remove pitch protection.
+   */
+  public setPitchProtection(protection: ((pitch: number) => number) | undefined): void {
+    this.pitchProtection = protection;
+  }
+
+  /**
+   * Sets the commanded autopilot pitch angle without applying pitch protection, in degrees.
+   * @param pitch The commanded pitch angle, in degrees. Positive values indicate downward pitch.
+   * @param resetServo Whether to reset the pitch servo.
+   * @param maxNoseDownPitch The maximum nose down pitch angle.
+   * @param maxNoseUpPitch The maximum nose up pitch angle.
+   */
+  private setPitchRef(pitch: number, resetServo: boolean, maxNoseDownPitch: number, maxNoseUpPitch: number): void {
     if (isFinite(pitch)) {
       this.currentPitchRef = MathUtils.clamp(pitch, -maxNoseDownPitch, maxNoseUpPitch);
       SimVar.SetSimVarValue('AUTOPILOT PITCH HOLD REF', SimVarValueType.Degree, this.currentPitchRef);
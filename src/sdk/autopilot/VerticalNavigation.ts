@@ -118,6 +118,12 @@ export interface VerticalFlightPlan {
 
   /** Whether the corresponding lateral flight plan has changed since the last time this plan was calculated. */
   planChanged: boolean;
+
+  /**
+   * The energy profile planned for this plan's descent path, or `undefined` if the path calculator that computed this
+   * plan does not perform energy planning.
+   */
+  energyProfile?: VNavEnergyProfile;
 }
 
 /**
@@ -281,6 +287,148 @@ export interface VNavConstraint {
   isBeyondFaf: boolean;
 }
 
+/**
+ * Predicted energy states for flying a VNAV descent path leg.
+ */
+export enum VNavEnergyState {
+  /** The leg can be flown with idle or greater thrust. */
+  Normal = 'Normal',
+
+  /** The leg requires more drag than is available with idle thrust in a clean configuration. */
+  DragRequired = 'DragRequired',
+
+  /** The leg is too steep to be flown even with additional drag. */
+  TooSteep = 'TooSteep'
+}
+
+/**
+ * A prediction of the energy required to fly a VNAV descent path leg while meeting the speed constraints along the
+ * path.
+ */
+export interface VNavLegEnergyPrediction {
+  /** The global index of the flight plan leg. */
+  globalLegIndex: number;
+
+  /** The predicted energy state for the leg. */
+  state: VNavEnergyState;
+
+  /** The planned indicated airspeed at the start of the leg, in knots. */
+  startSpeed: number;
+
+  /** The planned indicated airspeed at the end of the leg, in knots. */
+  endSpeed: number;
+
+  /**
+   * The distance from the end of the leg at which the airplane must begin decelerating to meet the planned speed at
+   * the end of the leg, in meters, or `-1` if the airplane does not need to decelerate along the leg.
+   */
+  decelDistance: number;
+
+  /**
+   * The steepest flight path angle, in degrees, along the leg that would require the same energy dissipation at
+   * constant speed as flying the leg's path while making the planned speed change. Positive values indicate a
+   * descending path.
+   */
+  equivalentFpa: number;
+}
+
+/**
+ * A point along a VNAV descent path at which the airplane must begin decelerating to meet a speed constraint.
+ */
+export interface VNavDecelPoint {
+  /** The global index of the flight plan leg that contains the decel point. */
+  legIndex: number;
+
+  /** The distance from the decel point to the end of its containing leg, in meters. */
+  legDistance: number;
+
+  /** The global index of the flight plan leg at the end of which the airplane reaches the target speed. */
+  targetLegIndex: number;
+
+  /** The planned indicated airspeed at the decel point, in knots. */
+  startSpeed: number;
+
+  /** The planned indicated airspeed at the end of the deceleration, in knots. */
+  targetSpeed: number;
+}
+
+/**
+ * A continuous section of a VNAV descent path that is predicted to be flown in the same energy state.
+ */
+export interface VNavEnergySegment {
+  /** The predicted energy state for the segment. */
+  state: VNavEnergyState;
+
+  /** The global index of the flight plan leg that contains the start of the segment. */
+  startLegIndex: number;
+
+  /** The distance from the start of the segment to the end of its containing leg, in meters. */
+  startLegDistance: number;
+
+  /** The global index of the flight plan leg that contains the end of the segment. */
+  endLegIndex: number;
+
+  /** The distance from the end of the segment to the end of its containing leg, in meters. */
+  endLegDistance: number;
+
+  /**
+   * The steepest equivalent flight path angle along the segment, in degrees. Positive values indicate a descending
+   * path.
+   */
+  equivalentFpa: number;
+}
+
+/**
+ * An energy profile planned for a VNAV descent path.
+ */
+export interface VNavEnergyProfile {
+  /** The energy predictions for the legs of the descent path, in flight plan order. */
+  legPredictions: readonly Readonly<VNavLegEnergyPrediction>[];
+
+  /** The decel points along the descent path, in flight plan order. */
+  decelPoints: readonly Readonly<VNavDecelPoint>[];
+
+  /** The energy segments along the descent path, in flight plan order. */
+  segments: readonly Readonly<VNavEnergySegment>[];
+}
+
+/**
+ * A predicted point along a VNAV climb or cruise path.
+ */
+export interface VNavClimbPathPoint {
+  /** The global index of the flight plan leg that contains the point. */
+  globalLegIndex: number;
+
+  /** The distance from the point to the end of its containing leg, in meters. */
+  legDistance: number;
+
+  /** The distance along the flight path from the airplane's present position to the point, in meters. */
+  distance: number;
+
+  /** The predicted altitude at the point, in meters. */
+  altitude: number;
+
+  /** The predicted time to fly from the airplane's present position to the point, in seconds. */
+  time: number;
+
+  /** The predicted fuel burned between the airplane's present position and the point, in pounds. */
+  fuelBurned: number;
+}
+
+/**
+ * A predicted step climb along a VNAV cruise path.
+ */
+export interface VNavStepClimbPrediction {
+  /** The point at which the step climb begins. */
+  start: VNavClimbPathPoint;
+
+  /** The point at which the step climb reaches its new cruise altitude. */
+  end: VNavClimbPathPoint;
+
+  /** The predicted optimum cruise altitude for the airplane's weight at the start of the step climb, in meters. */
+  optimumAltitude: number;
+}
+
 /**
  * A segment in the Vertical Flight Plan.
  */
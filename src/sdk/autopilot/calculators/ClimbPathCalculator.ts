@@ -0,0 +1,478 @@
+import { EventBus } from '../../data/EventBus';
+import { FlightPlan } from '../../flightplan/FlightPlan';
+import { FlightPlanner } from '../../flightplan/FlightPlanner';
+import { UnitType } from '../../math/NumberUnit';
+import { Accessible } from '../../sub/Accessible';
+import { Value } from '../../sub/Value';
+import { LerpLookupTable } from '../../utils/datastructures/LerpLookupTable';
+import { VerticalFlightPlan, VNavClimbPathPoint, VNavStepClimbPrediction } from '../VerticalNavigation';
+import { VNavDataEvents } from '../vnav/VNavDataEvents';
+import { VNavUtils } from '../vnav/VNavUtils';
+
+/**
+ * Aircraft performance tables used to predict climb and cruise paths. Climb and cruise tables are two-dimensional
+ * tables keyed by pressure altitude, in feet, followed by gross weight, in pounds.
+ */
+export type ClimbPerformanceTables = {
+  /** The climb rate, in feet per minute. */
+  climbRate: LerpLookupTable;
+
+  /** The climb true airspeed, in knots. */
+  climbTrueAirspeed: LerpLookupTable;
+
+  /** The climb fuel flow, in pounds per hour. */
+  climbFuelFlow: LerpLookupTable;
+
+  /** The cruise true airspeed, in knots. If not defined, then the climb true airspeed is used for level flight. */
+  cruiseTrueAirspeed?: LerpLookupTable;
+
+  /** The cruise fuel flow, in pounds per hour. If not defined, then the climb fuel flow is used for level flight. */
+  cruiseFuelFlow?: LerpLookupTable;
+
+  /**
+   * The optimum cruise altitude, in feet. A one-dimensional table keyed by gross weight, in pounds. If not defined,
+   * then step climbs are not planned.
+   */
+  optimumAltitude?: LerpLookupTable;
+};
+
+/**
+ * Options for {@link ClimbPathCalculator}.
+ */
+export type ClimbPathCalculatorOptions = {
+  /** The index of the VNAV associated with the calculator. Defaults to `0`. */
+  index?: number;
+
+  /** The altitude increment of step climbs, in feet. A value less than or equal to zero disables step climbs. Defaults to `2000`. */
+  stepSize?: number;
+
+  /** The maximum altitude to which to plan step climbs, in feet. If not defined, then step climbs are limited only by the optimum altitude. */
+  maxAltitude?: number | Accessible<number>;
+
+  /**
+   * The minimum distance that must remain between the start of a step climb and the end of cruise for the step climb
+   * to be planned, in nautical miles. Defaults to `50`.
+   */
+  minStepCruiseDistance?: number;
+
+  /** The time step with which climbs are predicted, in seconds. Defaults to `30`. */
+  climbTimeStep?: number;
+
+  /** The distance step with which cruise segments are predicted, in nautical miles. Defaults to `10`. */
+  cruiseDistanceStep?: number;
+};
+
+/**
+ * Climb and cruise path predictions for a flight plan.
+ */
+export interface ClimbPathPredictions {
+  /** The predicted climb and cruise path, from the airplane's present position to the end of cruise. */
+  readonly path: readonly Readonly<VNavClimbPathPoint>[];
+
+  /** The predicted top of climb to cruise altitude, or `null` if there is no top of climb. */
+  readonly toc: Readonly<VNavClimbPathPoint> | null;
+
+  /** The predicted step climbs along the cruise path. */
+  readonly stepClimbs: readonly Readonly<VNavStepClimbPrediction>[];
+}
+
+/**
+ * The state of the airplane along a predicted climb path.
+ */
+type ClimbPathState = {
+  /** The distance along the flight path from the airplane's present position, in meters. */
+  distance: number;
+
+  /** The altitude, in meters. */
+  altitude: number;
+
+  /** The time since the airplane's present position, in seconds. */
+  time: number;
+
+  /** The fuel burned since the airplane's present position, in pounds. */
+  fuelBurned: number;
+
+  /** The gross weight, in pounds. */
+  weight: number;
+};
+
+/**
+ * A climb altitude limit imposed by a VNAV climb constraint.
+ */
+type ClimbCeiling = {
+  /** The distance along the flight path from the airplane's present position to the constraint, in meters. */
+  distance: number;
+
+  /** The maximum altitude of the constraint, in meters. */
+  altitude: number;
+};
+
+/**
+ * Predicts climb paths, top of climb, and step climbs for flight plans using aircraft performance tables. Climbs are
+ * predicted from the airplane's present position to the cruise altitude, leveling off at the maximum altitudes of
+ * VNAV climb constraints along the way. Once at cruise altitude, a step climb is planned whenever fuel burn has
+ * reduced the airplane's weight enough that the optimum altitude is at or above the next step altitude. Predictions
+ * assume zero wind. Predictions for the primary flight plan are published to the `vnav_climb_path`,
+ * `vnav_toc_prediction`, and `vnav_step_climb_predictions` topics.
+ */
+export class ClimbPathCalculator {
+  private static readonly ALTITUDE_TOLERANCE = 1; // meters
+
+  private readonly index: number;
+  private readonly stepSize: number;
+  private readonly maxAltitude?: Accessible<number>;
+  private readonly minStepCruiseDistance: number;
+  private readonly climbTimeStep: number;
+  private readonly cruiseDistanceStep: number;
+
+  private readonly predictions: (ClimbPathPredictions | undefined)[] = [];
+
+  private readonly legEndDistances: number[] = [];
+
+  /**
+   * Creates a new instance of ClimbPathCalculator.
+   * @param bus The event bus.
+   * @param flightPlanner The flight planner containing the flight plans for which to predict paths.
+   * @param primaryPlanIndex The index of the primary flight plan.
+   * @param performance The aircraft performance tables with which to predict paths.
+   * @param options Options with which to configure the calculator.
+   */
+  public constructor(
+    private readonly bus: EventBus,
+    private readonly flightPlanner: FlightPlanner,
+    private readonly primaryPlanIndex: number,
+    private readonly performance: Readonly<ClimbPerformanceTables>,
+    options?: Readonly<ClimbPathCalculatorOptions>
+  ) {
+    this.index = options?.index ?? 0;
+    this.stepSize = options?.stepSize ?? 2000;
+    this.maxAltitude = typeof options?.maxAltitude === 'number' ? Value.create(options.maxAltitude) : options?.maxAltitude;
+    this.minStepCruiseDistance = UnitType.NMILE.convertTo(options?.minStepCruiseDistance ?? 50, UnitType.METER);
+    this.climbTimeStep = Math.max(1, options?.climbTimeStep ?? 30);
+    this.cruiseDistanceStep = UnitType.NMILE.convertTo(Math.max(0.1, options?.cruiseDistanceStep ?? 10), UnitType.METER);
+
+    this.flightPlanner.onEvent('fplDeleted').handle(e => { this.predictions[e.planIndex] = undefined; });
+  }
+
+  /**
+   * Gets the most recently computed climb and cruise path predictions for a flight plan.
+   * @param planIndex The index of the flight plan.
+   * @returns The most recently computed predictions for the specified flight plan, or `undefined` if predictions have
+   * not been computed for the plan.
+   */
+  public getPredictions(planIndex: number): ClimbPathPredictions | undefined {
+    return this.predictions[planIndex];
+  }
+
+  /**
+   * Computes climb and cruise path predictions for a flight plan. Cruise ends at the beginning of the leg containing
+   * the first VNAV descent constraint, or at the end of the flight plan if there are no descent constraints.
+   * @param planIndex The index of the flight plan.
+   * @param activeLegIndex The global index of the active flight plan leg.
+   * @param distanceAlongLeg The distance the airplane is along the active leg, in meters.
+   * @param altitude The airplane's current pressure altitude, in meters.
+   * @param grossWeight The airplane's current gross weight, in pounds.
+   * @param cruiseAltitude The cruise altitude, in meters.
+   * @param verticalPlan The vertical flight plan containing the VNAV constraints of the flight plan. If not defined,
+   * then VNAV climb and descent constraints are ignored.
+   * @returns The computed predictions.
+   * @throws Error if the flight plan does not exist.
+   */
+  public computePredictions(
+    planIndex: number,
+    activeLegIndex: number,
+    distanceAlongLeg: number,
+    altitude: number,
+    grossWeight: number,
+    cruiseAltitude: number,
+    verticalPlan?: VerticalFlightPlan
+  ): ClimbPathPredictions {
+    const lateralPlan = this.flightPlanner.getFlightPlan(planIndex);
+
+    const path: VNavClimbPathPoint[] = [];
+    const stepClimbs: VNavStepClimbPrediction[] = [];
+    let toc: VNavClimbPathPoint | null = null;
+
+    const cruiseEndLegIndex = this.getCruiseEndLegIndex(lateralPlan, verticalPlan);
+
+    if (activeLegIndex >= 0 && activeLegIndex <= cruiseEndLegIndex) {
+      this.updateLegEndDistances(lateralPlan, activeLegIndex, distanceAlongLeg, cruiseEndLegIndex);
+
+      const cruiseEndDistance = this.legEndDistances[this.legEndDistances.length - 1];
+      const ceilings = verticalPlan ? this.getClimbCeilings(verticalPlan, activeLegIndex) : [];
+      const state: ClimbPathState = { distance: 0, altitude, time: 0, fuelBurned: 0, weight: grossWeight };
+
+      path.push(this.createPoint(state, activeLegIndex));
+
+      let cruiseLevel = Math.max(cruiseAltitude, altitude);
+      if (altitude < cruiseAltitude - ClimbPathCalculator.ALTITUDE_TOLERANCE) {
+        if (this.climb(state, cruiseAltitude, ceilings, cruiseEndDistance, path, activeLegIndex)) {
+          toc = path[path.length - 1];
+        } else {
+          cruiseLevel = state.altitude;
+        }
+      }
+
+      this.cruise(state, cruiseLevel, cruiseEndDistance, path, stepClimbs, activeLegIndex);
+    }
+
+    const predictions: ClimbPathPredictions = { path, toc, stepClimbs };
+    this.predictions[planIndex] = predictions;
+
+    if (planIndex === this.primaryPlanIndex) {
+      const suffix = VNavUtils.getEventBusTopicSuffix(this.index);
+      const publisher = this.bus.getPublisher<VNavDataEvents>();
+      publisher.pub(`vnav_climb_path${suffix}`, path, true, true);
+      publisher.pub(`vnav_toc_prediction${suffix}`, toc, true, true);
+      publisher.pub(`vnav_step_climb_predictions${suffix}`, stepClimbs, true, true);
+    }
+
+    return predictions;
+  }
+
+  /**
+   * Predicts a climb to a target altitude, leveling off at climb ceilings along the way.
+   * @param state The predicted airplane state. Will be advanced to the end of the climb.
+   * @param targetAltitude The target altitude, in meters.
+   * @param ceilings The climb ceilings along the flight path, in order of increasing distance.
+   * @param endDistance The distance along the flight path at which to stop the prediction, in meters.
+   * @param path The path to which to add predicted points.
+   * @param activeLegIndex The global index of the active flight plan leg.
+   * @returns Whether the target altitude was reached.
+   */
+  private climb(
+    state: ClimbPathState,
+    targetAltitude: number,
+    ceilings: readonly ClimbCeiling[],
+    endDistance: number,
+    path: VNavClimbPathPoint[],
+    activeLegIndex: number
+  ): boolean {
+    while (state.altitude < targetAltitude - ClimbPathCalculator.ALTITUDE_TOLERANCE) {
+      if (state.distance >= endDistance) {
+        return false;
+      }
+
+      // The airplane must remain at or below every climb constraint it has not yet passed.
+      let ceiling = targetAltitude;
+      let ceilingEndDistance = endDistance;
+      for (let i = 0; i < ceilings.length; i++) {
+        const c = ceilings[i];
+        if (c.distance > state.distance && c.altitude < ceiling) {
+          ceiling = c.altitude;
+          ceilingEndDistance = Math.min(c.distance, endDistance);
+        }
+      }
+
+      if (state.altitude >= ceiling - ClimbPathCalculator.ALTITUDE_TOLERANCE) {
+        this.fly(state, ceilingEndDistance);
+        path.push(this.createPoint(state, activeLegIndex));
+        continue;
+      }
+
+      const altitudeFeet = UnitType.METER.convertTo(state.altitude, UnitType.FOOT);
+      const climbRate = this.performance.climbRate.get(altitudeFeet, state.weight);
+
+      if (!(climbRate > 0)) {
+        return false;
+      }
+
+      const speed = UnitType.KNOT.convertTo(this.performance.climbTrueAirspeed.get(altitudeFeet, state.weight), UnitType.MPS);
+      const fuelFlow = this.performance.climbFuelFlow.get(altitudeFeet, state.weight);
+      const climbRateMps = UnitType.FPM.convertTo(climbRate, UnitType.MPS);
+
+      const dt = Math.min(
+        this.climbTimeStep,
+        (ceiling - state.altitude) / climbRateMps,
+        speed > 0 ? (endDistance - state.distance) / speed : Infinity
+      );
+
+      this.advance(state, dt, speed, fuelFlow);
+      state.altitude = Math.min(state.altitude + climbRateMps * dt, ceiling);
+      path.push(this.createPoint(state, activeLegIndex));
+    }
+
+    return true;
+  }
+
+  /**
+   * Predicts a cruise to the end of cruise, planning step climbs along the way.
+   * @param state The predicted airplane state. Will be advanced to the end of cruise.
+   * @param cruiseAltitude The initial cruise altitude, in meters.
+   * @param endDistance The distance along the flight path to the end of cruise, in meters.
+   * @param path The path to which to add predicted points.
+   * @param stepClimbs The array to which to add predicted step climbs.
+   * @param activeLegIndex The global index of the active flight plan leg.
+   */
+  private cruise(
+    state: ClimbPathState,
+    cruiseAltitude: number,
+    endDistance: number,
+    path: VNavClimbPathPoint[],
+    stepClimbs: VNavStepClimbPrediction[],
+    activeLegIndex: number
+  ): void {
+    const optimumAltitudeTable = this.performance.optimumAltitude;
+    const stepSize = UnitType.FOOT.convertTo(this.stepSize, UnitType.METER);
+    const maxAltitude = this.maxAltitude === undefined ? Infinity : UnitType.FOOT.convertTo(this.maxAltitude.get(), UnitType.METER);
+
+    let canStep = optimumAltitudeTable !== undefined && stepSize > 0;
+
+    while (state.distance < endDistance) {
+      if (canStep && optimumAltitudeTable && endDistance - state.distance >= this.minStepCruiseDistance) {
+        const stepAltitude = cruiseAltitude + stepSize;
+        const optimumAltitude = UnitType.FOOT.convertTo(optimumAltitudeTable.get(state.weight), UnitType.METER);
+
+        if (stepAltitude <= maxAltitude && optimumAltitude >= stepAltitude) {
+          // Climb performance decreases with altitude, so the step can only be made if the airplane can still climb
+          // at the step altitude.
+          canStep = this.performance.climbRate.get(UnitType.METER.convertTo(stepAltitude, UnitType.FOOT), state.weight) > 0;
+
+          if (canStep) {
+            const start = this.createPoint(state, activeLegIndex);
+            if (start.distance > path[path.length - 1].distance) {
+              path.push(start);
+            }
+
+            if (this.climb(state, stepAltitude, [], endDistance, path, activeLegIndex)) {
+              stepClimbs.push({ start, end: path[path.length - 1], optimumAltitude });
+            } else {
+              // The step could not be completed (the airplane stopped climbing below the step altitude, possibly
+              // without making any progress), so further steps cannot be made either.
+              canStep = false;
+            }
+
+            cruiseAltitude = state.altitude;
+          }
+
+          continue;
+        }
+      }
+
+      this.fly(state, Math.min(state.distance + this.cruiseDistanceStep, endDistance));
+    }
+
+    const end = this.createPoint(state, activeLegIndex);
+    if (end.distance > path[path.length - 1].distance) {
+      path.push(end);
+    }
+  }
+
+  /**
+   * Predicts level flight to a distance along the flight path.
+   * @param state The predicted airplane state. Will be advanced to the end of level flight.
+   * @param endDistance The distance along the flight path at which level flight ends, in meters.
+   */
+  private fly(state: ClimbPathState, endDistance: number): void {
+    const altitudeFeet = UnitType.METER.convertTo(state.altitude, UnitType.FOOT);
+    const speedTable = this.performance.cruiseTrueAirspeed ?? this.performance.climbTrueAirspeed;
+    const fuelFlowTable = this.performance.cruiseFuelFlow ?? this.performance.climbFuelFlow;
+
+    const speed = UnitType.KNOT.convertTo(speedTable.get(altitudeFeet, state.weight), UnitType.MPS);
+    const distance = endDistance - state.distance;
+
+    if (speed > 0) {
+      this.advance(state, distance / speed, speed, fuelFlowTable.get(altitudeFeet, state.weight));
+    } else {
+      state.distance = endDistance;
+    }
+  }
+
+  /**
+   * Advances a predicted airplane state in time, without changing its altitude.
+   * @param state The predicted airplane state.
+   * @param dt The time by which to advance the state, in seconds.
+   * @param speed The airplane's speed along the flight path, in meters per second.
+   * @param fuelFlow The airplane's fuel flow, in pounds per hour.
+   */
+  private advance(state: ClimbPathState, dt: number, speed: number, fuelFlow: number): void {
+    const fuel = Math.max(0, fuelFlow) * dt / 3600;
+
+    state.distance += speed * dt;
+    state.time += dt;
+    state.fuelBurned += fuel;
+    state.weight -= fuel;
+  }
+
+  /**
+   * Creates a predicted climb path point from a predicted airplane state.
+   * @param state The predicted airplane state.
+   * @param activeLegIndex The global index of the active flight plan leg.
+   * @returns A predicted climb path point for the specified state.
+   */
+  private createPoint(state: Readonly<ClimbPathState>, activeLegIndex: number): VNavClimbPathPoint {
+    let i = 0;
+    while (i < this.legEndDistances.length - 1 && this.legEndDistances[i] < state.distance) {
+      i++;
+    }
+
+    return {
+      globalLegIndex: activeLegIndex + i,
+      legDistance: Math.max(0, this.legEndDistances[i] - state.distance),
+      distance: state.distance,
+      altitude: state.altitude,
+      time: state.time,
+      fuelBurned: state.fuelBurned
+    };
+  }
+
+  /**
+   * Updates the distances along the flight path from the airplane's present position to the end of each leg from the
+   * active leg to the cruise end leg.
+   * @param lateralPlan The lateral flight plan.
+   * @param activeLegIndex The global index of the active flight plan leg.
+   * @param distanceAlongLeg The distance the airplane is along the active leg, in meters.
+   * @param cruiseEndLegIndex The global index of the last leg of cruise.
+   */
+  private updateLegEndDistances(lateralPlan: FlightPlan, activeLegIndex: number, distanceAlongLeg: number, cruiseEndLegIndex: number): void {
+    this.legEndDistances.length = 0;
+
+    const activeLeg = lateralPlan.tryGetLeg(activeLegIndex);
+    const activeLegCumulativeDistance = activeLeg?.calculated?.cumulativeDistanceWithTransitions ?? 0;
+    const activeLegDistanceRemaining = Math.max(0, (activeLeg?.calculated?.distanceWithTransitions ?? 0) - distanceAlongLeg);
+
+    for (let i = activeLegIndex; i <= cruiseEndLegIndex; i++) {
+      const cumulativeDistance = lateralPlan.tryGetLeg(i)?.calculated?.cumulativeDistanceWithTransitions ?? activeLegCumulativeDistance;
+      this.legEndDistances.push(activeLegDistanceRemaining + cumulativeDistance - activeLegCumulativeDistance);
+    }
+  }
+
+  /**
+   * Gets the global index of the last leg of cruise for a flight plan.
+   * @param lateralPlan The lateral flight plan.
+   * @param verticalPlan The vertical flight plan, if any.
+   * @returns The global index of the last leg of cruise.
+   */
+  private getCruiseEndLegIndex(lateralPlan: FlightPlan, verticalPlan: VerticalFlightPlan | undefined): number {
+    const firstDescentConstraint = verticalPlan?.constraints[VNavUtils.getFirstDescentConstraintIndex(verticalPlan)];
+    return firstDescentConstraint ? firstDescentConstraint.index - 1 : lateralPlan.length - 1;
+  }
+
+  /**
+   * Gets the climb ceilings imposed by the VNAV climb constraints at or after the active leg in a vertical flight plan.
+   * @param verticalPlan The vertical flight plan.
+   * @param activeLegIndex The global index of the active flight plan leg.
+   * @returns The climb ceilings imposed by the vertical flight plan's climb constraints, in order of increasing
+   * distance.
+   */
+  private getClimbCeilings(verticalPlan: VerticalFlightPlan, activeLegIndex: number): ClimbCeiling[] {
+    const ceilings: ClimbCeiling[] = [];
+
+    // Constraints are ordered from the end of the flight plan to the beginning.
+    for (let i = verticalPlan.constraints.length - 1; i >= 0; i--) {
+      const constraint = verticalPlan.constraints[i];
+      const legEndIndex = constraint.index - activeLegIndex;
+
+      if (
+        constraint.type === 'climb'
+        && isFinite(constraint.maxAltitude)
+        && legEndIndex >= 0
+        && legEndIndex < this.legEndDistances.length
+      ) {
+        ceilings.push({ distance: this.legEndDistances[legEndIndex], altitude: constraint.maxAltitude });
+      }
+    }
+
+    return ceilings;
+  }
+}
@@ -1,19 +1,50 @@
 import { EventBus } from '../../data/EventBus';
 import {
   FlightPlan, FlightPlanCalculatedEvent, FlightPlanLegEvent, FlightPlanner, FlightPlanSegment, FlightPlanSegmentEvent,
-  FlightPlanSegmentType, LegDefinition, LegDefinitionFlags, VerticalFlightPhase
+  FlightPlanSegmentType, LegDefinition, LegDefinitionFlags, SpeedUnit, VerticalFlightPhase
 } from '../../flightplan';
 import { GeoPoint } from '../../geo/GeoPoint';
+import { AeroMath } from '../../math/AeroMath';
 import { BitFlags } from '../../math/BitFlags';
 import { MathUtils } from '../../math/MathUtils';
 import { UnitType } from '../../math/NumberUnit';
-import { AltitudeRestrictionType, LegType } from '../../navigation';
-import { ReadonlySubEvent, SubEvent } from '../../sub';
-import { AltitudeConstraintDetails, VerticalFlightPlan, VNavConstraint } from '../VerticalNavigation';
+import { AltitudeRestrictionType, LegType, SpeedRestrictionType } from '../../navigation';
+import { Accessible, ReadonlySubEvent, SubEvent, Value } from '../../sub';
+import {
+  AltitudeConstraintDetails, VerticalFlightPlan, VNavConstraint, VNavDecelPoint, VNavEnergySegment, VNavEnergyState, VNavLeg,
+  VNavLegEnergyPrediction
+} from '../VerticalNavigation';
 import { VNavControlEvents } from '../vnav/VNavControlEvents';
+import { VNavDataEvents } from '../vnav/VNavDataEvents';
 import { VNavUtils } from '../vnav/VNavUtils';
 import { VNavPathCalculator } from './VNavPathCalculator';
 
+/**
+ * Options for energy planning of descent paths by a SmoothingPathCalculator.
+ */
+export type SmoothingPathEnergyPlanningOptions = {
+  /**
+   * The indicated airspeed, in knots, flown during the descent when the airplane is not slowing for a speed
+   * constraint. Defaults to 250 knots.
+   */
+  descentSpeed?: number | Accessible<number>;
+
+  /**
+   * The steepest flight path angle, in degrees, that the airplane can fly at constant speed with idle thrust in a clean
+   * configuration. Increasingly positive values indicate steeper descents. Defaults to 2.5 degrees.
+   */
+  idleFpa?: number | Accessible<number>;
+
+  /**
+   * The steepest flight path angle, in degrees, that the airplane can fly at constant speed with idle thrust and
+   * maximum available drag. Increasingly positive values indicate steeper descents. Defaults to 4 degrees.
+   */
+  dragFpa?: number | Accessible<number>;
+
+  /** The rate at which the airplane decelerates to meet speed constraints, in knots per nautical mile. Defaults to 10. */
+  decelerationRate?: number;
+};
+
 /**
  * Options for a SmoothingPathCalculator.
  */
@@ -126,6 +157,15 @@ export type SmoothingPathCalculatorOptions = {
     requiredFpa: number,
     maxFpa: number
   ) => boolean;
+
+  /**
+   * Options for energy planning of descent paths. If defined, the calculator plans the speed profile along each
+   * descent path, places decel points for speed constraints, divides the path into segments that can be flown at idle
+   * thrust, require additional drag, or are too steep, and stores the results in each vertical flight plan's
+   * `energyProfile`. Per-leg energy predictions for the primary flight plan are also published to the
+   * `vnav_energy_predictions` topic. If not defined, energy planning is disabled.
+   */
+  energyPlanning?: Readonly<SmoothingPathEnergyPlanningOptions>;
 };
 
 /**
@@ -194,6 +234,18 @@ export class SmoothingPathCalculator implements VNavPathCalculator {
     maxFpa: number
   ) => boolean;
 
+  /** This calculator's resolved energy planning options, or `undefined` if energy planning is disabled. */
+  protected readonly energyPlanning?: {
+    /** The descent speed, in knots indicated airspeed. */
+    readonly descentSpeed: Accessible<number>;
+    /** The steepest flight path angle that can be flown at idle thrust, in degrees. */
+    readonly idleFpa: Accessible<number>;
+    /** The steepest flight path angle that can be flown with maximum drag, in degrees. */
+    readonly dragFpa: Accessible<number>;
+    /** The deceleration rate, in knots per nautical mile. */
+    readonly decelerationRate: number;
+  };
+
   protected readonly legAltitudes: [number, number] = [0, 0];
   protected readonly applyPathValuesResult: [number | undefined, number] = [undefined, 0];
 
@@ -222,6 +274,16 @@ export class SmoothingPathCalculator implements VNavPathCalculator {
     this.invalidateClimbConstraintFunc = options?.invalidateClimbConstraint ?? SmoothingPathCalculator.invalidateClimbConstraint;
     this.invalidateDescentConstraintFunc = options?.invalidateDescentConstraint ?? SmoothingPathCalculator.invalidateDescentConstraint;
 
+    if (options?.energyPlanning) {
+      const { descentSpeed, idleFpa, dragFpa, decelerationRate } = options.energyPlanning;
+      this.energyPlanning = {
+        descentSpeed: typeof descentSpeed === 'object' ? descentSpeed : Value.create(descentSpeed ?? 250),
+        idleFpa: typeof idleFpa === 'object' ? idleFpa : Value.create(idleFpa ?? 2.5),
+        dragFpa: typeof dragFpa === 'object' ? dragFpa : Value.create(dragFpa ?? 4),
+        decelerationRate: decelerationRate ?? 10
+      };
+    }
+
     this.flightPlanner.onEvent('fplCreated').handle(e => this.createVerticalPlan(e.planIndex));
 
     this.flightPlanner.onEvent('fplCopied').handle(e => this.onPlanChanged(e.targetPlanIndex));
@@ -799,6 +861,230 @@ export class SmoothingPathCalculator implements VNavPathCalculator {
    */
   protected computePath(lateralPlan: FlightPlan, verticalPlan: VerticalFlightPlan): void {
     this.computeDescentPath(lateralPlan, verticalPlan);
+
+    if (this.energyPlanning) {
+      this.computeEnergyProfile(lateralPlan, verticalPlan);
+    }
+  }
+
+  /**
+   * Gets the energy predictions for the legs of a flight plan's descent path.
+   * @param planIndex The flight plan index.
+   * @returns The energy predictions for the legs of the specified flight plan's descent path, in flight plan order. If
+   * energy planning is disabled or the path has not been computed, then an empty array is returned.
+   */
+  public getEnergyPredictions(planIndex: number): readonly Readonly<VNavLegEnergyPrediction>[] {
+    return this.verticalFlightPlans[planIndex]?.energyProfile?.legPredictions ?? [];
+  }
+
+  /**
+   * Computes the energy profile for a flight plan's descent path and stores it in the vertical flight plan. The speed
+   * profile along the path is planned backwards from the end of the path so that the airplane flies its descent speed
+   * until it must decelerate, at the configured deceleration rate, to meet the next speed constraint. Decel points are
+   * placed where each deceleration begins. The path is then divided into constant speed, deceleration, and acceleration
+   * sections, each of which is classified by comparing the flight path angle equivalent to the section's path and speed
+   * change against the steepest angles that can be flown at idle thrust and with maximum drag. Adjacent sections with
+   * the same classification are merged into energy segments.
+   * @param lateralPlan The lateral flight plan.
+   * @param verticalPlan The vertical flight plan, with a computed descent path.
+   */
+  protected computeEnergyProfile(lateralPlan: FlightPlan, verticalPlan: VerticalFlightPlan): void {
+    if (!this.energyPlanning) {
+      return;
+    }
+
+    const descentSpeed = this.energyPlanning.descentSpeed.get();
+    const idleFpa = this.energyPlanning.idleFpa.get();
+    const dragFpa = this.energyPlanning.dragFpa.get();
+    const decelRate = this.energyPlanning.decelerationRate;
+
+    const legs: VNavLeg[] = [];
+    for (let constraintIndex = verticalPlan.constraints.length - 1; constraintIndex >= 0; constraintIndex--) {
+      const constraint = verticalPlan.constraints[constraintIndex];
+      if (constraint.type === 'descent' || constraint.type === 'direct' || constraint.type === 'manual') {
+        for (let legIndex = constraint.legs.length - 1; legIndex >= 0; legIndex--) {
+          legs.push(constraint.legs[legIndex]);
+        }
+      }
+    }
+
+    // Plan the speed at the end of each leg backwards from the end of the path.
+    const endSpeeds: number[] = [];
+    for (let i = legs.length - 1; i >= 0; i--) {
+      const leg = legs[i];
+      let speed = Math.min(descentSpeed, this.getLegMaxSpeed(lateralPlan, verticalPlan.segments[leg.segmentIndex].offset + leg.legIndex, leg.altitude));
+
+      if (i < legs.length - 1) {
+        speed = Math.min(speed, endSpeeds[i + 1] + decelRate * UnitType.METER.convertTo(legs[i + 1].distance, UnitType.NMILE));
+      }
+
+      endSpeeds[i] = speed;
+    }
+
+    const predictions: VNavLegEnergyPrediction[] = [];
+    const decelPoints: VNavDecelPoint[] = [];
+    const segments: VNavEnergySegment[] = [];
+
+    let activeDecelPoint: VNavDecelPoint | undefined = undefined;
+
+    for (let i = 0; i < legs.length; i++) {
+      const leg = legs[i];
+      const globalLegIndex = verticalPlan.segments[leg.segmentIndex].offset + leg.legIndex;
+      const startSpeed = i === 0 ? descentSpeed : endSpeeds[i - 1];
+      const endSpeed = endSpeeds[i];
+
+      let decelDistance = -1;
+      let equivalentFpa = leg.fpa;
+
+      if (startSpeed > endSpeed) {
+        // Decelerations are flown at the configured rate at the end of the leg.
+        decelDistance = Math.min(leg.distance, UnitType.NMILE.convertTo((startSpeed - endSpeed) / decelRate, UnitType.METER));
+
+        // If the airplane is still decelerating at the start of the leg, then the deceleration continues from the
+        // previous decel point. Otherwise a new deceleration begins within this leg.
+        if (activeDecelPoint && decelDistance === leg.distance) {
+          activeDecelPoint.targetLegIndex = globalLegIndex;
+          activeDecelPoint.targetSpeed = endSpeed;
+        } else {
+          activeDecelPoint = { legIndex: globalLegIndex, legDistance: decelDistance, targetLegIndex: globalLegIndex, startSpeed, targetSpeed: endSpeed };
+          decelPoints.push(activeDecelPoint);
+        }
+
+        if (decelDistance < leg.distance) {
+          SmoothingPathCalculator.addEnergySegment(segments, globalLegIndex, leg.distance, decelDistance, leg.fpa, idleFpa, dragFpa);
+        }
+
+        if (decelDistance > 0) {
+          equivalentFpa = SmoothingPathCalculator.getEquivalentFpa(leg, startSpeed, endSpeed, decelDistance);
+          SmoothingPathCalculator.addEnergySegment(segments, globalLegIndex, decelDistance, 0, equivalentFpa, idleFpa, dragFpa);
+        }
+      } else {
+        activeDecelPoint = undefined;
+
+        if (leg.distance > 0) {
+          // Accelerations are spread over the leg.
+          if (startSpeed < endSpeed) {
+            equivalentFpa = SmoothingPathCalculator.getEquivalentFpa(leg, startSpeed, endSpeed, leg.distance);
+          }
+
+          SmoothingPathCalculator.addEnergySegment(segments, globalLegIndex, leg.distance, 0, equivalentFpa, idleFpa, dragFpa);
+        }
+      }
+
+      predictions.push({
+        globalLegIndex,
+        state: SmoothingPathCalculator.getEnergyState(equivalentFpa, idleFpa, dragFpa),
+        startSpeed,
+        endSpeed,
+        decelDistance,
+        equivalentFpa
+      });
+    }
+
+    verticalPlan.energyProfile = { legPredictions: predictions, decelPoints, segments };
+
+    if (verticalPlan.planIndex === this.primaryPlanIndex) {
+      this.bus.getPublisher<VNavDataEvents>().pub(`vnav_energy_predictions${VNavUtils.getEventBusTopicSuffix(this.index)}`, predictions, true, true);
+    }
+  }
+
+  /**
+   * Gets the flight path angle that requires the same energy dissipation at constant speed as flying a section of a
+   * VNAV leg's path while changing speed.
+   * @param leg The VNAV leg.
+   * @param startSpeed The indicated airspeed at the start of the section, in knots.
+   * @param endSpeed The indicated airspeed at the end of the section, in knots.
+   * @param distance The length of the section, in meters. Must be greater than zero.
+   * @returns The equivalent flight path angle, in degrees. Positive values indicate a descending path.
+   */
+  protected static getEquivalentFpa(leg: VNavLeg, startSpeed: number, endSpeed: number, distance: number): number {
+    const midAltitude = leg.altitude + VNavUtils.altitudeForDistance(leg.fpa, leg.distance / 2);
+    const startTas = AeroMath.casToTasIsa(UnitType.KNOT.convertTo(startSpeed, UnitType.MPS), midAltitude);
+    const endTas = AeroMath.casToTasIsa(UnitType.KNOT.convertTo(endSpeed, UnitType.MPS), midAltitude);
+
+    // The energy dissipated per unit of distance flown is the sum of the potential energy lost along the path and
+    // the kinetic energy lost from the speed change.
+    const tanEquivalentFpa = Math.tan(leg.fpa * Avionics.Utils.DEG2RAD)
+      + (startTas + endTas) / 2 * (startTas - endTas) / (9.80665 * distance);
+    return Math.atan(tanEquivalentFpa) * Avionics.Utils.RAD2DEG;
+  }
+
+  /**
+   * Gets the energy state required to fly a path with a given equivalent flight path angle.
+   * @param equivalentFpa The equivalent flight path angle, in degrees.
+   * @param idleFpa The steepest flight path angle that can be flown at idle thrust, in degrees.
+   * @param dragFpa The steepest flight path angle that can be flown with maximum drag, in degrees.
+   * @returns The energy state required to fly the path.
+   */
+  protected static getEnergyState(equivalentFpa: number, idleFpa: number, dragFpa: number): VNavEnergyState {
+    return equivalentFpa > dragFpa ? VNavEnergyState.TooSteep : equivalentFpa > idleFpa ? VNavEnergyState.DragRequired : VNavEnergyState.Normal;
+  }
+
+  /**
+   * Adds a section of a descent path to an array of energy segments. The section is merged into the last segment in
+   * the array if both have the same energy state. Otherwise a new segment is appended.
+   * @param segments The energy segments to which to add the section.
+   * @param globalLegIndex The global index of the leg that contains the section.
+   * @param startLegDistance The distance from the start of the section to the end of the leg, in meters.
+   * @param endLegDistance The distance from the end of the section to the end of the leg, in meters.
+   * @param equivalentFpa The equivalent flight path angle of the section, in degrees.
+   * @param idleFpa The steepest flight path angle that can be flown at idle thrust, in degrees.
+   * @param dragFpa The steepest flight path angle that can be flown with maximum drag, in degrees.
+   */
+  protected static addEnergySegment(
+    segments: VNavEnergySegment[],
+    globalLegIndex: number,
+    startLegDistance: number,
+    endLegDistance: number,
+    equivalentFpa: number,
+    idleFpa: number,
+    dragFpa: number
+  ): void {
+    const state = SmoothingPathCalculator.getEnergyState(equivalentFpa, idleFpa, dragFpa);
+    const last = segments[segments.length - 1] as VNavEnergySegment | undefined;
+
+    if (last && last.state === state) {
+      last.endLegIndex = globalLegIndex;
+      last.endLegDistance = endLegDistance;
+      last.equivalentFpa = Math.max(last.equivalentFpa, equivalentFpa);
+    } else {
+      segments.push({
+        state,
+        startLegIndex: globalLegIndex,
+        startLegDistance,
+        endLegIndex: globalLegIndex,
+        endLegDistance,
+        equivalentFpa
+      });
+    }
+  }
+
+  /**
+   * Gets the maximum speed allowed at the end of a flight plan leg by the leg's speed constraint.
+   * @param lateralPlan The lateral flight plan.
+   * @param globalLegIndex The global index of the leg.
+   * @param altitude The altitude at the end of the leg, in meters. Used to convert mach constraints to indicated
+   * airspeed.
+   * @returns The maximum speed allowed at the end of the leg, in knots indicated airspeed, or `Infinity` if the leg has
+   * no maximum speed constraint.
+   */
+  protected getLegMaxSpeed(lateralPlan: FlightPlan, globalLegIndex: number, altitude: number): number {
+    const verticalData = lateralPlan.tryGetLeg(globalLegIndex)?.verticalData;
+
+    if (!verticalData || verticalData.speed <= 0) {
+      return Infinity;
+    }
+
+    switch (verticalData.speedDesc) {
+      case SpeedRestrictionType.At:
+      case SpeedRestrictionType.AtOrBelow:
+      case SpeedRestrictionType.Between:
+        return verticalData.speedUnit === SpeedUnit.MACH
+          ? UnitType.MPS.convertTo(AeroMath.machToCasIsa(verticalData.speed, altitude), UnitType.KNOT)
+          : verticalData.speed;
+      default:
+        return Infinity;
+    }
   }
 
   /**
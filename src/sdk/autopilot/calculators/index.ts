@@ -1,4 +1,5 @@
 export * from './ArcTurnController';
+export * from './ClimbPathCalculator';
 export * from './GenericFlcComputer';
 export * from './GlidePathCalculator';
 export * from './SmoothingPathCalculator';
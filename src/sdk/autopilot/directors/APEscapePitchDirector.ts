@@ -0,0 +1,197 @@
+import { ReactiveWindshearEvents } from '../../alerts/ReactiveWindshearSystem';
+import { ConsumerValue } from '../../data/ConsumerValue';
+import { EventBus, IndexedEvents, Publisher } from '../../data/EventBus';
+import { StallWarningEvents } from '../../data/StallWarningPublisher';
+import { AhrsEvents } from '../../instruments/Ahrs';
+import { Accessible } from '../../sub/Accessible';
+import { Subscribable } from '../../sub/Subscribable';
+import { Subscription } from '../../sub/Subscription';
+import { APValues } from '../APValues';
+import { DirectorState, PlaneDirector } from './PlaneDirector';
+
+/**
+ * Non-indexed events published by {@link APEscapePitchDirector}.
+ */
+type APEscapePitchDirectorBaseEvents = {
+  /** The escape pitch director has been activated. The event data is the pitch target at activation, in degrees. */
+  ap_escape_pitch_director_entered: number;
+
+  /** The escape pitch director has been deactivated. */
+  ap_escape_pitch_director_exited: void;
+};
+
+/**
+ * Events published by {@link APEscapePitchDirector}. Directors with a non-zero index publish the indexed versions of
+ * the events.
+ */
+export type APEscapePitchDirectorEvents = APEscapePitchDirectorBaseEvents & IndexedEvents<APEscapePitchDirectorBaseEvents, number>;
+
+/**
+ * Options for {@link APEscapePitchDirector}.
+ */
+export type APEscapePitchDirectorOptions = {
+  /**
+   * The index of the director. Directors with a non-zero index publish their events with the `_[index]` suffix.
+   * Defaults to `0`.
+   */
+  index?: number;
+
+  /**
+   * The source of the pitch angle commanded by the director, in degrees. Positive values indicate upward pitch.
+   * Defaults to the `windshear_escape_pitch_target` topic published by {@link ReactiveWindshearSystem}.
+   */
+  pitchTarget?: Accessible<number>;
+
+  /**
+   * The amount by which the director will reduce its commanded pitch angle below the current pitch angle while the
+   * stall warning is active, in degrees. Defaults to `2`.
+   */
+  stallWarningPitchReduction?: number;
+
+  /** The rate at which the director drives its commanded pitch angle, in degrees per second. Defaults to `3`. */
+  pitchRate?: number;
+
+  /**
+   * A condition which, when true, causes the director to activate if it is armed. If not defined, then the director
+   * activates immediately when armed.
+   */
+  trigger?: Subscribable<boolean>;
+};
+
+/**
+ * An autopilot director which flies a windshear or terrain escape maneuver. The director commands the pitch angle
+ * provided by its pitch target source, which by default is the angle of attack-limited escape guidance pitch target
+ * published by {@link ReactiveWindshearSystem}. While the stall warning published by {@link StallWarningPublisher} is
+ * active, the director commands a pitch reduction instead.
+ *
+ * When armed, the director activates as soon as its trigger condition is satisfied, allowing it to be armed in the
+ * background and engage automatically, for example in response to a windshear warning. The director publishes
+ * {@link APEscapePitchDirectorEvents} when it is activated and deactivated.
+ *
+ * Requires the `windshear_escape_pitch_target` topic from {@link ReactiveWindshearEvents} (unless a pitch target
+ * source is provided), the `actual_pitch_deg` topic from {@link AhrsEvents}, and the `stall_warning_on` topic from
+ * {@link StallWarningEvents}.
+ */
+export class APEscapePitchDirector implements PlaneDirector {
+
+  public state: DirectorState;
+
+  /** @inheritDoc */
+  public onActivate?: () => void;
+  /** @inheritDoc */
+  public onArm?: () => void;
+  /** @inheritDoc */
+  public drivePitch?: (pitch: number, adjustForAoa?: boolean, adjustForVerticalWind?: boolean, rate?: number) => void;
+
+  private readonly publisher: Publisher<APEscapePitchDirectorEvents>;
+  private readonly topicSuffix: '' | `_${number}`;
+
+  private readonly stallWarningPitchReduction: number;
+  private readonly pitchRate: number;
+
+  private readonly pitchTarget: Accessible<number>;
+  private readonly pitch: ConsumerValue<number>;
+  private readonly isStallWarningOn: ConsumerValue<boolean>;
+
+  private readonly triggerSub?: Subscription;
+
+  /**
+   * Creates a new instance of APEscapePitchDirector.
+   * @param bus The event bus.
+   * @param apValues Autopilot values from this director's parent autopilot.
+   * @param options Options with which to configure this director.
+   */
+  public constructor(bus: EventBus, private readonly apValues: APValues, options?: Readonly<APEscapePitchDirectorOptions>) {
+    this.publisher = bus.getPublisher<APEscapePitchDirectorEvents>();
+
+    const index = options?.index ?? 0;
+    this.topicSuffix = index === 0 ? '' : `_${index}`;
+
+    const sub = bus.getSubscriber<ReactiveWindshearEvents & AhrsEvents & StallWarningEvents>();
+
+    this.stallWarningPitchReduction = options?.stallWarningPitchReduction ?? 2;
+    this.pitchRate = options?.pitchRate ?? 3;
+
+    this.pitchTarget = options?.pitchTarget ?? ConsumerValue.create(sub.on('windshear_escape_pitch_target'), 0);
+    this.pitch = ConsumerValue.create(sub.on('actual_pitch_deg'), 0);
+    this.isStallWarningOn = ConsumerValue.create(sub.on('stall_warning_on'), false);
+
+    if (options?.trigger) {
+      this.triggerSub = options.trigger.sub(this.onTriggerChanged.bind(this), false, true);
+    }
+
+    this.state = DirectorState.Inactive;
+  }
+
+  /** @inheritDoc */
+  public activate(): void {
+    this.state = DirectorState.Active;
+    this.triggerSub?.pause();
+
+    if (this.onActivate !== undefined) {
+      this.onActivate();
+    }
+
+    this.publisher.pub(`ap_escape_pitch_director_entered${this.topicSuffix}`, this.getTargetPitch(), true, false);
+  }
+
+  /** @inheritDoc */
+  public arm(): void {
+    if (this.state !== DirectorState.Inactive) {
+      return;
+    }
+
+    if (this.triggerSub === undefined) {
+      this.activate();
+      return;
+    }
+
+    this.state = DirectorState.Armed;
+    if (this.onArm !== undefined) {
+      this.onArm();
+    }
+
+    this.triggerSub.resume(true);
+  }
+
+  /** @inheritDoc */
+  public deactivate(): void {
+    const wasActive = this.state === DirectorState.Active;
+
+    this.state = DirectorState.Inactive;
+    this.triggerSub?.pause();
+
+    if (wasActive) {
+      this.publisher.pub(`ap_escape_pitch_director_exited${this.topicSuffix}`, undefined, true, false);
+    }
+  }
+
+  /** @inheritDoc */
+  public update(): void {
+    if (this.state === DirectorState.Active && this.drivePitch) {
+      this.drivePitch(-this.getTargetPitch(), false, false, this.pitchRate * this.apValues.simRate.get());
+    }
+  }
+
+  /**
+   * Responds to when this director's trigger condition changes.
+   * @param isTriggered Whether the trigger condition is satisfied.
+   */
+  private onTriggerChanged(isTriggered: boolean): void {
+    if (isTriggered && this.state === DirectorState.Armed) {
+      this.activate();
+    }
+  }
+
+  /**
+   * Gets the pitch angle this director should command.
+   * @returns The pitch angle this director should command, in degrees. Positive values indicate upward pitch.
+   */
+  private getTargetPitch(): number {
+    if (this.isStallWarningOn.get()) {
+      return -this.pitch.get() - this.stallWarningPitchReduction;
+    }
+
+    return this.pitchTarget.get();
+  }
+}
@@ -21,3 +21,4 @@ export * from './APLvlDirector';
 export * from './APVNavPathDirector';
 export * from './PlaneDirector';
 export * from './APTogaPitchDirector';
+export * from './APEscapePitchDirector';
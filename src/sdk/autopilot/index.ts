@@ -6,6 +6,9 @@ export * from './managers';
 export * from './vnav';
 
 export * from './APConfig';
+export * from './APModeTransitionChecker';
+export * from './APModeTransitions';
+export * from './APSpeedProtection';
 export * from './APStates';
 export * from './APTypes';
 export * from './APValues';
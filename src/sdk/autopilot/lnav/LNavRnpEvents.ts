@@ -0,0 +1,92 @@
+/**
+ * Phases of flight with distinct default required navigation performance (RNP) values.
+ */
+export enum LNavRnpPhase {
+  /** Oceanic/remote operations. */
+  Oceanic = 'Oceanic',
+
+  /** Enroute operations. */
+  Enroute = 'Enroute',
+
+  /** Terminal operations, including departures, arrivals, initial/intermediate approach, and missed approach. */
+  Terminal = 'Terminal',
+
+  /** Final approach. */
+  Approach = 'Approach'
+}
+
+/**
+ * Sources of the required navigation performance (RNP) value used by LNAV.
+ */
+export enum LNavRnpSource {
+  /** The RNP value was manually entered. */
+  Manual = 'Manual',
+
+  /** The RNP value was coded in the navigation database for the tracked flight plan leg. */
+  Leg = 'Leg',
+
+  /** The RNP value is the default value for the current phase of flight. */
+  Default = 'Default'
+}
+
+/**
+ * Events related to LNAV required navigation performance keyed by base topic names.
+ */
+export interface BaseLNavRnpEvents {
+  /** The current required navigation performance (RNP), in nautical miles. */
+  lnav_rnp: number;
+
+  /** The source of the current required navigation performance value. */
+  lnav_rnp_source: LNavRnpSource;
+
+  /** The current phase of flight used to select the default required navigation performance value. */
+  lnav_rnp_phase: LNavRnpPhase;
+
+  /**
+   * The current actual navigation performance (ANP), in nautical miles, or `Infinity` if no position solution is
+   * available.
+   */
+  lnav_anp: number;
+
+  /** Whether actual navigation performance exceeds required navigation performance (UNABLE RNP). */
+  lnav_rnp_unable: boolean;
+
+  /** Whether LNAV cross-track deviation exceeds the limit allowed by the current required navigation performance. */
+  lnav_rnp_excessive_deviation: boolean;
+}
+
+/**
+ * Events related to LNAV required navigation performance keyed by indexed topic names.
+ */
+export type IndexedLNavRnpEvents<Index extends number = number> = {
+  [P in keyof BaseLNavRnpEvents as `${P}_${Index}`]: BaseLNavRnpEvents[P];
+};
+
+/**
+ * Events related to LNAV required navigation performance.
+ */
+export interface LNavRnpEvents extends BaseLNavRnpEvents, IndexedLNavRnpEvents {
+}
+
+/**
+ * Events used to control LNAV required navigation performance keyed by base topic names.
+ */
+export interface BaseLNavRnpControlEvents {
+  /**
+   * Sets a manually entered required navigation performance value, in nautical miles, or clears the manual value if
+   * `null`.
+   */
+  lnav_rnp_set_manual: number | null;
+}
+
+/**
+ * Events used to control LNAV required navigation performance keyed by indexed topic names.
+ */
+export type IndexedLNavRnpControlEvents<Index extends number = number> = {
+  [P in keyof BaseLNavRnpControlEvents as `${P}_${Index}`]: BaseLNavRnpControlEvents[P];
+};
+
+/**
+ * Events used to control LNAV required navigation performance.
+ */
+export type LNavRnpControlEvents = BaseLNavRnpControlEvents & IndexedLNavRnpControlEvents;
@@ -0,0 +1,291 @@
+import { ConsumerValue } from '../../data/ConsumerValue';
+import { EventBus, Publisher } from '../../data/EventBus';
+import { FlightPlan } from '../../flightplan/FlightPlan';
+import { FlightPlanner } from '../../flightplan/FlightPlanner';
+import { FlightPlanSegmentType, LegDefinitionFlags } from '../../flightplan/FlightPlanning';
+import { ClockEvents } from '../../instruments/Clock';
+import { GPSSatComputerEvents } from '../../instruments/GPSSat';
+import { BitFlags } from '../../math/BitFlags';
+import { UnitType } from '../../math/NumberUnit';
+import { FixTypeFlags } from '../../navigation/Facilities';
+import { Accessible } from '../../sub/Accessible';
+import { Subscription } from '../../sub/Subscription';
+import { LNavEvents } from './LNavEvents';
+import { BaseLNavRnpEvents, LNavRnpControlEvents, LNavRnpEvents, LNavRnpPhase, LNavRnpSource } from './LNavRnpEvents';
+import { LNavUtils } from './LNavUtils';
+
+/**
+ * Options for {@link LNavRnpMonitor}.
+ */
+export type LNavRnpMonitorOptions = {
+  /**
+   * The default required navigation performance values for each phase of flight, in nautical miles. Values that are
+   * not defined default to `4` (oceanic), `2` (enroute), `1` (terminal), and `0.3` (approach).
+   */
+  defaultRnp?: Partial<Record<LNavRnpPhase, number>>;
+
+  /**
+   * A function which gets the phase of flight for a flight plan leg. If not defined, then the phase is derived from the
+   * type of the flight plan segment containing the leg and the leg's approach fix type. The oceanic phase is never
+   * derived automatically.
+   * @param plan The flight plan containing the leg.
+   * @param globalLegIndex The global index of the leg.
+   * @returns The phase of flight for the leg.
+   */
+  getPhase?: (plan: FlightPlan, globalLegIndex: number) => LNavRnpPhase;
+
+  /**
+   * The actual navigation performance source, in nautical miles. If not defined, then actual navigation performance
+   * is derived from the horizontal dilution of precision published by the GPS system with index `gpsIndex`.
+   */
+  anp?: Accessible<number>;
+
+  /** The index of the GPS system from which to derive actual navigation performance. Defaults to `1`. */
+  gpsIndex?: number;
+
+  /**
+   * The standard deviation of the user range error used to derive actual navigation performance from horizontal
+   * dilution of precision, in meters. Defaults to `5`.
+   */
+  rangeErrorSigma?: number;
+
+  /**
+   * The cross-track deviation limit, as a fraction of the required navigation performance value, beyond which the
+   * deviation is considered excessive. Defaults to `1`.
+   */
+  deviationLimitFactor?: number;
+
+  /** The frequency at which the monitor updates, in hertz. Defaults to `1`. */
+  updateFrequency?: number;
+};
+
+/**
+ * Monitors lateral navigation containment against a required navigation performance (RNP) value. The monitor
+ * determines the RNP applicable to the flight plan leg tracked by LNAV, compares it against actual navigation
+ * performance (ANP) and LNAV cross-track error, and publishes UNABLE RNP and excessive deviation states as
+ * {@link LNavRnpEvents}.
+ *
+ * The applicable RNP is selected from, in order of precedence: a manually entered value, the value coded in the
+ * navigation database for the tracked leg, and the default value for the current phase of flight.
+ */
+export class LNavRnpMonitor {
+  private static readonly DEFAULT_RNP: Readonly<Record<LNavRnpPhase, number>> = {
+    [LNavRnpPhase.Oceanic]: 4,
+    [LNavRnpPhase.Enroute]: 2,
+    [LNavRnpPhase.Terminal]: 1,
+    [LNavRnpPhase.Approach]: 0.3
+  };
+
+  private readonly publisher: Publisher<LNavRnpEvents>;
+
+  private readonly defaultRnp: Readonly<Record<LNavRnpPhase, number>>;
+  private readonly getPhase: (plan: FlightPlan, globalLegIndex: number) => LNavRnpPhase;
+  private readonly anp: Accessible<number>;
+  private readonly deviationLimitFactor: number;
+  private readonly updateFrequency: number;
+
+  private readonly topicSuffix: '' | `_${number}`;
+  private readonly publishFuncs: { readonly [P in keyof BaseLNavRnpEvents]: (value: BaseLNavRnpEvents[P]) => void };
+
+  private readonly isTracking: ConsumerValue<boolean>;
+  private readonly trackedLegIndex: ConsumerValue<number>;
+  private readonly xtk: ConsumerValue<number>;
+
+  private readonly published: Partial<BaseLNavRnpEvents> = {};
+
+  private manualRnp: number | null = null;
+
+  private readonly subscriptions: Subscription[] = [];
+
+  private isAlive = true;
+  private isInit = false;
+
+  /**
+   * Creates a new instance of LNavRnpMonitor.
+   * @param bus The event bus.
+   * @param index The index of the LNAV computer whose containment is monitored.
+   * @param flightPlanner The flight planner containing the flight plan tracked by LNAV.
+   * @param options Options with which to configure the monitor.
+   * @throws Error if the LNAV index is invalid.
+   */
+  public constructor(
+    private readonly bus: EventBus,
+    index: number,
+    private readonly flightPlanner: FlightPlanner,
+    options?: Readonly<LNavRnpMonitorOptions>
+  ) {
+    if (!LNavUtils.isValidLNavIndex(index)) {
+      throw new Error(`LNavRnpMonitor: invalid index: ${index}`);
+    }
+
+    this.publisher = bus.getPublisher<LNavRnpEvents>();
+    this.topicSuffix = LNavUtils.getEventBusTopicSuffix(index);
+    this.publishFuncs = {
+      'lnav_rnp': value => this.publisher.pub(`lnav_rnp${this.topicSuffix}`, value, true, true),
+      'lnav_rnp_source': value => this.publisher.pub(`lnav_rnp_source${this.topicSuffix}`, value, true, true),
+      'lnav_rnp_phase': value => this.publisher.pub(`lnav_rnp_phase${this.topicSuffix}`, value, true, true),
+      'lnav_anp': value => this.publisher.pub(`lnav_anp${this.topicSuffix}`, value, true, true),
+      'lnav_rnp_unable': value => this.publisher.pub(`lnav_rnp_unable${this.topicSuffix}`, value, true, true),
+      'lnav_rnp_excessive_deviation': value => this.publisher.pub(`lnav_rnp_excessive_deviation${this.topicSuffix}`, value, true, true)
+    };
+
+    this.defaultRnp = { ...LNavRnpMonitor.DEFAULT_RNP, ...options?.defaultRnp };
+    this.getPhase = options?.getPhase ?? LNavRnpMonitor.getDefaultPhase;
+    this.deviationLimitFactor = options?.deviationLimitFactor ?? 1;
+    this.updateFrequency = options?.updateFrequency ?? 1;
+
+    if (options?.anp) {
+      this.anp = options.anp;
+    } else {
+      const hdop = ConsumerValue.create(bus.getSubscriber<GPSSatComputerEvents>().on(`gps_system_hdop_${options?.gpsIndex ?? 1}`), -1);
+      this.subscriptions.push(hdop);
+
+      // ANP is the 95% horizontal position accuracy, which is approximately twice the horizontal error standard deviation.
+      const anpFactor = UnitType.METER.convertTo(2 * (options?.rangeErrorSigma ?? 5), UnitType.NMILE);
+      this.anp = {
+        get: () => {
+          const value = hdop.get();
+          return value < 0 ? Infinity : value * anpFactor;
+        }
+      };
+    }
+
+    const sub = bus.getSubscriber<LNavEvents>();
+
+    this.isTracking = ConsumerValue.create(sub.on(`lnav_is_tracking${this.topicSuffix}`), false);
+    this.trackedLegIndex = ConsumerValue.create(sub.on(`lnav_tracked_leg_index${this.topicSuffix}`), 0);
+    this.xtk = ConsumerValue.create(sub.on(`lnav_xtk${this.topicSuffix}`), 0);
+
+    this.subscriptions.push(this.isTracking, this.trackedLegIndex, this.xtk);
+  }
+
+  /**
+   * Initializes this monitor. Once initialized, the monitor will begin publishing containment data and will respond
+   * to control events received on the event bus.
+   * @throws Error if this monitor has been destroyed.
+   */
+  public init(): void {
+    if (!this.isAlive) {
+      throw new Error('LNavRnpMonitor: cannot initialize a dead monitor');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    this.isInit = true;
+
+    const sub = this.bus.getSubscriber<ClockEvents & LNavRnpControlEvents>();
+
+    this.subscriptions.push(
+      sub.on(`lnav_rnp_set_manual${this.topicSuffix}`).handle(this.onSetManualRnp.bind(this)),
+      sub.on('simTime').atFrequency(this.updateFrequency).handle(this.update.bind(this))
+    );
+
+    this.update();
+  }
+
+  /**
+   * Responds to when a control event to set the manual RNP value is received.
+   * @param rnp The manual RNP value commanded by the control event, in nautical miles, or `null` to clear the manual
+   * value.
+   */
+  private onSetManualRnp(rnp: number | null): void {
+    this.manualRnp = rnp !== null && isFinite(rnp) && rnp > 0 ? rnp : null;
+    this.update();
+  }
+
+  /**
+   * Updates this monitor.
+   */
+  private update(): void {
+    const isTracking = this.isTracking.get();
+    const plan = this.flightPlanner.hasActiveFlightPlan() ? this.flightPlanner.getActiveFlightPlan() : undefined;
+    const legIndex = this.trackedLegIndex.get();
+    const leg = isTracking && plan ? plan.tryGetLeg(legIndex) : null;
+
+    const phase = plan && leg ? this.getPhase(plan, legIndex) : LNavRnpPhase.Enroute;
+
+    let rnp: number;
+    let source: LNavRnpSource;
+
+    if (this.manualRnp !== null) {
+      rnp = this.manualRnp;
+      source = LNavRnpSource.Manual;
+    } else if (leg && leg.leg.rnp > 0) {
+      rnp = UnitType.METER.convertTo(leg.leg.rnp, UnitType.NMILE);
+      source = LNavRnpSource.Leg;
+    } else {
+      rnp = this.defaultRnp[phase];
+      source = LNavRnpSource.Default;
+    }
+
+    const anp = this.anp.get();
+
+    this.publish('lnav_rnp', rnp);
+    this.publish('lnav_rnp_source', source);
+    this.publish('lnav_rnp_phase', phase);
+    this.publish('lnav_anp', anp);
+    this.publish('lnav_rnp_unable', anp > rnp);
+    this.publish('lnav_rnp_excessive_deviation', isTracking && Math.abs(this.xtk.get()) > rnp * this.deviationLimitFactor);
+  }
+
+  /**
+   * Publishes a value to an event bus topic if the value differs from the last published value.
+   * @param topic The base topic to which to publish.
+   * @param value The value to publish.
+   */
+  private publish<T extends keyof BaseLNavRnpEvents>(topic: T, value: BaseLNavRnpEvents[T]): void {
+    if (this.published[topic] !== value) {
+      this.published[topic] = value;
+      this.publishFuncs[topic](value);
+    }
+  }
+
+  /**
+   * Destroys this monitor. Once destroyed, this monitor will no longer publish containment data.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+
+    for (const sub of this.subscriptions) {
+      sub.destroy();
+    }
+  }
+
+  /**
+   * Gets the default phase of flight for a flight plan leg, derived from the type of the segment containing the leg
+   * and the leg's approach fix type.
+   * @param plan The flight plan containing the leg.
+   * @param globalLegIndex The global index of the leg.
+   * @returns The phase of flight for the leg.
+   */
+  public static getDefaultPhase(plan: FlightPlan, globalLegIndex: number): LNavRnpPhase {
+    const segment = plan.getSegment(plan.getSegmentIndex(globalLegIndex));
+    const leg = plan.getLeg(globalLegIndex);
+
+    switch (segment.segmentType) {
+      case FlightPlanSegmentType.Enroute:
+        return LNavRnpPhase.Enroute;
+      case FlightPlanSegmentType.Approach: {
+        if (BitFlags.isAny(leg.flags, LegDefinitionFlags.MissedApproach)) {
+          return LNavRnpPhase.Terminal;
+        }
+
+        // Legs from the one terminating at the FAF onward are part of the final approach.
+        const segmentLegIndex = globalLegIndex - segment.offset;
+        for (let i = segmentLegIndex; i >= 0; i--) {
+          if (BitFlags.isAny(segment.legs[i].leg.fixTypeFlags, FixTypeFlags.FAF)) {
+            return LNavRnpPhase.Approach;
+          }
+        }
+
+        return LNavRnpPhase.Terminal;
+      }
+      case FlightPlanSegmentType.RandomDirectTo:
+        return LNavRnpPhase.Enroute;
+      default:
+        return LNavRnpPhase.Terminal;
+    }
+  }
+}
@@ -7,6 +7,8 @@ export * from './LNavObsControlEvents';
 export * from './LNavObsEvents';
 export * from './LNavObsManager';
 export * from './LNavOverrideModule';
+export * from './LNavRnpEvents';
+export * from './LNavRnpMonitor';
 export * from './LNavRollSteerComputer';
 export * from './LNavTypes';
 export * from './LNavUtils';
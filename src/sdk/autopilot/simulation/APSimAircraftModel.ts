@@ -0,0 +1,262 @@
+import { GeoPoint } from '../../geo/GeoPoint';
+import { AeroMath } from '../../math/AeroMath';
+import { MathUtils } from '../../math/MathUtils';
+import { UnitType } from '../../math/NumberUnit';
+
+/**
+ * The state of an {@link APSimAircraftModel}.
+ */
+export type APSimAircraftState = {
+  /** The latitude of the aircraft, in degrees. */
+  lat: number;
+
+  /** The longitude of the aircraft, in degrees. */
+  lon: number;
+
+  /** The pressure altitude of the aircraft, in feet. */
+  altitude: number;
+
+  /** The vertical speed of the aircraft, in feet per minute. */
+  verticalSpeed: number;
+
+  /** The true heading of the aircraft, in degrees. */
+  heading: number;
+
+  /** The true airspeed of the aircraft, in knots. */
+  tas: number;
+
+  /** The pitch angle of the aircraft, in degrees. Positive values indicate upward pitch. */
+  pitch: number;
+
+  /** The bank angle of the aircraft, in degrees. Positive values indicate rightward bank. */
+  bank: number;
+};
+
+/**
+ * Options for {@link APSimAircraftModel}.
+ */
+export type APSimAircraftModelOptions = {
+  /** The angle of attack maintained by the aircraft, in degrees. Defaults to `2`. */
+  aoa?: number;
+
+  /** The time constant with which the aircraft's pitch angle responds to its target pitch angle, in seconds. Defaults to `1`. */
+  pitchTimeConstant?: number;
+
+  /** The time constant with which the aircraft's bank angle responds to its target bank angle, in seconds. Defaults to `1`. */
+  bankTimeConstant?: number;
+
+  /** The maximum rate at which the aircraft's pitch angle can change, in degrees per second. Defaults to `3`. */
+  maxPitchRate?: number;
+
+  /** The maximum rate at which the aircraft's bank angle can change, in degrees per second. Defaults to `10`. */
+  maxRollRate?: number;
+
+  /** The minimum true airspeed of the aircraft, in knots. Defaults to `40`. */
+  minTas?: number;
+};
+
+/**
+ * A point-mass aircraft model for autopilot simulation. The model tracks a target pitch and bank angle with a
+ * rate-limited first-order response and flies a flight path angle equal to its pitch angle less a constant angle of
+ * attack. Turns are coordinated and airspeed changes with the net of a commanded thrust acceleration and the along-path
+ * component of gravity. The model assumes ISA conditions, zero wind, and zero magnetic variation.
+ */
+export class APSimAircraftModel {
+  private static readonly DEG_TO_RAD = Math.PI / 180;
+  private static readonly RAD_TO_DEG = 180 / Math.PI;
+  private static readonly GRAVITY_KTS_PER_SEC = UnitType.MPS.convertTo(9.80665, UnitType.KNOT);
+
+  private readonly aoa: number;
+  private readonly pitchTimeConstant: number;
+  private readonly bankTimeConstant: number;
+  private readonly maxPitchRate: number;
+  private readonly maxRollRate: number;
+  private readonly minTas: number;
+
+  private readonly _state: APSimAircraftState;
+  /** The current state of this model. */
+  public readonly state: Readonly<APSimAircraftState>;
+
+  private readonly position = new GeoPoint(0, 0);
+
+  private targetPitch: number;
+  private targetBank: number;
+  private thrustAcceleration = 0;
+  private acceleration = 0;
+
+  /**
+   * Creates a new instance of APSimAircraftModel.
+   * @param initialState The initial state of the model.
+   * @param options Options with which to configure the model.
+   */
+  public constructor(initialState: Readonly<Partial<APSimAircraftState>>, options?: Readonly<APSimAircraftModelOptions>) {
+    this.aoa = options?.aoa ?? 2;
+    this.pitchTimeConstant = options?.pitchTimeConstant ?? 1;
+    this.bankTimeConstant = options?.bankTimeConstant ?? 1;
+    this.maxPitchRate = options?.maxPitchRate ?? 3;
+    this.maxRollRate = options?.maxRollRate ?? 10;
+    this.minTas = options?.minTas ?? 40;
+
+    this._state = {
+      lat: 0,
+      lon: 0,
+      altitude: 0,
+      verticalSpeed: 0,
+      heading: 0,
+      tas: 100,
+      pitch: this.aoa,
+      bank: 0
+    };
+    this.state = this._state;
+
+    this.targetPitch = this._state.pitch;
+    this.targetBank = this._state.bank;
+
+    this.reset(initialState);
+  }
+
+  /**
+   * Gets the angle of attack maintained by this model.
+   * @returns The angle of attack maintained by this model, in degrees.
+   */
+  public getAoa(): number {
+    return this.aoa;
+  }
+
+  /**
+   * Gets this model's acceleration along its flight path during the most recent update.
+   * @returns This model's acceleration along its flight path, in knots per second.
+   */
+  public getAcceleration(): number {
+    return this.acceleration;
+  }
+
+  /**
+   * Gets this model's indicated (calibrated) airspeed.
+   * @returns This model's indicated airspeed, in knots.
+   */
+  public getIas(): number {
+    return UnitType.MPS.convertTo(
+      AeroMath.tasToCasIsa(UnitType.KNOT.convertTo(this._state.tas, UnitType.MPS), UnitType.FOOT.convertTo(this._state.altitude, UnitType.METER)),
+      UnitType.KNOT
+    );
+  }
+
+  /**
+   * Gets this model's mach number.
+   * @returns This model's mach number.
+   */
+  public getMach(): number {
+    return AeroMath.tasToMachIsa(UnitType.KNOT.convertTo(this._state.tas, UnitType.MPS), UnitType.FOOT.convertTo(this._state.altitude, UnitType.METER));
+  }
+
+  /**
+   * Gets the ambient pressure at this model's altitude.
+   * @returns The ambient pressure at this model's altitude, in hectopascals.
+   */
+  public getAmbientPressure(): number {
+    return AeroMath.isaPressure(UnitType.FOOT.convertTo(this._state.altitude, UnitType.METER));
+  }
+
+  /**
+   * Resets this model's state. The target attitude is reset to the new attitude and the thrust acceleration is reset to
+   * zero.
+   * @param state The state to set. Properties that are not defined retain their current values.
+   */
+  public reset(state: Readonly<Partial<APSimAircraftState>>): void {
+    Object.assign(this._state, state);
+
+    if (state.verticalSpeed !== undefined && state.pitch === undefined) {
+      this._state.pitch = this.getFpa(this._state.verticalSpeed) + this.aoa;
+    } else {
+      this._state.verticalSpeed = this.getVerticalSpeed(this._state.pitch - this.aoa);
+    }
+
+    this.targetPitch = this._state.pitch;
+    this.targetBank = this._state.bank;
+    this.thrustAcceleration = 0;
+    this.acceleration = 0;
+  }
+
+  /**
+   * Sets the attitude targeted by this model.
+   * @param pitch The target pitch angle, in degrees. Positive values indicate upward pitch.
+   * @param bank The target bank angle, in degrees. Positive values indicate rightward bank.
+   */
+  public setTargetAttitude(pitch: number, bank: number): void {
+    this.targetPitch = pitch;
+    this.targetBank = bank;
+  }
+
+  /**
+   * Sets the acceleration produced by thrust in excess of drag.
+   * @param acceleration The acceleration to set, in knots per second. A value of zero maintains airspeed in level flight.
+   */
+  public setThrustAcceleration(acceleration: number): void {
+    this.thrustAcceleration = acceleration;
+  }
+
+  /**
+   * Advances this model in time.
+   * @param dt The amount of time to advance, in seconds.
+   */
+  public update(dt: number): void {
+    if (dt <= 0) {
+      return;
+    }
+
+    const state = this._state;
+
+    state.pitch = APSimAircraftModel.respond(state.pitch, this.targetPitch, this.pitchTimeConstant, this.maxPitchRate, dt);
+    state.bank = APSimAircraftModel.respond(state.bank, this.targetBank, this.bankTimeConstant, this.maxRollRate, dt);
+
+    const fpa = (state.pitch - this.aoa) * APSimAircraftModel.DEG_TO_RAD;
+
+    const tas = Math.max(this.minTas, state.tas + (this.thrustAcceleration - APSimAircraftModel.GRAVITY_KTS_PER_SEC * Math.sin(fpa)) * dt);
+    this.acceleration = (tas - state.tas) / dt;
+    state.tas = tas;
+    state.verticalSpeed = this.getVerticalSpeed(state.pitch - this.aoa);
+    state.altitude += state.verticalSpeed * dt / 60;
+
+    const tasMps = UnitType.KNOT.convertTo(state.tas, UnitType.MPS);
+    const turnRate = 9.80665 * Math.tan(state.bank * APSimAircraftModel.DEG_TO_RAD) / tasMps * APSimAircraftModel.RAD_TO_DEG;
+    state.heading = MathUtils.normalizeAngleDeg(state.heading + turnRate * dt);
+
+    const groundDistance = UnitType.METER.convertTo(tasMps * Math.cos(fpa) * dt, UnitType.GA_RADIAN);
+    this.position.set(state.lat, state.lon).offset(state.heading, groundDistance);
+    state.lat = this.position.lat;
+    state.lon = this.position.lon;
+  }
+
+  /**
+   * Gets the flight path angle corresponding to a vertical speed at this model's current airspeed.
+   * @param verticalSpeed The vertical speed, in feet per minute.
+   * @returns The flight path angle corresponding to the specified vertical speed, in degrees.
+   */
+  private getFpa(verticalSpeed: number): number {
+    return Math.asin(MathUtils.clamp(verticalSpeed / UnitType.KNOT.convertTo(this._state.tas, UnitType.FPM), -1, 1)) * APSimAircraftModel.RAD_TO_DEG;
+  }
+
+  /**
+   * Gets the vertical speed corresponding to a flight path angle at this model's current airspeed.
+   * @param fpa The flight path angle, in degrees.
+   * @returns The vertical speed corresponding to the specified flight path angle, in feet per minute.
+   */
+  private getVerticalSpeed(fpa: number): number {
+    return UnitType.KNOT.convertTo(this._state.tas, UnitType.FPM) * Math.sin(fpa * APSimAircraftModel.DEG_TO_RAD);
+  }
+
+  /**
+   * Moves a value toward a target with a rate-limited first-order response.
+   * @param current The current value.
+   * @param target The target value.
+   * @param tau The time constant of the response, in seconds.
+   * @param maxRate The maximum rate of change of the value, per second.
+   * @param dt The elapsed time, in seconds.
+   * @returns The new value.
+   */
+  private static respond(current: number, target: number, tau: number, maxRate: number, dt: number): number {
+    const delta = (tau > 0 ? MathUtils.driveExp(current, target, tau, dt) : target) - current;
+    return current + MathUtils.clamp(delta, -maxRate * dt, maxRate * dt);
+  }
+}
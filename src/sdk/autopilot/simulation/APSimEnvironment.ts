@@ -0,0 +1,648 @@
+/**
+ * A record of a key event that was triggered in an {@link APSimEnvironment}.
+ */
+export type APSimKeyEventRecord = {
+  /** The simulation time at which the key event was triggered, as a Javascript timestamp. */
+  time: number;
+
+  /** The name of the key event, without the `K:` prefix. */
+  key: string;
+
+  /** The first value of the key event. */
+  value0: number;
+
+  /** The second value of the key event. */
+  value1: number;
+
+  /** The third value of the key event. */
+  value2: number;
+
+  /** Whether the key event was intercepted and therefore sent to the avionics. */
+  intercepted: boolean;
+};
+
+/**
+ * A record of a Coherent call that was made in an {@link APSimEnvironment}.
+ */
+export type APSimCoherentCallRecord = {
+  /** The simulation time at which the call was made, as a Javascript timestamp. */
+  time: number;
+
+  /** The name of the call. */
+  name: string;
+
+  /** The arguments passed to the call. */
+  args: readonly unknown[];
+};
+
+/**
+ * A SimVar value stored in an {@link APSimEnvironment}.
+ */
+export type APSimSimVarValue = number | string;
+
+/**
+ * A handler that executes the default sim action for a key event in an {@link APSimEnvironment}.
+ */
+export type APSimKeyHandler = (env: APSimEnvironment, value0: number, value1: number, value2: number) => void;
+
+/**
+ * A function which is called with an arbitrary list of arguments.
+ */
+type APSimCallback = (...args: unknown[]) => void;
+
+/**
+ * A stand-in for the `SimVar` global.
+ */
+type APSimSimVarStandIn = Pick<typeof SimVar, 'GetSimVarValue' | 'SetSimVarValue' | 'GetRegisteredId' | 'GetSimVarValueFastReg' | 'GetGameVarValue'>;
+
+/**
+ * A stand-in for the `Coherent` global.
+ */
+type APSimCoherentStandIn = {
+  /** Makes a Coherent call. */
+  call(name: string, ...args: unknown[]): Promise<unknown>;
+
+  /** Registers a handler for a Coherent event. */
+  on(name: string, handler: APSimCallback): { clear(): void };
+};
+
+/**
+ * A stand-in for the sim's JS environment which allows autopilot code to run outside of the sim. The environment
+ * provides local implementations of the `SimVar`, `simvar`, `Coherent`, `APController`, `Simplane`,
+ * `RegisterViewListener`, `LaunchFlowEvent`, `requestAnimationFrame`, `GameState`, and `RunwayDesignator` globals, the
+ * `Avionics.Utils` unit conversion constants, `Utils.Clamp()`, a `Facilities.getMagVar()` that reports zero magnetic
+ * variation everywhere, and a minimal `window` object. The environment also controls the time
+ * returned by `Date.now()` and `performance.now()` and replaces the `setTimeout()` and `setInterval()` timers with
+ * timers that run on simulation time.
+ *
+ * SimVars are stored locally and are converted between common units of length, speed, angle, and pressure when they are
+ * read. Key events (triggered through `K:` SimVars or Coherent calls) are recorded and are either forwarded to the
+ * avionics if they have been intercepted, or handled by this environment's key handlers, which execute the default
+ * sim action for the key event.
+ *
+ * The environment's globals are only in effect between calls to {@link APSimEnvironment.install | install()} and
+ * {@link APSimEnvironment.uninstall | uninstall()}. Because the SDK augments the `SimVar` global when it is loaded,
+ * the environment must be installed before any other SDK module is loaded. This module does not import any other
+ * module so that it can be loaded and installed first.
+ *
+ * The simulation modules are Node-only test tooling and are not exported from the SDK's main entry point. They must be
+ * loaded from the `autopilot/simulation` entry point of the compiled SDK modules instead.
+ */
+export class APSimEnvironment {
+  private static readonly UNITS: Record<string, readonly [family: string, factor: number]> = {
+    'feet': ['length', 1],
+    'foot': ['length', 1],
+    'meters': ['length', 3.28084],
+    'meter': ['length', 3.28084],
+    'nautical mile': ['length', 6076.12],
+    'nautical miles': ['length', 6076.12],
+    'knots': ['speed', 1],
+    'knot': ['speed', 1],
+    'feet per minute': ['speed', 1 / 101.269],
+    'meters per second': ['speed', 1.94384],
+    'feet per second': ['speed', 0.592484],
+    'degrees': ['angle', 1],
+    'degree': ['angle', 1],
+    'radians': ['angle', 180 / Math.PI],
+    'radian': ['angle', 180 / Math.PI],
+    'degrees per second': ['angular rate', 1],
+    'radians per second': ['angular rate', 180 / Math.PI],
+    'hectopascals': ['pressure', 1],
+    'millibars': ['pressure', 1],
+    'inches of mercury': ['pressure', 33.8639],
+    'percent': ['ratio', 0.01],
+    'percent over 100': ['ratio', 1]
+  };
+
+  private static readonly GLOBAL_NAMES = [
+    'SimVar', 'simvar', 'Coherent', 'APController', 'Simplane', 'RegisterViewListener', 'LaunchFlowEvent', 'requestAnimationFrame', 'GameState',
+    'RunwayDesignator', 'Avionics', 'Utils', 'Facilities', 'window', 'performance',
+    'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'
+  ] as const;
+
+  private static readonly DEFAULT_KEY_HANDLERS: [string, APSimKeyHandler][] = [
+    ['TOGGLE_FLIGHT_DIRECTOR', (env, index) => {
+      const simVar = `AUTOPILOT FLIGHT DIRECTOR ACTIVE:${index === 2 ? 2 : 1}`;
+      env.setSimVar(simVar, 'bool', env.getSimVar(simVar, 'bool') ? 0 : 1);
+    }],
+    ['AP_MASTER', env => { env.setSimVar('AUTOPILOT MASTER', 'bool', env.getSimVar('AUTOPILOT MASTER', 'bool') ? 0 : 1); }],
+    ['AUTOPILOT_ON', env => { env.setSimVar('AUTOPILOT MASTER', 'bool', 1); }],
+    ['AUTOPILOT_OFF', env => { env.setSimVar('AUTOPILOT MASTER', 'bool', 0); }],
+    ['AUTOPILOT_DISENGAGE_TOGGLE', env => { env.setSimVar('AUTOPILOT MASTER', 'bool', 0); }]
+  ];
+
+  private readonly simVars = new Map<string, { value: APSimSimVarValue, unit: string }>();
+  private readonly registeredDefs: { name: string, unit: string }[] = [];
+  private readonly registeredIds = new Map<string, number>();
+
+  private readonly coherentHandlers = new Map<string, APSimCallback[]>();
+  private readonly interceptedKeys = new Map<string, boolean>();
+  private readonly activeSimApModes = new Set<number>();
+  private readonly keyHandlers = new Map<string, APSimKeyHandler>(APSimEnvironment.DEFAULT_KEY_HANDLERS);
+  private animationFrameCallbacks: ((time: number) => void)[] = [];
+
+  private readonly timers = new Map<number, { time: number, interval?: number, callback: APSimCallback, args: unknown[] }>();
+  private nextTimerId = 1;
+
+  private readonly savedGlobals = new Map<string, PropertyDescriptor | undefined>();
+  private savedDateNow?: () => number;
+  private readonly realSetTimeout = setTimeout;
+
+  private _time = 0;
+  /** The current simulation time of this environment, as a Javascript timestamp. */
+  public get time(): number {
+    return this._time;
+  }
+
+  private _isInstalled = false;
+  /** Whether this environment's globals are installed. */
+  public get isInstalled(): boolean {
+    return this._isInstalled;
+  }
+
+  private readonly _keyEventLog: APSimKeyEventRecord[] = [];
+  /** A log of all key events triggered in this environment, in chronological order. */
+  public readonly keyEventLog: readonly APSimKeyEventRecord[] = this._keyEventLog;
+
+  private readonly _coherentCallLog: APSimCoherentCallRecord[] = [];
+  /** A log of all Coherent calls made in this environment, excluding SimVar writes, in chronological order. */
+  public readonly coherentCallLog: readonly APSimCoherentCallRecord[] = this._coherentCallLog;
+
+  /**
+   * Creates a new instance of APSimEnvironment.
+   * @param startTime The initial simulation time of the environment, as a Javascript timestamp. Defaults to `0`.
+   */
+  public constructor(startTime = 0) {
+    this._time = startTime;
+  }
+
+  /**
+   * Installs this environment's globals. Any existing globals with the same names are saved and are restored when this
+   * environment is uninstalled. If this environment is already installed, then this method does nothing.
+   */
+  public install(): void {
+    if (this._isInstalled) {
+      return;
+    }
+
+    this._isInstalled = true;
+
+    const globals = globalThis as unknown as Record<string, unknown>;
+
+    for (const name of APSimEnvironment.GLOBAL_NAMES) {
+      this.savedGlobals.set(name, Object.getOwnPropertyDescriptor(globals, name));
+    }
+
+    globals.SimVar = this.createSimVarStandIn();
+    globals.simvar = {
+      getValueReg: (id: number): APSimSimVarValue => this.getRegisteredSimVar(id),
+      getValueReg_String: (id: number): APSimSimVarValue => this.getRegisteredSimVar(id)
+    };
+    globals.Coherent = this.createCoherentStandIn();
+    globals.APController = {
+      apGetAutopilotModeActive: (mode: number): number => this.activeSimApModes.has(mode) ? 1 : 0
+    };
+    globals.Simplane = {
+      getVerticalSpeed: (): number => this.getSimVar('VERTICAL SPEED', 'feet per minute'),
+      getIsGrounded: (): boolean => !!this.getSimVar('SIM ON GROUND', 'bool'),
+      getMachToKias: (mach: number): number => {
+        const currentMach = this.getSimVar('AIRSPEED MACH', 'mach');
+        return currentMach > 0 ? this.getSimVar('AIRSPEED INDICATED', 'knots') * mach / currentMach : 0;
+      }
+    };
+    globals.RegisterViewListener = this.registerViewListener.bind(this);
+    globals.LaunchFlowEvent = (): void => { /* noop */ };
+    globals.requestAnimationFrame = (callback: (time: number) => void): number => {
+      return this.animationFrameCallbacks.push(callback);
+    };
+    globals.GameState = {
+      mainmenu: 0, loading: 1, briefing: 2, ingame: 3,
+      0: 'mainmenu', 1: 'loading', 2: 'briefing', 3: 'ingame'
+    };
+
+    globals.RunwayDesignator = {
+      RUNWAY_DESIGNATOR_NONE: 0, RUNWAY_DESIGNATOR_LEFT: 1, RUNWAY_DESIGNATOR_RIGHT: 2, RUNWAY_DESIGNATOR_CENTER: 3,
+      RUNWAY_DESIGNATOR_WATER: 4, RUNWAY_DESIGNATOR_A: 5, RUNWAY_DESIGNATOR_B: 6
+    };
+
+    globals.Avionics = {
+      Utils: {
+        DEG2RAD: Math.PI / 180,
+        RAD2DEG: 180 / Math.PI,
+        FEET2METER: 0.3048,
+        METER2FEET: 1 / 0.3048
+      }
+    };
+    globals.Utils = {
+      Clamp: (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max)
+    };
+    globals.Facilities = {
+      getMagVar: (): number => 0
+    };
+
+    const body = {
+      hasAttribute: (attr: string): boolean => attr === 'gamestate',
+      getAttribute: (attr: string): string | null => attr === 'gamestate' ? 'briefing' : null
+    };
+    const document = { body, addEventListener: (): void => { /* noop */ } };
+    globals.window = { document, parent: { document } };
+
+    globals.performance = { now: (): number => this._time };
+
+    globals.setTimeout = (callback: APSimCallback, delay = 0, ...args: unknown[]): number => {
+      return this.addTimer(callback, delay, undefined, args);
+    };
+    globals.setInterval = (callback: APSimCallback, delay = 0, ...args: unknown[]): number => {
+      return this.addTimer(callback, delay, Math.max(delay, 1), args);
+    };
+    globals.clearTimeout = globals.clearInterval = (id?: number): void => {
+      if (id !== undefined) {
+        this.timers.delete(id);
+      }
+    };
+
+    this.savedDateNow = Date.now;
+    Date.now = (): number => this._time;
+  }
+
+  /**
+   * Uninstalls this environment's globals and restores any globals that were replaced when this environment was
+   * installed. If this environment is not installed, then this method does nothing.
+   */
+  public uninstall(): void {
+    if (!this._isInstalled) {
+      return;
+    }
+
+    this._isInstalled = false;
+
+    const globals = globalThis as unknown as Record<string, unknown>;
+
+    for (const [name, descriptor] of this.savedGlobals) {
+      if (descriptor) {
+        Object.defineProperty(globals, name, descriptor);
+      } else {
+        delete globals[name];
+      }
+    }
+
+    this.savedGlobals.clear();
+
+    if (this.savedDateNow) {
+      Date.now = this.savedDateNow;
+      this.savedDateNow = undefined;
+    }
+  }
+
+  /**
+   * Sets the simulation time of this environment.
+   * @param time The simulation time to set, as a Javascript timestamp.
+   */
+  public setTime(time: number): void {
+    this._time = time;
+  }
+
+  /**
+   * Runs one frame of this environment. Executes all timers that have come due at or before the current simulation
+   * time, then executes all callbacks that were registered through `requestAnimationFrame()` since the last frame.
+   */
+  public runFrame(): void {
+    this.runTimers();
+
+    const callbacks = this.animationFrameCallbacks;
+    this.animationFrameCallbacks = [];
+
+    for (let i = 0; i < callbacks.length; i++) {
+      callbacks[i](this._time);
+    }
+  }
+
+  /**
+   * Yields to the real JS event loop so that all pending microtasks are executed. Unlike the stand-in timers, this
+   * method does not depend on simulation time.
+   * @returns A Promise which is fulfilled after yielding to the event loop.
+   */
+  public yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => this.realSetTimeout(resolve, 0));
+  }
+
+  /**
+   * Gets the value of a string SimVar.
+   * @param name The name of the SimVar.
+   * @param unit The unit in which to get the value.
+   * @returns The value of the SimVar as a string, or the empty string if the SimVar has never been set.
+   */
+  public getSimVar(name: string, unit: 'string'): string;
+  /**
+   * Gets the value of a numeric SimVar.
+   * @param name The name of the SimVar.
+   * @param unit The unit in which to get the value.
+   * @returns The value of the SimVar in the requested unit, or `0` if the SimVar has never been set.
+   */
+  public getSimVar(name: string, unit: string): number;
+  // eslint-disable-next-line jsdoc/require-jsdoc
+  public getSimVar(name: string, unit: string): APSimSimVarValue {
+    const entry = this.simVars.get(APSimEnvironment.normalizeName(name));
+
+    if (unit.toLowerCase() === 'string') {
+      return entry === undefined ? '' : entry.value.toString();
+    }
+
+    if (entry === undefined) {
+      return 0;
+    }
+
+    return typeof entry.value === 'number' ? APSimEnvironment.convert(entry.value, entry.unit, unit) : Number(entry.value);
+  }
+
+  /**
+   * Sets the value of a SimVar. Setting a `K:` SimVar triggers the corresponding key event.
+   * @param name The name of the SimVar.
+   * @param unit The unit of the value to set.
+   * @param value The value to set.
+   */
+  public setSimVar(name: string, unit: string, value: APSimSimVarValue | boolean): void {
+    if (name.startsWith('K:')) {
+      this.triggerKey(name.substring(2), false, Number(value));
+      return;
+    }
+
+    this.simVars.set(APSimEnvironment.normalizeName(name), { value: typeof value === 'boolean' ? (value ? 1 : 0) : value, unit });
+  }
+
+  /**
+   * Triggers a key event. If the key event has been intercepted and `bypass` is `false`, then the key event is sent to
+   * the avionics. If the key event has not been intercepted, has been intercepted with pass-through, or `bypass` is
+   * `true`, then the key event's default sim action is executed by this environment's handler for the key event, if one
+   * exists.
+   * @param key The name of the key event, without the `K:` prefix.
+   * @param bypass Whether to bypass key event interception.
+   * @param value0 The first value of the key event. Defaults to `0`.
+   * @param value1 The second value of the key event. Defaults to `0`.
+   * @param value2 The third value of the key event. Defaults to `0`.
+   */
+  public triggerKey(key: string, bypass: boolean, value0 = 0, value1 = 0, value2 = 0): void {
+    const passThrough = this.interceptedKeys.get(key);
+    const intercepted = !bypass && passThrough !== undefined;
+
+    this._keyEventLog.push({ time: this._time, key, value0, value1, value2, intercepted });
+
+    if (intercepted) {
+      // The sim passes intercepted key event values in the order value1, value0, value2.
+      this.notifyCoherent('keyIntercepted', key, value1, value0, value2);
+    }
+
+    if (!intercepted || passThrough) {
+      this.keyHandlers.get(key)?.(this, value0, value1, value2);
+    }
+  }
+
+  /**
+   * Sets the handler that executes the default sim action for a key event. Handlers are provided by default for the
+   * `TOGGLE_FLIGHT_DIRECTOR`, `AP_MASTER`, `AUTOPILOT_ON`, `AUTOPILOT_OFF`, and `AUTOPILOT_DISENGAGE_TOGGLE` key events.
+   * @param key The name of the key event, without the `K:` prefix.
+   * @param handler The handler to set, or `undefined` to remove the existing handler.
+   */
+  public setKeyHandler(key: string, handler: APSimKeyHandler | undefined): void {
+    if (handler) {
+      this.keyHandlers.set(key, handler);
+    } else {
+      this.keyHandlers.delete(key);
+    }
+  }
+
+  /**
+   * Checks whether a key event has been intercepted.
+   * @param key The name of the key event, without the `K:` prefix.
+   * @returns Whether the specified key event has been intercepted.
+   */
+  public isKeyIntercepted(key: string): boolean {
+    return this.interceptedKeys.has(key);
+  }
+
+  /**
+   * Adds a timer that runs on simulation time.
+   * @param callback The function to call when the timer comes due.
+   * @param delay The delay of the timer, in milliseconds.
+   * @param interval The interval at which the timer repeats, in milliseconds, or `undefined` if the timer does not repeat.
+   * @param args The arguments to pass to the callback.
+   * @returns The ID of the new timer.
+   */
+  private addTimer(callback: APSimCallback, delay: number, interval: number | undefined, args: unknown[]): number {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { time: this._time + Math.max(delay, 0), interval, callback, args });
+    return id;
+  }
+
+  /**
+   * Executes all timers that have come due at or before the current simulation time, in order of due time.
+   */
+  private runTimers(): void {
+    for (; ;) {
+      let dueId: number | undefined;
+      let dueTime = Infinity;
+
+      for (const [id, timer] of this.timers) {
+        if (timer.time <= this._time && timer.time < dueTime) {
+          dueId = id;
+          dueTime = timer.time;
+        }
+      }
+
+      if (dueId === undefined) {
+        return;
+      }
+
+      const timer = this.timers.get(dueId)!;
+
+      if (timer.interval === undefined) {
+        this.timers.delete(dueId);
+      } else {
+        timer.time += timer.interval;
+      }
+
+      timer.callback(...timer.args);
+    }
+  }
+
+  /**
+   * Creates a stand-in for the `SimVar` global.
+   * @returns A stand-in for the `SimVar` global.
+   */
+  private createSimVarStandIn(): APSimSimVarStandIn {
+    return {
+      GetSimVarValue: (name: string, unit: string): APSimSimVarValue => this.getSimVar(name, unit),
+      SetSimVarValue: (name: string, unit: string, value: APSimSimVarValue | boolean): Promise<void> => {
+        this.setSimVar(name, unit, value);
+        return Promise.resolve();
+      },
+      GetRegisteredId: this.getRegisteredId.bind(this),
+      GetSimVarValueFastReg: this.getRegisteredSimVar.bind(this),
+      GetGameVarValue: (): number => 0
+    };
+  }
+
+  /**
+   * Gets the registered ID for a SimVar and unit.
+   * @param name The name of the SimVar.
+   * @param unit The unit of the SimVar.
+   * @returns The registered ID for the specified SimVar and unit.
+   */
+  private getRegisteredId(name: string, unit: string): number {
+    const key = `${APSimEnvironment.normalizeName(name)};${unit}`;
+
+    let id = this.registeredIds.get(key);
+    if (id === undefined) {
+      id = this.registeredDefs.push({ name, unit }) - 1;
+      this.registeredIds.set(key, id);
+    }
+
+    return id;
+  }
+
+  /**
+   * Gets the value of a SimVar by registered ID.
+   * @param id The registered ID of the SimVar.
+   * @returns The value of the SimVar, or `0` if the ID is not registered.
+   */
+  private getRegisteredSimVar(id: number): APSimSimVarValue {
+    const def = this.registeredDefs[id];
+    return def === undefined ? 0 : this.getSimVar(def.name, def.unit);
+  }
+
+  /**
+   * Sets the value of a SimVar by registered ID.
+   * @param id The registered ID of the SimVar.
+   * @param value The value to set.
+   */
+  private setRegisteredSimVar(id: number, value: APSimSimVarValue | boolean): void {
+    const def = this.registeredDefs[id];
+    if (def !== undefined) {
+      this.setSimVar(def.name, def.unit, value);
+    }
+  }
+
+  /**
+   * Creates a stand-in for the `Coherent` global.
+   * @returns A stand-in for the `Coherent` global.
+   */
+  private createCoherentStandIn(): APSimCoherentStandIn {
+    return {
+      call: (name: string, ...args: unknown[]): Promise<unknown> => {
+        switch (name) {
+          case 'setValueReg_Number':
+          case 'setValueReg_Bool':
+          case 'setValueReg_String':
+            this.setRegisteredSimVar(args[0] as number, args[1] as APSimSimVarValue | boolean);
+            return Promise.resolve(undefined);
+        }
+
+        this._coherentCallLog.push({ time: this._time, name, args });
+
+        switch (name) {
+          case 'TRIGGER_KEY_EVENT':
+            this.triggerKey(args[0] as string, !!args[1], args[2] as number | undefined, args[3] as number | undefined, args[4] as number | undefined);
+            break;
+          case 'INTERCEPT_KEY_EVENT':
+            this.interceptedKeys.set(args[0] as string, args[1] === 0);
+            break;
+          case 'apSetAutopilotMode':
+            if (args[1]) {
+              this.activeSimApModes.add(args[0] as number);
+            } else {
+              this.activeSimApModes.delete(args[0] as number);
+            }
+            break;
+          case 'AP_VS_VAR_SET_ENGLISH':
+            this.setSimVar(`AUTOPILOT VERTICAL HOLD VAR:${args[0]}`, 'feet per minute', args[1] as number);
+            break;
+        }
+
+        return Promise.resolve(undefined);
+      },
+      on: (name: string, handler: APSimCallback): { clear(): void } => {
+        let handlers = this.coherentHandlers.get(name);
+        if (handlers === undefined) {
+          this.coherentHandlers.set(name, handlers = []);
+        }
+        handlers.push(handler);
+
+        return {
+          clear: (): void => {
+            const index = handlers?.indexOf(handler) ?? -1;
+            if (index >= 0) {
+              handlers?.splice(index, 1);
+            }
+          }
+        };
+      }
+    };
+  }
+
+  /**
+   * A stand-in for the `RegisterViewListener` global. The returned listener is considered registered on the next
+   * microtask.
+   * @param name The name of the listener.
+   * @param callback A function to call when the listener is registered.
+   * @returns A stand-in view listener.
+   */
+  private registerViewListener(name: string, callback?: () => void): ViewListener.ViewListener {
+    const listener = {
+      name,
+      on: (): void => { /* noop */ },
+      off: (): void => { /* noop */ },
+      call: (): Promise<unknown> => Promise.resolve(undefined),
+      trigger: (): void => { /* noop */ },
+      triggerToAllSubscribers: (): void => { /* noop */ },
+      unregister: (): void => { /* noop */ }
+    };
+
+    if (callback) {
+      Promise.resolve().then(callback);
+    }
+
+    return listener as unknown as ViewListener.ViewListener;
+  }
+
+  /**
+   * Notifies Coherent event handlers registered through the `Coherent` stand-in.
+   * @param name The name of the event.
+   * @param args The event arguments.
+   */
+  private notifyCoherent(name: string, ...args: unknown[]): void {
+    const handlers = this.coherentHandlers.get(name);
+    if (handlers) {
+      for (const handler of handlers.slice()) {
+        handler(...args);
+      }
+    }
+  }
+
+  /**
+   * Normalizes a SimVar name for lookup.
+   * @param name The name to normalize.
+   * @returns The normalized name.
+   */
+  private static normalizeName(name: string): string {
+    return name.trim().toUpperCase();
+  }
+
+  /**
+   * Converts a numeric SimVar value between units. Values are returned unconverted if either unit is not recognized or
+   * if the units are of different families.
+   * @param value The value to convert.
+   * @param fromUnit The unit from which to convert.
+   * @param toUnit The unit to which to convert.
+   * @returns The converted value.
+   */
+  private static convert(value: number, fromUnit: string, toUnit: string): number {
+    const from = APSimEnvironment.UNITS[fromUnit.toLowerCase()];
+    const to = APSimEnvironment.UNITS[toUnit.toLowerCase()];
+
+    if (from === undefined || to === undefined || from[0] !== to[0]) {
+      return value;
+    }
+
+    return value * from[1] / to[1];
+  }
+}
@@ -0,0 +1,421 @@
+import { EventBus } from '../../data/EventBus';
+import { SimVarValueType } from '../../data/SimVars';
+import { AdcEvents } from '../../instruments/Adc';
+import { AhrsEvents } from '../../instruments/Ahrs';
+import { APEvents } from '../../instruments/APPublisher';
+import { ClockEvents } from '../../instruments/Clock';
+import { GNSSEvents } from '../../instruments/GNSS';
+import { UnitType } from '../../math/NumberUnit';
+import { Autopilot } from '../Autopilot';
+import { APSimAircraftModel, APSimAircraftModelOptions, APSimAircraftState } from './APSimAircraftModel';
+import { APSimEnvironment } from './APSimEnvironment';
+import { APSimModeSlot, APSimTimeline } from './APSimTimeline';
+
+/**
+ * Events published by an {@link APSimHarness} that can also be published through
+ * {@link APSimHarness.publish | publish()}.
+ */
+export type APSimHarnessEvents = ClockEvents & AdcEvents & AhrsEvents & GNSSEvents & APEvents;
+
+/**
+ * A scripted action executed by an {@link APSimHarness}.
+ */
+export type APSimScriptAction = (harness: APSimHarness) => void;
+
+/**
+ * Options for {@link APSimHarness}.
+ */
+export type APSimHarnessOptions = {
+  /**
+   * The stand-in environment in which to run the simulation. The environment must have been installed before any other
+   * SDK module was loaded.
+   */
+  env: APSimEnvironment;
+
+  /**
+   * A function which creates the autopilot to simulate.
+   * @param bus The event bus to use.
+   * @param env The harness's stand-in environment.
+   * @returns The autopilot to simulate.
+   */
+  createAutopilot: (bus: EventBus, env: APSimEnvironment) => Autopilot;
+
+  /** The initial state of the simulated aircraft. */
+  initialState?: Readonly<Partial<APSimAircraftState>>;
+
+  /** Options with which to configure the simulated aircraft. */
+  aircraftOptions?: Readonly<APSimAircraftModelOptions>;
+
+  /** The simulation time step, in milliseconds. Defaults to `50`. */
+  timeStep?: number;
+
+  /**
+   * Whether the simulated aircraft flies the attitude commanded by the flight director while a flight director is
+   * switched on or the autopilot is engaged. Defaults to `true`.
+   */
+  followFlightDirector?: boolean;
+};
+
+/**
+ * A harness which runs an {@link Autopilot} outside of the sim against a point-mass aircraft model and scripted pilot
+ * inputs. All SimVar, Coherent, and key event interactions are routed through a stand-in {@link APSimEnvironment}, and
+ * the harness publishes clock, air data, and attitude data for the simulated aircraft to the event bus each step. The
+ * active and armed autopilot modes and the flight director outputs are recorded in an {@link APSimTimeline}.
+ *
+ * Each step of the simulation advances time, executes any scripted actions that are due, advances the aircraft model
+ * toward the attitude commanded by the flight director, publishes the aircraft's state, updates the autopilot, and
+ * records a sample.
+ *
+ * Because `KeyEventManager` is a singleton, only one harness can be initialized per JS context.
+ */
+export class APSimHarness {
+  private static isContextUsed = false;
+
+  /** This harness's stand-in environment. */
+  public readonly env: APSimEnvironment;
+
+  /** This harness's simulated aircraft. */
+  public readonly aircraft: APSimAircraftModel;
+
+  /** The timeline of autopilot modes and flight director outputs recorded by this harness. */
+  public readonly timeline = new APSimTimeline();
+
+  private readonly timeStep: number;
+  private readonly startTime: number;
+  private readonly followFlightDirector: boolean;
+
+  private readonly script: { time: number, action: APSimScriptAction }[] = [];
+
+  private _bus?: EventBus;
+  private _autopilot?: Autopilot;
+
+  private elapsedTime = 0;
+  private lastApMasterOn?: boolean;
+
+  private isAlive = true;
+  private isInit = false;
+
+  /**
+   * Gets the event bus used by this harness.
+   * @returns The event bus used by this harness.
+   * @throws Error if this harness has not been initialized.
+   */
+  public get bus(): EventBus {
+    if (!this._bus) {
+      throw new Error('APSimHarness: harness has not been initialized');
+    }
+
+    return this._bus;
+  }
+
+  /**
+   * Gets the autopilot simulated by this harness.
+   * @returns The autopilot simulated by this harness.
+   * @throws Error if this harness has not been initialized.
+   */
+  public get autopilot(): Autopilot {
+    if (!this._autopilot) {
+      throw new Error('APSimHarness: harness has not been initialized');
+    }
+
+    return this._autopilot;
+  }
+
+  /**
+   * Gets the elapsed simulation time.
+   * @returns The elapsed simulation time, in milliseconds.
+   */
+  public get time(): number {
+    return this.elapsedTime;
+  }
+
+  /**
+   * Creates a new instance of APSimHarness.
+   * @param options Options with which to configure the harness.
+   */
+  public constructor(private readonly options: Readonly<APSimHarnessOptions>) {
+    this.timeStep = options.timeStep ?? 50;
+    this.followFlightDirector = options.followFlightDirector ?? true;
+
+    this.env = options.env;
+    this.startTime = this.env.time;
+    this.aircraft = new APSimAircraftModel(options.initialState ?? {}, options.aircraftOptions);
+  }
+
+  /**
+   * Initializes this harness. Creates the autopilot and waits for the autopilot's state manager to be initialized.
+   * @returns A Promise which is fulfilled when this harness has been initialized.
+   * @throws Error if this harness has been destroyed, if its environment is not installed, or if another harness has
+   * already been initialized in this JS context.
+   */
+  public async init(): Promise<void> {
+    if (!this.isAlive) {
+      throw new Error('APSimHarness: cannot initialize a dead harness');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    if (APSimHarness.isContextUsed) {
+      throw new Error('APSimHarness: only one harness can be initialized per JS context');
+    }
+
+    if (!this.env.isInstalled) {
+      throw new Error('APSimHarness: the stand-in environment is not installed');
+    }
+
+    APSimHarness.isContextUsed = true;
+    this.isInit = true;
+
+    this._bus = new EventBus();
+    this._bus.getPublisher<ClockEvents>().pub('simRate', 1, false, true);
+    this.writeAircraftState();
+
+    this._autopilot = this.options.createAutopilot(this._bus, this.env);
+
+    await this._autopilot.stateManager.initialize();
+    await this.env.yieldToEventLoop();
+
+    this.recordSample();
+  }
+
+  /**
+   * Schedules a scripted action. Actions scheduled for the same time are executed in the order in which they were
+   * scheduled.
+   * @param time The elapsed simulation time at which to execute the action, in milliseconds. Actions scheduled for a
+   * time that has already passed are executed on the next step.
+   * @param action The action to execute.
+   * @returns This harness, so that calls can be chained.
+   */
+  public at(time: number, action: APSimScriptAction): this {
+    let index = this.script.length;
+    while (index > 0 && this.script[index - 1].time > time) {
+      index--;
+    }
+
+    this.script.splice(index, 0, { time, action });
+    return this;
+  }
+
+  /**
+   * Runs this harness for a period of simulation time.
+   * @param duration The amount of simulation time to run, in milliseconds.
+   * @returns A Promise which is fulfilled with this harness's timeline when the run is complete.
+   * @throws Error if this harness has not been initialized or has been destroyed.
+   */
+  public async run(duration: number): Promise<APSimTimeline> {
+    if (!this.isAlive || !this._autopilot) {
+      throw new Error('APSimHarness: cannot run a harness that is not initialized or is dead');
+    }
+
+    const endTime = this.elapsedTime + duration;
+
+    while (this.elapsedTime < endTime) {
+      await this.step();
+    }
+
+    return this.timeline;
+  }
+
+  /**
+   * Triggers a key event as if it were triggered by the pilot.
+   * @param key The name of the key event, without the `K:` prefix.
+   * @param value0 The first value of the key event. Defaults to `0`.
+   * @param value1 The second value of the key event. Defaults to `0`.
+   */
+  public pressKey(key: string, value0 = 0, value1 = 0): void {
+    this.env.triggerKey(key, false, value0, value1);
+  }
+
+  /**
+   * Publishes a value to the event bus.
+   * @param topic The topic to which to publish.
+   * @param value The value to publish.
+   */
+  public publish<K extends keyof APSimHarnessEvents & string>(topic: K, value: APSimHarnessEvents[K]): void {
+    this.bus.getPublisher<APSimHarnessEvents>().pub(topic, value, false, true);
+  }
+
+  /**
+   * Sets the selected altitude.
+   * @param altitude The altitude to select, in feet.
+   * @param index The index of the altitude selector. Defaults to `1`.
+   */
+  public selectAltitude(altitude: number, index = 1): void {
+    this.bus.getPublisher<APEvents>().pub(`ap_altitude_selected_${index}`, altitude, false, true);
+  }
+
+  /**
+   * Sets the selected heading.
+   * @param heading The heading to select, in degrees.
+   */
+  public selectHeading(heading: number): void {
+    this.bus.getPublisher<APEvents>().pub('ap_heading_selected', heading, false, true);
+  }
+
+  /**
+   * Sets the selected vertical speed.
+   * @param verticalSpeed The vertical speed to select, in feet per minute.
+   */
+  public selectVerticalSpeed(verticalSpeed: number): void {
+    this.bus.getPublisher<APEvents>().pub('ap_vs_selected', verticalSpeed, false, true);
+  }
+
+  /**
+   * Sets the selected pitch angle.
+   * @param pitch The pitch angle to select, in degrees. Positive values indicate upward pitch.
+   */
+  public selectPitch(pitch: number): void {
+    this.bus.getPublisher<APEvents>().pub('ap_pitch_selected', pitch, false, true);
+  }
+
+  /**
+   * Sets the selected indicated airspeed.
+   * @param ias The indicated airspeed to select, in knots.
+   */
+  public selectIas(ias: number): void {
+    this.bus.getPublisher<APEvents>().pub('ap_ias_selected', ias, false, true);
+  }
+
+  /**
+   * Destroys this harness. The harness's stand-in environment is left installed.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+  }
+
+  /**
+   * Advances this harness by one time step.
+   */
+  private async step(): Promise<void> {
+    const autopilot = this._autopilot as Autopilot;
+
+    this.elapsedTime += this.timeStep;
+    this.env.setTime(this.startTime + this.elapsedTime);
+
+    while (this.script.length > 0 && this.script[0].time <= this.elapsedTime) {
+      this.script.shift()?.action(this);
+    }
+
+    if (this.followFlightDirector && (autopilot.stateManager.isAnyFlightDirectorOn.get() || autopilot.stateManager.apMasterOn.get())) {
+      this.aircraft.setTargetAttitude(this.getFdPitch(), this.getFdBank());
+    }
+
+    this.aircraft.update(this.timeStep / 1000);
+    this.writeAircraftState();
+
+    this.env.runFrame();
+    autopilot.update();
+
+    await this.env.yieldToEventLoop();
+
+    this.recordSample();
+  }
+
+  /**
+   * Writes the state of the simulated aircraft to SimVars and publishes it to the event bus.
+   */
+  private writeAircraftState(): void {
+    const env = this.env;
+    const bus = this.bus;
+    const state = this.aircraft.state;
+
+    const ias = this.aircraft.getIas();
+    const mach = this.aircraft.getMach();
+    const pressure = this.aircraft.getAmbientPressure();
+    const aoa = this.aircraft.getAoa();
+
+    env.setSimVar('PLANE LATITUDE', SimVarValueType.Degree, state.lat);
+    env.setSimVar('PLANE LONGITUDE', SimVarValueType.Degree, state.lon);
+    env.setSimVar('PLANE ALTITUDE', SimVarValueType.Feet, state.altitude);
+    env.setSimVar('INDICATED ALTITUDE', SimVarValueType.Feet, state.altitude);
+    env.setSimVar('INDICATED ALTITUDE:1', SimVarValueType.Feet, state.altitude);
+    env.setSimVar('PRESSURE ALTITUDE', SimVarValueType.Feet, state.altitude);
+    env.setSimVar('VERTICAL SPEED', SimVarValueType.FPM, state.verticalSpeed);
+    env.setSimVar('AIRSPEED TRUE', SimVarValueType.Knots, state.tas);
+    env.setSimVar('AIRSPEED INDICATED', SimVarValueType.Knots, ias);
+    env.setSimVar('AIRSPEED INDICATED:1', SimVarValueType.Knots, ias);
+    env.setSimVar('AIRSPEED MACH', SimVarValueType.Mach, mach);
+    env.setSimVar('AMBIENT PRESSURE', SimVarValueType.HPA, pressure);
+    env.setSimVar('AMBIENT WIND Y', SimVarValueType.FPM, 0);
+    env.setSimVar('INCIDENCE ALPHA', SimVarValueType.Degree, aoa);
+    env.setSimVar('ACCELERATION BODY Z', 'feet per second squared', UnitType.KNOT.convertTo(this.aircraft.getAcceleration(), UnitType.FPS));
+    env.setSimVar('PLANE PITCH DEGREES', SimVarValueType.Degree, -state.pitch);
+    env.setSimVar('PLANE BANK DEGREES', SimVarValueType.Degree, -state.bank);
+    env.setSimVar('PLANE HEADING DEGREES TRUE', SimVarValueType.Degree, state.heading);
+    env.setSimVar('PLANE HEADING DEGREES MAGNETIC', SimVarValueType.Degree, state.heading);
+    env.setSimVar('GPS GROUND TRUE TRACK', SimVarValueType.Degree, state.heading);
+    env.setSimVar('GPS GROUND MAGNETIC TRACK', SimVarValueType.Degree, state.heading);
+    env.setSimVar('SIM ON GROUND', SimVarValueType.Bool, false);
+
+    const clock = bus.getPublisher<ClockEvents>();
+    clock.pub('simTime', env.time, false, true);
+    clock.pub('simTimeHiFreq', env.time, false, true);
+
+    const adc = bus.getPublisher<AdcEvents>();
+    adc.pub('ias', ias, false, true);
+    adc.pub('tas', state.tas, false, true);
+    adc.pub('mach_number', mach, false, true);
+    adc.pub('mach_to_kias_factor', mach > 0 ? ias / mach : 1, false, true);
+    adc.pub('indicated_alt', state.altitude, false, true);
+    adc.pub('pressure_alt', state.altitude, false, true);
+    adc.pub('vertical_speed', state.verticalSpeed, false, true);
+    adc.pub('on_ground', false, false, true);
+    adc.pub('aoa', aoa, false, true);
+
+    const ahrs = bus.getPublisher<AhrsEvents>();
+    ahrs.pub('hdg_deg', state.heading, false, true);
+    ahrs.pub('hdg_deg_true', state.heading, false, true);
+    ahrs.pub('actual_hdg_deg', state.heading, false, true);
+    ahrs.pub('actual_hdg_deg_true', state.heading, false, true);
+    ahrs.pub('pitch_deg', -state.pitch, false, true);
+    ahrs.pub('actual_pitch_deg', -state.pitch, false, true);
+    ahrs.pub('roll_deg', -state.bank, false, true);
+    ahrs.pub('actual_roll_deg', -state.bank, false, true);
+
+    bus.getPublisher<GNSSEvents>().pub('magvar', 0, false, true);
+
+    const apMasterOn = !!env.getSimVar('AUTOPILOT MASTER', SimVarValueType.Bool);
+    if (apMasterOn !== this.lastApMasterOn) {
+      this.lastApMasterOn = apMasterOn;
+      bus.getPublisher<APEvents>().pub('ap_master_status', apMasterOn, false, true);
+    }
+  }
+
+  /**
+   * Gets the pitch angle commanded by the flight director.
+   * @returns The pitch angle commanded by the flight director, in degrees. Positive values indicate upward pitch.
+   */
+  private getFdPitch(): number {
+    return -this.env.getSimVar('AUTOPILOT PITCH HOLD REF', SimVarValueType.Degree);
+  }
+
+  /**
+   * Gets the bank angle commanded by the flight director.
+   * @returns The bank angle commanded by the flight director, in degrees. Positive values indicate rightward bank.
+   */
+  private getFdBank(): number {
+    return -this.env.getSimVar('AUTOPILOT BANK HOLD REF', SimVarValueType.Degree);
+  }
+
+  /**
+   * Records a sample of the current autopilot and aircraft state to this harness's timeline.
+   */
+  private recordSample(): void {
+    const autopilot = this.autopilot;
+
+    this.timeline.record({
+      time: this.elapsedTime,
+      [APSimModeSlot.LateralActive]: autopilot.apValues.lateralActive.get(),
+      [APSimModeSlot.LateralArmed]: autopilot.apValues.lateralArmed.get(),
+      [APSimModeSlot.VerticalActive]: autopilot.apValues.verticalActive.get(),
+      [APSimModeSlot.VerticalArmed]: autopilot.apValues.verticalArmed.get(),
+      apMasterOn: autopilot.stateManager.apMasterOn.get(),
+      flightDirectorOn: autopilot.stateManager.isAnyFlightDirectorOn.get(),
+      fdPitch: this.getFdPitch(),
+      fdBank: this.getFdBank(),
+      aircraft: this.aircraft.state
+    });
+  }
+}
@@ -0,0 +1,156 @@
+import { APSimAircraftState } from './APSimAircraftModel';
+
+/**
+ * Autopilot mode slots tracked by {@link APSimTimeline}.
+ */
+export enum APSimModeSlot {
+  LateralActive = 'LateralActive',
+  LateralArmed = 'LateralArmed',
+  VerticalActive = 'VerticalActive',
+  VerticalArmed = 'VerticalArmed'
+}
+
+/**
+ * A sample of autopilot and aircraft state recorded by an autopilot simulation.
+ */
+export type APSimSample = {
+  /** The elapsed simulation time at which the sample was recorded, in milliseconds. */
+  time: number;
+
+  /** The active lateral mode. */
+  [APSimModeSlot.LateralActive]: number;
+
+  /** The armed lateral mode. */
+  [APSimModeSlot.LateralArmed]: number;
+
+  /** The active vertical mode. */
+  [APSimModeSlot.VerticalActive]: number;
+
+  /** The armed vertical mode. */
+  [APSimModeSlot.VerticalArmed]: number;
+
+  /** Whether the autopilot was engaged. */
+  apMasterOn: boolean;
+
+  /** Whether any flight director was switched on. */
+  flightDirectorOn: boolean;
+
+  /** The pitch angle commanded by the flight director, in degrees. Positive values indicate upward pitch. */
+  fdPitch: number;
+
+  /** The bank angle commanded by the flight director, in degrees. Positive values indicate rightward bank. */
+  fdBank: number;
+
+  /** The state of the simulated aircraft. */
+  aircraft: Readonly<APSimAircraftState>;
+};
+
+/**
+ * A change in an autopilot mode recorded by an autopilot simulation.
+ */
+export type APSimModeChange = {
+  /** The elapsed simulation time at which the change was recorded, in milliseconds. */
+  time: number;
+
+  /** The mode slot that changed. */
+  slot: APSimModeSlot;
+
+  /** The mode before the change. */
+  from: number;
+
+  /** The mode after the change. */
+  to: number;
+};
+
+/**
+ * A timeline of autopilot modes and flight director outputs recorded by an autopilot simulation.
+ */
+export class APSimTimeline {
+  private static readonly SLOTS = Object.values(APSimModeSlot);
+
+  private readonly _samples: APSimSample[] = [];
+  /** The samples recorded in this timeline, in chronological order. */
+  public readonly samples: readonly Readonly<APSimSample>[] = this._samples;
+
+  private readonly _modeChanges: APSimModeChange[] = [];
+  /** The mode changes recorded in this timeline, in chronological order. */
+  public readonly modeChanges: readonly Readonly<APSimModeChange>[] = this._modeChanges;
+
+  /**
+   * Records a sample in this timeline. Any differences in modes between the sample and the previously recorded sample
+   * are recorded as mode changes.
+   * @param sample The sample to record. Its time must not be earlier than that of the previously recorded sample.
+   * @throws Error if the sample's time is earlier than that of the previously recorded sample.
+   */
+  public record(sample: Readonly<APSimSample>): void {
+    const last = this._samples[this._samples.length - 1];
+
+    if (last !== undefined) {
+      if (sample.time < last.time) {
+        throw new Error(`APSimTimeline: cannot record a sample at time ${sample.time} before the last recorded sample at time ${last.time}`);
+      }
+
+      for (const slot of APSimTimeline.SLOTS) {
+        if (sample[slot] !== last[slot]) {
+          this._modeChanges.push({ time: sample.time, slot, from: last[slot], to: sample[slot] });
+        }
+      }
+    }
+
+    this._samples.push({ ...sample, aircraft: { ...sample.aircraft } });
+  }
+
+  /**
+   * Gets the most recent sample recorded at or before a given time.
+   * @param time The elapsed simulation time, in milliseconds.
+   * @returns The most recent sample recorded at or before the specified time, or `undefined` if there is no such sample.
+   */
+  public getSampleAt(time: number): Readonly<APSimSample> | undefined {
+    let lo = 0;
+    let hi = this._samples.length - 1;
+    let result: APSimSample | undefined;
+
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this._samples[mid].time <= time) {
+        result = this._samples[mid];
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Gets the mode in a mode slot at a given time.
+   * @param slot The mode slot.
+   * @param time The elapsed simulation time, in milliseconds.
+   * @returns The mode in the specified slot at the specified time, or `undefined` if no sample was recorded at or before
+   * the specified time.
+   */
+  public getModeAt(slot: APSimModeSlot, time: number): number | undefined {
+    return this.getSampleAt(time)?.[slot];
+  }
+
+  /**
+   * Gets the mode changes recorded in this timeline, optionally filtered by mode slot.
+   * @param slot The mode slot for which to get changes. If not defined, then changes for all slots are returned.
+   * @returns The mode changes recorded in this timeline for the specified slot, in chronological order.
+   */
+  public getModeChanges(slot?: APSimModeSlot): readonly Readonly<APSimModeChange>[] {
+    return slot === undefined ? this._modeChanges.slice() : this._modeChanges.filter(change => change.slot === slot);
+  }
+
+  /**
+   * Finds the first sample in this timeline that satisfies a predicate.
+   * @param predicate The predicate to satisfy.
+   * @param startTime The elapsed simulation time, in milliseconds, at which to begin searching. Defaults to `0`.
+   * @returns The first sample recorded at or after the start time that satisfies the predicate, or `undefined` if there
+   * is no such sample.
+   */
+  public findFirst(predicate: (sample: Readonly<APSimSample>) => boolean, startTime = 0): Readonly<APSimSample> | undefined {
+    return this._samples.find(sample => sample.time >= startTime && predicate(sample));
+  }
+}
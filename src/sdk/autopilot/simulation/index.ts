@@ -0,0 +1,4 @@
+export * from './APSimAircraftModel';
+export * from './APSimEnvironment';
+export * from './APSimHarness';
+export * from './APSimTimeline';
@@ -1,5 +1,6 @@
 import { EventBus } from '../../data';
 import { BasePublisher } from '../../instruments';
+import { VNavClimbPathPoint, VNavLegEnergyPrediction, VNavStepClimbPrediction } from '../VerticalNavigation';
 
 /**
  * VNAV-related data events keyed by base topic names.
@@ -19,6 +20,30 @@ export interface BaseVNavDataEvents {
 
   /** The full scale deflection of the vertical GSI due to GPS glidepath deviation, in feet. */
   gp_gsi_scaling: number;
+
+  /**
+   * Energy predictions for the legs of the primary flight plan's VNAV descent path, in flight plan order. Only
+   * published by path calculators that have energy planning enabled.
+   */
+  vnav_energy_predictions: readonly Readonly<VNavLegEnergyPrediction>[];
+
+  /**
+   * The predicted climb and cruise path of the primary flight plan, from the airplane's present position to the end of
+   * cruise, in flight plan order. Only published by climb path calculators.
+   */
+  vnav_climb_path: readonly Readonly<VNavClimbPathPoint>[];
+
+  /**
+   * The predicted top of climb to cruise altitude of the primary flight plan, or `null` if there is no top of climb.
+   * Only published by climb path calculators.
+   */
+  vnav_toc_prediction: Readonly<VNavClimbPathPoint> | null;
+
+  /**
+   * The predicted step climbs along the cruise path of the primary flight plan, in flight plan order. Only published
+   * by climb path calculators.
+   */
+  vnav_step_climb_predictions: readonly Readonly<VNavStepClimbPrediction>[];
 }
 
 /**
@@ -0,0 +1,307 @@
+import { CasActiveMessage, CasAlertKey } from '../cas/CasSystem';
+import { AnnunciationType } from '../components/Annunciatons/Annunciaton';
+import { EventBus } from '../data/EventBus';
+import { SubscribableArray } from '../sub/SubscribableArray';
+import { Subscription } from '../sub/Subscription';
+import { ChecklistItemType } from './ChecklistDefinitions';
+import { ChecklistItem, ChecklistList } from './ChecklistState';
+import { ChecklistStateProvider } from './ChecklistStateProvider';
+
+/**
+ * Checklist list metadata that links a checklist to CAS alerts.
+ */
+export type ChecklistCasLinkMetadata = {
+  /**
+   * The CAS alerts linked to the checklist. A linked alert without a suffix matches the alert with any or no suffix. If
+   * not defined, then the checklist is not linked to any alerts.
+   */
+  readonly casAlerts?: readonly Readonly<CasAlertKey>[];
+};
+
+/**
+ * Completion statuses of checklists linked to CAS alerts.
+ */
+export enum ChecklistCasLinkStatus {
+  /** No items in the checklist have been completed. */
+  NotStarted = 'NotStarted',
+
+  /** At least one item in the checklist has been completed, but the checklist is not completed. */
+  InProgress = 'InProgress',
+
+  /** The checklist is completed. */
+  Completed = 'Completed'
+}
+
+/**
+ * A checklist that is pending because one or more of its linked CAS alerts are active.
+ */
+export type ChecklistCasPendingEntry = {
+  /** The index of the checklist group containing the checklist. */
+  readonly groupIndex: number;
+
+  /** The index of the checklist within its group. */
+  readonly listIndex: number;
+
+  /** The active CAS alerts linked to the checklist, in the order in which they appear in the checklist's metadata. */
+  readonly alerts: readonly Readonly<CasAlertKey>[];
+
+  /** The highest priority of the active CAS alerts linked to the checklist. */
+  readonly priority: AnnunciationType;
+
+  /** The completion status of the checklist. */
+  readonly status: ChecklistCasLinkStatus;
+};
+
+/**
+ * Events published by {@link ChecklistCasLinker} keyed by base topic names.
+ */
+export interface BaseChecklistCasLinkEvents {
+  /**
+   * The checklists that are pending because one or more of their linked CAS alerts are active. Pending checklists are
+   * ordered by the highest priority of their active linked alerts, then by how recently the most recent of their
+   * active linked alerts was activated.
+   */
+  checklist_cas_pending: readonly Readonly<ChecklistCasPendingEntry>[];
+}
+
+/**
+ * Events published by {@link ChecklistCasLinker} for an indexed checklist set keyed by indexed topic names.
+ */
+export type IndexedChecklistCasLinkEvents<Index extends number> = {
+  [P in keyof BaseChecklistCasLinkEvents as `${P}_${Index}`]: BaseChecklistCasLinkEvents[P];
+};
+
+/**
+ * All events published by {@link ChecklistCasLinker}.
+ */
+export type ChecklistCasLinkEvents = IndexedChecklistCasLinkEvents<number>;
+
+/**
+ * A link between a checklist and CAS alerts.
+ */
+type ChecklistCasLink = {
+  /** The index of the checklist group containing the checklist. */
+  readonly groupIndex: number;
+
+  /** The index of the checklist within its group. */
+  readonly listIndex: number;
+
+  /** The checklist. */
+  readonly list: ChecklistList<any, ChecklistCasLinkMetadata, any>;
+
+  /** The CAS alerts linked to the checklist. */
+  readonly alerts: readonly Readonly<CasAlertKey>[];
+};
+
+/**
+ * Links checklists to CAS alerts. The linker publishes the checklists whose linked alerts are currently active, along
+ * with the completion status of each checklist, to the topic defined in {@link ChecklistCasLinkEvents}. Alerts are
+ * linked to checklists through the `casAlerts` property of the checklists' metadata. The completion status of each
+ * checklist is sourced from a checklist state provider, which in turn reflects the state tracked by the checklist
+ * set's `ChecklistManager`.
+ */
+export class ChecklistCasLinker {
+  private readonly publisher = this.bus.getPublisher<ChecklistCasLinkEvents>();
+  private readonly topic: `checklist_cas_pending_${number}`;
+
+  private readonly links: ChecklistCasLink[] = [];
+
+  private lastPublished: readonly Readonly<ChecklistCasPendingEntry>[] | undefined = undefined;
+
+  private isAlive = true;
+  private isInit = false;
+
+  private readonly subscriptions: Subscription[] = [];
+
+  /**
+   * Creates a new instance of ChecklistCasLinker. The linker is created in an uninitialized state and must be
+   * initialized by calling `init()` before it will publish any data.
+   * @param bus The event bus.
+   * @param stateProvider A provider of state for the checklist set whose checklists are to be linked to CAS alerts. The
+   * index of the provider's checklist set is used as the index of the topic to which the linker publishes.
+   * @param casMessages An array of the currently displayed CAS messages, typically
+   * `CasSystem.casActiveMessageSubject`.
+   */
+  public constructor(
+    private readonly bus: EventBus,
+    private readonly stateProvider: ChecklistStateProvider<any, any, any, ChecklistCasLinkMetadata, any>,
+    private readonly casMessages: SubscribableArray<CasActiveMessage>
+  ) {
+    this.topic = `checklist_cas_pending_${stateProvider.index}`;
+
+    const groups = stateProvider.state.groups;
+    for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+      const lists = groups[groupIndex].lists;
+      for (let listIndex = 0; listIndex < lists.length; listIndex++) {
+        const list = lists[listIndex];
+        const alerts = list.metadata?.casAlerts;
+        if (alerts && alerts.length > 0) {
+          this.links.push({ groupIndex, listIndex, list, alerts });
+        }
+      }
+    }
+  }
+
+  /**
+   * Initializes this linker. Once initialized, this linker will publish the pending checklists for active CAS alerts
+   * until it is destroyed.
+   * @throws Error if this linker has been destroyed.
+   */
+  public init(): void {
+    if (!this.isAlive) {
+      throw new Error('ChecklistCasLinker: cannot initialize a dead linker');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    this.isInit = true;
+
+    const update = this.update.bind(this);
+
+    for (const link of this.links) {
+      this.subscriptions.push(link.list.isCompleted.sub(update));
+
+      ChecklistCasLinker.forEachCompletableItem(link.list, item => {
+        this.subscriptions.push(item.isCompleted.sub(update));
+      });
+    }
+
+    this.subscriptions.push(this.casMessages.sub(update));
+
+    this.update();
+  }
+
+  /**
+   * Updates and publishes the pending checklists for active CAS alerts.
+   */
+  private update(): void {
+    const messages = this.casMessages.getArray();
+
+    const pending: { entry: ChecklistCasPendingEntry, lastActive: number }[] = [];
+
+    for (const link of this.links) {
+      const alerts: Readonly<CasAlertKey>[] = [];
+      let priority: AnnunciationType | undefined = undefined;
+      let lastActive = -Infinity;
+
+      for (const alert of link.alerts) {
+        let isAlertActive = false;
+
+        for (let i = 0; i < messages.length; i++) {
+          const message = messages[i];
+          if (message.uuid === alert.uuid && (alert.suffix === undefined || message.suffixes?.includes(alert.suffix))) {
+            isAlertActive = true;
+            priority = priority === undefined ? message.priority : Math.min(priority, message.priority);
+            lastActive = Math.max(lastActive, message.lastActive);
+          }
+        }
+
+        if (isAlertActive) {
+          alerts.push(alert);
+        }
+      }
+
+      if (priority !== undefined) {
+        pending.push({
+          entry: {
+            groupIndex: link.groupIndex,
+            listIndex: link.listIndex,
+            alerts,
+            priority,
+            status: ChecklistCasLinker.getListStatus(link.list)
+          },
+          lastActive
+        });
+      }
+    }
+
+    pending.sort((a, b) => a.entry.priority - b.entry.priority || b.lastActive - a.lastActive);
+
+    const entries = pending.map(pendingEntry => pendingEntry.entry);
+
+    if (this.lastPublished === undefined || !ChecklistCasLinker.areEntriesEqual(entries, this.lastPublished)) {
+      this.lastPublished = entries;
+      this.publisher.pub(this.topic, entries, true, true);
+    }
+  }
+
+  /**
+   * Gets the completion status of a checklist.
+   * @param list The checklist for which to get the status.
+   * @returns The completion status of the specified checklist.
+   */
+  private static getListStatus(list: ChecklistList<any, any, any>): ChecklistCasLinkStatus {
+    if (list.isCompleted.get()) {
+      return ChecklistCasLinkStatus.Completed;
+    }
+
+    let isStarted = false;
+    ChecklistCasLinker.forEachCompletableItem(list, item => {
+      isStarted ||= item.isCompleted.get();
+    });
+
+    return isStarted ? ChecklistCasLinkStatus.InProgress : ChecklistCasLinkStatus.NotStarted;
+  }
+
+  /**
+   * Executes a function for every actionable and branch item in a checklist and all of its branches.
+   * @param list The checklist over whose items to iterate.
+   * @param fn The function to execute.
+   */
+  private static forEachCompletableItem(
+    list: ChecklistList<any, any, any>,
+    fn: (item: ChecklistItem<any, ChecklistItemType.Actionable | ChecklistItemType.Branch>) => void
+  ): void {
+    for (let branchIndex = -1; branchIndex < list.branches.length; branchIndex++) {
+      const items: readonly ChecklistItem<any>[] = list.branches[branchIndex]?.items ?? list.items;
+      for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+        const item = items[itemIndex];
+        if (item.type === ChecklistItemType.Actionable || item.type === ChecklistItemType.Branch) {
+          fn(item);
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks whether two arrays of pending checklist entries are equal.
+   * @param a The first array.
+   * @param b The second array.
+   * @returns Whether the two arrays of pending checklist entries are equal.
+   */
+  private static areEntriesEqual(a: readonly Readonly<ChecklistCasPendingEntry>[], b: readonly Readonly<ChecklistCasPendingEntry>[]): boolean {
+    if (a.length !== b.length) {
+      return false;
+    }
+
+    for (let i = 0; i < a.length; i++) {
+      const entryA = a[i];
+      const entryB = b[i];
+      if (
+        entryA.groupIndex !== entryB.groupIndex
+        || entryA.listIndex !== entryB.listIndex
+        || entryA.priority !== entryB.priority
+        || entryA.status !== entryB.status
+        || entryA.alerts.length !== entryB.alerts.length
+        || entryA.alerts.some((alert, index) => alert !== entryB.alerts[index])
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Destroys this linker. Once destroyed, this linker will no longer publish any data.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+
+    for (const sub of this.subscriptions) {
+      sub.destroy();
+    }
+  }
+}
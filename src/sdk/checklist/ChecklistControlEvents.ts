@@ -41,6 +41,15 @@ export interface BaseChecklistControlEvents {
    */
   checklist_toggle_item: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number];
 
+  /**
+   * Sets whether an actionable checklist item is deferred. The event data is an ordered tuple of: the index of the
+   * checklist group containing the item, the index of the checklist containing the item within its group, the index of
+   * the branch containing the item within its checklist (or `-1` if the item is in the base checklist), the index of
+   * the item within its checklist or branch, and whether the item should be deferred. Completed items cannot be
+   * deferred.
+   */
+  checklist_set_item_deferred: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isDeferred: boolean];
+
   /**
    * Requests the full state of all checklists. The event data is an UUID that can be used to match responses to the
    * request. The response will be published to the `checklist_state_response` topic (with the same index as the one
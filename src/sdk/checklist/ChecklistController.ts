@@ -30,7 +30,8 @@ export class ChecklistController {
       'checklist_reset_item': `checklist_reset_item_${index}`,
       'checklist_complete_list': `checklist_complete_list_${index}`,
       'checklist_complete_item': `checklist_complete_item_${index}`,
-      'checklist_toggle_item': `checklist_toggle_item_${index}`
+      'checklist_toggle_item': `checklist_toggle_item_${index}`,
+      'checklist_set_item_deferred': `checklist_set_item_deferred_${index}`
     };
 
     this.publisher = bus.getPublisher<ChecklistControlEvents>();
@@ -88,4 +89,17 @@ export class ChecklistController {
 
     this.publisher.pub(this.eventTopicMap[topic], [groupIndex, listIndex, branchIndex, itemIndex], true, false);
   }
+
+  /**
+   * Sets whether an actionable item is deferred. Completed items cannot be deferred.
+   * @param groupIndex The index of the checklist group containing the item to defer.
+   * @param listIndex The index of the checklist containing the item to defer within its group.
+   * @param branchIndex The index of the branch containing the item to defer within its list, or `-1` if the item is
+   * not contained in a branch.
+   * @param itemIndex The index of the item to defer within its checklist.
+   * @param isDeferred Whether the item should be deferred. Defaults to `true`.
+   */
+  public deferItem(groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isDeferred = true): void {
+    this.publisher.pub(this.eventTopicMap['checklist_set_item_deferred'], [groupIndex, listIndex, branchIndex, itemIndex, isDeferred], true, false);
+  }
 }
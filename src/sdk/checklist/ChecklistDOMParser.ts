@@ -1,6 +1,7 @@
 import {
   ChecklistSetDef, BaseChecklistItemTypeDefMap, ChecklistGroupDef, ChecklistItemDef, ChecklistItemType,
-  ChecklistItemTypeDefMap, ChecklistListDef, ChecklistBranchDef, ChecklistBranchItemLogicType
+  ChecklistItemTypeDefMap, ChecklistListDef, ChecklistBranchDef, ChecklistBranchItemLogicType, ChecklistSensedComparison,
+  ChecklistSensedConditionDef, ChecklistSensedConditionType
 } from './ChecklistDefinitions';
 
 /**
@@ -416,6 +417,18 @@ export class ChecklistDOMParser<I extends BaseChecklistItemTypeDefMap = Checklis
     const actionTextContent = element.querySelector(':scope>ActionText')?.textContent?.trim();
     const actionText = actionTextContent ? ChecklistDOMParser.tryParseTextAsJSON(actionTextContent) : '';
 
+    // If the sensed condition is invalid, then the item is kept as a manual (non-sensed) item.
+    const sensedElement = element.querySelector(':scope>Sensed');
+    const sensed = sensedElement ? this.parseSensedConditionDef(sensedElement, groupName, listName, branchName, options) : undefined;
+    if (sensed) {
+      return {
+        type: ChecklistItemType.Actionable,
+        labelText,
+        actionText,
+        sensed
+      } as I[ChecklistItemType.Actionable];
+    }
+
     return {
       type: ChecklistItemType.Actionable,
       labelText,
@@ -423,6 +436,91 @@ export class ChecklistDOMParser<I extends BaseChecklistItemTypeDefMap = Checklis
     } as I[ChecklistItemType.Actionable];
   }
 
+  /**
+   * Parses a sensed condition definition for an actionable checklist item from a DOM element. A condition with a
+   * `simvar` attribute compares a SimVar value, a condition with a `topic` attribute compares the value published to
+   * an event bus topic, and a condition with neither attribute evaluates the XML logic expression defined by its
+   * child elements.
+   * @param element The element to parse.
+   * @param groupName The name of the checklist group for which the condition is to be parsed.
+   * @param listName The name of the checklist list for which the condition is to be parsed.
+   * @param branchName The name of the checklist branch for which the condition is to be parsed, or `undefined` if the
+   * condition is to be parsed for the base list.
+   * @param options The options to use when parsing.
+   * @returns The sensed condition definition parsed from the specified element, or `undefined` if the definition was
+   * discarded.
+   */
+  protected parseSensedConditionDef(
+    element: Element,
+    groupName: string,
+    listName: string,
+    branchName: string | undefined,
+    options: ChecklistDOMParseOptionsToUse<I>
+  ): ChecklistSensedConditionDef | undefined {
+    const simVar = element.getAttribute('simvar');
+    const topic = element.getAttribute('topic');
+
+    if (simVar === null && topic === null) {
+      if (element.children.length === 0) {
+        options.onError(`ChecklistDOMParser: a sensed condition for an actionable checklist item in list ${listName}${branchName === undefined ? '' : `, branch ${branchName}`} (group ${groupName}) has no defined SimVar, topic, or logic.`);
+        return undefined;
+      }
+
+      return { type: ChecklistSensedConditionType.Logic, element };
+    }
+
+    const comparisonAttr = element.getAttribute('comparison')?.toLowerCase() ?? ChecklistSensedComparison.Equal;
+    const comparison = Object.values(ChecklistSensedComparison).find(value => value === comparisonAttr);
+    if (comparison === undefined) {
+      options.onError(`ChecklistDOMParser: invalid comparison ${comparisonAttr} for a sensed condition (must be "eq", "ne", "lt", "le", "gt", or "ge") in list ${listName}${branchName === undefined ? '' : `, branch ${branchName}`} (group ${groupName}).`);
+      return undefined;
+    }
+
+    const valueAttr = element.getAttribute('value');
+    if (valueAttr === null) {
+      options.onError(`ChecklistDOMParser: a sensed condition for an actionable checklist item in list ${listName}${branchName === undefined ? '' : `, branch ${branchName}`} (group ${groupName}) has no defined value.`);
+      return undefined;
+    }
+
+    if (simVar !== null) {
+      const value = Number(valueAttr);
+      if (valueAttr.trim() === '' || !Number.isFinite(value)) {
+        options.onError(`ChecklistDOMParser: invalid value ${valueAttr} for a SimVar sensed condition (must be a finite number) in list ${listName}${branchName === undefined ? '' : `, branch ${branchName}`} (group ${groupName}).`);
+        return undefined;
+      }
+
+      return {
+        type: ChecklistSensedConditionType.SimVar,
+        name: simVar,
+        unit: element.getAttribute('unit') ?? 'number',
+        comparison,
+        value
+      };
+    }
+
+    let value: number | string | boolean;
+    const lowerCaseValue = valueAttr.trim().toLowerCase();
+    if (lowerCaseValue === 'true' || lowerCaseValue === 'false') {
+      value = lowerCaseValue === 'true';
+    } else if (valueAttr.trim() !== '' && Number.isFinite(Number(valueAttr))) {
+      value = Number(valueAttr);
+    } else {
+      value = valueAttr;
+    }
+
+    if (typeof value === 'string' && comparison !== ChecklistSensedComparison.Equal && comparison !== ChecklistSensedComparison.NotEqual) {
+      options.onError(`ChecklistDOMParser: invalid comparison ${comparison} for a sensed condition with a string value (must be "eq" or "ne") in list ${listName}${branchName === undefined ? '' : `, branch ${branchName}`} (group ${groupName}).`);
+      return undefined;
+    }
+
+    return {
+      type: ChecklistSensedConditionType.Topic,
+      topic: topic as string,
+      comparison,
+      value
+    };
+  }
+
   /**
    * Parses a branch checklist item definition from a DOM element.
    * @param element The element to parse.
@@ -105,7 +105,7 @@ export enum ChecklistItemType {
  */
 export type BaseChecklistItemTypeDefMap = {
   /** A type definition for an actionable item */
-  [ChecklistItemType.Actionable]: CoreChecklistItemDef<ChecklistItemType.Actionable>;
+  [ChecklistItemType.Actionable]: BaseChecklistActionableItemDef;
 
   /** A type definition for a branch item */
   [ChecklistItemType.Branch]: BaseChecklistBranchItemDef;
@@ -132,6 +132,115 @@ export type CoreChecklistItemDef<T extends ChecklistItemType> = {
   readonly type: T;
 };
 
+/**
+ * Types of conditions that sense the completion of checklist actionable items.
+ */
+export enum ChecklistSensedConditionType {
+  /** A comparison of a SimVar value. */
+  SimVar = 'SimVar',
+
+  /** A comparison of the value published to an event bus topic. */
+  Topic = 'Topic',
+
+  /** An XML logic expression evaluated by a `CompositeLogicXMLHost`. */
+  Logic = 'Logic'
+}
+
+/**
+ * Comparisons used by checklist sensed conditions.
+ */
+export enum ChecklistSensedComparison {
+  /** The value is equal to the reference value. */
+  Equal = 'eq',
+
+  /** The value is not equal to the reference value. */
+  NotEqual = 'ne',
+
+  /** The value is less than the reference value. */
+  Less = 'lt',
+
+  /** The value is less than or equal to the reference value. */
+  LessOrEqual = 'le',
+
+  /** The value is greater than the reference value. */
+  Greater = 'gt',
+
+  /** The value is greater than or equal to the reference value. */
+  GreaterOrEqual = 'ge'
+}
+
+/**
+ * A definition for a checklist sensed condition that compares a SimVar value.
+ */
+export type ChecklistSimVarSensedConditionDef = {
+  /** The type of the condition. */
+  readonly type: ChecklistSensedConditionType.SimVar;
+
+  /** The name of the SimVar. */
+  readonly name: string;
+
+  /** The unit in which to retrieve the SimVar value. */
+  readonly unit: string;
+
+  /** The comparison to apply to the SimVar value. */
+  readonly comparison: ChecklistSensedComparison;
+
+  /** The value to which to compare the SimVar value. */
+  readonly value: number;
+};
+
+/**
+ * A definition for a checklist sensed condition that compares the value published to an event bus topic.
+ */
+export type ChecklistTopicSensedConditionDef = {
+  /** The type of the condition. */
+  readonly type: ChecklistSensedConditionType.Topic;
+
+  /** The event bus topic. */
+  readonly topic: string;
+
+  /** The comparison to apply to the topic value. */
+  readonly comparison: ChecklistSensedComparison;
+
+  /**
+   * The value to which to compare the topic value. Boolean values are compared as `1` (`true`) or `0` (`false`).
+   * String values only support equality comparisons.
+   */
+  readonly value: number | string | boolean;
+};
+
+/**
+ * A definition for a checklist sensed condition that evaluates an XML logic expression. The condition is met when the
+ * expression evaluates to a non-zero value.
+ */
+export type ChecklistLogicSensedConditionDef = {
+  /** The type of the condition. */
+  readonly type: ChecklistSensedConditionType.Logic;
+
+  /** The XML element whose children define the logic expression. */
+  readonly element: Element;
+};
+
+/**
+ * A definition for a condition that senses the completion of a checklist actionable item.
+ */
+export type ChecklistSensedConditionDef
+  = ChecklistSimVarSensedConditionDef
+  | ChecklistTopicSensedConditionDef
+  | ChecklistLogicSensedConditionDef;
+
+/**
+ * A base checklist actionable item definition.
+ */
+export type BaseChecklistActionableItemDef = CoreChecklistItemDef<ChecklistItemType.Actionable> & {
+  /**
+   * The condition that senses the completion of the item. Sensed items are completed automatically while their
+   * condition is met and reset automatically while it is not, unless their state has been overridden by the user. If
+   * not defined, then the item is only completed manually.
+   */
+  readonly sensed?: ChecklistSensedConditionDef;
+};
+
 /**
  * Completion logic applied to branches linked to checklist branch items.
  */
@@ -194,10 +303,7 @@ export type ChecklistItemTypeDefMap = {
 /**
  * A definition for an actionable checklist item.
  */
-export type ChecklistActionableItemDef = {
-  /** The type of the item. */
-  readonly type: ChecklistItemType.Actionable;
-
+export type ChecklistActionableItemDef = BaseChecklistActionableItemDef & {
   /** The item's label text. */
   readonly labelText: string;
 
@@ -0,0 +1,60 @@
+/**
+ * Types of checklist log entries.
+ */
+export enum ChecklistLogEntryType {
+  /** An actionable item was completed. */
+  ItemCompleted = 'ItemCompleted',
+
+  /** An actionable item was reset. */
+  ItemReset = 'ItemReset',
+
+  /** An actionable item was deferred. */
+  ItemDeferred = 'ItemDeferred',
+
+  /** An actionable item was no longer deferred without being completed. */
+  ItemUndeferred = 'ItemUndeferred',
+
+  /** Every actionable item in a checklist was completed. */
+  ListCompleted = 'ListCompleted',
+
+  /** A checklist was reset. */
+  ListReset = 'ListReset',
+
+  /** All checklists in a group were reset. */
+  GroupReset = 'GroupReset',
+
+  /** All checklists in all groups were reset. */
+  AllReset = 'AllReset'
+}
+
+/**
+ * An entry in a checklist completion log.
+ */
+export type ChecklistLogEntry = {
+  /** The sim time at which the logged event occurred, as a Javascript timestamp. */
+  readonly time: number;
+
+  /** The type of the logged event. */
+  readonly type: ChecklistLogEntryType;
+
+  /** The index of the checklist group affected by the logged event, or `-1` if the event affected all groups. */
+  readonly groupIndex: number;
+
+  /**
+   * The index of the checklist affected by the logged event within its group, or `-1` if the event affected all
+   * checklists in one or more groups.
+   */
+  readonly listIndex: number;
+
+  /**
+   * The index of the branch containing the item affected by the logged event within its checklist, or `-1` if the
+   * item is in the base checklist or the event did not affect a single item.
+   */
+  readonly branchIndex: number;
+
+  /**
+   * The index of the item affected by the logged event within its checklist or branch, or `-1` if the event did not
+   * affect a single item.
+   */
+  readonly itemIndex: number;
+};
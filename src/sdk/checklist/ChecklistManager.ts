@@ -1,9 +1,89 @@
+/// <reference types="@microsoft/msfs-types/pages/vcockpit/instruments/shared/utils/xmllogic" />
+/// <reference types="@microsoft/msfs-types/pages/vcockpit/instruments/shared/baseinstrument" />
+
+import { CompositeLogicXMLHost } from '../data/CompositeLogicXMLHost';
+import { ConsumerValue } from '../data/ConsumerValue';
+import { DataStore } from '../data/DataStore';
 import { EventBus } from '../data/EventBus';
+import { ClockEvents } from '../instruments/Clock';
 import { Subscription } from '../sub/Subscription';
 import { ArrayUtils } from '../utils/datastructures/ArrayUtils';
+import { DebounceTimer } from '../utils/time/DebounceTimer';
 import { ChecklistControlEvents } from './ChecklistControlEvents';
-import { ChecklistSetDef, ChecklistItemType, ChecklistItemDef } from './ChecklistDefinitions';
-import { BaseChecklistStateEvents, ChecklistStateEvents } from './ChecklistStateEvents';
+import {
+  ChecklistSetDef, ChecklistItemType, ChecklistItemDef, ChecklistSensedComparison, ChecklistSensedConditionDef,
+  ChecklistSensedConditionType, ChecklistSimVarSensedConditionDef
+} from './ChecklistDefinitions';
+import { ChecklistLogEntry, ChecklistLogEntryType } from './ChecklistLog';
+import { BaseChecklistStateEvents, ChecklistStateEvents, ChecklistStateResponseData } from './ChecklistStateEvents';
+
+/**
+ * Options for {@link ChecklistManager}.
+ */
+export type ChecklistManagerOptions = {
+  /**
+   * The instrument to use to create XML logic elements for sensed conditions. Required, along with `logicHost`, if the
+   * checklist set contains sensed conditions defined by XML logic.
+   */
+  instrument?: BaseInstrument;
+
+  /**
+   * The XML logic host with which to register XML logic elements for sensed conditions. Required, along with
+   * `instrument`, if the checklist set contains sensed conditions defined by XML logic.
+   */
+  logicHost?: CompositeLogicXMLHost;
+
+  /**
+   * The key under which to persist the state of the checklist set to the data store. The completion log is persisted
+   * under the same key with a `_log` suffix. If defined, then the manager will restore the persisted state and log
+   * when it is created and persist them shortly after they change. If not defined, then state is not persisted.
+   */
+  dataStoreKey?: string;
+
+  /** The maximum number of entries to keep in the completion log. Defaults to `1000`. */
+  maxLogEntries?: number;
+};
+
+/**
+ * Checklist set state persisted to the data store by {@link ChecklistManager}. Item states are described using the
+ * same format as {@link ChecklistStateResponseData}.
+ */
+type ChecklistManagerPersistedState = {
+  /** The completed items. */
+  completed: readonly (readonly (readonly (readonly number[] | null)[] | null)[] | null)[];
+
+  /** The overridden sensed items. */
+  overridden: readonly (readonly (readonly (readonly number[] | null)[] | null)[] | null)[];
+
+  /** The deferred items. */
+  deferred: readonly (readonly (readonly (readonly number[] | null)[] | null)[] | null)[];
+};
+
+/**
+ * An entry for a sensed actionable item tracked by {@link ChecklistManager}.
+ */
+type SensedItemEntry = {
+  /** The index of the checklist group containing the item. */
+  readonly groupIndex: number;
+
+  /** The index of the checklist containing the item within its group. */
+  readonly listIndex: number;
+
+  /** The index of the branch containing the item within its checklist, or `-1` if the item is in the base checklist. */
+  readonly branchIndex: number;
+
+  /** The index of the item within its checklist or branch. */
+  readonly itemIndex: number;
+
+  /** The definition for the item's sensed condition. */
+  readonly conditionDef: ChecklistSensedConditionDef;
+
+  /** Whether the item's sensed condition is met. */
+  isConditionMet: boolean;
+
+  /** Whether the item's completion state has been overridden. */
+  isOverridden: boolean;
+};
 
 /**
  * A manager for a set of checklists. The manager tracks the state of all actionable items in the checklist set.
@@ -11,8 +91,24 @@ import { BaseChecklistStateEvents, ChecklistStateEvents } from './ChecklistState
  * topics defined in `ChecklistControlEvents` or through direct calls to methods on the manager itself. When the
  * state of its checklist set changes, the manager will publish data to the appropriate topics defined in
  * `ChecklistStateEvents` to describe the changes that occurred.
+ *
+ * Actionable items with a sensed condition are completed and reset automatically to follow their condition while the
+ * manager is awake. Manually setting a sensed item to a state that does not match its condition overrides the item,
+ * which then keeps its manually set state until the condition agrees with it or the item's checklist is reset. SimVar
+ * sensed conditions are only evaluated when `update()` is called, and XML logic sensed conditions are only evaluated
+ * when the XML logic host passed to the manager is updated.
+ *
+ * Actionable items that have not been completed can be deferred. Deferred items are no longer deferred once they are
+ * completed or their checklist is reset. The manager also keeps a timestamped log of all changes to the state of its
+ * checklist set, which can be exported as comma-separated values. If configured with a data store key, then the
+ * manager persists the state of its checklist set and its log across instrument reloads.
  */
 export class ChecklistManager {
+  private static readonly STATE_SAVE_DELAY = 1000; // milliseconds
+  private static readonly LOG_SAVE_DELAY = 10000; // milliseconds
+
+  private static readonly LOG_ENTRY_TYPES = new Set<string>(Object.values(ChecklistLogEntryType));
+
   private readonly publisher = this.bus.getPublisher<ChecklistStateEvents>();
 
   private readonly eventTopicMap: {
@@ -20,6 +116,21 @@ export class ChecklistManager {
   };
 
   private readonly state: (boolean | undefined)[][][][];
+  private readonly deferred: (boolean | undefined)[][][][];
+
+  private readonly log: ChecklistLogEntry[] = [];
+  private readonly maxLogEntries: number;
+  private readonly dataStoreKey: string | undefined;
+  private readonly logDataStoreKey: string | undefined;
+
+  private readonly stateSaveTimer = new DebounceTimer();
+  private readonly logSaveTimer = new DebounceTimer();
+
+  private readonly simTime = ConsumerValue.create(this.bus.getSubscriber<ClockEvents>().on('simTime'), 0);
+
+  private readonly sensedItems: (SensedItemEntry | undefined)[][][][] = [];
+  private readonly sensedItemList: SensedItemEntry[] = [];
+  private readonly simVarSensedItems: (SensedItemEntry & { readonly conditionDef: ChecklistSimVarSensedConditionDef })[] = [];
 
   private isAlive = true;
   private isAwake = false;
@@ -32,16 +143,24 @@ export class ChecklistManager {
    * @param index The index of this manager's checklist set.
    * @param bus The event bus.
    * @param checklistDef The definition for this manager's checklist set.
+   * @param options Options with which to configure the manager.
+   * @throws Error if `index` is not a positive integer, or if the checklist set contains sensed conditions defined by
+   * XML logic and `options` does not define both an instrument and an XML logic host.
    */
   public constructor(
     private readonly index: number,
     private readonly bus: EventBus,
-    checklistDef: ChecklistSetDef,
+    private readonly checklistDef: ChecklistSetDef,
+    options?: Readonly<ChecklistManagerOptions>
   ) {
     if (!Number.isInteger(index) || index < 1) {
       throw new Error(`ChecklistManager: invalid index ${index} (must be a positive integer)`);
     }
 
+    // Sensed item entries are validated before any subscriptions are created so that nothing is leaked if the
+    // definition cannot be used.
+    this.initSensedItemEntries(checklistDef, options);
+
     this.eventTopicMap = {
       'checklist_state_all_reset': `checklist_state_all_reset_${index}`,
       'checklist_state_group_reset': `checklist_state_group_reset_${index}`,
@@ -49,10 +168,17 @@ export class ChecklistManager {
       'checklist_state_item_reset': `checklist_state_item_reset_${index}`,
       'checklist_state_list_completed': `checklist_state_list_completed_${index}`,
       'checklist_state_item_completed': `checklist_state_item_completed_${index}`,
+      'checklist_state_item_overridden': `checklist_state_item_overridden_${index}`,
+      'checklist_state_item_deferred': `checklist_state_item_deferred_${index}`,
       'checklist_state_response': `checklist_state_response_${index}`,
     };
 
-    this.state = this.initState(checklistDef);
+    this.state = this.initState(checklistDef, [ChecklistItemType.Actionable, ChecklistItemType.Branch]);
+    this.deferred = this.initState(checklistDef, [ChecklistItemType.Actionable]);
+
+    this.maxLogEntries = Math.max(options?.maxLogEntries ?? 1000, 0);
+    this.dataStoreKey = options?.dataStoreKey;
+    this.logDataStoreKey = this.dataStoreKey === undefined ? undefined : `${this.dataStoreKey}_log`;
 
     const sub = this.bus.getSubscriber<ChecklistControlEvents>();
 
@@ -63,7 +189,8 @@ export class ChecklistManager {
       sub.on(`checklist_reset_item_${index}`).handle(([groupIndex, listIndex, branchIndex, itemIndex]) => { this.toggleItem(groupIndex, listIndex, branchIndex, itemIndex, false); }, true),
       sub.on(`checklist_complete_list_${index}`).handle(([groupIndex, listIndex]) => { this.completeList(groupIndex, listIndex); }, true),
       sub.on(`checklist_complete_item_${index}`).handle(([groupIndex, listIndex, branchIndex, itemIndex]) => { this.toggleItem(groupIndex, listIndex, branchIndex, itemIndex, true); }, true),
-      sub.on(`checklist_toggle_item_${index}`).handle(([groupIndex, listIndex, branchIndex, itemIndex]) => { this.toggleItem(groupIndex, listIndex, branchIndex, itemIndex); }, true)
+      sub.on(`checklist_toggle_item_${index}`).handle(([groupIndex, listIndex, branchIndex, itemIndex]) => { this.toggleItem(groupIndex, listIndex, branchIndex, itemIndex); }, true),
+      sub.on(`checklist_set_item_deferred_${index}`).handle(([groupIndex, listIndex, branchIndex, itemIndex, isDeferred]) => { this.setItemDeferred(groupIndex, listIndex, branchIndex, itemIndex, isDeferred); }, true)
     );
 
     this.subscriptions.push(
@@ -71,14 +198,19 @@ export class ChecklistManager {
 
       sub.on(`checklist_state_request_${index}`).handle(this.onStateRequest.bind(this))
     );
+
+    this.initSensedItemSources(options);
+
+    this.loadState();
   }
 
   /**
-   * Initializes the state of this manager's checklist set.
+   * Initializes a state of this manager's checklist set.
    * @param checklistDef The definition for the checklist set.
-   * @returns The initialized state of this manager's checklist set.
+   * @param itemTypes The types of items whose state to track.
+   * @returns An initialized state of this manager's checklist set.
    */
-  private initState(checklistDef: ChecklistSetDef): (boolean | undefined)[][][][] {
+  private initState(checklistDef: ChecklistSetDef, itemTypes: readonly ChecklistItemType[]): (boolean | undefined)[][][][] {
     const state: (boolean | undefined)[][][][] = [];
 
     for (const groupDef of checklistDef.groups) {
@@ -88,11 +220,11 @@ export class ChecklistManager {
         const listState: (boolean | undefined)[][] = [];
 
         // base list
-        listState.push(this.initBranchState(listDef.items));
+        listState.push(this.initBranchState(listDef.items, itemTypes));
 
         // branches
         for (let i = 0; i < listDef.branches.length; i++) {
-          listState.push(this.initBranchState(listDef.branches[i].items));
+          listState.push(this.initBranchState(listDef.branches[i].items, itemTypes));
         }
 
         groupState.push(listState);
@@ -107,13 +239,14 @@ export class ChecklistManager {
   /**
    * Initializes the state of a checklist branch.
    * @param items The definitions for the items in the branch.
+   * @param itemTypes The types of items whose state to track.
    * @returns The initialized state of the checklist branch with the specified items.
    */
-  private initBranchState(items: readonly ChecklistItemDef[]): (boolean | undefined)[] {
+  private initBranchState(items: readonly ChecklistItemDef[], itemTypes: readonly ChecklistItemType[]): (boolean | undefined)[] {
     const state: (boolean | undefined)[] = [];
 
     for (let i = 0; i < items.length; i++) {
-      if (items[i].type === ChecklistItemType.Actionable || items[i].type === ChecklistItemType.Branch) {
+      if (itemTypes.includes(items[i].type)) {
         state[i] = false;
       }
     }
@@ -121,6 +254,96 @@ export class ChecklistManager {
     return state;
   }
 
+  /**
+   * Initializes the entries for the sensed actionable items in this manager's checklist set. This method does not
+   * create any subscriptions or logic elements.
+   * @param checklistDef The definition for the checklist set.
+   * @param options Options with which this manager was configured.
+   * @throws Error if the checklist set contains sensed conditions defined by XML logic and `options` does not define
+   * both an instrument and an XML logic host.
+   */
+  private initSensedItemEntries(checklistDef: ChecklistSetDef, options: Readonly<ChecklistManagerOptions> | undefined): void {
+    for (let groupIndex = 0; groupIndex < checklistDef.groups.length; groupIndex++) {
+      const groupDef = checklistDef.groups[groupIndex];
+      const groupEntries: (SensedItemEntry | undefined)[][][] = [];
+
+      for (let listIndex = 0; listIndex < groupDef.lists.length; listIndex++) {
+        const listDef = groupDef.lists[listIndex];
+        const listEntries: (SensedItemEntry | undefined)[][] = [];
+
+        for (let branchIndex = -1; branchIndex < listDef.branches.length; branchIndex++) {
+          const items = listDef.branches[branchIndex]?.items ?? listDef.items;
+          const branchEntries: (SensedItemEntry | undefined)[] = [];
+
+          for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+            const item = items[itemIndex];
+            if (item.type === ChecklistItemType.Actionable && item.sensed) {
+              const entry: SensedItemEntry = {
+                groupIndex,
+                listIndex,
+                branchIndex,
+                itemIndex,
+                conditionDef: item.sensed,
+                isConditionMet: false,
+                isOverridden: false
+              };
+
+              branchEntries[itemIndex] = entry;
+              this.sensedItemList.push(entry);
+            }
+          }
+
+          listEntries.push(branchEntries);
+        }
+
+        groupEntries.push(listEntries);
+      }
+
+      this.sensedItems.push(groupEntries);
+    }
+
+    if (!options?.instrument || !options.logicHost) {
+      const entry = this.sensedItemList.find(sensedEntry => sensedEntry.conditionDef.type === ChecklistSensedConditionType.Logic);
+      if (entry) {
+        throw new Error(`ChecklistManager: cannot evaluate XML logic sensed condition for item ${entry.itemIndex} in list ${entry.listIndex}${entry.branchIndex < 0 ? '' : `, branch ${entry.branchIndex}`} (group ${entry.groupIndex}) because no instrument or logic host was provided`);
+      }
+    }
+  }
+
+  /**
+   * Initializes the condition sources for the sensed actionable items in this manager's checklist set.
+   * @param options Options with which this manager was configured.
+   */
+  private initSensedItemSources(options: Readonly<ChecklistManagerOptions> | undefined): void {
+    const sub = this.bus.getSubscriber<Record<string, unknown>>();
+
+    for (const entry of this.sensedItemList) {
+      const conditionDef = entry.conditionDef;
+
+      switch (conditionDef.type) {
+        case ChecklistSensedConditionType.SimVar:
+          this.simVarSensedItems.push(entry as SensedItemEntry & { readonly conditionDef: ChecklistSimVarSensedConditionDef });
+          break;
+        case ChecklistSensedConditionType.Topic:
+          this.subscriptions.push(
+            sub.on(conditionDef.topic).handle(value => {
+              this.onSensedConditionChanged(entry, ChecklistManager.compareSensedValue(value, conditionDef.comparison, conditionDef.value));
+            })
+          );
+          break;
+        case ChecklistSensedConditionType.Logic:
+          if (options?.instrument && options.logicHost) {
+            const value = options.logicHost.addLogic(
+              new CompositeLogicXMLElement(options.instrument, conditionDef.element),
+              logicValue => { this.onSensedConditionChanged(entry, !!Number(logicValue)); }
+            );
+            entry.isConditionMet = !!Number(value);
+          }
+          break;
+      }
+    }
+  }
+
   /**
    * Wakes this manager. When awake, this manager will respond to commands to change the state of its checklist set.
    * @throws Error if this manager has been destroyed.
@@ -139,6 +362,14 @@ export class ChecklistManager {
     for (const sub of this.controlSubscriptions) {
       sub.resume();
     }
+
+    // Sensed conditions may have changed while we were asleep, so bring all non-overridden sensed items in line with
+    // their conditions.
+    for (const entry of this.sensedItemList) {
+      this.syncSensedItem(entry);
+    }
+
+    this.saveState();
   }
 
   /**
@@ -162,6 +393,24 @@ export class ChecklistManager {
     }
   }
 
+  /**
+   * Updates this manager's SimVar sensed conditions. Has no effect if this manager has been destroyed.
+   */
+  public update(): void {
+    if (!this.isAlive) {
+      return;
+    }
+
+    for (let i = 0; i < this.simVarSensedItems.length; i++) {
+      const entry = this.simVarSensedItems[i];
+      const conditionDef = entry.conditionDef;
+      this.onSensedConditionChanged(
+        entry,
+        ChecklistManager.compareSensedValue(SimVar.GetSimVarValue(conditionDef.name, conditionDef.unit), conditionDef.comparison, conditionDef.value)
+      );
+    }
+  }
+
   /**
    * Resets all checklists in this manager's checklist set. Has no effect if this manager is asleep.
    * @throws Error if this manager has been destroyed.
@@ -190,7 +439,16 @@ export class ChecklistManager {
       }
     }
 
+    this.clearDeferred();
+
     this.publisher.pub(this.eventTopicMap['checklist_state_all_reset'], undefined, true, false);
+    this.addLogEntry(ChecklistLogEntryType.AllReset);
+
+    for (const entry of this.sensedItemList) {
+      this.resyncSensedItem(entry);
+    }
+
+    this.saveState();
   }
 
   /**
@@ -225,7 +483,18 @@ export class ChecklistManager {
       }
     }
 
+    this.clearDeferred(groupIndex);
+
     this.publisher.pub(this.eventTopicMap['checklist_state_group_reset'], groupIndex, true, false);
+    this.addLogEntry(ChecklistLogEntryType.GroupReset, groupIndex);
+
+    for (const entry of this.sensedItemList) {
+      if (entry.groupIndex === groupIndex) {
+        this.resyncSensedItem(entry);
+      }
+    }
+
+    this.saveState();
   }
 
   /**
@@ -258,7 +527,18 @@ export class ChecklistManager {
       }
     }
 
+    this.clearDeferred(groupIndex, listIndex);
+
     this.publisher.pub(this.eventTopicMap['checklist_state_list_reset'], [groupIndex, listIndex], true, false);
+    this.addLogEntry(ChecklistLogEntryType.ListReset, groupIndex, listIndex);
+
+    for (const entry of this.sensedItemList) {
+      if (entry.groupIndex === groupIndex && entry.listIndex === listIndex) {
+        this.resyncSensedItem(entry);
+      }
+    }
+
+    this.saveState();
   }
 
   /**
@@ -291,7 +571,19 @@ export class ChecklistManager {
       }
     }
 
+    this.clearDeferred(groupIndex, listIndex);
+
     this.publisher.pub(this.eventTopicMap['checklist_state_list_completed'], [groupIndex, listIndex], true, false);
+    this.addLogEntry(ChecklistLogEntryType.ListCompleted, groupIndex, listIndex);
+
+    // Completing the list overrides any sensed items whose conditions are not met.
+    for (const entry of this.sensedItemList) {
+      if (entry.groupIndex === groupIndex && entry.listIndex === listIndex) {
+        this.setSensedItemOverridden(entry, !entry.isConditionMet);
+      }
+    }
+
+    this.saveState();
   }
 
   /**
@@ -324,15 +616,327 @@ export class ChecklistManager {
 
     const toggledState = this.tryToggleItemCompleted(branchState, itemIndex, force);
     if (toggledState !== undefined) {
+      this.onItemToggled(groupIndex, listIndex, branchIndex, itemIndex, toggledState);
+
+      const sensedEntry = this.sensedItems[groupIndex]?.[listIndex]?.[branchIndex + 1]?.[itemIndex];
+      if (sensedEntry) {
+        this.setSensedItemOverridden(sensedEntry, toggledState !== sensedEntry.isConditionMet);
+      }
+
+      this.saveState();
+    }
+  }
+
+  /**
+   * Sets whether an actionable item is deferred. Completed items cannot be deferred. Has no effect if this manager is
+   * asleep.
+   * @param groupIndex The index of the checklist group containing the item to defer.
+   * @param listIndex The index of the checklist containing the item to defer within its group.
+   * @param branchIndex The index of the branch containing the item to defer within its list, or `-1` if the item is
+   * not contained in a branch.
+   * @param itemIndex The index of the item to defer within its checklist.
+   * @param isDeferred Whether the item should be deferred.
+   * @throws Error if this manager has been destroyed.
+   */
+  public setItemDeferred(groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isDeferred: boolean): void {
+    if (!this.isAlive) {
+      throw new Error('ChecklistManager: cannot defer an item on a dead manager');
+    }
+
+    if (!this.isAwake) {
+      return;
+    }
+
+    branchIndex = branchIndex < 0 ? -1 : branchIndex;
+
+    const deferredState = this.deferred[groupIndex]?.[listIndex]?.[branchIndex + 1];
+
+    if (
+      !deferredState
+      || deferredState[itemIndex] === undefined
+      || deferredState[itemIndex] === isDeferred
+      || (isDeferred && this.state[groupIndex][listIndex][branchIndex + 1][itemIndex])
+    ) {
+      return;
+    }
+
+    deferredState[itemIndex] = isDeferred;
+
+    this.publisher.pub(
+      this.eventTopicMap['checklist_state_item_deferred'],
+      [groupIndex, listIndex, branchIndex, itemIndex, isDeferred],
+      true,
+      false
+    );
+    this.addLogEntry(isDeferred ? ChecklistLogEntryType.ItemDeferred : ChecklistLogEntryType.ItemUndeferred, groupIndex, listIndex, branchIndex, itemIndex);
+
+    this.saveState();
+  }
+
+  /**
+   * Gets this manager's completion log.
+   * @returns This manager's completion log, in chronological order.
+   */
+  public getLog(): readonly Readonly<ChecklistLogEntry>[] {
+    return this.log;
+  }
+
+  /**
+   * Clears this manager's completion log. This should be called when a new flight begins.
+   */
+  public clearLog(): void {
+    this.log.length = 0;
+    this.saveLog();
+  }
+
+  /**
+   * Exports this manager's completion log as comma-separated values. The first line is a header, and each subsequent
+   * line describes one log entry with the following fields: the UTC time of the entry in ISO 8601 format, the entry
+   * type, the group name, the checklist name, the branch name, and the item index. Fields that do not apply to an entry
+   * are left empty.
+   * @returns This manager's completion log as comma-separated values.
+   */
+  public exportLog(): string {
+    const lines = ['time,event,group,list,branch,item'];
+
+    for (const entry of this.log) {
+      const groupDef = this.checklistDef.groups[entry.groupIndex];
+      const listDef = groupDef?.lists[entry.listIndex];
+      const branchDef = listDef?.branches[entry.branchIndex];
+
+      lines.push([
+        new Date(entry.time).toISOString(),
+        entry.type,
+        ChecklistManager.escapeCsvField(groupDef?.name ?? ''),
+        ChecklistManager.escapeCsvField(listDef?.name ?? ''),
+        ChecklistManager.escapeCsvField(branchDef?.name ?? ''),
+        entry.itemIndex < 0 ? '' : entry.itemIndex.toString()
+      ].join(','));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Responds to when whether an actionable item is completed has been toggled.
+   * @param groupIndex The index of the checklist group containing the item.
+   * @param listIndex The index of the checklist containing the item within its group.
+   * @param branchIndex The index of the branch containing the item within its list, or `-1` if the item is not
+   * contained in a branch.
+   * @param itemIndex The index of the item within its checklist.
+   * @param isCompleted Whether the item is completed.
+   */
+  private onItemToggled(groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isCompleted: boolean): void {
+    this.publisher.pub(
+      this.eventTopicMap[isCompleted ? 'checklist_state_item_completed' : 'checklist_state_item_reset'],
+      [groupIndex, listIndex, branchIndex, itemIndex],
+      true,
+      false
+    );
+    this.addLogEntry(isCompleted ? ChecklistLogEntryType.ItemCompleted : ChecklistLogEntryType.ItemReset, groupIndex, listIndex, branchIndex, itemIndex);
+
+    // Completed items are no longer deferred.
+    const deferredState = this.deferred[groupIndex][listIndex][branchIndex + 1];
+    if (isCompleted && deferredState[itemIndex]) {
+      deferredState[itemIndex] = false;
       this.publisher.pub(
-        this.eventTopicMap[toggledState ? 'checklist_state_item_completed' : 'checklist_state_item_reset'],
-        [groupIndex, listIndex, branchIndex, itemIndex],
+        this.eventTopicMap['checklist_state_item_deferred'],
+        [groupIndex, listIndex, branchIndex, itemIndex, false],
         true,
         false
       );
     }
   }
 
+  /**
+   * Clears the deferral state of items without publishing the changes.
+   * @param groupIndex The index of the group in which to clear deferral states, or `undefined` to clear states in all
+   * groups.
+   * @param listIndex The index of the checklist in which to clear deferral states, or `undefined` to clear states in all
+   * checklists in the affected groups.
+   */
+  private clearDeferred(groupIndex?: number, listIndex?: number): void {
+    for (let g = 0; g < this.deferred.length; g++) {
+      if (groupIndex !== undefined && g !== groupIndex) {
+        continue;
+      }
+
+      const groupState = this.deferred[g];
+      for (let l = 0; l < groupState.length; l++) {
+        if (listIndex !== undefined && l !== listIndex) {
+          continue;
+        }
+
+        const listState = groupState[l];
+        for (let b = 0; b < listState.length; b++) {
+          const branchState = listState[b];
+          for (let i = 0; i < branchState.length; i++) {
+            if (branchState[i] === true) {
+              branchState[i] = false;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds an entry to this manager's completion log.
+   * @param type The type of the entry.
+   * @param groupIndex The index of the affected checklist group, or `-1` if all groups were affected.
+   * @param listIndex The index of the affected checklist within its group, or `-1` if all checklists were affected.
+   * @param branchIndex The index of the branch containing the affected item, or `-1` if the item is in the base
+   * checklist or no single item was affected.
+   * @param itemIndex The index of the affected item, or `-1` if no single item was affected.
+   */
+  private addLogEntry(type: ChecklistLogEntryType, groupIndex = -1, listIndex = -1, branchIndex = -1, itemIndex = -1): void {
+    this.log.push({ time: this.simTime.get(), type, groupIndex, listIndex, branchIndex, itemIndex });
+
+    if (this.log.length > this.maxLogEntries) {
+      this.log.splice(0, this.log.length - this.maxLogEntries);
+    }
+
+    this.saveLog();
+  }
+
+  /**
+   * Schedules the state of this manager's checklist set to be persisted to the data store. Changes made before the
+   * scheduled save occurs are persisted together. Has no effect if this manager was not configured with a data store
+   * key.
+   */
+  private saveState(): void {
+    if (this.dataStoreKey === undefined || this.stateSaveTimer.isPending()) {
+      return;
+    }
+
+    this.stateSaveTimer.schedule(this.persistState.bind(this), ChecklistManager.STATE_SAVE_DELAY);
+  }
+
+  /**
+   * Schedules this manager's completion log to be persisted to the data store. Entries added before the scheduled
+   * save occurs are persisted together. A pending log save is also performed whenever the state of the checklist set
+   * is persisted. Has no effect if this manager was not configured with a data store key.
+   */
+  private saveLog(): void {
+    if (this.logDataStoreKey === undefined || this.logSaveTimer.isPending()) {
+      return;
+    }
+
+    this.logSaveTimer.schedule(this.persistLog.bind(this), ChecklistManager.LOG_SAVE_DELAY);
+  }
+
+  /**
+   * Immediately persists the state of this manager's checklist set to the data store, along with its completion log if
+   * a log save is pending.
+   */
+  private persistState(): void {
+    if (this.dataStoreKey === undefined) {
+      return;
+    }
+
+    // Persist the log together with the state so that log entries for state changes are not lost if the instrument is
+    // reloaded before the log would otherwise have been saved.
+    if (this.logSaveTimer.isPending()) {
+      this.logSaveTimer.clear();
+      this.persistLog();
+    }
+
+    const persisted: ChecklistManagerPersistedState = {
+      completed: this.serializeItems((g, l, b, i) => this.state[g][l][b][i] === true),
+      overridden: this.serializeItems((g, l, b, i) => this.sensedItems[g]?.[l]?.[b]?.[i]?.isOverridden === true),
+      deferred: this.serializeItems((g, l, b, i) => this.deferred[g][l][b][i] === true)
+    };
+
+    DataStore.set(this.dataStoreKey, JSON.stringify(persisted));
+  }
+
+  /**
+   * Immediately persists this manager's completion log to the data store.
+   */
+  private persistLog(): void {
+    if (this.logDataStoreKey === undefined) {
+      return;
+    }
+
+    DataStore.set(this.logDataStoreKey, JSON.stringify(this.log));
+  }
+
+  /**
+   * Restores the state of this manager's checklist set and its completion log from the data store. Persisted states
+   * for items that do not exist in this manager's checklist set, malformed log entries, and persisted data that
+   * cannot be parsed are ignored. Has no effect if this manager was not configured with a data store key.
+   */
+  private loadState(): void {
+    if (this.dataStoreKey === undefined || this.logDataStoreKey === undefined) {
+      return;
+    }
+
+    const persistedLog = ChecklistManager.parsePersisted(DataStore.get<string>(this.logDataStoreKey));
+    if (Array.isArray(persistedLog)) {
+      const validLog = persistedLog.filter(ChecklistManager.isValidLogEntry);
+      this.log.push(...validLog.slice(Math.max(validLog.length - this.maxLogEntries, 0)));
+    }
+
+    const persisted = ChecklistManager.parsePersisted(DataStore.get<string>(this.dataStoreKey)) as Partial<ChecklistManagerPersistedState> | undefined;
+    if (typeof persisted !== 'object' || persisted === null) {
+      return;
+    }
+
+    ChecklistManager.deserializeItems(persisted.completed, (g, l, b, i) => {
+      if (this.state[g]?.[l]?.[b]?.[i] !== undefined) {
+        this.state[g][l][b][i] = true;
+      }
+    });
+    ChecklistManager.deserializeItems(persisted.overridden, (g, l, b, i) => {
+      const entry = this.sensedItems[g]?.[l]?.[b]?.[i];
+      if (entry) {
+        entry.isOverridden = true;
+      }
+    });
+    ChecklistManager.deserializeItems(persisted.deferred, (g, l, b, i) => {
+      if (this.deferred[g]?.[l]?.[b]?.[i] !== undefined && !this.state[g][l][b][i]) {
+        this.deferred[g][l][b][i] = true;
+      }
+    });
+  }
+
+  /**
+   * Parses persisted JSON data.
+   * @param json The persisted JSON data.
+   * @returns The parsed data, or `undefined` if the persisted data is not a string or cannot be parsed.
+   */
+  private static parsePersisted(json: unknown): unknown {
+    if (typeof json !== 'string') {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a persisted value is a valid completion log entry.
+   * @param entry The value to check.
+   * @returns Whether the specified value is a valid completion log entry.
+   */
+  private static isValidLogEntry(entry: unknown): entry is ChecklistLogEntry {
+    if (typeof entry !== 'object' || entry === null) {
+      return false;
+    }
+
+    const { time, type, groupIndex, listIndex, branchIndex, itemIndex } = entry as Record<string, unknown>;
+
+    return typeof time === 'number' && !isNaN(new Date(time).getTime())
+      && typeof type === 'string' && ChecklistManager.LOG_ENTRY_TYPES.has(type)
+      && Number.isInteger(groupIndex)
+      && Number.isInteger(listIndex)
+      && Number.isInteger(branchIndex)
+      && Number.isInteger(itemIndex);
+  }
+
   /**
    * Attempts to toggle whether an actionable item is completed.
    * @param branchState The state array of the checklist containing the item to toggle.
@@ -353,12 +957,107 @@ export class ChecklistManager {
     }
   }
 
+  /**
+   * Responds to when whether a sensed item's condition is met changes.
+   * @param entry The entry for the sensed item.
+   * @param isConditionMet Whether the item's condition is met.
+   */
+  private onSensedConditionChanged(entry: SensedItemEntry, isConditionMet: boolean): void {
+    if (!this.isAlive || entry.isConditionMet === isConditionMet) {
+      return;
+    }
+
+    entry.isConditionMet = isConditionMet;
+
+    if (this.isAwake) {
+      this.syncSensedItem(entry);
+      this.saveState();
+    }
+  }
+
+  /**
+   * Clears the override state of a sensed item without publishing the change and then brings the item in line with
+   * its condition. Used after the item has been reset as part of a group or checklist reset.
+   * @param entry The entry for the sensed item.
+   */
+  private resyncSensedItem(entry: SensedItemEntry): void {
+    entry.isOverridden = false;
+    this.syncSensedItem(entry);
+  }
+
+  /**
+   * Brings the completion state of a sensed item in line with its condition if the item is not overridden, or clears
+   * the item's override state if its condition agrees with its overridden completion state. Has no effect if this
+   * manager is asleep.
+   * @param entry The entry for the sensed item.
+   */
+  private syncSensedItem(entry: SensedItemEntry): void {
+    if (!this.isAwake) {
+      return;
+    }
+
+    const branchState = this.state[entry.groupIndex][entry.listIndex][entry.branchIndex + 1];
+
+    if (entry.isOverridden) {
+      if (branchState[entry.itemIndex] === entry.isConditionMet) {
+        this.setSensedItemOverridden(entry, false);
+      }
+      return;
+    }
+
+    const toggledState = this.tryToggleItemCompleted(branchState, entry.itemIndex, entry.isConditionMet);
+    if (toggledState !== undefined) {
+      this.onItemToggled(entry.groupIndex, entry.listIndex, entry.branchIndex, entry.itemIndex, toggledState);
+    }
+  }
+
+  /**
+   * Sets whether a sensed item is overridden and publishes the change if the override state changed.
+   * @param entry The entry for the sensed item.
+   * @param isOverridden Whether the item is overridden.
+   */
+  private setSensedItemOverridden(entry: SensedItemEntry, isOverridden: boolean): void {
+    if (entry.isOverridden === isOverridden) {
+      return;
+    }
+
+    entry.isOverridden = isOverridden;
+    this.publisher.pub(
+      this.eventTopicMap['checklist_state_item_overridden'],
+      [entry.groupIndex, entry.listIndex, entry.branchIndex, entry.itemIndex, isOverridden],
+      true,
+      false
+    );
+  }
+
   /**
    * Responds to when a state request is received.
    * @param uuid The UUID of the state request.
    */
   private onStateRequest(uuid: string): void {
-    const state: (((number[] | null)[] | null)[] | null)[] = ArrayUtils.create(this.state.length, () => null);
+    this.publisher.pub(
+      this.eventTopicMap['checklist_state_response'],
+      {
+        uuid,
+        state: this.serializeItems((g, l, b, i) => this.state[g][l][b][i] === true),
+        overridden: this.serializeItems((g, l, b, i) => this.sensedItems[g]?.[l]?.[b]?.[i]?.isOverridden === true),
+        deferred: this.serializeItems((g, l, b, i) => this.deferred[g][l][b][i] === true)
+      },
+      true,
+      false
+    );
+  }
+
+  /**
+   * Serializes the items in this manager's checklist set that satisfy a predicate, using the format described by
+   * {@link ChecklistStateResponseData}.
+   * @param predicate A function which checks whether an item should be included. The function is called with the
+   * index of the item's group, the index of the item's checklist, the index of the item's branch plus one (`0` for the
+   * base checklist), and the index of the item.
+   * @returns A description of the items in this manager's checklist set that satisfy the specified predicate.
+   */
+  private serializeItems(predicate: (groupIndex: number, listIndex: number, branchArrayIndex: number, itemIndex: number) => boolean): (((number[] | null)[] | null)[] | null)[] {
+    const serialized: (((number[] | null)[] | null)[] | null)[] = ArrayUtils.create(this.state.length, () => null);
 
     for (let groupIndex = 0; groupIndex < this.state.length; groupIndex++) {
       const groupState = this.state[groupIndex];
@@ -367,8 +1066,8 @@ export class ChecklistManager {
         for (let branchIndex = 0; branchIndex < listState.length; branchIndex++) {
           const branchState = listState[branchIndex];
           for (let itemIndex = 0; itemIndex < branchState.length; itemIndex++) {
-            if (branchState[itemIndex] === true) {
-              const groupArray = state[groupIndex] ??= ArrayUtils.create(groupState.length, () => null);
+            if (branchState[itemIndex] !== undefined && predicate(groupIndex, listIndex, branchIndex, itemIndex)) {
+              const groupArray = serialized[groupIndex] ??= ArrayUtils.create(groupState.length, () => null);
               const listArray = groupArray[listIndex] ??= ArrayUtils.create(listState.length, () => null);
               const branchArray = listArray[branchIndex] ??= [];
               branchArray.push(itemIndex);
@@ -378,7 +1077,106 @@ export class ChecklistManager {
       }
     }
 
-    this.publisher.pub(this.eventTopicMap['checklist_state_response'], { uuid, state }, true, false);
+    return serialized;
+  }
+
+  /**
+   * Iterates over the items in a description of checklist set items using the format described by
+   * {@link ChecklistStateResponseData}.
+   * @param serialized The description to iterate over. Malformed descriptions are ignored.
+   * @param fn The function to call for each item. The function is called with the index of the item's group, the
+   * index of the item's checklist, the index of the item's branch plus one (`0` for the base checklist), and the index
+   * of the item.
+   */
+  private static deserializeItems(
+    serialized: ChecklistStateResponseData['state'] | undefined,
+    fn: (groupIndex: number, listIndex: number, branchArrayIndex: number, itemIndex: number) => void
+  ): void {
+    if (!Array.isArray(serialized)) {
+      return;
+    }
+
+    for (let groupIndex = 0; groupIndex < serialized.length; groupIndex++) {
+      const groupArray = serialized[groupIndex];
+      if (!Array.isArray(groupArray)) {
+        continue;
+      }
+
+      for (let listIndex = 0; listIndex < groupArray.length; listIndex++) {
+        const listArray = groupArray[listIndex];
+        if (!Array.isArray(listArray)) {
+          continue;
+        }
+
+        for (let branchIndex = 0; branchIndex < listArray.length; branchIndex++) {
+          const branchArray = listArray[branchIndex];
+          if (!Array.isArray(branchArray)) {
+            continue;
+          }
+
+          for (const itemIndex of branchArray) {
+            if (typeof itemIndex === 'number') {
+              fn(groupIndex, listIndex, branchIndex, itemIndex);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Escapes a field for use in comma-separated values.
+   * @param field The field to escape.
+   * @returns The escaped field.
+   */
+  private static escapeCsvField(field: string): string {
+    return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }
+
+  /**
+   * Compares a sensed value against a reference value. Boolean values are compared as `1` (`true`) or `0` (`false`).
+   * If either value is a string, then both values are compared as strings and only equality comparisons are
+   * supported.
+   * @param value The sensed value.
+   * @param comparison The comparison to apply.
+   * @param reference The reference value against which to compare the sensed value.
+   * @returns Whether the comparison between the sensed value and the reference value is satisfied.
+   */
+  private static compareSensedValue(value: unknown, comparison: ChecklistSensedComparison, reference: number | string | boolean): boolean {
+    if (typeof value === 'string' || typeof reference === 'string') {
+      switch (comparison) {
+        case ChecklistSensedComparison.Equal:
+          return String(value) === String(reference);
+        case ChecklistSensedComparison.NotEqual:
+          return String(value) !== String(reference);
+        default:
+          return false;
+      }
+    }
+
+    const numericValue = typeof value === 'boolean' ? (value ? 1 : 0) : Number(value);
+    const numericReference = typeof reference === 'boolean' ? (reference ? 1 : 0) : reference;
+
+    if (isNaN(numericValue)) {
+      return false;
+    }
+
+    switch (comparison) {
+      case ChecklistSensedComparison.Equal:
+        return numericValue === numericReference;
+      case ChecklistSensedComparison.NotEqual:
+        return numericValue !== numericReference;
+      case ChecklistSensedComparison.Less:
+        return numericValue < numericReference;
+      case ChecklistSensedComparison.LessOrEqual:
+        return numericValue <= numericReference;
+      case ChecklistSensedComparison.Greater:
+        return numericValue > numericReference;
+      case ChecklistSensedComparison.GreaterOrEqual:
+        return numericValue >= numericReference;
+      default:
+        return false;
+    }
   }
 
   /**
@@ -388,6 +1186,18 @@ export class ChecklistManager {
   public destroy(): void {
     this.isAlive = false;
 
+    // Persist any changes that are still waiting to be saved.
+    if (this.stateSaveTimer.isPending()) {
+      this.stateSaveTimer.clear();
+      this.persistState();
+    }
+    if (this.logSaveTimer.isPending()) {
+      this.logSaveTimer.clear();
+      this.persistLog();
+    }
+
+    this.simTime.destroy();
+
     for (const sub of this.subscriptions) {
       sub.destroy();
     }
@@ -107,7 +107,7 @@ export type ChecklistItem<I extends BaseChecklistItemTypeDefMap = BaseChecklistI
  * @template I A map from checklist item types to checklist item definitions. Defaults to `BaseChecklistItemTypeDefMap`.
  */
 export type ChecklistItemTypeMap<I extends BaseChecklistItemTypeDefMap = BaseChecklistItemTypeDefMap> = {
-  [Type in ChecklistItemType]: Type extends ChecklistItemType.Actionable ? ChecklistCompletableItem<I, Type>
+  [Type in ChecklistItemType]: Type extends ChecklistItemType.Actionable ? ChecklistActionableItem<I>
   : Type extends ChecklistItemType.Branch ? ChecklistBranchItem<I>
   : ChecklistItemBase<I, Type>;
 };
@@ -139,6 +139,22 @@ export type ChecklistCompletableItem<I extends BaseChecklistItemTypeDefMap = Bas
     readonly isCompleted: Subscribable<boolean>;
   };
 
+/**
+ * A checklist actionable item.
+ * @template I A map from checklist item types to checklist item definitions. Defaults to `BaseChecklistItemTypeDefMap`.
+ */
+export type ChecklistActionableItem<I extends BaseChecklistItemTypeDefMap = BaseChecklistItemTypeDefMap>
+  = ChecklistCompletableItem<I, ChecklistItemType.Actionable> & {
+    /**
+     * Whether this item's completion state has been overridden. Only sensed items can be overridden. A sensed item is
+     * overridden when its completion state has been manually set to a state that does not match its sensed condition.
+     */
+    readonly isOverridden: Subscribable<boolean>;
+
+    /** Whether this item has been deferred. */
+    readonly isDeferred: Subscribable<boolean>;
+  };
+
 /**
  * A checklist branch item.
  * @template I A map from checklist item types to checklist item definitions. Defaults to `BaseChecklistItemTypeDefMap`.
@@ -15,6 +15,20 @@ export type ChecklistStateResponseData = {
    * array of the indexes of every actionable item in the checklist that is completed.
    */
   state: readonly (readonly (readonly (readonly number[] | null)[] | null)[] | null)[];
+
+  /**
+   * A description of the override state of all sensed actionable items at the time the response was sent, in the same
+   * format as `state`. An item is overridden if and only if its index appears in the array for its checklist branch.
+   * If not defined, then no items are overridden.
+   */
+  overridden?: readonly (readonly (readonly (readonly number[] | null)[] | null)[] | null)[];
+
+  /**
+   * A description of the deferral state of all actionable items at the time the response was sent, in the same format
+   * as `state`. An item is deferred if and only if its index appears in the array for its checklist branch. If not
+   * defined, then no items are deferred.
+   */
+  deferred?: readonly (readonly (readonly (readonly number[] | null)[] | null)[] | null)[];
 };
 
 /**
@@ -53,6 +67,22 @@ export interface BaseChecklistStateEvents {
    */
   checklist_state_item_completed: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number];
 
+  /**
+   * The override state of a sensed actionable checklist item changed. The event data is an ordered tuple of: the index
+   * of the checklist group containing the item, the index of the checklist containing the item within its group, the
+   * index of the branch containing the item within its checklist (or `-1` if the item is in the base checklist), the
+   * index of the item within its checklist or branch, and whether the item is overridden.
+   */
+  checklist_state_item_overridden: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isOverridden: boolean];
+
+  /**
+   * The deferral state of an actionable checklist item changed. The event data is an ordered tuple of: the index of the
+   * checklist group containing the item, the index of the checklist containing the item within its group, the index of
+   * the branch containing the item within its checklist (or `-1` if the item is in the base checklist), the index of
+   * the item within its checklist or branch, and whether the item is deferred.
+   */
+  checklist_state_item_deferred: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isDeferred: boolean];
+
   /**
    * A response to a checklist state request. The event data contains the requested state data and the UUID of the
    * request to which the response was made.
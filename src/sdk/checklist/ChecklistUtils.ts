@@ -0,0 +1,60 @@
+import { BaseChecklistItemTypeDefMap, ChecklistItemType } from './ChecklistDefinitions';
+import { ChecklistItem, ChecklistList } from './ChecklistState';
+
+/**
+ * A reference to an item in a checklist.
+ */
+export type ChecklistItemReference = {
+  /** The index of the branch containing the item within its checklist, or `-1` if the item is in the base checklist. */
+  readonly branchIndex: number;
+
+  /** The index of the item within its checklist or branch. */
+  readonly itemIndex: number;
+};
+
+/**
+ * A summary of the actionable items in a checklist that have not been completed.
+ */
+export type ChecklistListSummary = {
+  /** References to the deferred items in the checklist, in checklist order. */
+  readonly deferred: readonly ChecklistItemReference[];
+
+  /** References to the items in the checklist that have been neither completed nor deferred, in checklist order. */
+  readonly skipped: readonly ChecklistItemReference[];
+};
+
+/**
+ * A utility class for working with checklists.
+ */
+export class ChecklistUtils {
+  /**
+   * Gets a summary of the actionable items in a checklist that have not been completed. Items in the base checklist
+   * are always included in the summary. Items in a branch are only included if the branch has been started, that is,
+   * if at least one actionable item in the branch has been completed or deferred.
+   * @param list The checklist to summarize.
+   * @returns A summary of the actionable items in the specified checklist that have not been completed.
+   */
+  public static getListSummary<I extends BaseChecklistItemTypeDefMap>(list: ChecklistList<I, any, any>): ChecklistListSummary {
+    const deferred: ChecklistItemReference[] = [];
+    const skipped: ChecklistItemReference[] = [];
+
+    for (let branchIndex = -1; branchIndex < list.branches.length; branchIndex++) {
+      const items: readonly ChecklistItem<I>[] = list.branches[branchIndex]?.items ?? list.items;
+
+      if (branchIndex >= 0 && !items.some(item => item.type === ChecklistItemType.Actionable && (item.isCompleted.get() || item.isDeferred.get()))) {
+        continue;
+      }
+
+      for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+        const item = items[itemIndex];
+        if (item.type !== ChecklistItemType.Actionable || item.isCompleted.get()) {
+          continue;
+        }
+
+        (item.isDeferred.get() ? deferred : skipped).push({ branchIndex, itemIndex });
+      }
+    }
+
+    return { deferred, skipped };
+  }
+}
@@ -9,8 +9,8 @@ import {
   ChecklistListDef, ChecklistSetDef
 } from './ChecklistDefinitions';
 import {
-  ChecklistBranch, ChecklistGroup, ChecklistItemBase, ChecklistCompletableItem, ChecklistBranchItem,
-  ChecklistList, ChecklistSet
+  ChecklistBranch, ChecklistGroup, ChecklistItemBase, ChecklistCompletableItem, ChecklistActionableItem,
+  ChecklistBranchItem, ChecklistList, ChecklistSet
 } from './ChecklistState';
 import { ChecklistStateEvents, ChecklistStateResponseData } from './ChecklistStateEvents';
 import { ChecklistStateProvider } from './ChecklistStateProvider';
@@ -64,7 +64,7 @@ type ChecklistItemInternal<I extends BaseChecklistItemTypeDefMap = BaseChecklist
  * A map from checklist item types to checklist items for use internally by {@link DefaultChecklistStateProvider}.
  */
 type ChecklistItemTypeMapInternal<I extends BaseChecklistItemTypeDefMap = BaseChecklistItemTypeDefMap> = {
-  [Type in ChecklistItemType]: Type extends ChecklistItemType.Actionable ? ChecklistCompletableItemInternal<I, Type>
+  [Type in ChecklistItemType]: Type extends ChecklistItemType.Actionable ? ChecklistActionableItemInternal<I>
   : Type extends ChecklistItemType.Branch ? ChecklistBranchItemInternal<I>
   : ChecklistItemBase<I, Type>;
 };
@@ -78,6 +78,18 @@ type ChecklistCompletableItemInternal<I extends BaseChecklistItemTypeDefMap = Ba
     readonly isCompleted: Subject<boolean>;
   }
 
+/**
+ * A checklist actionable item for use internally by {@link DefaultChecklistStateProvider}.
+ */
+type ChecklistActionableItemInternal<I extends BaseChecklistItemTypeDefMap = BaseChecklistItemTypeDefMap>
+  = ChecklistActionableItem<I> & ChecklistCompletableItemInternal<I, ChecklistItemType.Actionable> & {
+    /** Whether this item's completion state has been overridden. */
+    readonly isOverridden: Subject<boolean>;
+
+    /** Whether this item has been deferred. */
+    readonly isDeferred: Subject<boolean>;
+  }
+
 /**
  * A checklist branch item for use internally by {@link DefaultChecklistStateProvider}.
  */
@@ -326,7 +338,9 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
         return {
           type: itemDef.type,
           def: itemDef,
-          isCompleted: Subject.create(false)
+          isCompleted: Subject.create(false),
+          isOverridden: Subject.create(false),
+          isDeferred: Subject.create(false)
         };
       case ChecklistItemType.Branch:
         return {
@@ -371,6 +385,8 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
       sub.on(`checklist_state_list_completed_${this.index}`).handle(this.onListCompletedSet.bind(this, true)),
       sub.on(`checklist_state_item_reset_${this.index}`).handle(this.onItemCompletedSet.bind(this, false)),
       sub.on(`checklist_state_item_completed_${this.index}`).handle(this.onItemCompletedSet.bind(this, true)),
+      sub.on(`checklist_state_item_overridden_${this.index}`).handle(this.onItemOverriddenSet.bind(this)),
+      sub.on(`checklist_state_item_deferred_${this.index}`).handle(this.onItemDeferredSet.bind(this)),
       sub.on(`checklist_state_response_${this.index}`).handle(this.onStateResponse.bind(this))
     );
 
@@ -475,6 +491,10 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
       switch (item.type) {
         case ChecklistItemType.Actionable:
           item.isCompleted.set(completed);
+          item.isDeferred.set(false);
+          if (!completed) {
+            item.isOverridden.set(false);
+          }
           break;
         case ChecklistItemType.Branch:
           item.isOverridden.set(completed);
@@ -489,6 +509,10 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
         switch (item.type) {
           case ChecklistItemType.Actionable:
             item.isCompleted.set(completed);
+            item.isDeferred.set(false);
+            if (!completed) {
+              item.isOverridden.set(false);
+            }
             break;
           case ChecklistItemType.Branch:
             item.isOverridden.set(completed);
@@ -600,6 +624,52 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
     }
   }
 
+  /**
+   * Responds to when the override state of a sensed actionable item has changed.
+   * @param data The indexes of the affected item and its override state, as an ordered tuple of: the index of the
+   * checklist group containing the item, the index of the checklist containing the item within its group, the index of
+   * the branch containing the item within its checklist (or `-1` if the item is in the base checklist), the index of
+   * the item within its checklist or branch, and whether the item is overridden.
+   */
+  private onItemOverriddenSet(data: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isOverridden: boolean]): void {
+    const [groupIndex, listIndex, branchIndex, itemIndex, isOverridden] = data;
+    this.getActionableItem(groupIndex, listIndex, branchIndex, itemIndex)?.isOverridden.set(isOverridden);
+  }
+
+  /**
+   * Responds to when the deferral state of an actionable item has changed.
+   * @param data The indexes of the affected item and its deferral state, as an ordered tuple of: the index of the
+   * checklist group containing the item, the index of the checklist containing the item within its group, the index of
+   * the branch containing the item within its checklist (or `-1` if the item is in the base checklist), the index of
+   * the item within its checklist or branch, and whether the item is deferred.
+   */
+  private onItemDeferredSet(data: readonly [groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number, isDeferred: boolean]): void {
+    const [groupIndex, listIndex, branchIndex, itemIndex, isDeferred] = data;
+    this.getActionableItem(groupIndex, listIndex, branchIndex, itemIndex)?.isDeferred.set(isDeferred);
+  }
+
+  /**
+   * Gets an actionable item.
+   * @param groupIndex The index of the checklist group containing the item.
+   * @param listIndex The index of the checklist containing the item within its group.
+   * @param branchIndex The index of the branch containing the item within its checklist, or `-1` if the item is in
+   * the base checklist.
+   * @param itemIndex The index of the item within its checklist or branch.
+   * @returns The specified actionable item, or `undefined` if the item does not exist or is not an actionable item.
+   */
+  private getActionableItem(groupIndex: number, listIndex: number, branchIndex: number, itemIndex: number): ChecklistItemInternal<I, ChecklistItemType.Actionable> | undefined {
+    const list = this._state.groups[groupIndex]?.lists[listIndex];
+
+    if (!list) {
+      return undefined;
+    }
+
+    const items = branchIndex < 0 ? list.items : list.branches[branchIndex]?.items;
+    const item = items?.[itemIndex];
+
+    return item?.type === ChecklistItemType.Actionable ? item : undefined;
+  }
+
   /**
    * Responds to when a checklist state response is received.
    * @param data The response data.
@@ -618,12 +688,20 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
         const listState = groupState ? groupState[listIndex] : null;
         const list = group.lists[listIndex];
 
+        const listOverriddenState = data.overridden?.[groupIndex]?.[listIndex] ?? null;
+        const listDeferredState = data.deferred?.[groupIndex]?.[listIndex] ?? null;
+
         // base list
-        this.setBranchStateFromResponse(list.items, listState?.[0] ?? null);
+        this.setBranchStateFromResponse(list.items, listState?.[0] ?? null, listOverriddenState?.[0] ?? null, listDeferredState?.[0] ?? null);
 
         // branches
         for (let branchIndex = 0; branchIndex < list.branches.length; branchIndex++) {
-          this.setBranchStateFromResponse(list.branches[branchIndex].items, listState?.[branchIndex + 1] ?? null);
+          this.setBranchStateFromResponse(
+            list.branches[branchIndex].items,
+            listState?.[branchIndex + 1] ?? null,
+            listOverriddenState?.[branchIndex + 1] ?? null,
+            listDeferredState?.[branchIndex + 1] ?? null
+          );
         }
 
         // Update the completion state for the list and all of its branches.
@@ -637,18 +715,27 @@ export class DefaultChecklistStateProvider<I extends BaseChecklistItemTypeDefMap
   }
 
   /**
-   * Sets the completion states of actionable items and override states of branch items in a checklist branch to match
-   * the data in a checklist state response.
+   * Sets the completion, override, and deferral states of actionable items and override states of branch items in a
+   * checklist branch to match the data in a checklist state response.
    * @param items The items in the checklist branch to set.
    * @param responseBranchState The branch state in the checklist state response.
+   * @param responseBranchOverriddenState The branch actionable item override state in the checklist state response.
+   * @param responseBranchDeferredState The branch actionable item deferral state in the checklist state response.
    */
-  private setBranchStateFromResponse(items: readonly ChecklistItemInternal<I>[], responseBranchState: readonly number[] | null): void {
+  private setBranchStateFromResponse(
+    items: readonly ChecklistItemInternal<I>[],
+    responseBranchState: readonly number[] | null,
+    responseBranchOverriddenState: readonly number[] | null,
+    responseBranchDeferredState: readonly number[] | null
+  ): void {
     for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
       const item = items[itemIndex];
       switch (item.type) {
         case ChecklistItemType.Actionable: {
           const isCompleted = responseBranchState !== null && responseBranchState.includes(itemIndex);
           item.isCompleted.set(isCompleted);
+          item.isOverridden.set(responseBranchOverriddenState !== null && responseBranchOverriddenState.includes(itemIndex));
+          item.isDeferred.set(responseBranchDeferredState !== null && responseBranchDeferredState.includes(itemIndex));
           break;
         }
         case ChecklistItemType.Branch: {
@@ -1,9 +1,12 @@
+export * from './ChecklistCasLinker';
 export * from './ChecklistControlEvents';
 export * from './ChecklistController';
 export * from './ChecklistDOMParser';
 export * from './ChecklistDefinitions';
+export * from './ChecklistLog';
 export * from './ChecklistManager';
 export * from './ChecklistState';
 export * from './ChecklistStateEvents';
 export * from './ChecklistStateProvider';
+export * from './ChecklistUtils';
 export * from './DefaultChecklistStateProvider';
@@ -64,6 +64,51 @@ export interface Publisher<E> {
 }
 
 
+/**
+ * A monitor which observes the traffic on an event bus. Monitors are intended for diagnostic purposes only; attaching
+ * a monitor to a bus incurs additional overhead on every publish.
+ */
+export interface EventBusMonitor {
+  /**
+   * A callback function which is called when an event is published to the bus.
+   * @param topic The topic to which the event was published.
+   * @param data The data that was published with the event.
+   * @param sync Whether the event is synced across instruments.
+   * @param isCached Whether the event is cached.
+   */
+  onPublish(topic: string, data: any, sync: boolean, isCached: boolean): void;
+
+  /**
+   * A callback function which is called after a topic subscription handler has been executed.
+   * @param topic The topic of the subscription.
+   * @param handler The handler that was executed.
+   * @param duration The time taken to execute the handler, in milliseconds.
+   */
+  onHandlerExecuted(topic: string, handler: Handler<any>, duration: number): void;
+
+  /**
+   * A callback function which is called after a wildcard subscription handler has been executed.
+   * @param topic The topic of the event that was handled.
+   * @param handler The handler that was executed.
+   * @param duration The time taken to execute the handler, in milliseconds.
+   */
+  onWildcardHandlerExecuted(topic: string, handler: WildcardHandler, duration: number): void;
+
+  /**
+   * A callback function which is called when an event is sent to other instruments.
+   * @param topic The topic of the event.
+   * @param data The data of the event.
+   */
+  onSyncSent(topic: string, data: any): void;
+
+  /**
+   * A callback function which is called when an event is received from another instrument.
+   * @param topic The topic of the event.
+   * @param data The data of the event.
+   */
+  onSyncReceived(topic: string, data: any): void;
+}
+
 /**
  * A structure that holds both the subscriptions for a given topic, and its notify recursion depth
  */
@@ -88,6 +133,8 @@ export class EventBus {
   private _busSync: EventBusSyncBase;
   private _busId: number;
 
+  private _monitor?: EventBusMonitor;
+
   protected readonly onWildcardSubDestroyedFunc = this.onWildcardSubDestroyed.bind(this);
 
   /**
@@ -101,7 +148,7 @@ export class EventBus {
     // fallback to flowevent when genericdatalistener not avail (su9)
     useAlternativeEventSync = (typeof RegisterGenericDataListener === 'undefined');
     const syncFunc = useAlternativeEventSync ? EventBusFlowEventSync : EventBusListenerSync;
-    this._busSync = new syncFunc(this.pub.bind(this), this._busId);
+    this._busSync = new syncFunc(this.onSyncEventReceived.bind(this), this._busId);
     if (shouldResync === true) {
       this.syncEvent('event_bus', 'resync_request', false);
       this.on('event_bus', (data) => {
@@ -173,6 +220,9 @@ export class EventBus {
    * @param isCached Whether or not this message will be resync'd across the bus on load.
    */
   public pub(topic: string, data: any, sync = false, isCached = true): void {
+    const monitor = this._monitor;
+    monitor?.onPublish(topic, data, sync, isCached);
+
     if (isCached) {
       this._eventCache.set(topic, { data: data, synced: sync });
     }
@@ -192,7 +242,13 @@ export class EventBus {
           const sub = subsArray[i];
           // Note: a dead HandlerSubscription is necessarily paused.
           if (!sub.isPaused) {
-            sub.handler(data);
+            if (monitor) {
+              const t0 = performance.now();
+              sub.handler(data);
+              monitor.onHandlerExecuted(topic, sub.handler, performance.now() - t0);
+            } else {
+              sub.handler(data);
+            }
           }
 
           needCleanUpSubs ||= !sub.isAlive;
@@ -228,7 +284,13 @@ export class EventBus {
     for (let i = 0; i < wcLen; i++) {
       const sub = this._wildcardSubs[i];
       if (!sub.isPaused) {
-        sub.handler(topic, data);
+        if (monitor) {
+          const t0 = performance.now();
+          sub.handler(topic, data);
+          monitor.onWildcardHandlerExecuted(topic, sub.handler, performance.now() - t0);
+        } else {
+          sub.handler(topic, data);
+        }
       }
 
       needCleanUpSubs ||= !sub.isAlive;
@@ -241,6 +303,34 @@ export class EventBus {
     }
   }
 
+  /**
+   * Sets the monitor attached to this bus. Only one monitor may be attached to a bus at a time.
+   * @param monitor The monitor to attach, or `undefined` to detach the current monitor.
+   */
+  public setMonitor(monitor: EventBusMonitor | undefined): void {
+    this._monitor = monitor;
+  }
+
+  /**
+   * Gets the monitor attached to this bus.
+   * @returns The monitor attached to this bus, or `undefined` if there is no attached monitor.
+   */
+  public getMonitor(): EventBusMonitor | undefined {
+    return this._monitor;
+  }
+
+  /**
+   * Responds to when an event is received from the sync bus.
+   * @param topic The topic of the event.
+   * @param data The data of the event.
+   * @param sync Whether or not the event should be synced.
+   * @param isCached Whether or not the event should be cached.
+   */
+  private onSyncEventReceived(topic: string, data: any, sync?: boolean, isCached?: boolean): void {
+    this._monitor?.onSyncReceived(topic, data);
+    this.pub(topic, data, sync, isCached);
+  }
+
   /**
    * Responds to when a wildcard subscription is destroyed.
    * @param sub The destroyed subscription.
@@ -271,6 +361,7 @@ export class EventBus {
    * @param isCached Whether or not this message will be resync'd across the bus on load.
    */
   private syncEvent(topic: string, data: any, isCached: boolean): void {
+    this._monitor?.onSyncSent(topic, data);
     this._busSync.sendEvent(topic, data, isCached);
   }
 
@@ -0,0 +1,498 @@
+import { EventBus, EventBusMonitor, Handler, WildcardHandler } from './EventBus';
+
+/**
+ * Criteria by which {@link EventBusProfiler} ranks the entries in its reports.
+ */
+export enum EventBusProfilerRankKey {
+  /** Rank by number of publishes or handler calls. */
+  Count = 'Count',
+
+  /** Rank by total handler execution time. */
+  HandlerTime = 'HandlerTime',
+
+  /** Rank by total synced data volume. Subscriber entries are ranked by handler execution time instead. */
+  SyncVolume = 'SyncVolume'
+}
+
+/**
+ * Traffic statistics for a single event bus topic.
+ */
+export type EventBusProfilerTopicStats = {
+  /** The topic. */
+  topic: string;
+
+  /** The number of subscribers to the topic at the time the report was generated. */
+  subscriberCount: number;
+
+  /** The number of times the topic was published. */
+  publishCount: number;
+
+  /** The rate at which the topic was published, in publishes per second. */
+  publishRate: number;
+
+  /** The total time spent executing topic subscription handlers for the topic, in milliseconds. */
+  handlerTime: number;
+
+  /** The longest time spent executing topic subscription handlers for a single publish of the topic, in milliseconds. */
+  maxHandlerTime: number;
+
+  /** The number of times the topic was sent to other instruments. */
+  syncSentCount: number;
+
+  /** The approximate volume of data sent to other instruments for the topic, in bytes of serialized JSON. */
+  syncSentBytes: number;
+
+  /** The number of times the topic was received from other instruments. */
+  syncReceivedCount: number;
+
+  /** The approximate volume of data received from other instruments for the topic, in bytes of serialized JSON. */
+  syncReceivedBytes: number;
+};
+
+/**
+ * Execution statistics for a single event bus subscription handler.
+ */
+export type EventBusProfilerSubscriberStats = {
+  /** A label identifying the handler, consisting of the handler function's name and a unique numeric ID. */
+  label: string;
+
+  /** The topic to which the handler is subscribed, or `*` if the handler is a wildcard handler. */
+  topic: string;
+
+  /** The number of times the handler was called. */
+  callCount: number;
+
+  /** The total time spent executing the handler, in milliseconds. */
+  totalTime: number;
+
+  /** The longest time spent executing the handler for a single call, in milliseconds. */
+  maxTime: number;
+};
+
+/**
+ * A report generated by {@link EventBusProfiler}.
+ */
+export type EventBusProfilerReport = {
+  /** The time at which the profiling window covered by the report started, as a Javascript timestamp. */
+  startTime: number;
+
+  /** The duration of the profiling window covered by the report, in milliseconds. */
+  duration: number;
+
+  /** The total number of publishes across all topics. */
+  totalPublishCount: number;
+
+  /** The total time spent executing subscription handlers across all topics, in milliseconds. */
+  totalHandlerTime: number;
+
+  /** The total number of events sent to other instruments. */
+  totalSyncSentCount: number;
+
+  /** The total approximate volume of data sent to other instruments, in bytes of serialized JSON. */
+  totalSyncSentBytes: number;
+
+  /** The total number of events received from other instruments. */
+  totalSyncReceivedCount: number;
+
+  /** The total approximate volume of data received from other instruments, in bytes of serialized JSON. */
+  totalSyncReceivedBytes: number;
+
+  /** The criterion by which the entries in the report are ranked. */
+  rankKey: EventBusProfilerRankKey;
+
+  /** Statistics for the highest-ranked topics, in order of decreasing rank. */
+  topics: EventBusProfilerTopicStats[];
+
+  /** Statistics for the highest-ranked subscription handlers, in order of decreasing rank. */
+  subscribers: EventBusProfilerSubscriberStats[];
+};
+
+/**
+ * Events published by {@link EventBusProfiler}.
+ */
+export interface EventBusProfilerEvents {
+  /** A profiler report. Published at the end of every profiling window. */
+  event_bus_profiler_report: EventBusProfilerReport;
+}
+
+/**
+ * Options for an {@link EventBusProfiler}.
+ */
+export type EventBusProfilerOptions = {
+  /**
+   * The length of each profiling window, in milliseconds. At the end of each window, a report is published to the bus
+   * and all statistics are reset. If the length is not positive, then windows must be ended manually by calling
+   * `report()`. Defaults to `1000`.
+   */
+  reportInterval?: number;
+
+  /** The criterion by which to rank report entries. Defaults to `EventBusProfilerRankKey.HandlerTime`. */
+  rankBy?: EventBusProfilerRankKey;
+
+  /** The maximum number of topic and subscriber entries to include in each report. Defaults to `20`. */
+  maxEntries?: number;
+
+  /**
+   * Whether to measure the volume of synced data. Measuring volume requires serializing every synced event, which
+   * adds significant overhead. Defaults to `true`.
+   */
+  measureSyncVolume?: boolean;
+
+  /** Whether to sync published reports to other instruments. Defaults to `false`. */
+  syncReport?: boolean;
+};
+
+/**
+ * Accumulated statistics for a topic.
+ */
+type TopicEntry = {
+  /** The number of publishes. */
+  publishCount: number;
+
+  /** The total handler execution time, in milliseconds. */
+  handlerTime: number;
+
+  /** The handler execution time for the current publish, in milliseconds. */
+  currentPublishTime: number;
+
+  /** The maximum handler execution time for a single publish, in milliseconds. */
+  maxHandlerTime: number;
+
+  /** The number of sent sync events. */
+  syncSentCount: number;
+
+  /** The volume of sent sync data, in bytes. */
+  syncSentBytes: number;
+
+  /** The number of received sync events. */
+  syncReceivedCount: number;
+
+  /** The volume of received sync data, in bytes. */
+  syncReceivedBytes: number;
+};
+
+/**
+ * Accumulated statistics for a subscription handler.
+ */
+type SubscriberEntry = {
+  /** The handler's label. */
+  label: string;
+
+  /** The handler's topic. */
+  topic: string;
+
+  /** The number of calls. */
+  callCount: number;
+
+  /** The total execution time, in milliseconds. */
+  totalTime: number;
+
+  /** The maximum execution time for a single call, in milliseconds. */
+  maxTime: number;
+};
+
+/**
+ * An opt-in profiler which measures the traffic on an event bus. The profiler tracks the publish rate of each topic,
+ * the time spent executing subscription handlers per topic and per handler, and the volume of data synced between
+ * instruments. At the end of each profiling window, the profiler generates a ranked report and publishes it to the bus
+ * on the `event_bus_profiler_report` topic so that it may be consumed by a debug display.
+ *
+ * The profiler attaches itself to the bus as the bus's {@link EventBusMonitor} while it is running, and will replace
+ * any other monitor that is already attached.
+ */
+export class EventBusProfiler implements EventBusMonitor {
+  private static readonly REPORT_TOPIC = 'event_bus_profiler_report';
+
+  private static nextHandlerId = 0;
+  private static readonly handlerLabels = new WeakMap<Handler<any> | WildcardHandler, string>();
+
+  private readonly publisher = this.bus.getPublisher<EventBusProfilerEvents>();
+
+  private readonly reportInterval: number;
+  private readonly rankBy: EventBusProfilerRankKey;
+  private readonly maxEntries: number;
+  private readonly measureSyncVolume: boolean;
+  private readonly syncReport: boolean;
+
+  private readonly topics = new Map<string, TopicEntry>();
+  private readonly subscribers = new Map<string, SubscriberEntry>();
+
+  private windowStartTime = 0;
+  private isRunning = false;
+  private reportTimer: ReturnType<typeof setInterval> | undefined = undefined;
+
+  private lastReport: EventBusProfilerReport | undefined = undefined;
+
+  /**
+   * Creates a new instance of EventBusProfiler. The profiler is initially stopped.
+   * @param bus The event bus to profile.
+   * @param options Options with which to configure the profiler.
+   */
+  public constructor(private readonly bus: EventBus, options?: Readonly<EventBusProfilerOptions>) {
+    this.reportInterval = options?.reportInterval ?? 1000;
+    this.rankBy = options?.rankBy ?? EventBusProfilerRankKey.HandlerTime;
+    this.maxEntries = options?.maxEntries ?? 20;
+    this.measureSyncVolume = options?.measureSyncVolume ?? true;
+    this.syncReport = options?.syncReport ?? false;
+  }
+
+  /**
+   * Starts this profiler. Does nothing if this profiler is already running.
+   * @returns This profiler.
+   */
+  public start(): this {
+    if (this.isRunning) {
+      return this;
+    }
+
+    this.isRunning = true;
+    this.reset();
+    this.bus.setMonitor(this);
+
+    if (this.reportInterval > 0) {
+      this.reportTimer = setInterval(this.report.bind(this), this.reportInterval);
+    }
+
+    return this;
+  }
+
+  /**
+   * Stops this profiler. Statistics accumulated during the current profiling window are discarded. Does nothing if
+   * this profiler is not running.
+   */
+  public stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+
+    if (this.reportTimer !== undefined) {
+      clearInterval(this.reportTimer);
+      this.reportTimer = undefined;
+    }
+
+    if (this.bus.getMonitor() === this) {
+      this.bus.setMonitor(undefined);
+    }
+
+    this.reset();
+  }
+
+  /**
+   * Discards all statistics accumulated during the current profiling window and starts a new window.
+   */
+  public reset(): void {
+    this.topics.clear();
+    this.subscribers.clear();
+    this.windowStartTime = Date.now();
+  }
+
+  /**
+   * Gets the most recently generated report.
+   * @returns The most recently generated report, or `undefined` if no report has been generated.
+   */
+  public getLastReport(): EventBusProfilerReport | undefined {
+    return this.lastReport;
+  }
+
+  /**
+   * Ends the current profiling window, generates a report for the window, and publishes the report to the bus. A new
+   * profiling window is then started.
+   * @returns The generated report.
+   */
+  public report(): EventBusProfilerReport {
+    const now = Date.now();
+    const duration = now - this.windowStartTime;
+
+    const report: EventBusProfilerReport = {
+      startTime: this.windowStartTime,
+      duration,
+      totalPublishCount: 0,
+      totalHandlerTime: 0,
+      totalSyncSentCount: 0,
+      totalSyncSentBytes: 0,
+      totalSyncReceivedCount: 0,
+      totalSyncReceivedBytes: 0,
+      rankKey: this.rankBy,
+      topics: [],
+      subscribers: []
+    };
+
+    const topics: EventBusProfilerTopicStats[] = [];
+    this.topics.forEach((entry, topic) => {
+      report.totalPublishCount += entry.publishCount;
+      report.totalSyncSentCount += entry.syncSentCount;
+      report.totalSyncSentBytes += entry.syncSentBytes;
+      report.totalSyncReceivedCount += entry.syncReceivedCount;
+      report.totalSyncReceivedBytes += entry.syncReceivedBytes;
+
+      topics.push({
+        topic,
+        subscriberCount: this.bus.getTopicSubscriberCount(topic),
+        publishCount: entry.publishCount,
+        publishRate: duration > 0 ? entry.publishCount / duration * 1000 : 0,
+        handlerTime: entry.handlerTime,
+        maxHandlerTime: entry.maxHandlerTime,
+        syncSentCount: entry.syncSentCount,
+        syncSentBytes: entry.syncSentBytes,
+        syncReceivedCount: entry.syncReceivedCount,
+        syncReceivedBytes: entry.syncReceivedBytes
+      });
+    });
+
+    const subscribers: EventBusProfilerSubscriberStats[] = [];
+    this.subscribers.forEach(entry => {
+      report.totalHandlerTime += entry.totalTime;
+      subscribers.push({ ...entry });
+    });
+
+    switch (this.rankBy) {
+      case EventBusProfilerRankKey.Count:
+        topics.sort((a, b) => b.publishCount - a.publishCount);
+        subscribers.sort((a, b) => b.callCount - a.callCount);
+        break;
+      case EventBusProfilerRankKey.SyncVolume:
+        topics.sort((a, b) => (b.syncSentBytes + b.syncReceivedBytes) - (a.syncSentBytes + a.syncReceivedBytes) || b.syncSentCount - a.syncSentCount);
+        subscribers.sort((a, b) => b.totalTime - a.totalTime);
+        break;
+      default:
+        topics.sort((a, b) => b.handlerTime - a.handlerTime);
+        subscribers.sort((a, b) => b.totalTime - a.totalTime);
+    }
+
+    report.topics = topics.slice(0, this.maxEntries);
+    report.subscribers = subscribers.slice(0, this.maxEntries);
+
+    this.lastReport = report;
+
+    this.reset();
+
+    if (this.isRunning) {
+      this.publisher.pub(EventBusProfiler.REPORT_TOPIC, report, this.syncReport, true);
+    }
+
+    return report;
+  }
+
+  /** @inheritDoc */
+  public onPublish(topic: string): void {
+    if (topic === EventBusProfiler.REPORT_TOPIC) {
+      return;
+    }
+
+    const entry = this.getTopicEntry(topic);
+    entry.publishCount++;
+    entry.currentPublishTime = 0;
+  }
+
+  /** @inheritDoc */
+  public onHandlerExecuted(topic: string, handler: Handler<any>, duration: number): void {
+    if (topic === EventBusProfiler.REPORT_TOPIC) {
+      return;
+    }
+
+    const entry = this.getTopicEntry(topic);
+    entry.handlerTime += duration;
+    entry.currentPublishTime += duration;
+    entry.maxHandlerTime = Math.max(entry.maxHandlerTime, entry.currentPublishTime);
+
+    this.recordSubscriber(topic, handler, duration);
+  }
+
+  /** @inheritDoc */
+  public onWildcardHandlerExecuted(topic: string, handler: WildcardHandler, duration: number): void {
+    this.recordSubscriber('*', handler, duration);
+  }
+
+  /** @inheritDoc */
+  public onSyncSent(topic: string, data: any): void {
+    const entry = this.getTopicEntry(topic);
+    entry.syncSentCount++;
+    entry.syncSentBytes += this.measureSize(data);
+  }
+
+  /** @inheritDoc */
+  public onSyncReceived(topic: string, data: any): void {
+    const entry = this.getTopicEntry(topic);
+    entry.syncReceivedCount++;
+    entry.syncReceivedBytes += this.measureSize(data);
+  }
+
+  /**
+   * Gets the statistics entry for a topic, creating one if it does not exist.
+   * @param topic The topic.
+   * @returns The statistics entry for the specified topic.
+   */
+  private getTopicEntry(topic: string): TopicEntry {
+    let entry = this.topics.get(topic);
+    if (entry === undefined) {
+      entry = {
+        publishCount: 0,
+        handlerTime: 0,
+        currentPublishTime: 0,
+        maxHandlerTime: 0,
+        syncSentCount: 0,
+        syncSentBytes: 0,
+        syncReceivedCount: 0,
+        syncReceivedBytes: 0
+      };
+      this.topics.set(topic, entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Records the execution of a subscription handler.
+   * @param topic The topic of the handler, or `*` for wildcard handlers.
+   * @param handler The handler.
+   * @param duration The time taken to execute the handler, in milliseconds.
+   */
+  private recordSubscriber(topic: string, handler: Handler<any> | WildcardHandler, duration: number): void {
+    const label = EventBusProfiler.getHandlerLabel(handler);
+    const key = `${topic}|${label}`;
+
+    let entry = this.subscribers.get(key);
+    if (entry === undefined) {
+      entry = { label, topic, callCount: 0, totalTime: 0, maxTime: 0 };
+      this.subscribers.set(key, entry);
+    }
+
+    entry.callCount++;
+    entry.totalTime += duration;
+    entry.maxTime = Math.max(entry.maxTime, duration);
+  }
+
+  /**
+   * Measures the approximate size of event data.
+   * @param data The data to measure.
+   * @returns The approximate size of the data, in bytes of serialized JSON, or zero if sync volume is not measured.
+   */
+  private measureSize(data: any): number {
+    if (!this.measureSyncVolume || data === undefined) {
+      return 0;
+    }
+
+    try {
+      return JSON.stringify(data)?.length ?? 0;
+    } catch (e) {
+      return 0;
+    }
+  }
+
+  /**
+   * Gets the label for a subscription handler.
+   * @param handler The handler.
+   * @returns The label for the specified handler.
+   */
+  private static getHandlerLabel(handler: Handler<any> | WildcardHandler): string {
+    let label = EventBusProfiler.handlerLabels.get(handler);
+    if (label === undefined) {
+      label = `${handler.name || 'anonymous'}#${EventBusProfiler.nextHandlerId++}`;
+      EventBusProfiler.handlerLabels.set(handler, label);
+    }
+
+    return label;
+  }
+}
@@ -0,0 +1,279 @@
+import { Subscription } from '../sub/Subscription';
+import { EventBus } from './EventBus';
+
+/**
+ * A filter which matches event bus topics. String filters match topics exactly, and regular expression filters match
+ * topics which satisfy the expression.
+ */
+export type EventBusTopicFilter = string | RegExp;
+
+/**
+ * An event recorded by an {@link EventBusRecorder}.
+ */
+export type EventBusRecordedEvent = {
+  /** The time at which the event was published, in milliseconds since recording started. */
+  time: number;
+
+  /** The topic to which the event was published. */
+  topic: string;
+
+  /** The data that was published with the event. */
+  data: any;
+};
+
+/**
+ * A recording of events published to an event bus.
+ */
+export type EventBusRecording = {
+  /** The version of the recording format. */
+  version: number;
+
+  /** The time at which recording started, as a Javascript timestamp. */
+  startTime: number;
+
+  /** The duration of the recording, in milliseconds. */
+  duration: number;
+
+  /** The recorded events, in the order in which they were published. */
+  events: EventBusRecordedEvent[];
+};
+
+/**
+ * Options for an {@link EventBusRecorder}.
+ */
+export type EventBusRecorderOptions = {
+  /**
+   * Filters for the topics to record. If defined and non-empty, then only topics matching at least one filter are
+   * recorded. Otherwise, all topics are recorded.
+   */
+  include?: readonly EventBusTopicFilter[];
+
+  /** Filters for the topics to exclude from recording. Exclusions take precedence over inclusions. */
+  exclude?: readonly EventBusTopicFilter[];
+
+  /** A function which returns the current time, in milliseconds. Defaults to `Date.now`. */
+  timeSource?: () => number;
+
+  /** The maximum number of events to record. Recording stops automatically once the limit is reached. Defaults to `Infinity`. */
+  maxEvents?: number;
+
+  /**
+   * A function which is called when an event is skipped because its data could not be serialized to JSON. If not
+   * defined, then skipped events are only counted.
+   */
+  onSerializeError?: (topic: string, error: unknown) => void;
+};
+
+/**
+ * Records events published to an event bus. Recordings capture the topic, data, and publish time of each event and
+ * can be serialized to JSON so that they may be saved to a file and later played back by an
+ * {@link EventBusReplayer}.
+ *
+ * Event data are deep copied via JSON serialization at the time they are recorded, so data which cannot be
+ * represented in JSON (such as functions or class instances) will not be faithfully reproduced on playback.
+ * Event bus meta-events are never recorded.
+ */
+export class EventBusRecorder {
+  /** The current version of the recording format. */
+  public static readonly RECORDING_VERSION = 1;
+
+  private static readonly META_TOPICS = new Set(['event_bus', 'event_bus_topic_first_sub']);
+
+  private readonly include: readonly EventBusTopicFilter[];
+  private readonly exclude: readonly EventBusTopicFilter[];
+  private readonly timeSource: () => number;
+  private readonly maxEvents: number;
+  private readonly onSerializeError: ((topic: string, error: unknown) => void) | undefined;
+
+  private readonly topicAcceptCache = new Map<string, boolean>();
+
+  private sub?: Subscription;
+
+  private startTime = 0;
+  private stopTime: number | undefined = undefined;
+  private events: EventBusRecordedEvent[] = [];
+  private skippedEventCount = 0;
+
+  /**
+   * Creates a new instance of EventBusRecorder.
+   * @param bus The event bus to record.
+   * @param options Options with which to configure the recorder.
+   */
+  public constructor(private readonly bus: EventBus, options?: Readonly<EventBusRecorderOptions>) {
+    this.include = options?.include ?? [];
+    this.exclude = options?.exclude ?? [];
+    this.timeSource = options?.timeSource ?? Date.now;
+    this.maxEvents = options?.maxEvents ?? Infinity;
+    this.onSerializeError = options?.onSerializeError;
+  }
+
+  /**
+   * Checks whether this recorder is currently recording.
+   * @returns Whether this recorder is currently recording.
+   */
+  public isRecording(): boolean {
+    return this.sub !== undefined;
+  }
+
+  /**
+   * Gets the number of events recorded so far.
+   * @returns The number of events recorded so far.
+   */
+  public getEventCount(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Gets the number of events that were skipped since recording was last started because their data could not be
+   * serialized to JSON.
+   * @returns The number of events that were skipped since recording was last started.
+   */
+  public getSkippedEventCount(): number {
+    return this.skippedEventCount;
+  }
+
+  /**
+   * Starts recording. Any previously recorded events are discarded. Does nothing if this recorder is already
+   * recording.
+   * @returns This recorder.
+   */
+  public start(): this {
+    if (this.sub) {
+      return this;
+    }
+
+    this.events = [];
+    this.skippedEventCount = 0;
+    this.startTime = this.timeSource();
+    this.stopTime = undefined;
+    this.sub = this.bus.onAll(this.onEvent.bind(this));
+
+    return this;
+  }
+
+  /**
+   * Stops recording. Does nothing if this recorder is not recording.
+   * @returns The recording of all events recorded since recording was last started.
+   */
+  public stop(): EventBusRecording {
+    if (this.sub) {
+      this.sub.destroy();
+      this.sub = undefined;
+      this.stopTime = this.timeSource();
+    }
+
+    return this.getRecording();
+  }
+
+  /**
+   * Gets the recording of all events recorded since recording was last started. If this recorder is still
+   * recording, then the returned recording will include all events recorded up to the present.
+   * @returns The recording of all events recorded since recording was last started.
+   */
+  public getRecording(): EventBusRecording {
+    return {
+      version: EventBusRecorder.RECORDING_VERSION,
+      startTime: this.startTime,
+      duration: (this.stopTime ?? this.timeSource()) - this.startTime,
+      events: this.events.slice()
+    };
+  }
+
+  /**
+   * Responds to when an event is published to the bus.
+   * @param topic The topic to which the event was published.
+   * @param data The data that was published with the event.
+   */
+  private onEvent(topic: string, data: any): void {
+    if (!this.acceptsTopic(topic)) {
+      return;
+    }
+
+    let recordedData: any;
+    try {
+      recordedData = data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+    } catch (e) {
+      this.skippedEventCount++;
+      this.onSerializeError && this.onSerializeError(topic, e);
+      return;
+    }
+
+    this.events.push({ time: this.timeSource() - this.startTime, topic, data: recordedData });
+
+    if (this.events.length >= this.maxEvents) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Checks whether a topic should be recorded.
+   * @param topic The topic to check.
+   * @returns Whether the topic should be recorded.
+   */
+  private acceptsTopic(topic: string): boolean {
+    let accept = this.topicAcceptCache.get(topic);
+
+    if (accept === undefined) {
+      accept = !EventBusRecorder.META_TOPICS.has(topic)
+        && (this.include.length === 0 || EventBusRecorder.matchesAny(topic, this.include))
+        && !EventBusRecorder.matchesAny(topic, this.exclude);
+
+      this.topicAcceptCache.set(topic, accept);
+    }
+
+    return accept;
+  }
+
+  /**
+   * Checks whether a topic matches any of a set of filters.
+   * @param topic The topic to check.
+   * @param filters The filters to check against.
+   * @returns Whether the topic matches any of the filters.
+   */
+  public static matchesAny(topic: string, filters: readonly EventBusTopicFilter[]): boolean {
+    for (let i = 0; i < filters.length; i++) {
+      const filter = filters[i];
+      if (typeof filter === 'string' ? filter === topic : filter.test(topic)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Serializes a recording to a JSON string.
+   * @param recording The recording to serialize.
+   * @returns A JSON string representing the recording.
+   */
+  public static toJson(recording: Readonly<EventBusRecording>): string {
+    return JSON.stringify(recording);
+  }
+
+  /**
+   * Deserializes a recording from a JSON string.
+   * @param json A JSON string representing a recording.
+   * @returns The deserialized recording.
+   * @throws Error if the JSON string does not represent a valid recording.
+   */
+  public static fromJson(json: string): EventBusRecording {
+    const recording = JSON.parse(json) as EventBusRecording;
+
+    if (typeof recording !== 'object' || recording === null || !Array.isArray(recording.events)) {
+      throw new Error('EventBusRecorder: recording is missing an events array');
+    }
+
+    if (recording.version !== EventBusRecorder.RECORDING_VERSION) {
+      throw new Error(`EventBusRecorder: unsupported recording version ${recording.version}`);
+    }
+
+    for (let i = 0; i < recording.events.length; i++) {
+      const event = recording.events[i];
+      if (typeof event.topic !== 'string' || typeof event.time !== 'number') {
+        throw new Error(`EventBusRecorder: malformed event at index ${i}`);
+      }
+    }
+
+    return recording;
+  }
+}
@@ -0,0 +1,223 @@
+import { EventBus } from './EventBus';
+import { EventBusRecordedEvent, EventBusRecorder, EventBusRecording, EventBusTopicFilter } from './EventBusRecorder';
+
+/**
+ * Options for an {@link EventBusReplayer}.
+ */
+export type EventBusReplayerOptions = {
+  /**
+   * Filters for the topics to replay. If defined and non-empty, then only topics matching at least one filter are
+   * replayed. Otherwise, all recorded topics are replayed.
+   */
+  include?: readonly EventBusTopicFilter[];
+
+  /** Filters for the topics to exclude from replay. Exclusions take precedence over inclusions. */
+  exclude?: readonly EventBusTopicFilter[];
+
+  /** Whether replayed events should be synced across instruments. Defaults to `false`. */
+  sync?: boolean;
+
+  /** Whether replayed events should be cached on the bus. Defaults to `true`. */
+  cache?: boolean;
+};
+
+/**
+ * Plays back a recording made by an {@link EventBusRecorder} by republishing the recorded events to an event bus.
+ * Events are always republished in the order in which they were recorded. Playback can be driven either by wall-clock
+ * time at real or accelerated speed, or manually by advancing the playback time in discrete steps for fully
+ * deterministic replays.
+ *
+ * Replays are intended to be performed into a fresh bus on which nothing else is publishing the recorded topics.
+ */
+export class EventBusReplayer {
+  private readonly events: readonly EventBusRecordedEvent[];
+  private readonly sync: boolean;
+  private readonly cache: boolean;
+
+  private cursor = 0;
+  private time = 0;
+
+  private timer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private resolvePlay: (() => void) | undefined = undefined;
+
+  /**
+   * Creates a new instance of EventBusReplayer.
+   * @param bus The event bus to which to republish recorded events.
+   * @param recording The recording to play back.
+   * @param options Options with which to configure the replayer.
+   */
+  public constructor(private readonly bus: EventBus, recording: Readonly<EventBusRecording>, options?: Readonly<EventBusReplayerOptions>) {
+    const include = options?.include ?? [];
+    const exclude = options?.exclude ?? [];
+
+    this.events = recording.events.filter(event => {
+      return (include.length === 0 || EventBusRecorder.matchesAny(event.topic, include))
+        && !EventBusRecorder.matchesAny(event.topic, exclude);
+    });
+
+    this.sync = options?.sync ?? false;
+    this.cache = options?.cache ?? true;
+  }
+
+  /**
+   * Gets the current playback time, in milliseconds since the start of the recording.
+   * @returns The current playback time, in milliseconds since the start of the recording.
+   */
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Checks whether this replayer is currently playing back its recording in real or accelerated time.
+   * @returns Whether this replayer is currently playing back its recording in real or accelerated time.
+   */
+  public isPlaying(): boolean {
+    return this.resolvePlay !== undefined;
+  }
+
+  /**
+   * Checks whether all events in this replayer's recording have been republished.
+   * @returns Whether all events in this replayer's recording have been republished.
+   */
+  public isFinished(): boolean {
+    return this.cursor >= this.events.length;
+  }
+
+  /**
+   * Advances the playback time by a given amount and republishes all events recorded up to and including the new
+   * playback time. Has no effect while this replayer is playing.
+   * @param dt The amount of time by which to advance, in milliseconds.
+   * @returns The number of events that were republished.
+   */
+  public advance(dt: number): number {
+    if (this.isPlaying()) {
+      return 0;
+    }
+
+    return this.publishUntil(this.time + Math.max(0, dt));
+  }
+
+  /**
+   * Republishes all remaining events in this replayer's recording immediately. Has no effect while this replayer is
+   * playing.
+   * @returns The number of events that were republished.
+   */
+  public runToEnd(): number {
+    if (this.isPlaying()) {
+      return 0;
+    }
+
+    return this.publishUntil(Infinity);
+  }
+
+  /**
+   * Starts playing back this replayer's recording from the current playback time, using wall-clock time to pace
+   * republished events. Does nothing if this replayer is already playing.
+   * @param speed The playback speed factor. A speed of `1` plays back the recording in real time, and larger values
+   * accelerate playback. A speed of `Infinity` republishes all remaining events immediately. Defaults to `1`.
+   * @returns A Promise which is fulfilled when playback finishes or is stopped.
+   * @throws Error if `speed` is not a positive number.
+   */
+  public play(speed = 1): Promise<void> {
+    if (!(speed > 0)) {
+      throw new Error(`EventBusReplayer: invalid playback speed ${speed}`);
+    }
+
+    if (this.isPlaying()) {
+      return Promise.resolve();
+    }
+
+    if (speed === Infinity) {
+      this.publishUntil(Infinity);
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.resolvePlay = resolve;
+
+      const playStartRealTime = Date.now();
+      const playStartTime = this.time;
+
+      const isStopped = (): boolean => this.resolvePlay !== resolve;
+
+      const step = (): void => {
+        this.timer = undefined;
+        this.publishUntil(playStartTime + (Date.now() - playStartRealTime) * speed, isStopped);
+
+        // A subscriber may have stopped playback in response to one of the republished events.
+        if (isStopped()) {
+          return;
+        }
+
+        if (this.isFinished()) {
+          this.finishPlay();
+        } else {
+          const delay = (this.events[this.cursor].time - playStartTime) / speed - (Date.now() - playStartRealTime);
+          this.timer = setTimeout(step, Math.max(0, delay));
+        }
+      };
+
+      step();
+    });
+  }
+
+  /**
+   * Stops playback. The playback time is retained, so that playback can be resumed later. Does nothing if this
+   * replayer is not playing.
+   */
+  public stop(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.finishPlay();
+  }
+
+  /**
+   * Stops playback and rewinds the playback time to the start of the recording.
+   */
+  public reset(): void {
+    this.stop();
+    this.cursor = 0;
+    this.time = 0;
+  }
+
+  /**
+   * Republishes all events recorded up to and including a given playback time and sets the playback time to that
+   * time, or to the time of the last event if the recording ends before then.
+   * @param time The playback time until which to republish events, in milliseconds since the start of the recording.
+   * @param isStopped A function which checks whether republishing should stop early. The function is called after
+   * each event is republished. If republishing stops early, then the playback time is set to the time of the last
+   * republished event.
+   * @returns The number of events that were republished.
+   */
+  private publishUntil(time: number, isStopped?: () => boolean): number {
+    const startCursor = this.cursor;
+
+    while (this.cursor < this.events.length && this.events[this.cursor].time <= time) {
+      const event = this.events[this.cursor++];
+      this.time = event.time;
+      this.bus.pub(event.topic, event.data, this.sync, this.cache);
+
+      if (isStopped && isStopped()) {
+        return this.cursor - startCursor;
+      }
+    }
+
+    if (isFinite(time)) {
+      this.time = Math.max(this.time, time);
+    }
+
+    return this.cursor - startCursor;
+  }
+
+  /**
+   * Resolves the pending playback Promise, if one exists.
+   */
+  private finishPlay(): void {
+    const resolve = this.resolvePlay;
+    this.resolvePlay = undefined;
+    resolve && resolve();
+  }
+}
@@ -7,6 +7,9 @@ export * from './ControlPublisher';
 export * from './DataStore';
 export * from './EventBus';
 export * from './EventBusPacer';
+export * from './EventBusProfiler';
+export * from './EventBusRecorder';
+export * from './EventBusReplayer';
 export * from './EventRepublisher';
 export * from './EventSubscriber';
 export * from './GameStateProvider';
@@ -0,0 +1,377 @@
+import { EventBus } from '../data/EventBus';
+import { MathUtils } from '../math/MathUtils';
+import { FacilityClient } from '../navigation/FacilityClient';
+import {
+  FlightPathAirplaneSpeedMode, FlightPathAirplaneWindMode, FlightPathCalculator, FlightPathCalculatorOptions
+} from './flightpath/FlightPathCalculator';
+import { FlightPathVector } from './flightpath/FlightPathVector';
+import { StaticFlightPathCalculatorData, StaticFlightPathCalculatorDataProvider } from './flightpath/StaticFlightPathCalculatorDataProvider';
+import { FlightPlan } from './FlightPlan';
+import { FlightPlanner } from './FlightPlanner';
+import { LegDefinition } from './FlightPlanning';
+import { FlightPlanSnapshot, FlightPlanSnapshotUtils } from './FlightPlanSnapshot';
+
+/**
+ * A recorded flight path vector.
+ */
+export type FlightPathRegressionVector = Pick<
+  FlightPathVector,
+  'flags' | 'startLat' | 'startLon' | 'endLat' | 'endLon' | 'distance' | 'radius' | 'centerX' | 'centerY' | 'centerZ' | 'heading' | 'isHeadingTrue'
+>;
+
+/**
+ * The sections of a leg's calculated flight path.
+ */
+export type FlightPathRegressionSection = 'ingress' | 'ingressToEgress' | 'egress' | 'flightPath';
+
+/**
+ * The recorded flight path of a single flight plan leg.
+ */
+export type FlightPathRegressionLeg = {
+  /** The global index of the leg in the flight plan. */
+  legIndex: number;
+
+  /** The type of the leg. */
+  legType: number;
+
+  /** The name of the leg. */
+  name: string;
+
+  /** Whether the leg's flight path ends in a discontinuity. */
+  endsInDiscontinuity: boolean;
+
+  /** Whether the leg's flight path ends in a fallback state. */
+  endsInFallback: boolean;
+} & Record<FlightPathRegressionSection, FlightPathRegressionVector[]>;
+
+/**
+ * A recorded flight path for an entire flight plan, in a form that can be stored as a golden file.
+ */
+export type FlightPathRegressionRecord = {
+  /** The version of the record format. */
+  version: number;
+
+  /** The recorded legs. */
+  legs: FlightPathRegressionLeg[];
+};
+
+/**
+ * Tolerances used when comparing recorded flight paths.
+ */
+export type FlightPathRegressionTolerances = {
+  /** The tolerance for latitude and longitude values, in degrees. */
+  latLon: number;
+
+  /** The tolerance for distance values, in meters. */
+  distance: number;
+
+  /** The tolerance for radius and circle center values, in great-arc radians. */
+  radius: number;
+
+  /** The tolerance for heading values, in degrees. */
+  heading: number;
+};
+
+/**
+ * A difference between a recorded flight path and an expected flight path.
+ */
+export type FlightPathRegressionMismatch = {
+  /** The global index of the leg at which the difference was found. */
+  legIndex: number;
+
+  /** The flight path section in which the difference was found, or `null` if the difference is in the leg itself. */
+  section: FlightPathRegressionSection | null;
+
+  /** The index of the vector at which the difference was found, or `-1` if the difference is not in a vector. */
+  vectorIndex: number;
+
+  /** The name of the field that differs. */
+  field: string;
+
+  /** The expected value. */
+  expected: unknown;
+
+  /** The actual value. */
+  actual: unknown;
+};
+
+/**
+ * A harness for running flight path calculations outside of the sim and comparing them against recorded (golden)
+ * results. Flight plans are built from {@link FlightPlanSnapshot} objects, and airplane state is supplied through a
+ * {@link StaticFlightPathCalculatorDataProvider}, so no SimVars are read during calculation. Facilities are
+ * retrieved through the facility client passed to the harness, which can be backed by an in-memory data set.
+ *
+ * The harness is not exported from the SDK's entry point, so it must be imported from this module directly. The SDK's
+ * own regression cases and their golden files are kept outside of the SDK source in `tests/flightpath-regression`,
+ * and are run by the `runFlightPathRegression` script in that directory.
+ */
+export class FlightPathRegressionHarness {
+  /** The current version of the record format. */
+  public static readonly RECORD_VERSION = 1;
+
+  /** The default comparison tolerances. */
+  public static readonly DEFAULT_TOLERANCES: Readonly<FlightPathRegressionTolerances> = {
+    latLon: 1e-6,
+    distance: 0.5,
+    radius: 1e-8,
+    heading: 0.01
+  };
+
+  private static readonly SECTIONS: readonly FlightPathRegressionSection[] = ['ingress', 'ingressToEgress', 'egress', 'flightPath'];
+
+  private static readonly DEFAULT_OPTIONS: Readonly<FlightPathCalculatorOptions> = {
+    defaultClimbRate: 1000,
+    defaultSpeed: 150,
+    bankAngle: 25,
+    holdBankAngle: null,
+    courseReversalBankAngle: null,
+    turnAnticipationBankAngle: null,
+    maxBankAngle: 25,
+    airplaneSpeedMode: FlightPathAirplaneSpeedMode.Default,
+    airplaneWindMode: FlightPathAirplaneWindMode.None
+  };
+
+  /** The data provider that supplies airplane state to the harness's flight path calculator. */
+  public readonly dataProvider = new StaticFlightPathCalculatorDataProvider();
+
+  private readonly calculator: FlightPathCalculator;
+
+  /**
+   * Creates a new instance of FlightPathRegressionHarness.
+   * @param facilityClient The facility client from which to retrieve facilities referenced by flight plans.
+   * @param bus The event bus to pass to the harness's flight path calculator.
+   * @param options Options for the harness's flight path calculator. Options that are not defined take default
+   * values suitable for a light airplane flying at 150 knots with 25-degree bank turns.
+   */
+  public constructor(facilityClient: FacilityClient, bus: EventBus, options?: Readonly<Partial<FlightPathCalculatorOptions>>) {
+    this.calculator = new FlightPathCalculator(
+      facilityClient,
+      {
+        ...FlightPathRegressionHarness.DEFAULT_OPTIONS,
+        ...options,
+        id: 'regression-harness',
+        initSyncRole: 'none',
+        dataProvider: this.dataProvider
+      },
+      bus
+    );
+  }
+
+  /**
+   * Builds a flight plan from a snapshot, calculates its flight path, and records the result.
+   * @param snapshot The snapshot from which to build the flight plan.
+   * @param planeState The airplane state to use during the calculation. State that is not defined is left unchanged
+   * from the previous calculation.
+   * @returns A Promise which is fulfilled with the recorded flight path.
+   */
+  public async run(snapshot: Readonly<FlightPlanSnapshot>, planeState?: Readonly<Partial<StaticFlightPathCalculatorData>>): Promise<FlightPathRegressionRecord> {
+    planeState && this.dataProvider.set(planeState);
+
+    const plan = new FlightPlan(snapshot.planIndex, this.calculator, FlightPlanner.buildDefaultLegName);
+    FlightPlanSnapshotUtils.restore(snapshot, plan, false);
+
+    await plan.calculate(0, false);
+
+    return FlightPathRegressionHarness.record(plan);
+  }
+
+  /**
+   * Records the calculated flight path of a flight plan.
+   * @param plan The flight plan to record.
+   * @returns The recorded flight path.
+   */
+  public static record(plan: FlightPlan): FlightPathRegressionRecord {
+    const legs: FlightPathRegressionLeg[] = [];
+
+    let legIndex = 0;
+    for (const leg of plan.legs()) {
+      legs.push(FlightPathRegressionHarness.recordLeg(leg, legIndex++));
+    }
+
+    return { version: FlightPathRegressionHarness.RECORD_VERSION, legs };
+  }
+
+  /**
+   * Records the calculated flight path of a single leg.
+   * @param leg The leg to record.
+   * @param legIndex The global index of the leg.
+   * @returns The recorded flight path of the leg.
+   */
+  private static recordLeg(leg: LegDefinition, legIndex: number): FlightPathRegressionLeg {
+    const mapVectors = (vectors: readonly FlightPathVector[] | undefined): FlightPathRegressionVector[] => {
+      return (vectors ?? []).map(vector => {
+        return {
+          flags: vector.flags,
+          startLat: vector.startLat,
+          startLon: vector.startLon,
+          endLat: vector.endLat,
+          endLon: vector.endLon,
+          distance: vector.distance,
+          radius: vector.radius,
+          centerX: vector.centerX,
+          centerY: vector.centerY,
+          centerZ: vector.centerZ,
+          heading: vector.heading,
+          isHeadingTrue: vector.isHeadingTrue
+        };
+      });
+    };
+
+    return {
+      legIndex,
+      legType: leg.leg.type,
+      name: leg.name ?? '',
+      endsInDiscontinuity: leg.calculated?.endsInDiscontinuity ?? false,
+      endsInFallback: leg.calculated?.endsInFallback ?? false,
+      ingress: mapVectors(leg.calculated?.ingress),
+      ingressToEgress: mapVectors(leg.calculated?.ingressToEgress),
+      egress: mapVectors(leg.calculated?.egress),
+      flightPath: mapVectors(leg.calculated?.flightPath)
+    };
+  }
+
+  /**
+   * Serializes a recorded flight path to a JSON string suitable for storage as a golden file.
+   * @param record The record to serialize.
+   * @returns A JSON string describing the record.
+   */
+  public static toGolden(record: Readonly<FlightPathRegressionRecord>): string {
+    return JSON.stringify(record, undefined, 2);
+  }
+
+  /**
+   * Parses a recorded flight path from a golden file JSON string.
+   * @param json The JSON string to parse.
+   * @returns The parsed record.
+   * @throws Error if the string does not describe a supported record.
+   */
+  public static fromGolden(json: string): FlightPathRegressionRecord {
+    const record = JSON.parse(json);
+
+    if (record?.version !== FlightPathRegressionHarness.RECORD_VERSION || !Array.isArray(record.legs)) {
+      throw new Error(`FlightPathRegressionHarness: unsupported golden record version ${record?.version}`);
+    }
+
+    return record;
+  }
+
+  /**
+   * Compares a recorded flight path against an expected flight path.
+   * @param actual The recorded flight path.
+   * @param expected The expected flight path.
+   * @param tolerances The tolerances to use for numeric comparisons. Tolerances that are not defined take their
+   * default values.
+   * @returns An array of all differences found between the two flight paths. An empty array indicates the flight
+   * paths match.
+   */
+  public static compare(
+    actual: Readonly<FlightPathRegressionRecord>,
+    expected: Readonly<FlightPathRegressionRecord>,
+    tolerances?: Readonly<Partial<FlightPathRegressionTolerances>>
+  ): FlightPathRegressionMismatch[] {
+    const tol = { ...FlightPathRegressionHarness.DEFAULT_TOLERANCES, ...tolerances };
+    const mismatches: FlightPathRegressionMismatch[] = [];
+
+    if (actual.legs.length !== expected.legs.length) {
+      mismatches.push({ legIndex: -1, section: null, vectorIndex: -1, field: 'legs.length', expected: expected.legs.length, actual: actual.legs.length });
+    }
+
+    const legCount = Math.min(actual.legs.length, expected.legs.length);
+    for (let i = 0; i < legCount; i++) {
+      const actualLeg = actual.legs[i];
+      const expectedLeg = expected.legs[i];
+
+      for (const field of ['legType', 'endsInDiscontinuity', 'endsInFallback'] as const) {
+        if (actualLeg[field] !== expectedLeg[field]) {
+          mismatches.push({ legIndex: i, section: null, vectorIndex: -1, field, expected: expectedLeg[field], actual: actualLeg[field] });
+        }
+      }
+
+      for (const section of FlightPathRegressionHarness.SECTIONS) {
+        FlightPathRegressionHarness.compareVectors(i, section, actualLeg[section], expectedLeg[section], tol, mismatches);
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Compares a recorded flight path against a golden file and throws if they differ.
+   * @param actual The recorded flight path.
+   * @param goldenJson The contents of the golden file.
+   * @param tolerances The tolerances to use for numeric comparisons. Tolerances that are not defined take their
+   * default values.
+   * @throws Error describing all differences if the recorded flight path does not match the golden file.
+   */
+  public static assertMatchesGolden(
+    actual: Readonly<FlightPathRegressionRecord>,
+    goldenJson: string,
+    tolerances?: Readonly<Partial<FlightPathRegressionTolerances>>
+  ): void {
+    const mismatches = FlightPathRegressionHarness.compare(actual, FlightPathRegressionHarness.fromGolden(goldenJson), tolerances);
+
+    if (mismatches.length > 0) {
+      const lines = mismatches.map(m => {
+        const location = m.section === null ? `leg ${m.legIndex}` : `leg ${m.legIndex} ${m.section}[${m.vectorIndex}]`;
+        return `  ${location} ${m.field}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`;
+      });
+      throw new Error(`FlightPathRegressionHarness: flight path does not match golden record:\n${lines.join('\n')}`);
+    }
+  }
+
+  /**
+   * Compares two arrays of recorded vectors.
+   * @param legIndex The global index of the leg to which the vectors belong.
+   * @param section The flight path section to which the vectors belong.
+   * @param actual The actual vectors.
+   * @param expected The expected vectors.
+   * @param tol The tolerances to use for numeric comparisons.
+   * @param mismatches The array to which to add differences.
+   */
+  private static compareVectors(
+    legIndex: number,
+    section: FlightPathRegressionSection,
+    actual: readonly FlightPathRegressionVector[],
+    expected: readonly FlightPathRegressionVector[],
+    tol: Readonly<FlightPathRegressionTolerances>,
+    mismatches: FlightPathRegressionMismatch[]
+  ): void {
+    if (actual.length !== expected.length) {
+      mismatches.push({ legIndex, section, vectorIndex: -1, field: 'length', expected: expected.length, actual: actual.length });
+    }
+
+    const count = Math.min(actual.length, expected.length);
+    for (let i = 0; i < count; i++) {
+      const a = actual[i];
+      const e = expected[i];
+
+      const check = (field: keyof FlightPathRegressionVector, tolerance: number, isAngle = false): void => {
+        const av = a[field];
+        const ev = e[field];
+
+        // NaN values are written to golden files as null by JSON.stringify(). Angles are compared across the 0/360
+        // (or -180/180) degree wrap.
+        const isEqual = typeof av === 'number' && typeof ev === 'number'
+          ? (isAngle ? MathUtils.angularDistanceDeg(av, ev, 0) : Math.abs(av - ev)) <= tolerance || (isNaN(av) && isNaN(ev))
+          : av === ev || (ev === null && typeof av === 'number' && isNaN(av));
+
+        if (!isEqual) {
+          mismatches.push({ legIndex, section, vectorIndex: i, field, expected: ev, actual: av });
+        }
+      };
+
+      check('flags', 0);
+      check('isHeadingTrue', 0);
+      check('startLat', tol.latLon);
+      check('startLon', tol.latLon, true);
+      check('endLat', tol.latLon);
+      check('endLon', tol.latLon, true);
+      check('distance', tol.distance);
+      check('radius', tol.radius);
+      check('centerX', tol.radius);
+      check('centerY', tol.radius);
+      check('centerZ', tol.radius);
+      check('heading', tol.heading, true);
+    }
+  }
+}
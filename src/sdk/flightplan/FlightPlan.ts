@@ -866,6 +866,14 @@ export class FlightPlan {
     return this.userData[key];
   }
 
+  /**
+   * Gets the keys of all user data defined on the flight plan.
+   * @returns An array of the keys of all user data defined on the flight plan.
+   */
+  public getUserDataKeys(): string[] {
+    return Object.keys(this.userData);
+  }
+
   /**
    * Gets the current modification batch stack.
    * @returns The current modification batch stack, or `undefined` if there are no open batches.
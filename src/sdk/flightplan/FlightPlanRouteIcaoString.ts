@@ -0,0 +1,873 @@
+import { MagVar } from '../geo/MagVar';
+import { MathUtils } from '../math/MathUtils';
+import { UnitType } from '../math/NumberUnit';
+import {
+  AirportFacility, AirportFacilityDataFlags, Facility, FacilitySearchType, FacilityType, IntersectionFacility
+} from '../navigation/Facilities';
+import { FacilityClient } from '../navigation/FacilityClient';
+import { IcaoType, IcaoValue } from '../navigation/Icao';
+import { ICAO } from '../navigation/IcaoUtils';
+import { FlightPlanRoute, FlightPlanRouteAltitude, FlightPlanRouteEnrouteLeg, ReadonlyFlightPlanRoute } from './FlightPlanRoute';
+import { FlightPlanRouteUtils } from './FlightPlanRouteUtils';
+
+/**
+ * Units in which a cruising speed can be expressed in an ICAO route string.
+ */
+export enum IcaoRouteSpeedUnit {
+  /** Knots (`N`). */
+  Knots = 'N',
+
+  /** Mach number (`M`), expressed in hundredths of Mach. */
+  Mach = 'M',
+
+  /** Kilometers per hour (`K`). */
+  KilometersPerHour = 'K',
+}
+
+/**
+ * A cruising speed parsed from or written to an ICAO route string.
+ */
+export type IcaoRouteSpeed = {
+  /** The unit of the speed. */
+  unit: IcaoRouteSpeedUnit;
+
+  /**
+   * The speed value. Knots and kilometers per hour are expressed as whole numbers, Mach numbers are expressed in
+   * hundredths of Mach (e.g. `82` for Mach 0.82).
+   */
+  value: number;
+};
+
+/**
+ * Types of errors that can be reported when parsing an ICAO route string.
+ */
+export enum IcaoRouteParseErrorType {
+  /** The token could not be recognized as any valid route element. */
+  InvalidToken = 'InvalidToken',
+
+  /** The token was recognized as a fix, but no matching facility could be found. */
+  UnresolvedFix = 'UnresolvedFix',
+
+  /** The token was recognized as a fix, but it matched more than one facility and could not be disambiguated. */
+  AmbiguousFix = 'AmbiguousFix',
+
+  /** The token was recognized as an airway, but the airway could not be found at the preceding fix. */
+  UnresolvedAirway = 'UnresolvedAirway',
+
+  /** The fix following an airway could not be found on that airway. */
+  AirwayExitNotFound = 'AirwayExitNotFound',
+
+  /** The airway name exceeds the maximum length supported by flight plan routes. */
+  AirwayNameTooLong = 'AirwayNameTooLong',
+
+  /** The token is a malformed speed/level group. */
+  InvalidSpeedLevel = 'InvalidSpeedLevel',
+
+  /** The token is a well-formed route element that appears in an invalid position. */
+  UnexpectedToken = 'UnexpectedToken',
+}
+
+/**
+ * An error reported when parsing an ICAO route string.
+ */
+export type IcaoRouteParseError = {
+  /** The type of this error. */
+  type: IcaoRouteParseErrorType;
+
+  /** The token that caused this error. */
+  token: string;
+
+  /** The index of the token that caused this error in the list of tokens parsed from the route string. */
+  tokenIndex: number;
+
+  /**
+   * The ICAOs of the facilities that matched the token, if this error is an {@link IcaoRouteParseErrorType.AmbiguousFix}
+   * error. The first candidate is the one that was used in the parsed route.
+   */
+  candidates?: readonly IcaoValue[];
+};
+
+/**
+ * The result of parsing an ICAO route string.
+ */
+export type IcaoRouteParseResult = {
+  /** The parsed route. Tokens that generated errors are omitted from the route. */
+  route: FlightPlanRoute;
+
+  /** The initial cruising speed parsed from the route string, or `null` if the string did not define one. */
+  speed: IcaoRouteSpeed | null;
+
+  /**
+   * Whether the initial speed/level group expressed its level in metric units (`S` or `M`). The route's cruise
+   * altitude is always converted to feet or flight levels.
+   */
+  isMetricLevel: boolean;
+
+  /** The errors that were encountered while parsing the route string, in the order in which they were encountered. */
+  errors: IcaoRouteParseError[];
+};
+
+/**
+ * Options for parsing ICAO route strings.
+ */
+export type IcaoRouteParseOptions = {
+  /**
+   * Whether to treat a leading and trailing airport ident as the route's departure and destination airports.
+   * Defaults to `true`.
+   */
+  parseAirports?: boolean;
+
+  /**
+   * Whether to accept the FAA `..` notation for direct routing between two fixes (e.g. `PSB..SBJ`). Defaults to
+   * `true`.
+   */
+  allowDoubleDot?: boolean;
+};
+
+/**
+ * Options for writing ICAO route strings.
+ */
+export type IcaoRouteStringifyOptions = {
+  /** Whether to include the route's departure and destination airports. Defaults to `true`. */
+  includeAirports?: boolean;
+
+  /**
+   * Whether to write `DCT` between two consecutive fixes that are not connected by an airway. Defaults to `true`.
+   */
+  includeDct?: boolean;
+
+  /**
+   * The cruising speed to use in speed/level groups. If not defined, then speed/level groups are omitted, since
+   * ICAO route strings do not allow a level to be written without a speed. The initial speed/level group is also
+   * omitted for IFR routes without a cruise altitude.
+   */
+  speed?: Readonly<IcaoRouteSpeed>;
+
+  /**
+   * Whether to write levels in metric units (`S` for flight levels, `M` for altitudes). Defaults to `false`.
+   */
+  metricLevels?: boolean;
+};
+
+/**
+ * A function which gets the magnetic variation, in degrees, at a point.
+ */
+export type IcaoRouteMagVarFunc = (lat: number, lon: number) => number;
+
+/**
+ * A state used while parsing an ICAO route string.
+ */
+type IcaoRouteParseState = {
+  /** The route being built. */
+  route: FlightPlanRoute;
+
+  /** The errors encountered so far. */
+  errors: IcaoRouteParseError[];
+
+  /** The initial cruising speed. */
+  speed: IcaoRouteSpeed | null;
+
+  /** Whether the initial speed/level group expressed its level in metric units. */
+  isMetricLevel: boolean;
+
+  /**
+   * The facility at the last fix that was successfully parsed, used as an airway entry, or `null` if the last fix was
+   * not a facility.
+   */
+  lastFix: Facility | null;
+
+  /** The position of the last fix that was successfully parsed, used as a reference for nearest searches. */
+  lastPosition: { lat: number, lon: number } | null;
+
+  /** The name of the airway waiting for its exit fix, or the empty string if there is none. */
+  pendingAirway: string;
+
+  /** The waypoints of the airway waiting for its exit fix. */
+  pendingAirwayWaypoints: readonly IntersectionFacility[] | null;
+
+  /** The departure airport, if one has been parsed. */
+  departureAirport: AirportFacility | null;
+
+  /** The destination airport, if one has been parsed. */
+  destinationAirport: AirportFacility | null;
+};
+
+/**
+ * A converter between {@link FlightPlanRoute} objects and ICAO flight plan Item 15 style route strings, such as
+ * `N0450F350 KJFK DCT MERIT J60 PSB DCT SBJ KBOS`.
+ *
+ * When parsing, fix idents are resolved through a {@link FacilityClient}. Each ident is resolved to the facility
+ * nearest to the previously parsed fix (or the departure airport, if there is no previous fix). Airway exits are
+ * resolved against the waypoints of the airway. Tokens that cannot be parsed or resolved are reported as structured
+ * errors and omitted from the resulting route.
+ */
+export class FlightPlanRouteIcaoStringConverter {
+  /** The maximum length of an airway name supported by flight plan routes. */
+  public static readonly MAX_AIRWAY_NAME_LENGTH = 7;
+
+  private static readonly SPEED_LEVEL_REGEX = /^(?:([NK])(\d{4})|(M)(\d{3}))(?:([FA])(\d{3})|([SM])(\d{4})|(VFR))$/;
+  private static readonly LEVEL_REGEX = /^(?:([FA])(\d{3})|([SM])(\d{4}))$/;
+  private static readonly LAT_LON_REGEX = /^(\d{2})(\d{2})?([NS])(\d{3})(\d{2})?([EW])$/;
+  private static readonly PBD_REGEX = /^([A-Z0-9]{2,5})(\d{3})(\d{3})$/;
+  private static readonly IDENT_REGEX = /^[A-Z0-9]{1,5}$/;
+  private static readonly AIRPORT_REGEX = /^[A-Z0-9]{3,4}$/;
+  private static readonly AIRWAY_REGEX = /^[A-Z]{1,2}\d{1,4}[A-Z]?$|^[A-Z]{1,3}\d{1,3}$/;
+
+  private static readonly FIX_SEARCH_TYPES = [FacilityType.Intersection, FacilityType.VOR, FacilityType.NDB, FacilityType.Airport];
+
+  /**
+   * Creates a new instance of FlightPlanRouteIcaoStringConverter.
+   * @param facClient The facility client to use to resolve idents and airways.
+   * @param getMagVar A function which gets the magnetic variation at a point. Used to convert the magnetic bearings
+   * of point-bearing-distance fixes in route strings to and from the true bearings used by flight plan routes.
+   * Defaults to {@link MagVar.get}.
+   */
+  public constructor(
+    private readonly facClient: FacilityClient,
+    private readonly getMagVar: IcaoRouteMagVarFunc = MagVar.get
+  ) {
+  }
+
+  /**
+   * Splits an ICAO route string into tokens.
+   * @param routeString The route string to split.
+   * @param allowDoubleDot Whether to expand the FAA `..` notation into `DCT` tokens.
+   * @returns The tokens in the route string.
+   */
+  public static tokenize(routeString: string, allowDoubleDot = true): string[] {
+    let normalized = routeString.toUpperCase().replace(/[()]/g, ' ');
+    if (allowDoubleDot) {
+      normalized = normalized.replace(/\.\./g, ' DCT ');
+    }
+
+    return normalized.split(/\s+/).filter(token => token.length > 0);
+  }
+
+  /**
+   * Parses a speed/level group (e.g. `N0450F350`).
+   * @param token The token to parse.
+   * @returns The speed and level defined by the group and whether the level is expressed in metric units, or
+   * `undefined` if the token is not a valid speed/level group. The level is `null` if the group specifies VFR.
+   */
+  public static parseSpeedLevel(
+    token: string
+  ): { speed: IcaoRouteSpeed, level: FlightPlanRouteAltitude | null, isMetric: boolean } | undefined {
+    const match = token.match(FlightPlanRouteIcaoStringConverter.SPEED_LEVEL_REGEX);
+    if (!match) {
+      return undefined;
+    }
+
+    const speed: IcaoRouteSpeed = match[1] !== undefined
+      ? { unit: match[1] as IcaoRouteSpeedUnit, value: parseInt(match[2]) }
+      : { unit: IcaoRouteSpeedUnit.Mach, value: parseInt(match[4]) };
+
+    if (match[9] !== undefined) {
+      return { speed, level: null, isMetric: false };
+    }
+
+    const level = FlightPlanRouteIcaoStringConverter.parseLevel(token.substring(match[1] !== undefined ? 5 : 4));
+    return level ? { speed, level, isMetric: match[7] !== undefined } : undefined;
+  }
+
+  /**
+   * Parses a level (e.g. `F350`, `A045`, `S1130`, `M0840`).
+   * @param token The token to parse.
+   * @returns The altitude defined by the level, or `undefined` if the token is not a valid level.
+   */
+  public static parseLevel(token: string): FlightPlanRouteAltitude | undefined {
+    const match = token.match(FlightPlanRouteIcaoStringConverter.LEVEL_REGEX);
+    if (!match) {
+      return undefined;
+    }
+
+    const altitude = FlightPlanRouteUtils.emptyAltitude();
+
+    switch (match[1] ?? match[3]) {
+      case 'F':
+        altitude.altitude = parseInt(match[2]);
+        altitude.isFlightLevel = true;
+        break;
+      case 'A':
+        altitude.altitude = parseInt(match[2]) * 100;
+        break;
+      case 'S':
+        // Metric flight levels are expressed in tens of meters.
+        altitude.altitude = Math.round(UnitType.METER.convertTo(parseInt(match[4]) * 10, UnitType.FOOT) / 100);
+        altitude.isFlightLevel = true;
+        break;
+      case 'M':
+        // Metric altitudes are expressed in tens of meters.
+        altitude.altitude = Math.round(UnitType.METER.convertTo(parseInt(match[4]) * 10, UnitType.FOOT));
+        break;
+    }
+
+    return altitude;
+  }
+
+  /**
+   * Parses a latitude/longitude fix (e.g. `46N078W` or `4620N07805W`).
+   * @param token The token to parse.
+   * @returns The latitude and longitude of the fix, in degrees, or `undefined` if the token is not a valid
+   * latitude/longitude fix.
+   */
+  public static parseLatLon(token: string): { lat: number, lon: number } | undefined {
+    const match = token.match(FlightPlanRouteIcaoStringConverter.LAT_LON_REGEX);
+    if (!match || (match[2] === undefined) !== (match[5] === undefined)) {
+      return undefined;
+    }
+
+    const lat = (parseInt(match[1]) + (match[2] === undefined ? 0 : parseInt(match[2]) / 60)) * (match[3] === 'S' ? -1 : 1);
+    const lon = (parseInt(match[4]) + (match[5] === undefined ? 0 : parseInt(match[5]) / 60)) * (match[6] === 'W' ? -1 : 1);
+
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return undefined;
+    }
+
+    return { lat, lon };
+  }
+
+  /**
+   * Formats a speed/level group.
+   * @param speed The speed to format.
+   * @param level The level to format, or `null` to format a VFR level.
+   * @param metric Whether to write the level in metric units. Defaults to `false`.
+   * @returns The formatted speed/level group.
+   */
+  public static formatSpeedLevel(speed: Readonly<IcaoRouteSpeed>, level: Readonly<FlightPlanRouteAltitude> | null, metric = false): string {
+    const speedString = speed.unit === IcaoRouteSpeedUnit.Mach
+      ? `M${FlightPlanRouteIcaoStringConverter.pad(speed.value, 3)}`
+      : `${speed.unit}${FlightPlanRouteIcaoStringConverter.pad(speed.value, 4)}`;
+
+    return speedString + (level === null ? 'VFR' : FlightPlanRouteIcaoStringConverter.formatLevel(level, metric));
+  }
+
+  /**
+   * Formats a level.
+   * @param level The level to format.
+   * @param metric Whether to write the level in metric units. Defaults to `false`.
+   * @returns The formatted level.
+   */
+  public static formatLevel(level: Readonly<FlightPlanRouteAltitude>, metric = false): string {
+    if (metric) {
+      // Metric levels are expressed in tens of meters.
+      const feet = level.isFlightLevel ? level.altitude * 100 : level.altitude;
+      return `${level.isFlightLevel ? 'S' : 'M'}${FlightPlanRouteIcaoStringConverter.pad(UnitType.FOOT.convertTo(feet, UnitType.METER) / 10, 4)}`;
+    }
+
+    return level.isFlightLevel
+      ? `F${FlightPlanRouteIcaoStringConverter.pad(level.altitude, 3)}`
+      : `A${FlightPlanRouteIcaoStringConverter.pad(level.altitude / 100, 3)}`;
+  }
+
+  /**
+   * Formats a latitude/longitude fix. Whole degrees are written in the short form (e.g. `46N078W`), and all other
+   * values are written with minutes (e.g. `4620N07805W`).
+   * @param lat The latitude of the fix, in degrees.
+   * @param lon The longitude of the fix, in degrees.
+   * @returns The formatted latitude/longitude fix.
+   */
+  public static formatLatLon(lat: number, lon: number): string {
+    const latMinutesTotal = Math.round(Math.abs(lat) * 60);
+    const lonMinutesTotal = Math.round(Math.abs(MathUtils.normalizeAngleDeg(lon + 180) - 180) * 60);
+
+    const latDeg = Math.floor(latMinutesTotal / 60);
+    const latMin = latMinutesTotal % 60;
+    const lonDeg = Math.floor(lonMinutesTotal / 60);
+    const lonMin = lonMinutesTotal % 60;
+
+    const latHemi = lat < 0 ? 'S' : 'N';
+    const lonHemi = lon < 0 ? 'W' : 'E';
+
+    if (latMin === 0 && lonMin === 0) {
+      return `${FlightPlanRouteIcaoStringConverter.pad(latDeg, 2)}${latHemi}${FlightPlanRouteIcaoStringConverter.pad(lonDeg, 3)}${lonHemi}`;
+    } else {
+      return `${FlightPlanRouteIcaoStringConverter.pad(latDeg, 2)}${FlightPlanRouteIcaoStringConverter.pad(latMin, 2)}${latHemi}`
+        + `${FlightPlanRouteIcaoStringConverter.pad(lonDeg, 3)}${FlightPlanRouteIcaoStringConverter.pad(lonMin, 2)}${lonHemi}`;
+    }
+  }
+
+  /**
+   * Pads a non-negative number with leading zeroes.
+   * @param value The value to pad. It will be rounded to the nearest integer.
+   * @param length The length of the padded string.
+   * @returns The padded number.
+   */
+  private static pad(value: number, length: number): string {
+    return Math.max(0, Math.round(value)).toString().padStart(length, '0');
+  }
+
+  /**
+   * Parses an ICAO route string into a flight plan route.
+   * @param routeString The route string to parse.
+   * @param options Options with which to parse the string.
+   * @returns A Promise which is fulfilled with the result of the parse.
+   */
+  public async parse(routeString: string, options?: Readonly<IcaoRouteParseOptions>): Promise<IcaoRouteParseResult> {
+    const parseAirports = options?.parseAirports ?? true;
+
+    const tokens = FlightPlanRouteIcaoStringConverter.tokenize(routeString, options?.allowDoubleDot ?? true);
+
+    const state: IcaoRouteParseState = {
+      route: FlightPlanRouteUtils.emptyRoute(),
+      errors: [],
+      speed: null,
+      isMetricLevel: false,
+      lastFix: null,
+      lastPosition: null,
+      pendingAirway: '',
+      pendingAirwayWaypoints: null,
+      departureAirport: null,
+      destinationAirport: null
+    };
+
+    let start = 0;
+    let end = tokens.length;
+
+    // Flight rules and the initial speed/level group.
+    while (start < end) {
+      const token = tokens[start];
+      if (token === 'VFR' || token === 'IFR') {
+        state.route.isVfr = token === 'VFR';
+        start++;
+        continue;
+      }
+
+      const speedLevel = FlightPlanRouteIcaoStringConverter.parseSpeedLevel(token);
+      if (speedLevel && state.speed === null) {
+        state.speed = speedLevel.speed;
+        state.route.cruiseAltitude = speedLevel.level;
+        state.isMetricLevel = speedLevel.isMetric;
+        if (speedLevel.level === null) {
+          state.route.isVfr = true;
+        }
+        start++;
+        continue;
+      }
+
+      break;
+    }
+
+    if (parseAirports) {
+      if (start < end && FlightPlanRouteIcaoStringConverter.AIRPORT_REGEX.test(tokens[start])) {
+        state.departureAirport = await this.findAirport(tokens[start]);
+        if (state.departureAirport) {
+          state.route.departureAirport = state.departureAirport.icaoStruct;
+          FlightPlanRouteIcaoStringConverter.setLastFix(state, state.departureAirport);
+          start++;
+        }
+      }
+
+      if (end - 1 > start && FlightPlanRouteIcaoStringConverter.AIRPORT_REGEX.test(tokens[end - 1])) {
+        state.destinationAirport = await this.findAirport(tokens[end - 1]);
+        if (state.destinationAirport) {
+          state.route.destinationAirport = state.destinationAirport.icaoStruct;
+          end--;
+        }
+      }
+    }
+
+    // Departure procedure and transition.
+    if (state.departureAirport && start < end) {
+      const departure = state.departureAirport.departures.find(proc => proc.name === tokens[start]);
+      if (departure) {
+        state.route.departure = departure.name;
+        start++;
+
+        if (start < end) {
+          const transition = departure.enRouteTransitions.find(trans => trans.name === tokens[start]);
+          if (transition) {
+            state.route.departureTransition = transition.name;
+
+            // The transition token names the fix at the end of the transition, which is the entry to the enroute
+            // portion of the route, so it is consumed here rather than parsed as an enroute fix.
+            const transitionFix = await this.resolveFix(tokens[start], start, tokens[start], state);
+            if (transitionFix) {
+              FlightPlanRouteIcaoStringConverter.setLastFix(state, transitionFix);
+            }
+            start++;
+          }
+        }
+      }
+    }
+
+    // Arrival procedure and transition.
+    if (state.destinationAirport && end > start) {
+      const arrival = state.destinationAirport.arrivals.find(proc => proc.name === tokens[end - 1]);
+      if (arrival) {
+        state.route.arrival = arrival.name;
+        end--;
+
+        if (end > start) {
+          const transition = arrival.enRouteTransitions.find(trans => trans.name === tokens[end - 1]);
+          if (transition) {
+            state.route.arrivalTransition = transition.name;
+          }
+        }
+      }
+    }
+
+    for (let i = start; i < end; i++) {
+      await this.parseEnrouteToken(tokens[i], i, state);
+    }
+
+    if (state.pendingAirway !== '') {
+      state.errors.push({ type: IcaoRouteParseErrorType.UnexpectedToken, token: state.pendingAirway, tokenIndex: end - 1 });
+    }
+
+    return { route: state.route, speed: state.speed, isMetricLevel: state.isMetricLevel, errors: state.errors };
+  }
+
+  /**
+   * Parses a single token in the enroute portion of a route string.
+   * @param token The token to parse.
+   * @param tokenIndex The index of the token.
+   * @param state The parse state.
+   */
+  private async parseEnrouteToken(token: string, tokenIndex: number, state: IcaoRouteParseState): Promise<void> {
+    if (token === 'DCT') {
+      if (state.pendingAirway !== '') {
+        state.errors.push({ type: IcaoRouteParseErrorType.UnexpectedToken, token, tokenIndex });
+      }
+      return;
+    }
+
+    // A fix may be followed by a speed/level change, e.g. `MERIT/N0450F370`.
+    let fixToken = token;
+    let level: FlightPlanRouteAltitude | null = null;
+
+    const slashIndex = token.indexOf('/');
+    if (slashIndex >= 0) {
+      fixToken = token.substring(0, slashIndex);
+      const speedLevel = FlightPlanRouteIcaoStringConverter.parseSpeedLevel(token.substring(slashIndex + 1));
+      if (speedLevel) {
+        level = speedLevel.level;
+      } else {
+        state.errors.push({ type: IcaoRouteParseErrorType.InvalidSpeedLevel, token, tokenIndex });
+      }
+    }
+
+    // If the previous token was a fix, then a token that names an airway at that fix is an airway.
+    const isAirwayCandidate = state.pendingAirway === ''
+      && slashIndex < 0
+      && state.lastFix !== null
+      && FlightPlanRouteIcaoStringConverter.AIRWAY_REGEX.test(token);
+
+    if (isAirwayCandidate && state.lastFix !== null) {
+      const airwayWaypoints = await this.findAirway(token, state.lastFix);
+      if (airwayWaypoints) {
+        if (token.length > FlightPlanRouteIcaoStringConverter.MAX_AIRWAY_NAME_LENGTH) {
+          state.errors.push({ type: IcaoRouteParseErrorType.AirwayNameTooLong, token, tokenIndex });
+        } else {
+          state.pendingAirway = token;
+          state.pendingAirwayWaypoints = airwayWaypoints;
+        }
+        return;
+      }
+    }
+
+    const leg = FlightPlanRouteUtils.emptyEnrouteLeg();
+    leg.altitude = level;
+
+    if (state.pendingAirway !== '') {
+      const airway = state.pendingAirway;
+      const waypoints = state.pendingAirwayWaypoints;
+      state.pendingAirway = '';
+      state.pendingAirwayWaypoints = null;
+
+      const exit = waypoints?.find(waypoint => waypoint.icaoStruct.ident === fixToken);
+      if (exit) {
+        leg.fixIcao = exit.icaoStruct;
+        leg.via = airway;
+        state.route.enroute.push(leg);
+        FlightPlanRouteIcaoStringConverter.setLastFix(state, exit);
+      } else {
+        state.errors.push({ type: IcaoRouteParseErrorType.AirwayExitNotFound, token, tokenIndex });
+      }
+      return;
+    }
+
+    const latLon = FlightPlanRouteIcaoStringConverter.parseLatLon(fixToken);
+    if (latLon) {
+      leg.hasLatLon = true;
+      leg.lat = latLon.lat;
+      leg.lon = latLon.lon;
+      state.route.enroute.push(leg);
+
+      // Coordinate fixes are not on any airway.
+      state.lastFix = null;
+      state.lastPosition = latLon;
+      return;
+    }
+
+    const pbdMatch = fixToken.match(FlightPlanRouteIcaoStringConverter.PBD_REGEX);
+    if (pbdMatch) {
+      const reference = await this.resolveFix(pbdMatch[1], tokenIndex, token, state);
+      if (reference) {
+        leg.hasPointBearingDistance = true;
+        leg.referenceIcao = reference.icaoStruct;
+        leg.bearing = MagVar.magneticToTrue(parseInt(pbdMatch[2]), this.getMagVar(reference.lat, reference.lon));
+        leg.distance = parseInt(pbdMatch[3]);
+        state.route.enroute.push(leg);
+
+        // Point-bearing-distance fixes are not on any airway.
+        state.lastFix = null;
+        state.lastPosition = { lat: reference.lat, lon: reference.lon };
+      } else {
+        state.errors.push({ type: IcaoRouteParseErrorType.UnresolvedFix, token, tokenIndex });
+      }
+      return;
+    }
+
+    if (FlightPlanRouteIcaoStringConverter.IDENT_REGEX.test(fixToken)) {
+      const fix = await this.resolveFix(fixToken, tokenIndex, token, state);
+      if (fix) {
+        leg.fixIcao = fix.icaoStruct;
+        state.route.enroute.push(leg);
+        FlightPlanRouteIcaoStringConverter.setLastFix(state, fix);
+      } else {
+        state.errors.push({
+          type: isAirwayCandidate ? IcaoRouteParseErrorType.UnresolvedAirway : IcaoRouteParseErrorType.UnresolvedFix,
+          token,
+          tokenIndex
+        });
+      }
+      return;
+    }
+
+    state.errors.push({ type: IcaoRouteParseErrorType.InvalidToken, token, tokenIndex });
+  }
+
+  /**
+   * Sets the last parsed fix of a parse state to a facility.
+   * @param state The parse state.
+   * @param fix The facility at the last parsed fix.
+   */
+  private static setLastFix(state: IcaoRouteParseState, fix: Facility): void {
+    state.lastFix = fix;
+    state.lastPosition = { lat: fix.lat, lon: fix.lon };
+  }
+
+  /**
+   * Resolves a fix ident to a facility. If a reference position is available, then the facility nearest to the
+   * reference is selected. Otherwise, an ambiguity error is reported if more than one facility matches the ident. Failure to
+   * resolve the ident is not reported by this method.
+   * @param ident The ident to resolve.
+   * @param tokenIndex The index of the token containing the ident.
+   * @param token The token containing the ident.
+   * @param state The parse state.
+   * @returns A Promise which is fulfilled with the resolved facility, or `null` if the ident could not be resolved.
+   */
+  private async resolveFix(ident: string, tokenIndex: number, token: string, state: IcaoRouteParseState): Promise<Facility | null> {
+    if (state.lastPosition) {
+      const results = await this.facClient.findNearestFacilitiesByIdent(
+        FacilitySearchType.AllExceptVisual,
+        ident,
+        state.lastPosition.lat,
+        state.lastPosition.lon,
+        10
+      );
+
+      const match = results.find(fac => FlightPlanRouteIcaoStringConverter.isFixFacility(fac));
+      if (match) {
+        return match;
+      }
+    } else {
+      const icaos = (await this.facClient.searchByIdentWithIcaoStructs(FacilitySearchType.AllExceptVisual, ident, 10))
+        .filter(icao => icao.ident === ident && FlightPlanRouteIcaoStringConverter.FIX_SEARCH_TYPES.includes(ICAO.getFacilityTypeFromValue(icao)));
+
+      if (icaos.length > 0) {
+        const facilities = (await this.facClient.getFacilities(icaos, AirportFacilityDataFlags.Minimal))
+          .filter((fac): fac is Facility => fac !== null);
+
+        if (facilities.length > 1) {
+          state.errors.push({
+            type: IcaoRouteParseErrorType.AmbiguousFix,
+            token,
+            tokenIndex,
+            candidates: facilities.map(fac => fac.icaoStruct)
+          });
+        }
+
+        if (facilities.length > 0) {
+          return facilities[0];
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds an airway that passes through a fix.
+   * @param name The name of the airway.
+   * @param fix The fix through which the airway passes.
+   * @returns A Promise which is fulfilled with the waypoints of the airway, or `null` if the fix is not on an airway
+   * with the specified name.
+   */
+  private async findAirway(name: string, fix: Facility): Promise<readonly IntersectionFacility[] | null> {
+    let intersection: IntersectionFacility | null = null;
+
+    switch (ICAO.getFacilityTypeFromValue(fix.icaoStruct)) {
+      case FacilityType.Intersection:
+        intersection = fix as IntersectionFacility;
+        break;
+      case FacilityType.VOR:
+      case FacilityType.NDB:
+        // Navaids on airways are represented by an intersection with the same ident and region.
+        intersection = await this.facClient.tryGetFacility(
+          FacilityType.Intersection,
+          ICAO.value(IcaoType.Waypoint, fix.icaoStruct.region, '', fix.icaoStruct.ident)
+        );
+        break;
+    }
+
+    const segment = intersection?.routes.find(route => route.name === name);
+    if (!intersection || !segment) {
+      return null;
+    }
+
+    const airway = await this.facClient.tryGetAirway(segment.name, segment.type, intersection.icaoStruct);
+    return airway?.waypoints ?? null;
+  }
+
+  /**
+   * Finds an airport by ident.
+   * @param ident The ident of the airport.
+   * @returns A Promise which is fulfilled with the airport, or `null` if no airport with the ident could be found.
+   */
+  private async findAirport(ident: string): Promise<AirportFacility | null> {
+    const icaos = await this.facClient.searchByIdentWithIcaoStructs(FacilitySearchType.Airport, ident, 10);
+    const icao = icaos.find(value => value.ident === ident);
+    if (!icao) {
+      return null;
+    }
+
+    return this.facClient.tryGetFacility(
+      FacilityType.Airport,
+      icao,
+      AirportFacilityDataFlags.Departures | AirportFacilityDataFlags.Arrivals
+    );
+  }
+
+  /**
+   * Checks whether a facility can be used as a route fix.
+   * @param facility The facility to check.
+   * @returns Whether the facility can be used as a route fix.
+   */
+  private static isFixFacility(facility: Facility): boolean {
+    return FlightPlanRouteIcaoStringConverter.FIX_SEARCH_TYPES.includes(ICAO.getFacilityTypeFromValue(facility.icaoStruct));
+  }
+
+  /**
+   * Writes a flight plan route as an ICAO route string. Present position legs cannot be represented in route strings
+   * and are omitted.
+   * @param route The route to write.
+   * @param options Options with which to write the route.
+   * @returns A Promise which is fulfilled with the route string.
+   */
+  public async stringify(route: ReadonlyFlightPlanRoute, options?: Readonly<IcaoRouteStringifyOptions>): Promise<string> {
+    const includeAirports = options?.includeAirports ?? true;
+    const includeDct = options?.includeDct ?? true;
+    const speed = options?.speed;
+    const metricLevels = options?.metricLevels ?? false;
+
+    const tokens: string[] = [];
+
+    if (route.isVfr) {
+      tokens.push(speed ? FlightPlanRouteIcaoStringConverter.formatSpeedLevel(speed, null) : 'VFR');
+    } else if (speed && route.cruiseAltitude) {
+      // An IFR route without a cruise altitude has no level to write, so its initial speed/level group is omitted.
+      tokens.push(FlightPlanRouteIcaoStringConverter.formatSpeedLevel(speed, route.cruiseAltitude, metricLevels));
+    }
+
+    if (includeAirports && !ICAO.isValueEmpty(route.departureAirport)) {
+      tokens.push(route.departureAirport.ident);
+    }
+
+    if (route.departure !== '') {
+      tokens.push(route.departure);
+    }
+
+    let lastWasFix = false;
+
+    for (let i = 0; i < route.enroute.length; i++) {
+      const leg = route.enroute[i];
+
+      // A departure transition is written as the first fix after the departure procedure.
+      if (i === 0 && route.departureTransition !== '' && leg.fixIcao.ident !== route.departureTransition) {
+        tokens.push(route.departureTransition);
+        lastWasFix = true;
+      }
+
+      const fixToken = await this.formatEnrouteLegFix(leg);
+      if (fixToken === undefined) {
+        continue;
+      }
+
+      if (leg.via !== '') {
+        tokens.push(leg.via);
+      } else if (includeDct && lastWasFix) {
+        tokens.push('DCT');
+      }
+
+      tokens.push(
+        speed && leg.altitude
+          ? `${fixToken}/${FlightPlanRouteIcaoStringConverter.formatSpeedLevel(speed, leg.altitude, metricLevels)}`
+          : fixToken
+      );
+
+      lastWasFix = true;
+    }
+
+    if (route.arrival !== '') {
+      const lastLeg = route.enroute[route.enroute.length - 1];
+      if (route.arrivalTransition !== '' && lastLeg?.fixIcao.ident !== route.arrivalTransition) {
+        if (includeDct && lastWasFix) {
+          tokens.push('DCT');
+        }
+        tokens.push(route.arrivalTransition);
+      }
+      tokens.push(route.arrival);
+    }
+
+    if (includeAirports && !ICAO.isValueEmpty(route.destinationAirport)) {
+      tokens.push(route.destinationAirport.ident);
+    }
+
+    return tokens.join(' ');
+  }
+
+  /**
+   * Formats the terminator fix of an enroute leg.
+   * @param leg The leg to format.
+   * @returns A Promise which is fulfilled with the formatted fix, or `undefined` if the fix cannot be represented in a
+   * route string.
+   */
+  private async formatEnrouteLegFix(leg: Readonly<FlightPlanRouteEnrouteLeg>): Promise<string | undefined> {
+    if (leg.isPpos) {
+      return undefined;
+    }
+
+    if (leg.hasLatLon) {
+      return FlightPlanRouteIcaoStringConverter.formatLatLon(leg.lat, leg.lon);
+    }
+
+    if (leg.hasPointBearingDistance) {
+      const reference = await this.facClient.tryGetFacility(ICAO.getFacilityTypeFromValue(leg.referenceIcao), leg.referenceIcao);
+      if (!reference) {
+        return undefined;
+      }
+
+      // ICAO route strings express north as 360 rather than 000.
+      const magBearing = Math.round(MagVar.trueToMagnetic(leg.bearing, this.getMagVar(reference.lat, reference.lon))) % 360;
+      return `${leg.referenceIcao.ident}${FlightPlanRouteIcaoStringConverter.pad(magBearing === 0 ? 360 : magBearing, 3)}`
+        + FlightPlanRouteIcaoStringConverter.pad(leg.distance, 3);
+    }
+
+    if (!ICAO.isValueEmpty(leg.fixIcao)) {
+      return leg.fixIcao.ident;
+    }
+
+    return undefined;
+  }
+}
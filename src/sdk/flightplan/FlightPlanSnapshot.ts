@@ -0,0 +1,344 @@
+import { FlightPlanLeg } from '../navigation/Facilities';
+import { IcaoValue } from '../navigation/Icao';
+import { ICAO } from '../navigation/IcaoUtils';
+import { FlightPlan } from './FlightPlan';
+import { FlightPlanner } from './FlightPlanner';
+import { FlightPlanLegIndexes, FlightPlanSegmentType, LegCalculations, ProcedureDetails, VerticalData } from './FlightPlanning';
+
+/**
+ * A serializable snapshot of a flight plan leg.
+ */
+export interface FlightPlanLegSnapshot {
+  /** The display name of the leg at the time the snapshot was taken. Informational only; not used on restore. */
+  name?: string;
+
+  /** The leg. */
+  leg: FlightPlanLeg;
+
+  /** The leg definition flags. */
+  flags: number;
+
+  /** The vertical data of the leg. */
+  verticalData: VerticalData;
+
+  /** The user data of the leg. */
+  userData: Record<string, any>;
+
+  /** The calculated data of the leg, or `undefined` if calculations were not included in the snapshot. */
+  calculated?: LegCalculations;
+}
+
+/**
+ * A serializable snapshot of a flight plan segment.
+ */
+export interface FlightPlanSegmentSnapshot {
+  /** The index of the segment in the flight plan. */
+  segmentIndex: number;
+
+  /** The type of the segment. */
+  segmentType: FlightPlanSegmentType;
+
+  /** The airway associated with the segment, if any. */
+  airway?: string;
+
+  /** The legs in the segment. */
+  legs: FlightPlanLegSnapshot[];
+}
+
+/**
+ * A versioned, serializable snapshot of a complete flight plan.
+ */
+export interface FlightPlanSnapshot {
+  /** The version of the snapshot format. */
+  version: number;
+
+  /** The index of the flight plan from which the snapshot was taken. */
+  planIndex: number;
+
+  /** The ICAO of the flight plan's origin airport, or `undefined` if there is none. */
+  originAirport?: IcaoValue;
+
+  /** The ICAO of the flight plan's destination airport, or `undefined` if there is none. */
+  destinationAirport?: IcaoValue;
+
+  /** The flight plan's procedure details. */
+  procedureDetails: ProcedureDetails;
+
+  /** The flight plan's segments. */
+  segments: FlightPlanSegmentSnapshot[];
+
+  /** The flight plan's direct-to data. */
+  directToData: FlightPlanLegIndexes;
+
+  /** The global index of the flight plan's active lateral leg. */
+  activeLateralLeg: number;
+
+  /** The global index of the flight plan's active vertical leg. */
+  activeVerticalLeg: number;
+
+  /** The global index of the flight plan's active calculating leg. */
+  activeCalculatingLeg: number;
+
+  /** The flight plan's user data. */
+  userData: Record<string, any>;
+
+  /** Whether leg calculations were included in the snapshot. */
+  includesCalculations: boolean;
+}
+
+/**
+ * A utility class for saving flight plans to and restoring flight plans from versioned snapshots. Snapshots contain
+ * all data required to rebuild a flight plan, including segments, legs, vertical data, user data, direct-to data,
+ * procedure details, and optionally leg calculations, and can be converted to and from JSON.
+ */
+export class FlightPlanSnapshotUtils {
+  /** The current version of the snapshot format. */
+  public static readonly CURRENT_VERSION = 1;
+
+  /**
+   * Creates a snapshot of a flight plan.
+   * @param plan The flight plan of which to create a snapshot.
+   * @param includeCalculations Whether to include leg calculations in the snapshot. Defaults to `false`.
+   * @returns A snapshot of the specified flight plan.
+   */
+  public static create(plan: FlightPlan, includeCalculations = false): FlightPlanSnapshot {
+    const segments: FlightPlanSegmentSnapshot[] = [];
+
+    for (const segment of plan.segments()) {
+      segments.push({
+        segmentIndex: segment.segmentIndex,
+        segmentType: segment.segmentType,
+        airway: segment.airway,
+        legs: segment.legs.map(leg => {
+          const legSnapshot: FlightPlanLegSnapshot = {
+            name: leg.name,
+            leg: { ...leg.leg },
+            flags: leg.flags,
+            verticalData: { ...leg.verticalData },
+            userData: FlightPlanSnapshotUtils.cloneJson(leg.userData)
+          };
+
+          if (includeCalculations && leg.calculated) {
+            legSnapshot.calculated = FlightPlanSnapshotUtils.cloneJson(leg.calculated);
+          }
+
+          return legSnapshot;
+        })
+      });
+    }
+
+    const userData: Record<string, any> = {};
+    for (const key of plan.getUserDataKeys()) {
+      userData[key] = FlightPlanSnapshotUtils.cloneJson(plan.getUserData(key));
+    }
+
+    return {
+      version: FlightPlanSnapshotUtils.CURRENT_VERSION,
+      planIndex: plan.planIndex,
+      originAirport: plan.originAirportIcao,
+      destinationAirport: plan.destinationAirportIcao,
+      procedureDetails: FlightPlanSnapshotUtils.cloneJson(plan.procedureDetails),
+      segments,
+      directToData: { ...plan.directToData },
+      activeLateralLeg: plan.activeLateralLeg,
+      activeVerticalLeg: plan.activeVerticalLeg,
+      activeCalculatingLeg: plan.activeCalculatingLeg,
+      userData,
+      includesCalculations: includeCalculations
+    };
+  }
+
+  /**
+   * Serializes a flight plan to a JSON string.
+   * @param plan The flight plan to serialize.
+   * @param includeCalculations Whether to include leg calculations. Defaults to `false`.
+   * @param space The indentation to pass to `JSON.stringify()`. Defaults to no indentation.
+   * @returns A JSON string describing the snapshot of the specified flight plan.
+   */
+  public static toJson(plan: FlightPlan, includeCalculations = false, space?: string | number): string {
+    return JSON.stringify(FlightPlanSnapshotUtils.create(plan, includeCalculations), undefined, space);
+  }
+
+  /**
+   * Parses a flight plan snapshot from a JSON string and validates it.
+   * @param json The JSON string to parse.
+   * @returns The parsed snapshot, migrated to the current version.
+   * @throws Error if the string is not valid JSON or does not describe a valid snapshot.
+   */
+  public static fromJson(json: string): FlightPlanSnapshot {
+    return FlightPlanSnapshotUtils.validate(JSON.parse(json));
+  }
+
+  /**
+   * Validates an object as a flight plan snapshot.
+   * @param snapshot The object to validate.
+   * @returns The validated snapshot, migrated to the current version.
+   * @throws Error if the object does not describe a valid snapshot.
+   */
+  public static validate(snapshot: any): FlightPlanSnapshot {
+    if (typeof snapshot !== 'object' || snapshot === null) {
+      throw new Error('FlightPlanSnapshotUtils: snapshot is not an object');
+    }
+
+    if (typeof snapshot.version !== 'number' || snapshot.version < 1) {
+      throw new Error(`FlightPlanSnapshotUtils: invalid snapshot version ${snapshot.version}`);
+    }
+
+    if (snapshot.version > FlightPlanSnapshotUtils.CURRENT_VERSION) {
+      throw new Error(`FlightPlanSnapshotUtils: unsupported snapshot version ${snapshot.version} (newest supported is ${FlightPlanSnapshotUtils.CURRENT_VERSION})`);
+    }
+
+    if (!Array.isArray(snapshot.segments)) {
+      throw new Error('FlightPlanSnapshotUtils: snapshot does not define segments');
+    }
+
+    for (const segment of snapshot.segments) {
+      if (typeof segment?.segmentIndex !== 'number' || segment.segmentIndex < 0 || !Array.isArray(segment.legs)) {
+        throw new Error('FlightPlanSnapshotUtils: snapshot contains an invalid segment');
+      }
+
+      for (const leg of segment.legs) {
+        if (typeof leg?.leg !== 'object' || leg.leg === null || typeof leg.leg.type !== 'number') {
+          throw new Error(`FlightPlanSnapshotUtils: segment ${segment.segmentIndex} contains an invalid leg`);
+        }
+      }
+    }
+
+    for (const key of ['originAirport', 'destinationAirport'] as const) {
+      if (snapshot[key] !== undefined && !ICAO.isValue(snapshot[key])) {
+        throw new Error(`FlightPlanSnapshotUtils: snapshot contains an invalid ${key}`);
+      }
+    }
+
+    // Fill in any fields that may be missing from older or hand-written snapshots.
+    return {
+      version: FlightPlanSnapshotUtils.CURRENT_VERSION,
+      planIndex: snapshot.planIndex ?? 0,
+      originAirport: snapshot.originAirport,
+      destinationAirport: snapshot.destinationAirport,
+      procedureDetails: Object.assign(FlightPlan.createProcedureDetails(), snapshot.procedureDetails),
+      segments: snapshot.segments.map((segment: any): FlightPlanSegmentSnapshot => {
+        return {
+          segmentIndex: segment.segmentIndex,
+          segmentType: segment.segmentType ?? FlightPlanSegmentType.Enroute,
+          airway: segment.airway,
+          legs: segment.legs.map((leg: any): FlightPlanLegSnapshot => {
+            return {
+              name: leg.name,
+              leg: FlightPlan.createLeg(leg.leg),
+              flags: leg.flags ?? 0,
+              verticalData: leg.verticalData ?? {},
+              userData: leg.userData ?? {},
+              calculated: leg.calculated
+            };
+          })
+        };
+      }),
+      directToData: snapshot.directToData ?? { segmentIndex: -1, segmentLegIndex: -1 },
+      activeLateralLeg: snapshot.activeLateralLeg ?? 0,
+      activeVerticalLeg: snapshot.activeVerticalLeg ?? 0,
+      activeCalculatingLeg: snapshot.activeCalculatingLeg ?? 0,
+      userData: snapshot.userData ?? {},
+      includesCalculations: snapshot.includesCalculations ?? false
+    };
+  }
+
+  /**
+   * Restores a snapshot into an existing flight plan, replacing all of the plan's contents. The plan is not
+   * recalculated; if the snapshot does not include leg calculations, then the plan should be calculated after it is
+   * restored.
+   * @param snapshot The snapshot to restore.
+   * @param plan The flight plan into which to restore the snapshot.
+   * @param notify Whether to send notifications for the changes made to the flight plan. Defaults to `true`.
+   * @returns The flight plan, after the snapshot has been restored into it.
+   */
+  public static restore(snapshot: Readonly<FlightPlanSnapshot>, plan: FlightPlan, notify = true): FlightPlan {
+    if (snapshot.originAirport !== undefined) {
+      plan.setOriginAirport(snapshot.originAirport, notify);
+    } else {
+      plan.removeOriginAirport(notify);
+    }
+
+    if (snapshot.destinationAirport !== undefined) {
+      plan.setDestinationAirport(snapshot.destinationAirport, notify);
+    } else {
+      plan.removeDestinationAirport(notify);
+    }
+
+    plan.setProcedureDetails(Object.assign(FlightPlan.createProcedureDetails(), snapshot.procedureDetails), notify);
+
+    for (let i = plan.segmentCount - 1; i >= 0; i--) {
+      plan.removeSegment(i, notify);
+    }
+
+    for (const segment of snapshot.segments) {
+      plan.addSegment(segment.segmentIndex, segment.segmentType, segment.airway, notify);
+
+      for (const legSnapshot of segment.legs) {
+        const leg = plan.addLeg(segment.segmentIndex, FlightPlan.createLeg(legSnapshot.leg), undefined, legSnapshot.flags, notify);
+        const legIndex = plan.getLegIndexFromLeg(leg);
+
+        plan.setLegVerticalData(legIndex, legSnapshot.verticalData, notify);
+
+        for (const key in legSnapshot.userData) {
+          plan.setLegUserData(legIndex, key, FlightPlanSnapshotUtils.cloneJson(legSnapshot.userData[key]), notify);
+        }
+
+        if (legSnapshot.calculated) {
+          leg.calculated = FlightPlanSnapshotUtils.cloneJson(legSnapshot.calculated);
+        }
+      }
+    }
+
+    plan.setDirectToData(snapshot.directToData.segmentIndex, snapshot.directToData.segmentLegIndex, notify);
+
+    plan.setLateralLeg(snapshot.activeLateralLeg, notify);
+    plan.setVerticalLeg(snapshot.activeVerticalLeg, notify);
+    plan.setCalculatingLeg(snapshot.activeCalculatingLeg, notify);
+
+    for (const key of plan.getUserDataKeys()) {
+      plan.deleteUserData(key, notify);
+    }
+
+    for (const key in snapshot.userData) {
+      plan.setUserData(key, FlightPlanSnapshotUtils.cloneJson(snapshot.userData[key]), notify);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Restores a snapshot into a flight planner. If the planner does not have a flight plan at the target index, then
+   * one will be created. All changes are synced to other instruments through the planner. The restored plan is
+   * calculated from its first leg after it has been restored.
+   * @param snapshot The snapshot to restore.
+   * @param planner The flight planner into which to restore the snapshot.
+   * @param planIndex The index of the flight plan into which to restore the snapshot. Defaults to the snapshot's plan
+   * index.
+   * @returns A Promise which is fulfilled with the restored flight plan when it has finished calculating.
+   */
+  public static async restoreToPlanner(
+    snapshot: Readonly<FlightPlanSnapshot>,
+    planner: FlightPlanner,
+    planIndex = snapshot.planIndex
+  ): Promise<FlightPlan> {
+    const plan = planner.createFlightPlan(planIndex);
+
+    const batchUuid = plan.openBatch('flight-plan-snapshot-restore');
+    FlightPlanSnapshotUtils.restore(snapshot, plan, true);
+    plan.closeBatch(batchUuid);
+
+    await plan.calculate(0);
+
+    return plan;
+  }
+
+  /**
+   * Deep-clones a JSON-serializable value.
+   * @param value The value to clone.
+   * @returns A deep clone of the value.
+   */
+  private static cloneJson<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+}
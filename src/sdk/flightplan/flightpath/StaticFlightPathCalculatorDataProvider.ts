@@ -0,0 +1,121 @@
+import { LatLonInterface } from '../../geo/GeoInterfaces';
+import { FlightPathCalculatorDataProvider } from './FlightPathCalculatorDataProvider';
+
+/**
+ * Airplane state data provided by a {@link StaticFlightPathCalculatorDataProvider}.
+ */
+export type StaticFlightPathCalculatorData = {
+  /** The airplane's latitude, in degrees. */
+  lat: number;
+
+  /** The airplane's longitude, in degrees. */
+  lon: number;
+
+  /** The airplane's true airspeed, in knots. */
+  trueAirspeed: number;
+
+  /** The airplane's ground speed, in knots. */
+  groundSpeed: number;
+
+  /** The direction from which the wind is blowing, in degrees relative to true north. */
+  windDirection: number;
+
+  /** The wind speed, in knots. */
+  windSpeed: number;
+
+  /** The airplane's altitude, in feet above sea level. */
+  altitude: number;
+
+  /** The airplane's vertical speed, in feet per minute. */
+  verticalSpeed: number;
+
+  /** The airplane's true heading, in degrees. */
+  trueHeading: number;
+};
+
+/**
+ * A {@link FlightPathCalculatorDataProvider} that provides airplane state data which are set explicitly instead of
+ * being sourced from the sim. Useful for calculating flight paths outside of the sim.
+ */
+export class StaticFlightPathCalculatorDataProvider implements FlightPathCalculatorDataProvider {
+  private readonly data: StaticFlightPathCalculatorData = {
+    lat: NaN,
+    lon: NaN,
+    trueAirspeed: NaN,
+    groundSpeed: NaN,
+    windDirection: NaN,
+    windSpeed: NaN,
+    altitude: NaN,
+    verticalSpeed: NaN,
+    trueHeading: NaN
+  };
+
+  private readonly planePosition: LatLonInterface = { lat: NaN, lon: NaN };
+
+  /**
+   * Creates a new instance of StaticFlightPathCalculatorDataProvider. All data not defined by the initial data are
+   * initialized to `NaN` (unavailable).
+   * @param data The initial data to provide.
+   */
+  public constructor(data?: Readonly<Partial<StaticFlightPathCalculatorData>>) {
+    data && this.set(data);
+  }
+
+  /**
+   * Sets the data provided by this provider.
+   * @param data The data to set. Data that are not defined are left unchanged.
+   * @returns This provider, after the data have been set.
+   */
+  public set(data: Readonly<Partial<StaticFlightPathCalculatorData>>): this {
+    for (const key in data) {
+      const value = data[key as keyof StaticFlightPathCalculatorData];
+      if (value !== undefined) {
+        this.data[key as keyof StaticFlightPathCalculatorData] = value;
+      }
+    }
+
+    return this;
+  }
+
+  /** @inheritDoc */
+  public getPlanePosition(): Readonly<LatLonInterface> {
+    this.planePosition.lat = this.data.lat;
+    this.planePosition.lon = this.data.lon;
+    return this.planePosition;
+  }
+
+  /** @inheritDoc */
+  public getPlaneTrueAirspeed(): number {
+    return this.data.trueAirspeed;
+  }
+
+  /** @inheritDoc */
+  public getPlaneGroundSpeed(): number {
+    return this.data.groundSpeed;
+  }
+
+  /** @inheritDoc */
+  public getPlaneWindDirection(): number {
+    return this.data.windDirection;
+  }
+
+  /** @inheritDoc */
+  public getPlaneWindSpeed(): number {
+    return this.data.windSpeed;
+  }
+
+  /** @inheritDoc */
+  public getPlaneAltitude(): number {
+    return this.data.altitude;
+  }
+
+  /** @inheritDoc */
+  public getPlaneVerticalSpeed(): number {
+    return this.data.verticalSpeed;
+  }
+
+  /** @inheritDoc */
+  public getPlaneTrueHeading(): number {
+    return this.data.trueHeading;
+  }
+}
@@ -12,3 +12,4 @@ export * from './FlightPathLegToLegCalculator';
 export * from './FlightPathState';
 export * from './FlightPathUtils';
 export * from './FlightPathVector';
+export * from './StaticFlightPathCalculatorDataProvider';
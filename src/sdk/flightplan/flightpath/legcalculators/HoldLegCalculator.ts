@@ -7,6 +7,7 @@ import { MathUtils } from '../../../math/MathUtils';
 import { UnitType } from '../../../math/NumberUnit';
 import { Vec3Math } from '../../../math/VecMath';
 import { LegTurnDirection, LegType } from '../../../navigation/Facilities';
+import { HoldEntryType, HoldUtils } from '../../../navigation/HoldUtils';
 import { ArrayUtils } from '../../../utils/datastructures/ArrayUtils';
 import { LegDefinition } from '../../FlightPlanning';
 import { FlightPathCalculatorFacilityCache } from '../FlightPathCalculatorFacilityCache';
@@ -226,13 +227,12 @@ export class HoldLegCalculator extends AbstractFlightPathLegCalculator {
 
     // Handle hold entry
 
-    const normalizedEntryCourse = MathUtils.normalizeAngleDeg(state.currentCourse - course, -180); // -180 to +180
-    const directionalEntryCourse = normalizedEntryCourse * turnDirectionSign;
+    const directionalEntryCourse = HoldUtils.getDirectionalEntryCourse(state.currentCourse, course, leg.leg.turnDirection);
+    const entryType = HoldUtils.getEntryType(state.currentCourse, course, leg.leg.turnDirection);
 
-    const isDirectEntry = directionalEntryCourse >= -70 && directionalEntryCourse <= 135;
-    const skipRacetrack = leg.leg.type === LegType.HF && !isDirectEntry;
+    const skipRacetrack = leg.leg.type === LegType.HF && entryType !== HoldEntryType.Direct;
 
-    if (isDirectEntry) {
+    if (entryType === HoldEntryType.Direct) {
       // ---- DIRECT ENTRY ----
 
       if (directionalEntryCourse > 0) {
@@ -254,7 +254,7 @@ export class HoldLegCalculator extends AbstractFlightPathLegCalculator {
         // Don't erase turn anticipation for direct entries
         ingressVectorIndex = ingress.length;
       }
-    } else if (directionalEntryCourse > 110) {
+    } else if (entryType === HoldEntryType.Teardrop) {
       // ---- TEARDROP ENTRY ----
 
       if (directionalEntryCourse > 135) {
@@ -304,7 +304,7 @@ export class HoldLegCalculator extends AbstractFlightPathLegCalculator {
       }
 
       calcs.ingressJoinIndex = 0;
-    } else if (directionalEntryCourse < -70) {
+    } else if (entryType === HoldEntryType.Parallel) {
       // ---- PARALLEL ENTRY ----
 
       // TODO: anticipate the turn onto the parallel course so that we don't overshoot the inbound path.
@@ -4,7 +4,9 @@ export * from './FlightPlan';
 export * from './FlightPlanner';
 export * from './FlightPlanning';
 export * from './FlightPlanRoute';
+export * from './FlightPlanRouteIcaoString';
 export * from './FlightPlanRouteManager';
 export * from './FlightPlanRouteUtils';
+export * from './FlightPlanSnapshot';
 export * from './FlightPlanLegIterator';
 export * from './FlightPlanUtils';
@@ -221,8 +221,135 @@ export interface GPSSatComputerEvents {
    * acquired a position solution.
    */
   [gps_system_vdop: IndexedEventType<'gps_system_vdop'>]: number;
+
+  /**
+   * The current horizontal protection level (HPL) calculated by the GPS system, in meters, `-1` if this system has not
+   * acquired a position solution, or `Infinity` if the current satellite constellation does not support fault
+   * detection.
+   */
+  [gps_system_hpl: IndexedEventType<'gps_system_hpl'>]: number;
+
+  /**
+   * The current vertical protection level (VPL) calculated by the GPS system, in meters, `-1` if this system has not
+   * acquired a position solution, or `Infinity` if the current satellite constellation does not support fault
+   * detection.
+   */
+  [gps_system_vpl: IndexedEventType<'gps_system_vpl'>]: number;
+
+  /** The current integrity monitoring (RAIM) availability of the GPS system for each phase of flight. */
+  [gps_system_raim_availability: IndexedEventType<'gps_system_raim_availability'>]: GPSRaimAvailability;
+}
+
+/**
+ * Phases of flight for which GPS integrity monitoring (RAIM) availability is evaluated.
+ */
+export enum GPSRaimPhase {
+  /** Oceanic/remote operations. */
+  Oceanic = 'Oceanic',
+
+  /** Enroute operations. */
+  Enroute = 'Enroute',
+
+  /** Terminal operations. */
+  Terminal = 'Terminal',
+
+  /** Non-precision approach to LNAV minimums. */
+  Lnav = 'Lnav',
+
+  /** Approach to LNAV/VNAV minimums using GPS vertical guidance. */
+  LnavVnav = 'LnavVnav',
+
+  /** Approach to LP minimums. */
+  Lp = 'Lp',
+
+  /** Approach to LPV minimums. */
+  Lpv = 'Lpv'
 }
 
+/**
+ * Alarm limits for a phase of flight. A position solution is available for a phase of flight only if its protection
+ * levels do not exceed the phase's alarm limits.
+ */
+export type GPSAlarmLimit = {
+  /** The horizontal alarm limit (HAL), in meters. */
+  horizontal: number;
+
+  /** The vertical alarm limit (VAL), in meters. If not defined, then vertical protection level is not checked. */
+  vertical?: number;
+
+  /** Whether the phase of flight requires SBAS differential corrections. Defaults to `false`. */
+  requiresSbas?: boolean;
+};
+
+/**
+ * GPS integrity monitoring (RAIM) availability for each phase of flight.
+ */
+export type GPSRaimAvailability = Readonly<Record<GPSRaimPhase, boolean>>;
+
+/**
+ * A prediction of GPS integrity monitoring (RAIM) availability at a future time and position.
+ */
+export type GPSRaimPrediction = {
+  /** The simulation time of the prediction, as a Javascript timestamp. */
+  time: number;
+
+  /** The number of satellites predicted to be available for use in the position solution. */
+  satelliteCount: number;
+
+  /**
+   * The predicted horizontal dilution of precision (HDOP), or `-1` if the predicted satellite constellation is
+   * insufficient to provide a 3D position solution.
+   */
+  hdop: number;
+
+  /**
+   * The predicted vertical dilution of precision (VDOP), or `-1` if the predicted satellite constellation is
+   * insufficient to provide a 3D position solution.
+   */
+  vdop: number;
+
+  /**
+   * The predicted horizontal protection level (HPL), in meters, `-1` if the predicted satellite constellation is
+   * insufficient to provide a 3D position solution, or `Infinity` if it does not support fault detection.
+   */
+  hpl: number;
+
+  /**
+   * The predicted vertical protection level (VPL), in meters, `-1` if the predicted satellite constellation is
+   * insufficient to provide a 3D position solution, or `Infinity` if it does not support fault detection.
+   */
+  vpl: number;
+
+  /** The predicted RAIM availability for each phase of flight. */
+  availability: GPSRaimAvailability;
+};
+
+/**
+ * Options describing how {@link GPSSatComputer} computes protection levels.
+ */
+export type GPSProtectionLevelOptions = {
+  /** The standard deviation of the user range error of a satellite without SBAS corrections, in meters. Defaults to `5`. */
+  rangeErrorSigma?: number;
+
+  /** The standard deviation of the user range error of a satellite with SBAS corrections applied, in meters. Defaults to `1`. */
+  sbasRangeErrorSigma?: number;
+
+  /** The probability of a false alert by the fault detection algorithm. Defaults to `3.33e-7`. */
+  falseAlertProbability?: number;
+
+  /** The probability of a missed detection by the fault detection algorithm. Defaults to `0.001`. */
+  missedDetectionProbability?: number;
+
+  /**
+   * The minimum elevation angle above the horizon, in degrees, at which a satellite is considered usable when
+   * predicting RAIM availability. Defaults to `5`.
+   */
+  predictionMaskAngle?: number;
+
+  /** Alarm limits with which to override the default limits for each phase of flight. */
+  alarmLimits?: Partial<Record<GPSRaimPhase, Readonly<GPSAlarmLimit>>>;
+};
+
 /**
  * Options describing the timings of {@link GPSSatellite} state changes.
  */
@@ -343,6 +470,9 @@ export type GPSSatComputerOptions = {
 
   /** Options with which to configure the timings of satellite state changes. */
   timingOptions?: Readonly<GPSSatelliteTimingOptions>;
+
+  /** Options with which to configure the computation of protection levels. */
+  protectionLevelOptions?: Readonly<GPSProtectionLevelOptions>;
 };
 
 /**
@@ -362,6 +492,9 @@ export class GPSSatComputer implements Instrument {
   private readonly pdopTopic = `gps_system_pdop_${this.index}` as const;
   private readonly hdopTopic = `gps_system_hdop_${this.index}` as const;
   private readonly vdopTopic = `gps_system_vdop_${this.index}` as const;
+  private readonly hplTopic = `gps_system_hpl_${this.index}` as const;
+  private readonly vplTopic = `gps_system_vpl_${this.index}` as const;
+  private readonly raimAvailabilityTopic = `gps_system_raim_availability_${this.index}` as const;
 
   private readonly channelStateSyncTopic = `gps_system_sync_channel_state_changed_${this.index}` as const;
   private readonly satCalcSyncTopic = `gps_system_sync_sat_calc_${this.index}` as const;
@@ -403,6 +536,28 @@ export class GPSSatComputer implements Instrument {
   private _hdop = -1;
   private _vdop = -1;
 
+  private static readonly DEFAULT_ALARM_LIMITS: Readonly<Record<GPSRaimPhase, Readonly<GPSAlarmLimit>>> = {
+    [GPSRaimPhase.Oceanic]: { horizontal: 7408 },
+    [GPSRaimPhase.Enroute]: { horizontal: 3704 },
+    [GPSRaimPhase.Terminal]: { horizontal: 1852 },
+    [GPSRaimPhase.Lnav]: { horizontal: 556 },
+    [GPSRaimPhase.LnavVnav]: { horizontal: 556, vertical: 50 },
+    [GPSRaimPhase.Lp]: { horizontal: 40, requiresSbas: true },
+    [GPSRaimPhase.Lpv]: { horizontal: 40, vertical: 50, requiresSbas: true }
+  };
+
+  private readonly alarmLimits: Readonly<Record<GPSRaimPhase, Readonly<GPSAlarmLimit>>>;
+  private readonly rangeErrorSigma: number;
+  private readonly sbasRangeErrorSigma: number;
+  private readonly missedDetectionK: number;
+  private readonly falseAlertProbability: number;
+  private readonly predictionMaskAngle: number;
+
+  private readonly protectionLevels = new Float64Array([-1, -1]);
+  private _hpl = -1;
+  private _vpl = -1;
+  private _raimAvailability = GPSSatComputer.createRaimAvailability(-1, -1, false, GPSSatComputer.DEFAULT_ALARM_LIMITS);
+
   private isInit = false;
   private needAcquireAndUse = false;
 
@@ -481,6 +636,32 @@ export class GPSSatComputer implements Instrument {
     return this._vdop;
   }
 
+  /**
+   * Gets this system's current horizontal protection level (HPL), in meters, `-1` if this system has not acquired a
+   * position solution, or `Infinity` if the current satellite constellation does not support fault detection.
+   * @returns This system's current horizontal protection level (HPL), in meters.
+   */
+  public get hpl(): number {
+    return this._hpl;
+  }
+
+  /**
+   * Gets this system's current vertical protection level (VPL), in meters, `-1` if this system has not acquired a
+   * position solution, or `Infinity` if the current satellite constellation does not support fault detection.
+   * @returns This system's current vertical protection level (VPL), in meters.
+   */
+  public get vpl(): number {
+    return this._vpl;
+  }
+
+  /**
+   * Gets this system's current integrity monitoring (RAIM) availability for each phase of flight.
+   * @returns This system's current integrity monitoring (RAIM) availability for each phase of flight.
+   */
+  public get raimAvailability(): GPSRaimAvailability {
+    return this._raimAvailability;
+  }
+
   /**
    * Creates an instance of GPSSatComputer.
    * @param index The index of this computer.
@@ -531,6 +712,14 @@ export class GPSSatComputer implements Instrument {
     this.satelliteTimingOptions.sbasCorrectionDownloadTime ??= 150500;
     this.satelliteTimingOptions.sbasCorrectionDownloadTimeRange ??= 149500;
 
+    const plOptions = options?.protectionLevelOptions;
+    this.alarmLimits = { ...GPSSatComputer.DEFAULT_ALARM_LIMITS, ...plOptions?.alarmLimits };
+    this.rangeErrorSigma = plOptions?.rangeErrorSigma ?? 5;
+    this.sbasRangeErrorSigma = plOptions?.sbasRangeErrorSigma ?? 1;
+    this.falseAlertProbability = plOptions?.falseAlertProbability ?? 3.33e-7;
+    this.missedDetectionK = GPSSatComputer.normalQuantile(1 - (plOptions?.missedDetectionProbability ?? 0.001));
+    this.predictionMaskAngle = (plOptions?.predictionMaskAngle ?? 5) * Avionics.Utils.DEG2RAD;
+
     if (syncRole === 'replica') {
       this.enabledSBASGroups = Value.create(this.enabledSBASGroupsSet = new Set<string>());
     } else {
@@ -842,6 +1031,7 @@ export class GPSSatComputer implements Instrument {
     }
 
     this.setDop(-1, -1, -1);
+    this.setProtectionLevels(-1, -1, false);
 
     if (this.syncRole === 'primary') {
       this.syncPublisher.pub(this.resetSyncTopic, undefined, true, false);
@@ -970,6 +1160,8 @@ export class GPSSatComputer implements Instrument {
       ? GPSSystemSBASState.Active
       : enabledSBASGroups.size === 0 ? GPSSystemSBASState.Disabled : GPSSystemSBASState.Inactive;
 
+    const shouldUpdateProtectionLevels = shouldUpdateDop || this._sbasState !== newSBASState;
+
     let pdop = this._pdop, hdop = this._hdop, vdop = this._vdop;
 
     if (shouldUpdateDop) {
@@ -1028,6 +1220,15 @@ export class GPSSatComputer implements Instrument {
 
     this.setDop(pdop, hdop, vdop);
 
+    if (shouldUpdateProtectionLevels) {
+      if (pdop >= 0) {
+        const [hpl, vpl] = this.calculateProtectionLevels(canApplyDiffCorrections, this.protectionLevels);
+        this.setProtectionLevels(hpl, vpl, canApplyDiffCorrections);
+      } else {
+        this.setProtectionLevels(-1, -1, false);
+      }
+    }
+
     this.previousSimTime = this.simTime;
   }
 
@@ -1571,6 +1772,265 @@ export class GPSSatComputer implements Instrument {
     }
   }
 
+  /**
+   * Sets this system's protection levels and RAIM availability, and if they are different from the current values,
+   * publishes the new values to the event bus.
+   * @param hpl The horizontal protection level to set, in meters.
+   * @param vpl The vertical protection level to set, in meters.
+   * @param isSbasActive Whether SBAS differential corrections are applied to the position solution.
+   */
+  private setProtectionLevels(hpl: number, vpl: number, isSbasActive: boolean): void {
+    if (this._hpl !== hpl) {
+      this._hpl = hpl;
+      this.publisher.pub(this.hplTopic, hpl, false, true);
+    }
+
+    if (this._vpl !== vpl) {
+      this._vpl = vpl;
+      this.publisher.pub(this.vplTopic, vpl, false, true);
+    }
+
+    const availability = GPSSatComputer.createRaimAvailability(hpl, vpl, isSbasActive, this.alarmLimits);
+    for (const phase in availability) {
+      if (availability[phase as GPSRaimPhase] !== this._raimAvailability[phase as GPSRaimPhase]) {
+        this._raimAvailability = availability;
+        this.publisher.pub(this.raimAvailabilityTopic, availability, false, true);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Calculates protection levels for the satellite constellation consisting of all satellites that are currently
+   * in-use.
+   * @param isSbasActive Whether SBAS differential corrections are applied to the position solution.
+   * @param out The vector to which to write the results.
+   * @returns Protection levels for the current in-use satellite constellation, as `[HPL, VPL]` in meters.
+   */
+  private calculateProtectionLevels(isSbasActive: boolean, out: Float64Array): Float64Array {
+    const losMatrix = GPSSatComputer.getLosMatrix(this.satellites.filter(GPSSatComputer.inUseSatelliteFilter));
+    return this.calculateProtectionLevelsFromLos(losMatrix, isSbasActive, out);
+  }
+
+  /**
+   * Calculates protection levels for a satellite constellation.
+   *
+   * If SBAS corrections are applied, then protection levels are computed from the position-covariance matrix using
+   * the fault-free SBAS model. Otherwise, protection levels are computed using snapshot least-squares residual fault
+   * detection, as the largest error in the position solution induced by a single-satellite bias that is just barely
+   * detectable at the configured false alert and missed detection probabilities.
+   * @param los The line-of-sight position matrix for the satellite constellation.
+   * @param isSbasActive Whether SBAS differential corrections are applied to the position solution.
+   * @param out The vector to which to write the results.
+   * @returns Protection levels for the specified satellite constellation, as `[HPL, VPL]` in meters. If the
+   * constellation is insufficient to provide a 3D position solution, then `[-1, -1]` will be returned. If the
+   * constellation does not support fault detection, then `[Infinity, Infinity]` will be returned.
+   */
+  private calculateProtectionLevelsFromLos(los: readonly ReadonlyFloat64Array[], isSbasActive: boolean, out: Float64Array): Float64Array {
+    Vec2Math.set(-1, -1, out);
+
+    if (los.length < 4) {
+      return out;
+    }
+
+    const covar = GPSSatComputer.calculateCovarMatrix(los, this.covarMatrix);
+
+    if (!isFinite(covar[0][0]) || !isFinite(covar[1][1]) || !isFinite(covar[2][2])) {
+      return out;
+    }
+
+    if (isSbasActive) {
+      // The horizontal error is bounded by the semi-major axis of the horizontal error ellipse.
+      const halfDiff = (covar[0][0] - covar[1][1]) / 2;
+      const dMajor = Math.sqrt((covar[0][0] + covar[1][1]) / 2 + Math.sqrt(halfDiff * halfDiff + covar[0][1] * covar[0][1]));
+
+      return Vec2Math.set(
+        GPSSatComputer.SBAS_K_H * this.sbasRangeErrorSigma * dMajor,
+        GPSSatComputer.SBAS_K_V * this.sbasRangeErrorSigma * Math.sqrt(covar[2][2]),
+        out
+      );
+    }
+
+    const redundancy = los.length - 4;
+
+    if (redundancy < 1) {
+      return Vec2Math.set(Infinity, Infinity, out);
+    }
+
+    // The test statistic (normalized residual) is chi-squared distributed with (n - 4) degrees of freedom. The bias
+    // that is detectable with the required missed detection probability is approximately the detection threshold
+    // plus the missed detection multiplier.
+    const pBias = Math.sqrt(GPSSatComputer.chiSquaredQuantile(1 - this.falseAlertProbability, redundancy)) + this.missedDetectionK;
+
+    const sTranspose = los.map(GPSSatComputer.createVec4);
+    GPSSatComputer.calculateDowndateSTranspose(los, covar, sTranspose);
+    const pDiag = GPSSatComputer.calculateDowndatePDiag(los, sTranspose, new Float64Array(los.length));
+
+    let maxSlopeH = 0;
+    let maxSlopeV = 0;
+
+    for (let i = 0; i < los.length; i++) {
+      if (pDiag[i] <= 1e-10) {
+        // A bias on this satellite cannot be observed in the residuals, so it cannot be detected.
+        return Vec2Math.set(Infinity, Infinity, out);
+      }
+
+      const invSqrtP = 1 / Math.sqrt(pDiag[i]);
+      maxSlopeH = Math.max(maxSlopeH, Math.hypot(sTranspose[i][0], sTranspose[i][1]) * invSqrtP);
+      maxSlopeV = Math.max(maxSlopeV, Math.abs(sTranspose[i][2]) * invSqrtP);
+    }
+
+    return Vec2Math.set(
+      maxSlopeH * pBias * this.rangeErrorSigma,
+      maxSlopeV * pBias * this.rangeErrorSigma,
+      out
+    );
+  }
+
+  /**
+   * Predicts integrity monitoring (RAIM) availability at a future time and position. Predictions use the orbital
+   * positions of all non-SBAS satellites for which ephemeris data are available and which are not known to be faulty,
+   * and assume that every satellite above the prediction mask angle is tracked, up to this system's channel count and
+   * maximum in-use satellite count.
+   * @param simTime The simulation time for which to make the prediction, as a Javascript timestamp.
+   * @param position The position for which to make the prediction.
+   * @param altitude The altitude for which to make the prediction, in meters. Defaults to `0`.
+   * @param isSbasActive Whether to assume that SBAS differential corrections are applied to the position solution.
+   * Defaults to `false`.
+   * @returns A prediction of RAIM availability at the specified time and position.
+   */
+  public predictRaim(simTime: number, position: LatLonInterface, altitude = 0, isSbasActive = false): GPSRaimPrediction {
+    const maxZenithAngle = GPSSatellite.calcHorizonAngle(altitude) + Math.PI / 2 - this.predictionMaskAngle;
+    const satPos = new Float64Array(3);
+
+    const visible: Float64Array[] = [];
+
+    for (let i = 0; i < this.satellites.length; i++) {
+      const sat = this.satellites[i];
+
+      if (sat.sbasGroup !== undefined || sat.state.get() === GPSSatelliteState.Faulty) {
+        continue;
+      }
+
+      if (sat.calculateCartesianPosition(simTime, satPos) === undefined) {
+        continue;
+      }
+
+      const projected = GPSSatellite.calculateProjection(satPos, position, altitude, new Float64Array(2));
+      if (projected[0] <= maxZenithAngle) {
+        visible.push(projected);
+      }
+    }
+
+    // Prefer the satellites highest above the horizon.
+    visible.sort((a, b) => a[0] - b[0]);
+    visible.length = Math.min(visible.length, MathUtils.clamp(this.satInUseMaxCount.get(), 4, this._channelCount));
+
+    const los = visible.map(([zenith, hour]) => {
+      const vec = Vec3Math.setFromSpherical(1, zenith, hour, new Float64Array(4));
+      vec[3] = 1;
+      return vec;
+    });
+
+    const [hpl, vpl] = this.calculateProtectionLevelsFromLos(los, isSbasActive, new Float64Array(2));
+
+    let hdop = -1, vdop = -1;
+    if (hpl >= 0) {
+      // The covariance matrix was computed for this constellation while calculating the protection levels.
+      hdop = Math.sqrt(this.covarMatrix[0][0] + this.covarMatrix[1][1]);
+      vdop = Math.sqrt(this.covarMatrix[2][2]);
+    }
+
+    return {
+      time: simTime,
+      satelliteCount: los.length,
+      hdop,
+      vdop,
+      hpl,
+      vpl,
+      availability: GPSSatComputer.createRaimAvailability(hpl, vpl, isSbasActive, this.alarmLimits)
+    };
+  }
+
+  /**
+   * Gets the alarm limits used by this system for a phase of flight.
+   * @param phase A phase of flight.
+   * @returns The alarm limits used by this system for the specified phase of flight.
+   */
+  public getAlarmLimit(phase: GPSRaimPhase): Readonly<GPSAlarmLimit> {
+    return this.alarmLimits[phase];
+  }
+
+  /**
+   * Creates a RAIM availability record from protection levels.
+   * @param hpl The horizontal protection level, in meters.
+   * @param vpl The vertical protection level, in meters.
+   * @param isSbasActive Whether SBAS differential corrections are applied to the position solution.
+   * @param alarmLimits The alarm limits for each phase of flight.
+   * @returns A RAIM availability record for the specified protection levels.
+   */
+  private static createRaimAvailability(
+    hpl: number,
+    vpl: number,
+    isSbasActive: boolean,
+    alarmLimits: Readonly<Record<GPSRaimPhase, Readonly<GPSAlarmLimit>>>
+  ): GPSRaimAvailability {
+    const availability = {} as Record<GPSRaimPhase, boolean>;
+
+    for (const phase of Object.values(GPSRaimPhase)) {
+      const limit = alarmLimits[phase];
+      availability[phase] = hpl >= 0
+        && hpl <= limit.horizontal
+        && (limit.vertical === undefined || (vpl >= 0 && vpl <= limit.vertical))
+        && (!limit.requiresSbas || isSbasActive);
+    }
+
+    return availability;
+  }
+
+  private static readonly SBAS_K_H = 6.0;
+  private static readonly SBAS_K_V = 5.33;
+
+  /**
+   * Approximates the quantile function of the standard normal distribution using the rational approximation by
+   * P. J. Acklam.
+   * @param p A probability, in the range `(0, 1)`.
+   * @returns The value below which a standard normal random variable falls with the specified probability.
+   */
+  private static normalQuantile(p: number): number {
+    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+
+    p = MathUtils.clamp(p, 1e-15, 1 - 1e-15);
+
+    if (p < 0.02425) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    } else if (p > 1 - 0.02425) {
+      const q = Math.sqrt(-2 * Math.log(1 - p));
+      return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    } else {
+      const q = p - 0.5;
+      const r = q * q;
+      return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+    }
+  }
+
+  /**
+   * Approximates the quantile function of the chi-squared distribution using the Wilson-Hilferty transformation.
+   * @param p A probability, in the range `(0, 1)`.
+   * @param k The number of degrees of freedom.
+   * @returns The value below which a chi-squared random variable with the specified degrees of freedom falls with the
+   * specified probability.
+   */
+  private static chiSquaredQuantile(p: number, k: number): number {
+    const z = GPSSatComputer.normalQuantile(p);
+    const h = 2 / (9 * k);
+    return k * Math.pow(Math.max(0, 1 - h + z * Math.sqrt(h)), 3);
+  }
+
   /**
    * Creates a line-of-sight position matrix for a satellite constellation. Each row in the matrix is a 4-vector of
    * a satellite's position relative to the airplane, as `[x, y, z, 1]`. The index of the matrix row containing a
@@ -1893,7 +2353,8 @@ export interface GPSEphemerisRecords {
  * A tracked GPS satellite.
  */
 export class GPSSatellite {
-  private readonly vec3Cache = [new Float64Array(3), new Float64Array(3), new Float64Array(3), new Float64Array(3), new Float64Array(3)];
+  private static readonly vec2Cache = [new Float64Array(2)];
+  private static readonly vec3Cache = ArrayUtils.create(6, () => new Float64Array(3));
 
   /** The current satellite state. */
   public readonly state = Subject.create<GPSSatelliteState>(GPSSatelliteState.None);
@@ -1961,6 +2422,21 @@ export class GPSSatellite {
    * @param simTime The current simulator time, in milliseconds UNIX epoch
    */
   public computeSatellitePositions(simTime: number): void {
+    const position = this.calculateCartesianPosition(simTime, GPSSatellite.vec3Cache[0]);
+    if (position !== undefined) {
+      this.positionCartesian.set(position);
+    }
+  }
+
+  /**
+   * Calculates this satellite's position in cartesian coordinates at a given time from its loaded ephemeris data.
+   * This method does not change the satellite's current position.
+   * @param simTime The simulator time at which to calculate the position, in milliseconds UNIX epoch.
+   * @param out The vector to which to write the result.
+   * @returns This satellite's position in cartesian coordinates at the specified time, in great-arc radians, or
+   * `undefined` if this satellite has no ephemeris data.
+   */
+  public calculateCartesianPosition(simTime: number, out: Float64Array): Float64Array | undefined {
     const record = this.ephemeris;
     if (record !== undefined) {
       const mu = 3.986005e14; //WGS84 gravitational constant for GPS user (meters3/sec2)
@@ -2050,12 +2526,15 @@ export class GPSSatellite {
       const y = xprime * sok + yprime * cik * cok;
       const z = yprime * sik;
 
-      this.positionCartesian.set(
+      return Vec3Math.set(
         UnitType.METER.convertTo(x, UnitType.GA_RADIAN),
         UnitType.METER.convertTo(y, UnitType.GA_RADIAN),
-        UnitType.METER.convertTo(z, UnitType.GA_RADIAN)
+        UnitType.METER.convertTo(z, UnitType.GA_RADIAN),
+        out
       );
     }
+
+    return undefined;
   }
 
   /**
@@ -2064,30 +2543,39 @@ export class GPSSatellite {
    * @param altitude The current plane altitude in meters.
    */
   public applyProjection(ppos: GeoPoint, altitude: number): void {
-    const satPos = this.positionCartesian.get();
+    this.position.set(GPSSatellite.calculateProjection(this.positionCartesian.get(), ppos, altitude, GPSSatellite.vec2Cache[0]));
+    this.hasComputedPosition = true;
+  }
 
+  /**
+   * Projects a satellite position in cartesian coordinates to zenith and hour angles relative to an observer.
+   * @param satPos The satellite position, in cartesian coordinates.
+   * @param ppos The position of the observer.
+   * @param altitude The altitude of the observer, in meters.
+   * @param out The vector to which to write the result.
+   * @returns The position of the satellite relative to the observer, as `[zenith angle, hour angle]` in radians.
+   */
+  public static calculateProjection(satPos: ReadonlyFloat64Array, ppos: LatLonInterface, altitude: number, out: Float64Array): Float64Array {
     const altRadians = UnitType.METER.convertTo(altitude, UnitType.GA_RADIAN);
-    const pposCartesian = Vec3Math.multScalar(ppos.toCartesian(this.vec3Cache[0]), 1 + altRadians, this.vec3Cache[0]);
-    const delta = Vec3Math.normalize(Vec3Math.sub(satPos, pposCartesian, this.vec3Cache[1]), this.vec3Cache[1]);
+    const pposCartesian = Vec3Math.multScalar(GeoPoint.sphericalToCartesian(ppos, GPSSatellite.vec3Cache[1]), 1 + altRadians, GPSSatellite.vec3Cache[1]);
+    const delta = Vec3Math.normalize(Vec3Math.sub(satPos, pposCartesian, GPSSatellite.vec3Cache[2]), GPSSatellite.vec3Cache[2]);
 
-    const zenithAngle = Math.acos(Vec3Math.dot(delta, Vec3Math.normalize(pposCartesian, this.vec3Cache[2])));
+    const zenithAngle = Math.acos(Vec3Math.dot(delta, Vec3Math.normalize(pposCartesian, GPSSatellite.vec3Cache[3])));
 
-    const satPos0 = Vec3Math.normalize(satPos, this.vec3Cache[1]);
-    const northPole = Vec3Math.set(0, 0, 1, this.vec3Cache[2]);
+    const satPos0 = Vec3Math.normalize(satPos, GPSSatellite.vec3Cache[2]);
+    const northPole = Vec3Math.set(0, 0, 1, GPSSatellite.vec3Cache[3]);
 
     if (Math.abs(zenithAngle) < 1e-8 || Math.abs(zenithAngle - 180) < 1e-8) {
-      this.position.set(zenithAngle, 0);
+      return Vec2Math.set(zenithAngle, 0, out);
     } else {
-      const A = Vec3Math.normalize(Vec3Math.cross(pposCartesian, northPole, this.vec3Cache[3]), this.vec3Cache[3]);
-      const B = Vec3Math.normalize(Vec3Math.cross(pposCartesian, satPos0, this.vec3Cache[4]), this.vec3Cache[4]);
+      const A = Vec3Math.normalize(Vec3Math.cross(pposCartesian, northPole, GPSSatellite.vec3Cache[4]), GPSSatellite.vec3Cache[4]);
+      const B = Vec3Math.normalize(Vec3Math.cross(pposCartesian, satPos0, GPSSatellite.vec3Cache[5]), GPSSatellite.vec3Cache[5]);
 
       const signBz = B[2] >= 0 ? 1 : -1;
       const hourAngle = Math.acos(Vec3Math.dot(A, B)) * signBz;
 
-      this.position.set(zenithAngle, -hourAngle);
+      return Vec2Math.set(zenithAngle, -hourAngle, out);
     }
-
-    this.hasComputedPosition = true;
   }
 
   /**
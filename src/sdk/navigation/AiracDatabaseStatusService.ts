@@ -0,0 +1,398 @@
+import { CasAlertTransporter, CasAlertTransporterOptions } from '../cas/CasAlertTransporter';
+import { EventBus, Publisher } from '../data/EventBus';
+import { ClockEvents } from '../instruments/Clock';
+import { Subscription } from '../sub/Subscription';
+import { AiracCycle, AiracUtils } from './AiracUtils';
+import { FacilityLoader } from './FacilityLoader';
+
+/**
+ * Validity states of a navigation database.
+ */
+export enum AiracDatabaseStatus {
+  /** The database's AIRAC cycle has not yet become effective. */
+  NotYetEffective = 'NotYetEffective',
+
+  /** The database's AIRAC cycle is effective and is not expiring soon. */
+  Current = 'Current',
+
+  /** The database's AIRAC cycle is effective but will expire within the configured warning period. */
+  Expiring = 'Expiring',
+
+  /** The database's AIRAC cycle has expired. */
+  Expired = 'Expired'
+}
+
+/**
+ * A description of the validity of the active navigation database.
+ */
+export type AiracDatabaseStatusData = {
+  /** The validity status of the active database. */
+  readonly status: AiracDatabaseStatus;
+
+  /** The AIRAC cycle of the active database. */
+  readonly activeCycle: Readonly<AiracCycle>;
+
+  /** The AIRAC cycle of the loaded secondary database, or `null` if there is no secondary database. */
+  readonly secondaryCycle: Readonly<AiracCycle> | null;
+
+  /**
+   * Whether a secondary database is loaded whose AIRAC cycle has not yet become effective and which will replace the
+   * active database once it does.
+   */
+  readonly nextCyclePending: boolean;
+
+  /**
+   * The number of days remaining until the active database expires. Negative values indicate the number of days
+   * since the database expired.
+   */
+  readonly daysUntilExpiration: number;
+};
+
+/**
+ * A description of a swap from an active navigation database to a secondary database.
+ */
+export type AiracDatabaseSwapData = {
+  /** The AIRAC cycle of the database that was previously active. */
+  readonly previousCycle: Readonly<AiracCycle>;
+
+  /** The AIRAC cycle of the database that is now active. */
+  readonly activeCycle: Readonly<AiracCycle>;
+};
+
+/**
+ * Events published by {@link AiracDatabaseStatusService}.
+ */
+export interface AiracDatabaseStatusEvents {
+  /** The validity status of the active navigation database. */
+  airac_db_status: AiracDatabaseStatusData;
+
+  /** The secondary navigation database has replaced the active database. */
+  airac_db_swapped: AiracDatabaseSwapData;
+}
+
+/**
+ * Hooks which are called by {@link AiracDatabaseStatusService} in response to changes in database status. Hooks can
+ * be used to tie the service into aircraft-specific systems, such as FMS message systems.
+ */
+export type AiracDatabaseStatusHooks = {
+  /**
+   * A function which is called when the status of the active database changes.
+   * @param data The new status of the active database.
+   * @param previous The previous status of the active database, or `undefined` if this is the first status computed
+   * by the service.
+   */
+  onStatusChanged?: (data: AiracDatabaseStatusData, previous: AiracDatabaseStatusData | undefined) => void;
+
+  /**
+   * A function which is called when the secondary database replaces the active database. Implementations should
+   * perform whatever work is required to make the new database available, such as switching facility clients.
+   * @param data Data describing the swap.
+   */
+  onSwap?: (data: AiracDatabaseSwapData) => void;
+};
+
+/**
+ * Options for {@link AiracDatabaseStatusService}.
+ */
+export type AiracDatabaseStatusServiceOptions = {
+  /**
+   * The AIRAC cycle of the active database. Defaults to the current cycle of the sim's facility database as reported
+   * by {@link FacilityLoader.getDatabaseCycles}.
+   */
+  activeCycle?: Readonly<AiracCycle>;
+
+  /** The AIRAC cycle of an initially loaded secondary (next cycle) database. Defaults to `null`. */
+  secondaryCycle?: Readonly<AiracCycle> | null;
+
+  /** The number of days before expiration at which the active database is considered to be expiring. Defaults to `7`. */
+  expiringWarningDays?: number;
+
+  /**
+   * Whether to automatically swap to the secondary database once its AIRAC cycle becomes effective. If `false`,
+   * then swaps must be performed manually by calling {@link AiracDatabaseStatusService.swapToSecondary}. Defaults to
+   * `true`.
+   */
+  autoSwap?: boolean;
+
+  /**
+   * The CAS alerts to activate for each database status. An alert is active only while the active database has the
+   * status with which the alert is associated.
+   */
+  casAlerts?: Partial<Record<AiracDatabaseStatus, CasAlertTransporterOptions>>;
+
+  /** Hooks to call in response to changes in database status. */
+  hooks?: Readonly<AiracDatabaseStatusHooks>;
+
+  /** Whether to sync published events across instruments. Defaults to `true`. */
+  sync?: boolean;
+};
+
+/**
+ * A service which monitors the validity of the active navigation database against the simulation date. The service
+ * publishes whether the database is current, expiring within a configurable number of days, or expired, and whether a
+ * secondary next-cycle database is loaded and pending. When a secondary database's AIRAC cycle becomes effective,
+ * the service can swap it into the active slot.
+ *
+ * Database status is evaluated using the simulation time published by {@link ClockEvents}, so the service must be
+ * paired with a clock that publishes `simTime`.
+ */
+export class AiracDatabaseStatusService {
+  private static readonly MS_PER_DAY = 86400_000;
+
+  private readonly publisher: Publisher<AiracDatabaseStatusEvents>;
+
+  private readonly expiringWarningDays: number;
+  private readonly autoSwap: boolean;
+  private readonly hooks: Readonly<AiracDatabaseStatusHooks>;
+  private readonly sync: boolean;
+
+  private readonly casAlerts = new Map<AiracDatabaseStatus, CasAlertTransporter>();
+
+  private activeCycle: Readonly<AiracCycle>;
+  private secondaryCycle: Readonly<AiracCycle> | null;
+
+  private currentTime: number | undefined = undefined;
+  private lastStatus: AiracDatabaseStatusData | undefined = undefined;
+
+  private isAlive = true;
+  private isInit = false;
+
+  private simTimeSub?: Subscription;
+
+  /**
+   * Creates a new instance of AiracDatabaseStatusService.
+   * @param bus The event bus.
+   * @param options Options with which to configure the service.
+   */
+  public constructor(private readonly bus: EventBus, options?: Readonly<AiracDatabaseStatusServiceOptions>) {
+    this.publisher = bus.getPublisher<AiracDatabaseStatusEvents>();
+
+    this.activeCycle = options?.activeCycle ?? FacilityLoader.getDatabaseCycles().current;
+    this.secondaryCycle = options?.secondaryCycle ?? null;
+    this.expiringWarningDays = options?.expiringWarningDays ?? 7;
+    this.autoSwap = options?.autoSwap ?? true;
+    this.hooks = options?.hooks ?? {};
+    this.sync = options?.sync ?? true;
+
+    if (options?.casAlerts) {
+      for (const status in options.casAlerts) {
+        const alertOptions = options.casAlerts[status as AiracDatabaseStatus];
+        if (alertOptions) {
+          this.casAlerts.set(status as AiracDatabaseStatus, CasAlertTransporter.create(bus, alertOptions));
+        }
+      }
+    }
+  }
+
+  /**
+   * Gets the AIRAC cycle of the active database.
+   * @returns The AIRAC cycle of the active database.
+   */
+  public getActiveCycle(): Readonly<AiracCycle> {
+    return this.activeCycle;
+  }
+
+  /**
+   * Gets the AIRAC cycle of the secondary database.
+   * @returns The AIRAC cycle of the secondary database, or `null` if there is no secondary database.
+   */
+  public getSecondaryCycle(): Readonly<AiracCycle> | null {
+    return this.secondaryCycle;
+  }
+
+  /**
+   * Gets the most recently computed status of the active database.
+   * @returns The most recently computed status of the active database, or `undefined` if status has not yet been
+   * computed.
+   */
+  public getStatus(): AiracDatabaseStatusData | undefined {
+    return this.lastStatus;
+  }
+
+  /**
+   * Initializes this service. Once initialized, the service will begin evaluating and publishing database status.
+   * @throws Error if this service has been destroyed.
+   */
+  public init(): void {
+    if (!this.isAlive) {
+      throw new Error('AiracDatabaseStatusService: cannot initialize a dead service');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    this.isInit = true;
+
+    this.simTimeSub = this.bus.getSubscriber<ClockEvents>().on('simTime').whenChangedBy(1000).handle(this.update.bind(this));
+  }
+
+  /**
+   * Sets the AIRAC cycle of the active database. This does not affect the secondary database.
+   * @param cycle The AIRAC cycle of the new active database.
+   * @throws Error if this service has been destroyed.
+   */
+  public setActiveCycle(cycle: Readonly<AiracCycle>): void {
+    if (!this.isAlive) {
+      throw new Error('AiracDatabaseStatusService: cannot set the active cycle of a dead service');
+    }
+
+    this.activeCycle = cycle;
+    this.refresh();
+  }
+
+  /**
+   * Loads or unloads a secondary database. A loaded secondary database will replace the active database once its
+   * AIRAC cycle becomes effective.
+   * @param cycle The AIRAC cycle of the secondary database to load, or `null` to unload the secondary database.
+   * @throws Error if this service has been destroyed, or if the secondary cycle does not become effective after the
+   * active cycle.
+   */
+  public setSecondaryCycle(cycle: Readonly<AiracCycle> | null): void {
+    if (!this.isAlive) {
+      throw new Error('AiracDatabaseStatusService: cannot set the secondary cycle of a dead service');
+    }
+
+    if (cycle !== null && cycle.effectiveTimestamp <= this.activeCycle.effectiveTimestamp) {
+      throw new Error(`AiracDatabaseStatusService: secondary cycle ${cycle.ident} does not follow active cycle ${this.activeCycle.ident}`);
+    }
+
+    this.secondaryCycle = cycle;
+    this.refresh();
+  }
+
+  /**
+   * Loads the AIRAC cycle immediately following the active cycle as the secondary database.
+   */
+  public loadNextCycle(): void {
+    this.setSecondaryCycle(AiracUtils.getOffsetCycle(this.activeCycle, 1));
+  }
+
+  /**
+   * Swaps the secondary database into the active slot. The swap is only performed if a secondary database is loaded
+   * and its AIRAC cycle has become effective.
+   * @returns Whether the swap was performed.
+   * @throws Error if this service has been destroyed.
+   */
+  public swapToSecondary(): boolean {
+    if (!this.isAlive) {
+      throw new Error('AiracDatabaseStatusService: cannot swap databases of a dead service');
+    }
+
+    if (
+      this.secondaryCycle === null
+      || this.currentTime === undefined
+      || this.currentTime < this.secondaryCycle.effectiveTimestamp
+    ) {
+      return false;
+    }
+
+    const swapData: AiracDatabaseSwapData = {
+      previousCycle: this.activeCycle,
+      activeCycle: this.secondaryCycle
+    };
+
+    this.activeCycle = this.secondaryCycle;
+    this.secondaryCycle = null;
+
+    this.publisher.pub('airac_db_swapped', swapData, this.sync, false);
+    this.hooks.onSwap && this.hooks.onSwap(swapData);
+
+    this.refresh();
+
+    return true;
+  }
+
+  /**
+   * Destroys this service. Once destroyed, the service will no longer evaluate or publish database status.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+
+    this.simTimeSub?.destroy();
+
+    for (const alert of this.casAlerts.values()) {
+      alert.set(false);
+      alert.destroy();
+    }
+  }
+
+  /**
+   * Re-evaluates database status at the last known simulation time.
+   */
+  private refresh(): void {
+    if (this.isInit && this.currentTime !== undefined) {
+      this.update(this.currentTime);
+    }
+  }
+
+  /**
+   * Updates this service.
+   * @param simTime The current simulation time, as a Javascript timestamp.
+   */
+  private update(simTime: number): void {
+    this.currentTime = simTime;
+
+    if (
+      this.autoSwap
+      && this.secondaryCycle !== null
+      && simTime >= this.secondaryCycle.effectiveTimestamp
+      && this.swapToSecondary()
+    ) {
+      // The swap refreshes status on its own.
+      return;
+    }
+
+    const status = AiracDatabaseStatusService.getCycleStatus(this.activeCycle, simTime, this.expiringWarningDays);
+    const daysUntilExpiration = Math.floor((this.activeCycle.expirationTimestamp - simTime) / AiracDatabaseStatusService.MS_PER_DAY);
+    const nextCyclePending = this.secondaryCycle !== null && simTime < this.secondaryCycle.effectiveTimestamp;
+
+    const last = this.lastStatus;
+    if (
+      last !== undefined
+      && last.status === status
+      && last.activeCycle === this.activeCycle
+      && last.secondaryCycle === this.secondaryCycle
+      && last.nextCyclePending === nextCyclePending
+      && last.daysUntilExpiration === daysUntilExpiration
+    ) {
+      return;
+    }
+
+    const data: AiracDatabaseStatusData = {
+      status,
+      activeCycle: this.activeCycle,
+      secondaryCycle: this.secondaryCycle,
+      nextCyclePending,
+      daysUntilExpiration
+    };
+
+    this.lastStatus = data;
+
+    for (const [alertStatus, alert] of this.casAlerts) {
+      alert.set(alertStatus === status);
+    }
+
+    this.publisher.pub('airac_db_status', data, this.sync, true);
+    this.hooks.onStatusChanged && this.hooks.onStatusChanged(data, last);
+  }
+
+  /**
+   * Gets the validity status of an AIRAC cycle at a given time.
+   * @param cycle The AIRAC cycle to check.
+   * @param time The time at which to check the cycle's validity, as a Javascript timestamp.
+   * @param expiringWarningDays The number of days before expiration at which the cycle is considered to be expiring.
+   * @returns The validity status of the specified AIRAC cycle at the specified time.
+   */
+  public static getCycleStatus(cycle: Readonly<AiracCycle>, time: number, expiringWarningDays: number): AiracDatabaseStatus {
+    if (time < cycle.effectiveTimestamp) {
+      return AiracDatabaseStatus.NotYetEffective;
+    } else if (time >= cycle.expirationTimestamp) {
+      return AiracDatabaseStatus.Expired;
+    } else if (cycle.expirationTimestamp - time <= expiringWarningDays * AiracDatabaseStatusService.MS_PER_DAY) {
+      return AiracDatabaseStatus.Expiring;
+    } else {
+      return AiracDatabaseStatus.Current;
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import { MathUtils } from '../math/MathUtils';
+import { LegTurnDirection } from './Facilities';
+
 /**
  * Possible types of hold entries
  */
@@ -8,16 +11,172 @@ export enum HoldEntryType {
   None,
 }
 
+/**
+ * Rules governing maximum holding speeds.
+ */
 export enum HoldMaxSpeedRule {
   Faa,
   Icao,
 }
 
+/**
+ * Timing for the inbound and outbound legs of a hold, corrected for wind.
+ */
+export interface HoldLegTiming {
+  /** The time to fly the inbound leg, in seconds. */
+  inboundTime: number;
+
+  /** The time to fly the outbound leg, in seconds. */
+  outboundTime: number;
+
+  /** The ground speed on the inbound leg, in knots. */
+  inboundGroundSpeed: number;
+
+  /** The ground speed on the outbound leg, in knots. */
+  outboundGroundSpeed: number;
+
+  /** The wind correction angle to apply on the inbound leg, in degrees. Positive values are to the right. */
+  inboundWindCorrectionAngle: number;
+
+  /** The wind correction angle to apply on the outbound leg, in degrees. Positive values are to the right. */
+  outboundWindCorrectionAngle: number;
+
+  /** The length of the inbound leg, in nautical miles. */
+  inboundDistance: number;
+}
+
 
 /**
  * Utilities for hold entries
  */
 export class HoldUtils {
+  /** The standard inbound leg time at or below the altitude threshold, in seconds. */
+  public static readonly STANDARD_LEG_TIME_LOW = 60;
+
+  /** The standard inbound leg time above the altitude threshold, in seconds. */
+  public static readonly STANDARD_LEG_TIME_HIGH = 90;
+
+  /** The altitude at or below which the low standard leg time applies, in feet MSL. */
+  public static readonly STANDARD_LEG_TIME_ALTITUDE_THRESHOLD = 14_000;
+
+  /**
+   * Gets the course with which an aircraft enters a hold relative to the hold inbound course, signed such that
+   * positive values are toward the holding side of the inbound course.
+   * @param track The aircraft's track to the holding fix, in degrees.
+   * @param inboundCourse The hold inbound course, in degrees. Must be referenced to the same north as `track`.
+   * @param turnDirection The hold's turn direction. Any direction other than right is treated as left.
+   * @returns The course with which the aircraft enters the hold relative to the hold inbound course, in the range
+   * `[-180, 180]` degrees.
+   */
+  public static getDirectionalEntryCourse(track: number, inboundCourse: number, turnDirection: LegTurnDirection): number {
+    const turnDirectionSign = turnDirection === LegTurnDirection.Right ? 1 : -1;
+    return MathUtils.normalizeAngleDeg(track - inboundCourse, -180) * turnDirectionSign;
+  }
+
+  /**
+   * Gets the recommended entry type for a hold, using the standard 70-degree entry sectors: a 180-degree direct entry
+   * sector, a 70-degree teardrop entry sector, and a 110-degree parallel entry sector.
+   * @param track The aircraft's track to the holding fix, in degrees.
+   * @param inboundCourse The hold inbound course, in degrees. Must be referenced to the same north as `track`.
+   * @param turnDirection The hold's turn direction. Any direction other than right is treated as left.
+   * @returns The recommended entry type for the hold.
+   */
+  public static getEntryType(track: number, inboundCourse: number, turnDirection: LegTurnDirection): HoldEntryType {
+    const entryCourse = HoldUtils.getDirectionalEntryCourse(track, inboundCourse, turnDirection);
+
+    if (entryCourse >= -70 && entryCourse <= 110) {
+      return HoldEntryType.Direct;
+    } else if (entryCourse > 110) {
+      return HoldEntryType.Teardrop;
+    } else {
+      return HoldEntryType.Parallel;
+    }
+  }
+
+  /**
+   * Gets the standard inbound leg time for a hold at a given altitude.
+   * @param altitude The altitude of the hold, in feet MSL.
+   * @returns The standard inbound leg time, in seconds.
+   */
+  public static getStandardLegTime(altitude: number): number {
+    return altitude <= HoldUtils.STANDARD_LEG_TIME_ALTITUDE_THRESHOLD ? HoldUtils.STANDARD_LEG_TIME_LOW : HoldUtils.STANDARD_LEG_TIME_HIGH;
+  }
+
+  /**
+   * Gets the timing for the legs of a hold, corrected for wind. If the hold legs are defined by time, then the
+   * outbound leg time is adjusted so that the inbound leg takes the specified time. If the hold legs are defined by
+   * distance, then both legs have the specified length.
+   * @param inboundCourse The hold inbound course, in degrees true.
+   * @param legLength The length of the hold legs, in seconds if `isTime` is true or nautical miles otherwise.
+   * @param isTime Whether the hold legs are defined by time.
+   * @param tas The aircraft's true airspeed, in knots.
+   * @param windDirection The direction from which the wind is blowing, in degrees true.
+   * @param windSpeed The wind speed, in knots.
+   * @param out The object to which to write the results.
+   * @returns The timing for the legs of the hold.
+   */
+  public static getLegTiming(
+    inboundCourse: number,
+    legLength: number,
+    isTime: boolean,
+    tas: number,
+    windDirection: number,
+    windSpeed: number,
+    out: HoldLegTiming
+  ): HoldLegTiming {
+    const outboundCourse = MathUtils.normalizeAngleDeg(inboundCourse + 180);
+
+    const inboundWca = HoldUtils.getWindCorrectionAngle(inboundCourse, tas, windDirection, windSpeed);
+    const outboundWca = HoldUtils.getWindCorrectionAngle(outboundCourse, tas, windDirection, windSpeed);
+
+    // Ground speeds are clamped to a small positive value so that times remain finite in extreme winds.
+    out.inboundGroundSpeed = Math.max(1, HoldUtils.getGroundSpeed(inboundCourse, inboundWca, tas, windDirection, windSpeed));
+    out.outboundGroundSpeed = Math.max(1, HoldUtils.getGroundSpeed(outboundCourse, outboundWca, tas, windDirection, windSpeed));
+    out.inboundWindCorrectionAngle = inboundWca;
+    out.outboundWindCorrectionAngle = outboundWca;
+
+    if (isTime) {
+      out.inboundTime = legLength;
+      out.inboundDistance = out.inboundGroundSpeed * legLength / 3600;
+      out.outboundTime = out.inboundDistance / out.outboundGroundSpeed * 3600;
+    } else {
+      out.inboundDistance = legLength;
+      out.inboundTime = legLength / out.inboundGroundSpeed * 3600;
+      out.outboundTime = legLength / out.outboundGroundSpeed * 3600;
+    }
+
+    return out;
+  }
+
+  /**
+   * Gets the wind correction angle required to maintain a track.
+   * @param track The track to maintain, in degrees true.
+   * @param tas The true airspeed, in knots.
+   * @param windDirection The direction from which the wind is blowing, in degrees true.
+   * @param windSpeed The wind speed, in knots.
+   * @returns The wind correction angle, in degrees. Positive values are to the right.
+   */
+  private static getWindCorrectionAngle(track: number, tas: number, windDirection: number, windSpeed: number): number {
+    if (tas <= 0) {
+      return 0;
+    }
+
+    const crosswind = windSpeed * Math.sin((windDirection - track) * Avionics.Utils.DEG2RAD);
+    return Math.asin(MathUtils.clamp(crosswind / tas, -1, 1)) * Avionics.Utils.RAD2DEG;
+  }
+
+  /**
+   * Gets the ground speed along a track.
+   * @param track The track, in degrees true.
+   * @param wca The wind correction angle applied to maintain the track, in degrees.
+   * @param tas The true airspeed, in knots.
+   * @param windDirection The direction from which the wind is blowing, in degrees true.
+   * @param windSpeed The wind speed, in knots.
+   * @returns The ground speed, in knots.
+   */
+  private static getGroundSpeed(track: number, wca: number, tas: number, windDirection: number, windSpeed: number): number {
+    return tas * Math.cos(wca * Avionics.Utils.DEG2RAD) - windSpeed * Math.cos((windDirection - track) * Avionics.Utils.DEG2RAD);
+  }
 
   /**
    * Gets a hold direction UI string for a given inbound course.
@@ -57,7 +216,7 @@ export class HoldUtils {
    *
    * @returns hold speed and whether that number is in Mach
    */
-  static getHoldSpeed(altitude: number, rule: HoldMaxSpeedRule): [speed: number, isMach: boolean] {
+  public static getHoldSpeed(altitude: number, rule: HoldMaxSpeedRule): [speed: number, isMach: boolean] {
     switch (rule) {
       case HoldMaxSpeedRule.Faa:
         if (altitude < 6_000) {
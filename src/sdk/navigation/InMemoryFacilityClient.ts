@@ -0,0 +1,991 @@
+import { GeoPoint } from '../geo/GeoPoint';
+import { BitFlags } from '../math/BitFlags';
+import { ReadonlyFloat64Array } from '../math/VecMath';
+import { UnitType } from '../math/NumberUnit';
+import { GeoKdTree, GeoKdTreeSearchFilter } from '../utils/datastructures/GeoKdTree';
+import {
+  AirportFacility, AirwaySegment, BoundaryFacility, Facility, FacilitySearchType, FacilityType, FacilityTypeMap,
+  IntersectionFacility, IntersectionType, NdbFacility, NearestSearchResults, UserFacility, VisualFacility, VorFacility
+} from './Facilities';
+import {
+  AirwayData, FacilityClient, FacilitySearchTypeLatLon, NearestAirportFilteredSearchSession,
+  NearestBoundaryFilteredSearchSession, NearestCustomFilteredSearchSession, NearestIcaoSearchSessionDataType,
+  NearestIcaoSearchSessionDataTypeMap, NearestIntersectionFilteredSearchSession, NearestSearchSessionTypeMap,
+  NearestVorFilteredSearchSession, SearchTypeMap
+} from './FacilityClient';
+import { AirwayObject } from './FacilityLoader';
+import { FacilityUtils } from './FacilityUtils';
+import { Metar, Taf } from './FacilityWeather';
+import { IcaoType, IcaoValue } from './Icao';
+import { ICAO } from './IcaoUtils';
+import { RunwayUtils } from './RunwayUtils';
+
+/**
+ * A facility record in an {@link InMemoryFacilityDataset}. Records follow the shape of the facility objects returned
+ * by the sim, except that either one of the `icao` (V1 string) or `icaoStruct` ICAO representations may be omitted,
+ * and the ICAOs referenced by intersection airway segments may likewise be defined in either representation.
+ */
+export type InMemoryFacilityRecord = Omit<Facility, 'icao' | 'icaoStruct'> & {
+  /** The FS ICAO string (V1) of the facility. */
+  readonly icao?: string;
+
+  /** The ICAO value of the facility. */
+  readonly icaoStruct?: IcaoValue;
+
+  /** The type of the intersection, if the record describes an intersection. */
+  readonly type?: number;
+
+  /** The airway segments adjacent to the facility, if the record describes an intersection. */
+  readonly routes?: readonly Partial<AirwaySegment>[];
+
+  /** The JS type of the facility. Set to `'JS_FacilityIntersection'` to define the intersection version of a VOR or NDB. */
+  readonly __Type?: string;
+
+  /** Any additional facility data. */
+  readonly [key: string]: unknown;
+};
+
+/**
+ * A navigation dataset that can be loaded into an {@link InMemoryFacilityClient}.
+ */
+export type InMemoryFacilityDataset = {
+  /** The facility records in the dataset. */
+  readonly facilities: readonly InMemoryFacilityRecord[];
+
+  /** The airspace boundaries in the dataset. */
+  readonly boundaries?: readonly BoundaryFacility[];
+
+  /** The METARs in the dataset. */
+  readonly metars?: readonly Metar[];
+
+  /** The TAFs in the dataset. */
+  readonly tafs?: readonly Taf[];
+};
+
+/**
+ * Facility types that are searchable by an {@link InMemoryFacilityClient}.
+ */
+type InMemorySearchableFacilityType = Exclude<FacilityType, FacilityType.RWY>;
+
+/**
+ * An intersection facility that optionally defines its intersection type.
+ */
+type TypedIntersectionFacility = IntersectionFacility & {
+  /** The type of the intersection. */
+  readonly type?: IntersectionType;
+};
+
+/**
+ * A {@link FacilityClient} that serves facilities, airways, airspace boundaries, and weather from a dataset held in
+ * memory instead of retrieving them from the sim. Because it does not depend on Coherent, it can be used to run FMS,
+ * flight plan, and map code outside of the sim, such as in tests and offline tools.
+ *
+ * All airport facilities are served with whatever data are defined by the dataset, regardless of the requested
+ * airport data flags. Runway facilities are generated on demand from their parent airports.
+ */
+export class InMemoryFacilityClient implements FacilityClient {
+  private static readonly treeKeyFunc = (fac: Facility, out: Float64Array): Float64Array => {
+    return GeoPoint.sphericalToCartesian(fac, out);
+  };
+
+  private static readonly searchTypeFacilityTypes: Record<FacilitySearchType, readonly InMemorySearchableFacilityType[]> = {
+    [FacilitySearchType.All]: [FacilityType.Airport, FacilityType.Intersection, FacilityType.VOR, FacilityType.NDB, FacilityType.USR, FacilityType.VIS],
+    [FacilitySearchType.Airport]: [FacilityType.Airport],
+    [FacilitySearchType.Intersection]: [FacilityType.Intersection],
+    [FacilitySearchType.Vor]: [FacilityType.VOR],
+    [FacilitySearchType.Ndb]: [FacilityType.NDB],
+    [FacilitySearchType.Boundary]: [],
+    [FacilitySearchType.User]: [FacilityType.USR],
+    [FacilitySearchType.Visual]: [FacilityType.VIS],
+    [FacilitySearchType.AllExceptVisual]: [FacilityType.Airport, FacilityType.Intersection, FacilityType.VOR, FacilityType.NDB, FacilityType.USR]
+  };
+
+  private static nextSessionId = 0;
+
+  private readonly facilities = new Map<string, Facility>();
+  private readonly intersectionFacilities = new Map<string, IntersectionFacility>();
+  private readonly derivedIntersectionFacilities = new Map<string, IntersectionFacility>();
+  private readonly runwayFacilities = new Map<string, Facility>();
+  private readonly derivedRunwayFacilities = new Map<string, Facility>();
+  private readonly boundaries = new Map<number, BoundaryFacility>();
+  private readonly metars = new Map<string, Metar>();
+  private readonly tafs = new Map<string, Taf>();
+
+  private readonly trees: Record<InMemorySearchableFacilityType, GeoKdTree<Facility>> = {
+    [FacilityType.Airport]: new GeoKdTree(InMemoryFacilityClient.treeKeyFunc),
+    [FacilityType.Intersection]: new GeoKdTree(InMemoryFacilityClient.treeKeyFunc),
+    [FacilityType.VOR]: new GeoKdTree(InMemoryFacilityClient.treeKeyFunc),
+    [FacilityType.NDB]: new GeoKdTree(InMemoryFacilityClient.treeKeyFunc),
+    [FacilityType.USR]: new GeoKdTree(InMemoryFacilityClient.treeKeyFunc),
+    [FacilityType.VIS]: new GeoKdTree(InMemoryFacilityClient.treeKeyFunc)
+  };
+
+  /**
+   * Creates a new instance of InMemoryFacilityClient.
+   * @param dataset The dataset to initially load into the client. If not defined, then the client will start empty.
+   */
+  public constructor(dataset?: InMemoryFacilityDataset) {
+    dataset && this.load(dataset);
+  }
+
+  /**
+   * Creates a new instance of InMemoryFacilityClient from a JSON-formatted dataset.
+   * @param json A JSON string describing an {@link InMemoryFacilityDataset}.
+   * @returns A new instance of InMemoryFacilityClient containing the data from the specified dataset.
+   * @throws Error if the JSON string does not describe a valid dataset.
+   */
+  public static fromJson(json: string): InMemoryFacilityClient {
+    const dataset = JSON.parse(json) as InMemoryFacilityDataset;
+
+    if (typeof dataset !== 'object' || dataset === null || !Array.isArray(dataset.facilities)) {
+      throw new Error('InMemoryFacilityClient: dataset is missing a facilities array');
+    }
+
+    return new InMemoryFacilityClient(dataset);
+  }
+
+  /**
+   * Loads a dataset into this client. Loaded facilities will replace any existing facilities with the same ICAO.
+   * @param dataset The dataset to load.
+   * @returns This client, after the dataset has been loaded.
+   * @throws Error if any facility record in the dataset does not define a valid ICAO.
+   */
+  public load(dataset: InMemoryFacilityDataset): this {
+    for (let i = 0; i < dataset.facilities.length; i++) {
+      this.addFacility(InMemoryFacilityClient.toFacility(dataset.facilities[i]));
+    }
+
+    if (dataset.boundaries) {
+      for (let i = 0; i < dataset.boundaries.length; i++) {
+        this.boundaries.set(dataset.boundaries[i].id, dataset.boundaries[i]);
+      }
+    }
+
+    if (dataset.metars) {
+      for (let i = 0; i < dataset.metars.length; i++) {
+        this.metars.set(dataset.metars[i].icao, dataset.metars[i]);
+      }
+    }
+
+    if (dataset.tafs) {
+      for (let i = 0; i < dataset.tafs.length; i++) {
+        this.tafs.set(dataset.tafs[i].icao, dataset.tafs[i]);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Adds a facility to this client. If a facility with the same ICAO already exists, it will be replaced.
+   * @param facility The facility to add.
+   */
+  public addFacility(facility: Facility): void {
+    const uid = ICAO.getUid(facility.icaoStruct);
+
+    if (this.isIntersectionVersion(facility)) {
+      this.intersectionFacilities.set(uid, facility as IntersectionFacility);
+      this.derivedIntersectionFacilities.delete(uid);
+      return;
+    }
+
+    const type = ICAO.getFacilityTypeFromValue(facility.icaoStruct);
+    if (type === FacilityType.RWY) {
+      this.runwayFacilities.set(uid, facility);
+      return;
+    }
+
+    this.removeFacility(facility.icaoStruct);
+    this.facilities.set(uid, facility);
+    this.trees[type as InMemorySearchableFacilityType]?.insert(facility);
+  }
+
+  /**
+   * Removes a facility from this client. Removing a VOR or NDB facility does not remove an intersection version of the
+   * facility that was explicitly added to this client.
+   * @param icao The ICAO of the facility to remove.
+   * @returns Whether a facility was removed.
+   */
+  public removeFacility(icao: IcaoValue): boolean {
+    const uid = ICAO.getUid(icao);
+    const existing = this.facilities.get(uid);
+
+    this.derivedIntersectionFacilities.delete(uid);
+    this.runwayFacilities.delete(uid);
+    this.derivedRunwayFacilities.delete(uid);
+
+    if (existing) {
+      if (ICAO.getFacilityTypeFromValue(existing.icaoStruct) === FacilityType.Airport) {
+        // Runway facilities generated from the airport are no longer valid.
+        for (const [runwayUid, runwayFac] of this.derivedRunwayFacilities) {
+          if (runwayFac.icaoStruct.airport === existing.icaoStruct.ident) {
+            this.derivedRunwayFacilities.delete(runwayUid);
+          }
+        }
+      }
+
+      this.facilities.delete(uid);
+      this.trees[ICAO.getFacilityTypeFromValue(existing.icaoStruct) as InMemorySearchableFacilityType]?.remove(existing);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Removes all data from this client.
+   */
+  public clear(): void {
+    for (const fac of this.facilities.values()) {
+      this.trees[ICAO.getFacilityTypeFromValue(fac.icaoStruct) as InMemorySearchableFacilityType]?.remove(fac);
+    }
+
+    this.facilities.clear();
+    this.intersectionFacilities.clear();
+    this.derivedIntersectionFacilities.clear();
+    this.runwayFacilities.clear();
+    this.derivedRunwayFacilities.clear();
+    this.boundaries.clear();
+    this.metars.clear();
+    this.tafs.clear();
+  }
+
+  /**
+   * Gets the number of facilities contained in this client, excluding generated runway facilities and the
+   * intersection versions of VOR and NDB facilities.
+   * @returns The number of facilities contained in this client.
+   */
+  public size(): number {
+    return this.facilities.size;
+  }
+
+  /** @inheritDoc */
+  public awaitInitialization(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /** @inheritDoc */
+  public tryGetFacility<T extends FacilityType>(type: T, icao: IcaoValue): Promise<FacilityTypeMap[T] | null> {
+    return Promise.resolve(this.getFacilitySync(type, icao));
+  }
+
+  /** @inheritDoc */
+  public async getFacility<T extends FacilityType>(type: T, icao: IcaoValue, airportDataFlags?: number): Promise<FacilityTypeMap[T]>;
+  /** @inheritDoc */
+  public async getFacility<T extends FacilityType>(type: T, icao: string): Promise<FacilityTypeMap[T]>;
+  // eslint-disable-next-line jsdoc/require-jsdoc
+  public async getFacility<T extends FacilityType>(type: T, icao: IcaoValue | string): Promise<FacilityTypeMap[T]> {
+    if (typeof icao === 'string') {
+      icao = ICAO.stringV1ToValue(icao);
+    }
+
+    const result = this.getFacilitySync(type, icao);
+    if (result === null) {
+      throw new Error(`InMemoryFacilityClient: facility could not be retrieved for ICAO ${ICAO.tryValueToStringV2(icao)}`);
+    } else {
+      return result;
+    }
+  }
+
+  /** @inheritDoc */
+  public getFacilities(icaos: readonly IcaoValue[]): Promise<(Facility | null)[]> {
+    return Promise.resolve(icaos.map(icao => {
+      if (!ICAO.isValueFacility(icao)) {
+        return null;
+      }
+
+      return this.getFacilitySync(ICAO.getFacilityTypeFromValue(icao), icao);
+    }));
+  }
+
+  /** @inheritDoc */
+  public getFacilitiesOfType<T extends FacilityType>(type: T, icaos: readonly IcaoValue[]): Promise<(FacilityTypeMap[T] | null)[]>;
+  /** @inheritDoc */
+  public getFacilitiesOfType(type: FacilityType.Airport, icaos: readonly IcaoValue[], airportDataFlags?: number): Promise<(AirportFacility | null)[]>;
+  // eslint-disable-next-line jsdoc/require-jsdoc
+  public getFacilitiesOfType<T extends FacilityType>(type: T, icaos: readonly IcaoValue[]): Promise<(FacilityTypeMap[T] | null)[]> {
+    return Promise.resolve(icaos.map(icao => {
+      if (!ICAO.isValueFacility(icao)) {
+        return null;
+      }
+
+      return this.getFacilitySync(type, icao);
+    }));
+  }
+
+  /**
+   * Retrieves a facility from this client.
+   * @param type The type of facility to retrieve.
+   * @param icao The ICAO of the facility to retrieve.
+   * @returns The requested facility, or `null` if the facility could not be found.
+   */
+  private getFacilitySync<T extends FacilityType>(type: T, icao: IcaoValue): FacilityTypeMap[T] | null {
+    const uid = ICAO.getUid(icao);
+    const icaoFacType = ICAO.getFacilityTypeFromValue(icao);
+
+    if (icaoFacType !== type) {
+      // Only intersection facilities are allowed to be retrieved with an ICAO type mismatch.
+      if (type !== FacilityType.Intersection || (icaoFacType !== FacilityType.VOR && icaoFacType !== FacilityType.NDB)) {
+        return null;
+      }
+
+      let intersection = this.intersectionFacilities.get(uid) ?? this.derivedIntersectionFacilities.get(uid);
+      if (!intersection) {
+        const navaid = this.facilities.get(uid) as VorFacility | NdbFacility | undefined;
+        if (navaid) {
+          intersection = InMemoryFacilityClient.createNavaidIntersection(navaid);
+          this.derivedIntersectionFacilities.set(uid, intersection);
+        }
+      }
+
+      return (intersection ?? null) as FacilityTypeMap[T] | null;
+    }
+
+    if (type === FacilityType.RWY) {
+      let runwayFac = this.runwayFacilities.get(uid) ?? this.derivedRunwayFacilities.get(uid);
+      if (!runwayFac) {
+        const airport = this.facilities.get(ICAO.getUid(ICAO.value(IcaoType.Airport, '', '', icao.airport))) as AirportFacility | undefined;
+        const runway = airport ? RunwayUtils.matchOneWayRunwayFromIdent(airport, icao.ident) : undefined;
+        if (airport && runway) {
+          runwayFac = RunwayUtils.createRunwayFacility(airport, runway);
+          this.derivedRunwayFacilities.set(uid, runwayFac);
+        }
+      }
+
+      return (runwayFac ?? null) as FacilityTypeMap[T] | null;
+    }
+
+    return (this.facilities.get(uid) ?? null) as FacilityTypeMap[T] | null;
+  }
+
+  /** @inheritDoc */
+  public async tryGetAirway(airwayName: string, airwayType: number, icao: IcaoValue): Promise<AirwayData | null> {
+    const fac = this.getFacilitySync(FacilityType.Intersection, icao);
+    if (!fac) {
+      return null;
+    }
+
+    const route = fac.routes.find(r => r.name === airwayName);
+    if (route === undefined) {
+      return null;
+    }
+
+    const waypoints: IntersectionFacility[] = [fac];
+    const visited = new Set<string>([ICAO.getUid(fac.icaoStruct)]);
+
+    this.walkAirway(route, true, visited, waypoints.push.bind(waypoints));
+    this.walkAirway(route, false, visited, waypoints.unshift.bind(waypoints));
+
+    const airway = new AirwayObject(airwayName, airwayType);
+    airway.waypoints = waypoints;
+    return airway;
+  }
+
+  /** @inheritDoc */
+  public async getAirway(airwayName: string, airwayType: number, icao: IcaoValue): Promise<AirwayData>;
+  /** @inheritDoc */
+  public async getAirway(airwayName: string, airwayType: number, icao: string): Promise<AirwayData>;
+  // eslint-disable-next-line jsdoc/require-jsdoc
+  public async getAirway(airwayName: string, airwayType: number, icao: IcaoValue | string): Promise<AirwayData> {
+    if (typeof icao === 'string') {
+      icao = ICAO.stringV1ToValue(icao);
+    }
+
+    const airway = await this.tryGetAirway(airwayName, airwayType, icao);
+    if (airway) {
+      return airway;
+    }
+
+    throw new Error(`InMemoryFacilityClient: airway ${airwayName} could not be found on waypoint ${ICAO.tryValueToStringV2(icao)}.`);
+  }
+
+  /**
+   * Walks along an airway in one direction, starting from a given segment.
+   * @param start The airway segment from which to start walking.
+   * @param forward Whether to walk forward (`true`) or backward (`false`) along the airway.
+   * @param visited The UIDs of the waypoints that have already been visited.
+   * @param insert A function which inserts a walked waypoint into the airway.
+   */
+  private walkAirway(start: AirwaySegment, forward: boolean, visited: Set<string>, insert: (wpt: IntersectionFacility) => void): void {
+    let current: AirwaySegment | undefined = start;
+    while (current) {
+      const nextIcao: IcaoValue = forward ? current.nextIcaoStruct : current.prevIcaoStruct;
+      if (!ICAO.isValueFacility(nextIcao)) {
+        return;
+      }
+
+      const uid = ICAO.getUid(nextIcao);
+      if (visited.has(uid)) {
+        return;
+      }
+
+      const next = this.getFacilitySync(FacilityType.Intersection, nextIcao);
+      if (!next) {
+        return;
+      }
+
+      visited.add(uid);
+      insert(next);
+
+      const name: string = current.name;
+      current = next.routes.find(r => r.name === name);
+    }
+  }
+
+  /** @inheritDoc */
+  public async startNearestSearchSessionWithIcaoStructs<T extends FacilitySearchType>(type: T): Promise<NearestSearchSessionTypeMap<NearestIcaoSearchSessionDataType.Struct>[T]> {
+    return this.startSession(type, NearestIcaoSearchSessionDataType.Struct) as unknown as NearestSearchSessionTypeMap<NearestIcaoSearchSessionDataType.Struct>[T];
+  }
+
+  /** @inheritDoc */
+  public async startNearestSearchSession<T extends FacilitySearchType>(type: T): Promise<NearestSearchSessionTypeMap<NearestIcaoSearchSessionDataType.StringV1>[T]> {
+    return this.startSession(type, NearestIcaoSearchSessionDataType.StringV1) as unknown as NearestSearchSessionTypeMap<NearestIcaoSearchSessionDataType.StringV1>[T];
+  }
+
+  /**
+   * Starts a new nearest search session.
+   * @param type The type of search session to start.
+   * @param icaoDataType The data type of the ICAOs provided by the session.
+   * @returns A new nearest search session of the specified type.
+   */
+  private startSession<IcaoDataType extends NearestIcaoSearchSessionDataType>(
+    type: FacilitySearchType,
+    icaoDataType: IcaoDataType
+  ): InMemoryNearestFacilitySearchSession<IcaoDataType> | InMemoryNearestBoundarySearchSession {
+    const sessionId = InMemoryFacilityClient.nextSessionId++;
+
+    if (type === FacilitySearchType.Boundary) {
+      return new InMemoryNearestBoundarySearchSession(this.boundaries, sessionId);
+    }
+
+    return new InMemoryNearestFacilitySearchSession(
+      InMemoryFacilityClient.searchTypeFacilityTypes[type].map(facType => this.trees[facType]),
+      sessionId,
+      icaoDataType
+    );
+  }
+
+  /** @inheritDoc */
+  public async getMetar(airport: AirportFacility): Promise<Metar | undefined>;
+  /** @inheritDoc */
+  public async getMetar(ident: string): Promise<Metar | undefined>;
+  // eslint-disable-next-line jsdoc/require-jsdoc
+  public async getMetar(arg: string | AirportFacility): Promise<Metar | undefined> {
+    return this.metars.get(typeof arg === 'string' ? arg : arg.icaoStruct.ident);
+  }
+
+  /** @inheritDoc */
+  public async searchMetar(lat: number, lon: number): Promise<Metar | undefined> {
+    const airport = this.findNearestAirportWithData(lat, lon, this.metars);
+    return airport && this.metars.get(airport.icaoStruct.ident);
+  }
+
+  /** @inheritDoc */
+  public async getTaf(airport: AirportFacility): Promise<Taf | undefined>;
+  /** @inheritDoc */
+  public async getTaf(ident: string): Promise<Taf | undefined>;
+  // eslint-disable-next-line jsdoc/require-jsdoc
+  public async getTaf(arg: string | AirportFacility): Promise<Taf | undefined> {
+    return this.tafs.get(typeof arg === 'string' ? arg : arg.icaoStruct.ident);
+  }
+
+  /** @inheritDoc */
+  public async searchTaf(lat: number, lon: number): Promise<Taf | undefined> {
+    const airport = this.findNearestAirportWithData(lat, lon, this.tafs);
+    return airport && this.tafs.get(airport.icaoStruct.ident);
+  }
+
+  /**
+   * Finds the nearest airport to a point for which weather data exist.
+   * @param lat The latitude of the point, in degrees.
+   * @param lon The longitude of the point, in degrees.
+   * @param data The weather data, keyed by airport ident.
+   * @returns The nearest airport to the specified point for which weather data exist, or `undefined` if there is
+   * no such airport.
+   */
+  private findNearestAirportWithData(lat: number, lon: number, data: ReadonlyMap<string, unknown>): Facility | undefined {
+    if (data.size === 0) {
+      return undefined;
+    }
+
+    return this.trees[FacilityType.Airport].search(lat, lon, Math.PI, 1, [], fac => data.has(fac.icaoStruct.ident))[0];
+  }
+
+  /** @inheritDoc */
+  public async searchByIdentWithIcaoStructs(filter: FacilitySearchType, ident: string, maxItems = 40): Promise<IcaoValue[]> {
+    return this.searchFacilitiesByIdent(filter, ident, maxItems).map(fac => fac.icaoStruct);
+  }
+
+  /** @inheritDoc */
+  public async searchByIdent(filter: FacilitySearchType, ident: string, maxItems = 40): Promise<string[]> {
+    return this.searchFacilitiesByIdent(filter, ident, maxItems).map(fac => fac.icao);
+  }
+
+  /**
+   * Searches for facilities whose idents match or begin with a given string. Facilities with idents that exactly
+   * match the query are ordered before those which only partially match it. Within each group, facilities are
+   * ordered alphabetically by ident.
+   * @param filter The type of facility to search for.
+   * @param ident The ident to search for.
+   * @param maxItems The maximum number of facilities to return.
+   * @returns The facilities that match the query.
+   */
+  private searchFacilitiesByIdent(filter: FacilitySearchType, ident: string, maxItems: number): Facility[] {
+    const types = InMemoryFacilityClient.searchTypeFacilityTypes[filter];
+
+    const exact: Facility[] = [];
+    const partial: Facility[] = [];
+
+    for (const fac of this.facilities.values()) {
+      const facIdent = fac.icaoStruct.ident;
+
+      if (!facIdent.startsWith(ident) || !types.includes(ICAO.getFacilityTypeFromValue(fac.icaoStruct) as InMemorySearchableFacilityType)) {
+        continue;
+      }
+
+      if (facIdent === ident) {
+        exact.push(fac);
+      } else {
+        partial.push(fac);
+      }
+    }
+
+    partial.sort((a, b) => a.icaoStruct.ident.localeCompare(b.icaoStruct.ident));
+
+    return exact.concat(partial).slice(0, maxItems);
+  }
+
+  /** @inheritDoc */
+  public async findNearestFacilitiesByIdent<T extends FacilitySearchTypeLatLon>(
+    filter: T,
+    ident: string,
+    lat: number,
+    lon: number,
+    maxItems = 40
+  ): Promise<SearchTypeMap[T][]> {
+    const results = this.searchFacilitiesByIdent(filter, ident, Infinity).filter(fac => fac.icaoStruct.ident === ident);
+
+    results.sort((a, b) => GeoPoint.distance(lat, lon, a.lat, a.lon) - GeoPoint.distance(lat, lon, b.lat, b.lon));
+
+    return results.slice(0, maxItems) as SearchTypeMap[T][];
+  }
+
+  /**
+   * Checks whether a facility is the intersection version of a VOR or NDB facility.
+   * @param facility The facility to check.
+   * @returns Whether the facility is the intersection version of a VOR or NDB facility.
+   */
+  private isIntersectionVersion(facility: Facility): boolean {
+    return FacilityUtils.isFacilityType(facility, FacilityType.Intersection)
+      && ICAO.getFacilityTypeFromValue(facility.icaoStruct) !== FacilityType.Intersection;
+  }
+
+  /**
+   * Converts a dataset facility record to a facility.
+   * @param record The record to convert.
+   * @returns The facility described by the specified record.
+   * @throws Error if the record does not define a valid ICAO.
+   */
+  private static toFacility(record: InMemoryFacilityRecord): Facility {
+    const icaoStruct = InMemoryFacilityClient.resolveIcao(record.icaoStruct, record.icao);
+
+    if (!ICAO.isValueFacility(icaoStruct)) {
+      throw new Error(`InMemoryFacilityClient: facility record '${record.name}' does not define a valid ICAO`);
+    }
+
+    const facility = { ...record, icaoStruct, icao: ICAO.tryValueToStringV1(icaoStruct) } as Record<string, unknown>;
+
+    if (record.routes) {
+      facility.routes = record.routes.map(route => {
+        const prevIcaoStruct = InMemoryFacilityClient.resolveIcao(route.prevIcaoStruct, route.prevIcao);
+        const nextIcaoStruct = InMemoryFacilityClient.resolveIcao(route.nextIcaoStruct, route.nextIcao);
+
+        return {
+          prevMinAlt: 0,
+          nextMinAlt: 0,
+          ...route,
+          prevIcaoStruct,
+          prevIcao: ICAO.tryValueToStringV1(prevIcaoStruct),
+          nextIcaoStruct,
+          nextIcao: ICAO.tryValueToStringV1(nextIcaoStruct)
+        };
+      });
+    }
+
+    return facility as unknown as Facility;
+  }
+
+  /**
+   * Resolves an ICAO value from a record that may define it as either a value or a V1 string.
+   * @param value The ICAO value defined by the record, if any.
+   * @param stringV1 The ICAO string (V1) defined by the record, if any.
+   * @returns The resolved ICAO value, or an empty ICAO value if the record defines neither.
+   */
+  private static resolveIcao(value: IcaoValue | undefined, stringV1: string | undefined): IcaoValue {
+    if (value) {
+      return ICAO.value(value.type, value.region, value.airport, value.ident);
+    } else if (stringV1 !== undefined && stringV1.length === ICAO.EMPTY_V1.length) {
+      return ICAO.stringV1ToValue(stringV1);
+    } else {
+      return ICAO.emptyValue();
+    }
+  }
+
+  /**
+   * Creates the intersection version of a VOR or NDB facility.
+   * @param navaid The VOR or NDB facility.
+   * @returns The intersection version of the specified facility.
+   */
+  private static createNavaidIntersection(navaid: VorFacility | NdbFacility): IntersectionFacility {
+    const isVor = FacilityUtils.isFacilityType(navaid, FacilityType.VOR);
+
+    return {
+      __Type: 'JS_FacilityIntersection',
+      icao: navaid.icao,
+      icaoStruct: navaid.icaoStruct,
+      name: navaid.name,
+      lat: navaid.lat,
+      lon: navaid.lon,
+      region: navaid.region,
+      city: navaid.city,
+      type: isVor ? IntersectionType.Vor : IntersectionType.NDB,
+      routes: [],
+      nearestVorICAO: isVor ? navaid.icao : ICAO.EMPTY_V1,
+      nearestVorICAOStruct: isVor ? navaid.icaoStruct : ICAO.emptyValue(),
+      nearestVorType: isVor ? navaid.type : 0,
+      nearestVorFrequencyBCD16: isVor ? navaid.freqBCD16 : 0,
+      nearestVorFrequencyMHz: isVor ? navaid.freqMHz : 0,
+      nearestVorTrueRadial: 0,
+      nearestVorMagneticRadial: 0,
+      nearestVorDistance: isVor ? 0 : -1
+    } as IntersectionFacility;
+  }
+}
+
+/**
+ * A nearest search session for facilities contained in an {@link InMemoryFacilityClient}. Supports all filters
+ * supported by the sim's nearest search sessions.
+ */
+class InMemoryNearestFacilitySearchSession<IcaoDataType extends NearestIcaoSearchSessionDataType>
+  implements NearestAirportFilteredSearchSession<IcaoDataType>, NearestIntersectionFilteredSearchSession<IcaoDataType>,
+  NearestVorFilteredSearchSession<IcaoDataType>, NearestCustomFilteredSearchSession<UserFacility | VisualFacility, IcaoDataType> {
+
+  private airportClassMask?: number;
+  private airportSurfaceTypeMask?: number;
+  private airportApproachTypeMask?: number;
+  private airportToweredMask?: number;
+  private airportMinRunwayLength = 0;
+
+  private intersectionTypeMask?: number;
+  private showTerminalWaypoints = true;
+
+  private vorClassMask?: number;
+  private vorTypeMask?: number;
+
+  private customFilter: GeoKdTreeSearchFilter<UserFacility | VisualFacility> | undefined = undefined;
+
+  private readonly cachedResults = new Map<string, NearestIcaoSearchSessionDataTypeMap[IcaoDataType]>();
+
+  private searchId = 0;
+
+  private readonly filter = this.acceptFacility.bind(this);
+
+  /**
+   * Creates a new instance of InMemoryNearestFacilitySearchSession.
+   * @param trees The spatial trees containing the facilities in which to search.
+   * @param sessionId The ID of this session.
+   * @param icaoDataType The data type of the ICAOs provided by this session.
+   */
+  public constructor(
+    private readonly trees: readonly GeoKdTree<Facility>[],
+    private readonly sessionId: number,
+    public readonly icaoDataType: IcaoDataType
+  ) { }
+
+  /** @inheritDoc */
+  public searchNearest(
+    lat: number,
+    lon: number,
+    radius: number,
+    maxItems: number
+  ): Promise<NearestSearchResults<NearestIcaoSearchSessionDataTypeMap[IcaoDataType], NearestIcaoSearchSessionDataTypeMap[IcaoDataType]>> {
+    const radiusGAR = UnitType.METER.convertTo(radius, UnitType.GA_RADIAN);
+
+    let results: Facility[];
+    if (this.trees.length === 1) {
+      results = this.trees[0].search(lat, lon, radiusGAR, maxItems, [], this.filter);
+    } else {
+      // Each tree search clears its output array, so each tree must be searched into its own array.
+      results = [];
+      for (let i = 0; i < this.trees.length; i++) {
+        results.push(...this.trees[i].search(lat, lon, radiusGAR, maxItems, [], this.filter));
+      }
+
+      results.sort((a, b) => GeoPoint.distance(lat, lon, a.lat, a.lon) - GeoPoint.distance(lat, lon, b.lat, b.lon));
+      results = results.slice(0, maxItems);
+    }
+
+    const isStruct = this.icaoDataType === NearestIcaoSearchSessionDataType.Struct;
+
+    const added: NearestIcaoSearchSessionDataTypeMap[IcaoDataType][] = [];
+    const current = new Map<string, NearestIcaoSearchSessionDataTypeMap[IcaoDataType]>();
+
+    for (let i = 0; i < results.length; i++) {
+      const fac = results[i];
+      const key = ICAO.getUid(fac.icaoStruct);
+      const icao = (isStruct ? fac.icaoStruct : fac.icao) as NearestIcaoSearchSessionDataTypeMap[IcaoDataType];
+
+      if (this.cachedResults.has(key)) {
+        this.cachedResults.delete(key);
+      } else {
+        added.push(icao);
+      }
+
+      current.set(key, icao);
+    }
+
+    const removed = Array.from(this.cachedResults.values());
+    this.cachedResults.clear();
+    current.forEach((icao, key) => this.cachedResults.set(key, icao));
+
+    return Promise.resolve({
+      sessionId: this.sessionId,
+      searchId: this.searchId++,
+      added,
+      removed
+    });
+  }
+
+  /**
+   * Sets the filter for the airport nearest search. Closed airports are not modeled by in-memory datasets, so the
+   * `showClosed` flag is ignored.
+   * @param showClosed Whether or not to show closed airports.
+   * @param classMask A bitmask to determine which JS airport classes to show.
+   */
+  public setAirportFilter(showClosed: boolean, classMask: number): void {
+    this.airportClassMask = classMask;
+  }
+
+  /**
+   * Sets the extended airport filters for the airport nearest search. Airports which do not define any approaches
+   * are not filtered by approach type.
+   * @param surfaceTypeMask A bitmask of allowable runway surface types.
+   * @param approachTypeMask A bitmask of allowable approach types.
+   * @param toweredMask A bitmask of untowered (1) or towered (2) bits.
+   * @param minRunwayLength The minimum allowable runway length, in meters.
+   */
+  public setExtendedAirportFilters(surfaceTypeMask: number, approachTypeMask: number, toweredMask: number, minRunwayLength: number): void {
+    this.airportSurfaceTypeMask = surfaceTypeMask;
+    this.airportApproachTypeMask = approachTypeMask;
+    this.airportToweredMask = toweredMask;
+    this.airportMinRunwayLength = minRunwayLength;
+  }
+
+  /**
+   * Sets the filter for the intersection nearest search. Intersections which do not define their type are not
+   * filtered by type.
+   * @param typeMask A bitmask to determine which JS intersection types to show.
+   * @param showTerminalWaypoints Whether or not to show terminal waypoints. Defaults to true.
+   */
+  public setIntersectionFilter(typeMask: number, showTerminalWaypoints = true): void {
+    this.intersectionTypeMask = typeMask;
+    this.showTerminalWaypoints = showTerminalWaypoints;
+  }
+
+  /**
+   * Sets the filter for the VOR nearest search.
+   * @param classMask A bitmask to determine which JS VOR classes to show.
+   * @param typeMask A bitmask to determine which JS VOR types to show.
+   */
+  public setVorFilter(classMask: number, typeMask: number): void {
+    this.vorClassMask = classMask;
+    this.vorTypeMask = typeMask;
+  }
+
+  /**
+   * Sets the filter for this search session. The filter is only applied to user and visual facilities.
+   * @param filter A function to filter the search results.
+   */
+  public setFacilityFilter(filter?: GeoKdTreeSearchFilter<UserFacility | VisualFacility>): void {
+    this.customFilter = filter;
+  }
+
+  /**
+   * Checks whether a facility passes this session's filters.
+   * @param fac The facility to check.
+   * @param point The cartesian position of the facility.
+   * @param distance The distance from the facility to the query point, in great-arc radians.
+   * @param queryPoint The cartesian position of the query point.
+   * @returns Whether the facility passes this session's filters.
+   */
+  private acceptFacility(fac: Facility, point: ReadonlyFloat64Array, distance: number, queryPoint: ReadonlyFloat64Array): boolean {
+    switch (ICAO.getFacilityTypeFromValue(fac.icaoStruct)) {
+      case FacilityType.Airport:
+        if (!this.acceptAirport(fac as AirportFacility)) {
+          return false;
+        }
+        break;
+      case FacilityType.Intersection: {
+        const type = (fac as TypedIntersectionFacility).type;
+        if (
+          (!this.showTerminalWaypoints && fac.icaoStruct.airport !== '')
+          || (this.intersectionTypeMask !== undefined && type !== undefined && !BitFlags.isAny(this.intersectionTypeMask, BitFlags.createFlag(type)))
+        ) {
+          return false;
+        }
+        break;
+      }
+      case FacilityType.VOR: {
+        const vor = fac as VorFacility;
+        if (
+          (this.vorClassMask !== undefined && !BitFlags.isAny(this.vorClassMask, BitFlags.createFlag(vor.vorClass)))
+          || (this.vorTypeMask !== undefined && !BitFlags.isAny(this.vorTypeMask, BitFlags.createFlag(vor.type)))
+        ) {
+          return false;
+        }
+        break;
+      }
+      case FacilityType.USR:
+      case FacilityType.VIS:
+        if (this.customFilter !== undefined && !this.customFilter(fac as UserFacility | VisualFacility, point, distance, queryPoint)) {
+          return false;
+        }
+        break;
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks whether an airport passes this session's airport filters.
+   * @param airport The airport to check.
+   * @returns Whether the airport passes this session's airport filters.
+   */
+  private acceptAirport(airport: AirportFacility): boolean {
+    if (this.airportClassMask !== undefined && !BitFlags.isAny(this.airportClassMask, BitFlags.createFlag(airport.airportClass))) {
+      return false;
+    }
+
+    if (this.airportToweredMask !== undefined && !BitFlags.isAny(this.airportToweredMask, airport.towered ? 2 : 1)) {
+      return false;
+    }
+
+    const runways = airport.runways ?? [];
+    if (this.airportSurfaceTypeMask !== undefined || this.airportMinRunwayLength > 0) {
+      const surfaceTypeMask = this.airportSurfaceTypeMask ?? ~0;
+      if (!runways.some(runway => runway.length >= this.airportMinRunwayLength && BitFlags.isAny(surfaceTypeMask, BitFlags.createFlag(runway.surface)))) {
+        return false;
+      }
+    }
+
+    const approaches = airport.approaches ?? [];
+    if (this.airportApproachTypeMask !== undefined && approaches.length > 0) {
+      const approachTypeMask = this.airportApproachTypeMask;
+      if (!approaches.some(approach => BitFlags.isAny(approachTypeMask, BitFlags.createFlag(approach.approachType)))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+/**
+ * A nearest search session for airspace boundaries contained in an {@link InMemoryFacilityClient}. A boundary is
+ * considered to be within the search radius if the search center lies within its bounding box or if any of its
+ * border vertices lie within the search radius.
+ */
+class InMemoryNearestBoundarySearchSession implements NearestBoundaryFilteredSearchSession {
+  private classMask?: number;
+
+  private readonly cachedResults = new Set<number>();
+
+  private searchId = 0;
+
+  /**
+   * Creates a new instance of InMemoryNearestBoundarySearchSession.
+   * @param boundaries The boundaries in which to search, keyed by ID.
+   * @param sessionId The ID of this session.
+   */
+  public constructor(
+    private readonly boundaries: ReadonlyMap<number, BoundaryFacility>,
+    private readonly sessionId: number
+  ) { }
+
+  /** @inheritDoc */
+  public searchNearest(lat: number, lon: number, radius: number, maxItems: number): Promise<NearestSearchResults<BoundaryFacility, number>> {
+    const radiusGAR = UnitType.METER.convertTo(radius, UnitType.GA_RADIAN);
+
+    const results: [BoundaryFacility, number][] = [];
+
+    for (const boundary of this.boundaries.values()) {
+      if (this.classMask !== undefined && !BitFlags.isAny(this.classMask, BitFlags.createFlag(boundary.type))) {
+        continue;
+      }
+
+      const distance = InMemoryNearestBoundarySearchSession.distanceToBoundary(boundary, lat, lon);
+      if (distance <= radiusGAR) {
+        results.push([boundary, distance]);
+      }
+    }
+
+    results.sort((a, b) => a[1] - b[1]);
+    results.length = Math.min(results.length, maxItems);
+
+    const added: BoundaryFacility[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const boundary = results[i][0];
+      if (this.cachedResults.has(boundary.id)) {
+        this.cachedResults.delete(boundary.id);
+      } else {
+        added.push(boundary);
+      }
+    }
+
+    const removed = Array.from(this.cachedResults);
+    this.cachedResults.clear();
+    for (let i = 0; i < results.length; i++) {
+      this.cachedResults.add(results[i][0].id);
+    }
+
+    return Promise.resolve({
+      sessionId: this.sessionId,
+      searchId: this.searchId++,
+      added,
+      removed
+    });
+  }
+
+  /**
+   * Sets the filter for the boundary nearest search.
+   * @param classMask A bitmask to determine which boundary classes to show.
+   */
+  public setBoundaryFilter(classMask: number): void {
+    this.classMask = classMask;
+  }
+
+  /**
+   * Gets the approximate distance from a point to a boundary.
+   * @param boundary The boundary.
+   * @param lat The latitude of the point, in degrees.
+   * @param lon The longitude of the point, in degrees.
+   * @returns The approximate distance from the point to the boundary, in great-arc radians. If the point lies within
+   * the boundary's bounding box, then the distance is zero.
+   */
+  private static distanceToBoundary(boundary: BoundaryFacility, lat: number, lon: number): number {
+    if (
+      lat <= boundary.topLeft.lat && lat >= boundary.bottomRight.lat
+      && lon >= boundary.topLeft.long && lon <= boundary.bottomRight.long
+    ) {
+      return 0;
+    }
+
+    let min = Infinity;
+    for (let i = 0; i < boundary.vectors.length; i++) {
+      const vector = boundary.vectors[i];
+      min = Math.min(min, GeoPoint.distance(lat, lon, vector.lat, vector.lon));
+    }
+
+    return min;
+  }
+}
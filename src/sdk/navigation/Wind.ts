@@ -8,4 +8,10 @@ export interface WindEntry {
 
   /** Wind speed */
   speed: number,
-}
\ No newline at end of file
+}
+
+/** Interface for wind entry data at a specific altitude */
+export interface AltitudeWindEntry extends WindEntry {
+  /** The altitude of the entry, in feet */
+  altitude: number,
+}
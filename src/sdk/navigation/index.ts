@@ -1,3 +1,4 @@
+export * from './AiracDatabaseStatusService';
 export * from './AiracUtils';
 export * from './AirportUtils';
 export * from './Airspace';
@@ -16,6 +17,7 @@ export * from './FacilityWeather';
 export * from './HoldUtils';
 export * from './Icao';
 export * from './IcaoUtils';
+export * from './InMemoryFacilityClient';
 export * from './LodBoundary';
 export * from './LodBoundaryCache';
 export * from './NearestContext';
@@ -0,0 +1,596 @@
+import { DataStore } from '../data/DataStore';
+import { EventBus } from '../data/EventBus';
+import { ArraySubject } from '../sub/ArraySubject';
+import { Subject } from '../sub/Subject';
+import { Subscribable } from '../sub/Subscribable';
+import { SubscribableArray } from '../sub/SubscribableArray';
+import { SubscribableUtils } from '../sub/SubscribableUtils';
+import { UserSetting, UserSettingValue } from './UserSetting';
+import { UserSettingSaveManager, UserSettingSaveManagerSettingDef } from './UserSettingSaveManager';
+
+/**
+ * A named user settings profile.
+ */
+export type UserSettingProfile = {
+  /** The unique ID of this profile. */
+  readonly id: string;
+
+  /** The name of this profile. */
+  readonly name: string;
+};
+
+/**
+ * A user settings profile exported by {@link UserSettingProfileManager}.
+ */
+export type UserSettingProfileExport = {
+  /** The version of the export format. */
+  version: number;
+
+  /** The name of the exported profile. */
+  name: string;
+
+  /** The exported setting values, keyed by setting name. */
+  settings: Record<string, UserSettingValue>;
+};
+
+/**
+ * The result of importing a user settings profile.
+ */
+export type UserSettingProfileImportResult = {
+  /** The profile that was created by the import. */
+  profile: UserSettingProfile;
+
+  /** The names of the settings whose values were imported. */
+  imported: string[];
+
+  /** The names of the settings whose values were ignored because they were unknown or invalid. */
+  ignored: string[];
+};
+
+/**
+ * Options for {@link UserSettingProfileManager}.
+ */
+export type UserSettingProfileManagerOptions = {
+  /** The name of the profile that is created if no profiles exist when the manager is initialized. Defaults to `'Default'`. */
+  defaultProfileName?: string;
+};
+
+/**
+ * A UserSettingProfileManager entry for a setting.
+ */
+type UserSettingProfileManagerEntry = {
+  /** A setting. */
+  setting: UserSetting<UserSettingValue>;
+
+  /**
+   * A function that validates a loaded value before it is applied to the setting. Settings that were not given a load
+   * validator use one that replaces values whose type differs from the setting's default value with the default value.
+   */
+  loadValidator: (loadValue: unknown, setting: UserSetting<UserSettingValue>) => UserSettingValue;
+};
+
+/**
+ * Persisted data describing the profiles managed by a {@link UserSettingProfileManager}.
+ */
+type UserSettingProfileIndex = {
+  /** The managed profiles. */
+  profiles: UserSettingProfile[];
+
+  /** The ID of the active profile. */
+  activeId: string;
+
+  /** The numeric ID to assign to the next created profile. */
+  nextId: number;
+};
+
+/**
+ * A manager for named user settings profiles that are persistent across flight sessions. Each profile stores its own
+ * set of values for the manager's settings. Exactly one profile is active at any time, and changes to setting values
+ * are automatically saved to the active profile. Profiles can be created, renamed, copied, deleted, switched, and
+ * exported to and imported from JSON.
+ *
+ * Profiles are saved to Data Store using {@link UserSettingSaveManager}. Only one profile manager should be created
+ * for any given ID.
+ */
+export class UserSettingProfileManager {
+  /** The current version of the profile export format. */
+  public static readonly EXPORT_VERSION = 1;
+
+  private static readonly DATASTORE_PREFIX = 'setting-profiles';
+
+  private readonly entries: UserSettingProfileManagerEntry[];
+  private readonly entriesByName = new Map<string, UserSettingProfileManagerEntry>();
+
+  private readonly saveManager: UserSettingSaveManager;
+
+  private readonly defaultProfileName: string;
+
+  private readonly _profiles = ArraySubject.create<UserSettingProfile>();
+  /** The profiles managed by this manager. */
+  public readonly profiles = this._profiles as SubscribableArray<UserSettingProfile>;
+
+  private readonly _activeProfile = Subject.create<UserSettingProfile | undefined>(undefined);
+  /** The active profile, or `undefined` if this manager has not been initialized. */
+  public readonly activeProfile = this._activeProfile as Subscribable<UserSettingProfile | undefined>;
+
+  private nextId = 0;
+
+  private isAlive = true;
+  private isInit = false;
+
+  /**
+   * Creates a new instance of UserSettingProfileManager.
+   * @param id The ID of this manager. The ID is used to namespace this manager's saved data and must be unique among
+   * all profile managers.
+   * @param settings This manager's managed settings.
+   * @param bus The event bus.
+   * @param options Options with which to configure this manager.
+   */
+  public constructor(
+    public readonly id: string,
+    settings: readonly (UserSetting<UserSettingValue> | UserSettingSaveManagerSettingDef<UserSettingValue>)[],
+    bus: EventBus,
+    options?: Readonly<UserSettingProfileManagerOptions>
+  ) {
+    this.entries = settings.map(settingOrDef => {
+      return SubscribableUtils.isSubscribable(settingOrDef)
+        ? { setting: settingOrDef, loadValidator: UserSettingProfileManager.validateType }
+        : { setting: settingOrDef.setting, loadValidator: settingOrDef.loadValidator ?? UserSettingProfileManager.validateType };
+    });
+
+    for (const entry of this.entries) {
+      this.entriesByName.set(entry.setting.definition.name, entry);
+    }
+
+    this.saveManager = new UserSettingSaveManager(this.entries, bus);
+
+    this.defaultProfileName = options?.defaultProfileName ?? 'Default';
+  }
+
+  /**
+   * Initializes this manager. Restores this manager's saved profiles and loads the saved setting values of the
+   * active profile. If there are no saved profiles, then a default profile is created from the current values of
+   * this manager's settings.
+   * @throws Error if this manager has been destroyed.
+   */
+  public init(): void {
+    if (!this.isAlive) {
+      throw new Error('UserSettingProfileManager: cannot initialize a dead manager');
+    }
+
+    if (this.isInit) {
+      return;
+    }
+
+    this.isInit = true;
+
+    const index = this.loadIndex();
+
+    if (index && index.profiles.length > 0) {
+      this.nextId = index.nextId;
+      this._profiles.set(index.profiles);
+
+      const active = index.profiles.find(profile => profile.id === index.activeId) ?? index.profiles[0];
+      this.activate(active);
+    } else {
+      const profile = this.addProfile(this.defaultProfileName);
+      this.saveManager.save(this.getSaveKey(profile.id));
+      this.activate(profile);
+    }
+  }
+
+  /**
+   * Gets a profile by ID.
+   * @param id The ID of the profile to get.
+   * @returns The profile with the specified ID, or `undefined` if there is no such profile.
+   */
+  public getProfile(id: string): UserSettingProfile | undefined {
+    return this._profiles.getArray().find(profile => profile.id === id);
+  }
+
+  /**
+   * Creates a new profile whose settings are initialized to their default values. The new profile is not activated.
+   * @param name The name of the new profile.
+   * @returns The new profile.
+   * @throws Error if this manager has been destroyed or has not been initialized, or if the name is empty.
+   */
+  public createProfile(name: string): UserSettingProfile {
+    this.assertReady('create profile');
+
+    const profile = this.addProfile(name);
+
+    for (const entry of this.entries) {
+      DataStore.set(UserSettingSaveManager.getDataStoreKey(entry.setting, this.getSaveKey(profile.id)), entry.setting.definition.defaultValue);
+    }
+
+    this.saveIndex();
+
+    return profile;
+  }
+
+  /**
+   * Creates a new profile whose settings are copied from an existing profile. The new profile is not activated.
+   * @param sourceId The ID of the profile to copy.
+   * @param name The name of the new profile.
+   * @returns The new profile.
+   * @throws Error if this manager has been destroyed or has not been initialized, if the source profile does not
+   * exist, or if the name is empty.
+   */
+  public copyProfile(sourceId: string, name: string): UserSettingProfile {
+    this.assertReady('copy profile');
+
+    const values = this.getProfileValues(this.requireProfile(sourceId).id);
+    const profile = this.addProfile(name);
+
+    for (const entry of this.entries) {
+      DataStore.set(UserSettingSaveManager.getDataStoreKey(entry.setting, this.getSaveKey(profile.id)), values[entry.setting.definition.name]);
+    }
+
+    this.saveIndex();
+
+    return profile;
+  }
+
+  /**
+   * Renames a profile.
+   * @param id The ID of the profile to rename.
+   * @param name The new name of the profile.
+   * @throws Error if this manager has been destroyed or has not been initialized, if the profile does not exist, or
+   * if the name is empty.
+   */
+  public renameProfile(id: string, name: string): void {
+    this.assertReady('rename profile');
+
+    const profile = this.requireProfile(id);
+    const renamed = { id: profile.id, name: UserSettingProfileManager.validateName(name) };
+
+    const index = this._profiles.getArray().indexOf(profile);
+    this._profiles.removeAt(index);
+    this._profiles.insert(renamed, index);
+
+    if (this._activeProfile.get() === profile) {
+      this._activeProfile.set(renamed);
+    }
+
+    this.saveIndex();
+  }
+
+  /**
+   * Deletes a profile. If the deleted profile is the active profile, then the first remaining profile is activated.
+   * @param id The ID of the profile to delete.
+   * @throws Error if this manager has been destroyed or has not been initialized, if the profile does not exist, or
+   * if the profile is the only remaining profile.
+   */
+  public deleteProfile(id: string): void {
+    this.assertReady('delete profile');
+
+    const profile = this.requireProfile(id);
+
+    if (this._profiles.length === 1) {
+      throw new Error('UserSettingProfileManager: cannot delete the only remaining profile');
+    }
+
+    this._profiles.removeAt(this._profiles.getArray().indexOf(profile));
+
+    if (this._activeProfile.get() === profile) {
+      this.activate(this._profiles.get(0));
+    }
+
+    for (const entry of this.entries) {
+      DataStore.remove(UserSettingSaveManager.getDataStoreKey(entry.setting, this.getSaveKey(profile.id)));
+    }
+
+    this.saveIndex();
+  }
+
+  /**
+   * Switches the active profile. The saved setting values of the new active profile are applied to this manager's
+   * settings.
+   * @param id The ID of the profile to activate.
+   * @throws Error if this manager has been destroyed or has not been initialized, or if the profile does not exist.
+   */
+  public switchProfile(id: string): void {
+    this.assertReady('switch profile');
+
+    const profile = this.requireProfile(id);
+
+    if (this._activeProfile.get() === profile) {
+      return;
+    }
+
+    this.activate(profile);
+    this.saveIndex();
+  }
+
+  /**
+   * Exports a profile to a JSON string.
+   * @param id The ID of the profile to export.
+   * @returns A JSON string representing the profile.
+   * @throws Error if this manager has been destroyed or has not been initialized, or if the profile does not exist.
+   */
+  public exportProfile(id: string): string {
+    this.assertReady('export profile');
+
+    const profile = this.requireProfile(id);
+
+    const exported: UserSettingProfileExport = {
+      version: UserSettingProfileManager.EXPORT_VERSION,
+      name: profile.name,
+      settings: this.getProfileValues(profile.id)
+    };
+
+    return JSON.stringify(exported);
+  }
+
+  /**
+   * Imports a profile from a JSON string as a new profile. Setting values in the imported profile are validated
+   * against this manager's settings: values for unknown settings, values whose type does not match the type of their
+   * setting, and values rejected by their setting's load validator are ignored. Settings that do not receive an
+   * imported value are initialized to their default values. The new profile is not activated.
+   * @param json A JSON string representing the profile to import.
+   * @param name The name to give the imported profile. Defaults to the name stored in the imported profile.
+   * @returns The result of the import.
+   * @throws Error if this manager has been destroyed or has not been initialized, or if the JSON string does not
+   * represent a valid profile export.
+   */
+  public importProfile(json: string, name?: string): UserSettingProfileImportResult {
+    this.assertReady('import profile');
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch (e) {
+      throw new Error('UserSettingProfileManager: profile import is not valid JSON');
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || typeof parsed.settings !== 'object' || parsed.settings === null) {
+      throw new Error('UserSettingProfileManager: profile import is missing a settings object');
+    }
+
+    if (parsed.version !== UserSettingProfileManager.EXPORT_VERSION) {
+      throw new Error(`UserSettingProfileManager: unsupported profile import version ${parsed.version}`);
+    }
+
+    const profileName = name ?? (typeof parsed.name === 'string' ? parsed.name : '');
+    const values: Record<string, UserSettingValue> = {};
+    const imported: string[] = [];
+    const ignored: string[] = [];
+
+    for (const settingName in parsed.settings) {
+      const entry = this.entriesByName.get(settingName);
+      const value = entry ? UserSettingProfileManager.validateValue(entry, parsed.settings[settingName]) : undefined;
+
+      if (value === undefined) {
+        ignored.push(settingName);
+      } else {
+        values[settingName] = value;
+        imported.push(settingName);
+      }
+    }
+
+    const profile = this.addProfile(profileName);
+
+    for (const entry of this.entries) {
+      DataStore.set(
+        UserSettingSaveManager.getDataStoreKey(entry.setting, this.getSaveKey(profile.id)),
+        values[entry.setting.definition.name] ?? entry.setting.definition.defaultValue
+      );
+    }
+
+    this.saveIndex();
+
+    return { profile, imported, ignored };
+  }
+
+  /**
+   * Destroys this manager. Once destroyed, changes to setting values will no longer be saved, and attempting to
+   * manage profiles will cause an error to be thrown.
+   */
+  public destroy(): void {
+    this.isAlive = false;
+    this.saveManager.destroy();
+  }
+
+  /**
+   * Verifies that this manager is alive and initialized.
+   * @param action A description of the action being attempted.
+   * @throws Error if this manager has been destroyed or has not been initialized.
+   */
+  private assertReady(action: string): void {
+    if (!this.isAlive) {
+      throw new Error(`UserSettingProfileManager: cannot ${action} using a dead manager`);
+    }
+
+    if (!this.isInit) {
+      throw new Error(`UserSettingProfileManager: cannot ${action} before the manager is initialized`);
+    }
+  }
+
+  /**
+   * Gets a profile by ID.
+   * @param id The ID of the profile to get.
+   * @returns The profile with the specified ID.
+   * @throws Error if the profile does not exist.
+   */
+  private requireProfile(id: string): UserSettingProfile {
+    const profile = this.getProfile(id);
+
+    if (!profile) {
+      throw new Error(`UserSettingProfileManager: profile ${id} does not exist`);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Adds a new profile to this manager's list of profiles.
+   * @param name The name of the new profile.
+   * @returns The new profile.
+   * @throws Error if the name is empty.
+   */
+  private addProfile(name: string): UserSettingProfile {
+    const profile = { id: `${this.nextId++}`, name: UserSettingProfileManager.validateName(name) };
+    this._profiles.insert(profile);
+    return profile;
+  }
+
+  /**
+   * Activates a profile, loading its saved setting values and redirecting autosave to it.
+   * @param profile The profile to activate.
+   */
+  private activate(profile: UserSettingProfile): void {
+    const previous = this._activeProfile.get();
+
+    if (previous) {
+      this.saveManager.stopAutoSave(this.getSaveKey(previous.id));
+    }
+
+    this.saveManager.load(this.getSaveKey(profile.id));
+    this.saveManager.startAutoSave(this.getSaveKey(profile.id));
+
+    this._activeProfile.set(profile);
+  }
+
+  /**
+   * Gets the saved setting values of a profile. Settings without a saved value are given their current value if the
+   * profile is active, or their default value otherwise.
+   * @param id The ID of the profile.
+   * @returns The saved setting values of the specified profile, keyed by setting name.
+   */
+  private getProfileValues(id: string): Record<string, UserSettingValue> {
+    const isActive = this._activeProfile.get()?.id === id;
+    const values: Record<string, UserSettingValue> = {};
+
+    for (const entry of this.entries) {
+      const setting = entry.setting;
+
+      if (isActive) {
+        values[setting.definition.name] = setting.get();
+      } else {
+        const storedValue = DataStore.get<UserSettingValue>(UserSettingSaveManager.getDataStoreKey(setting, this.getSaveKey(id)));
+        values[setting.definition.name] = storedValue === undefined ? setting.definition.defaultValue : entry.loadValidator(storedValue, setting);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Loads this manager's persisted profile index from Data Store.
+   * @returns This manager's persisted profile index, or `undefined` if one could not be loaded.
+   */
+  private loadIndex(): UserSettingProfileIndex | undefined {
+    const stored = DataStore.get<string>(this.getIndexKey());
+
+    if (typeof stored !== 'string') {
+      return undefined;
+    }
+
+    try {
+      const index = JSON.parse(stored) as UserSettingProfileIndex;
+
+      if (!Array.isArray(index.profiles) || typeof index.nextId !== 'number') {
+        return undefined;
+      }
+
+      return {
+        profiles: index.profiles.filter(profile => typeof profile.id === 'string' && typeof profile.name === 'string'),
+        activeId: index.activeId,
+        nextId: index.nextId
+      };
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Saves this manager's profile index to Data Store.
+   */
+  private saveIndex(): void {
+    const index: UserSettingProfileIndex = {
+      profiles: this._profiles.getArray().slice(),
+      activeId: this._activeProfile.get()?.id ?? '',
+      nextId: this.nextId
+    };
+
+    DataStore.set(this.getIndexKey(), JSON.stringify(index));
+  }
+
+  /**
+   * Gets the Data Store key under which this manager's profile index is saved.
+   * @returns The Data Store key under which this manager's profile index is saved.
+   */
+  private getIndexKey(): string {
+    return `${UserSettingProfileManager.DATASTORE_PREFIX}.${this.id}.index`;
+  }
+
+  /**
+   * Gets the save key to pass to {@link UserSettingSaveManager} for a profile.
+   * @param profileId The ID of the profile.
+   * @returns The save key for the specified profile.
+   */
+  private getSaveKey(profileId: string): string {
+    return `${UserSettingProfileManager.DATASTORE_PREFIX}.${this.id}.${profileId}`;
+  }
+
+  /**
+   * Validates a profile name.
+   * @param name The name to validate.
+   * @returns The validated name, with leading and trailing whitespace removed.
+   * @throws Error if the name is empty.
+   */
+  private static validateName(name: string): string {
+    const trimmed = name.trim();
+
+    if (trimmed.length === 0) {
+      throw new Error('UserSettingProfileManager: profile name cannot be empty');
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Validates an imported setting value. Values must have the same type as their setting's default value, and the
+   * setting's load validator must accept the value without modifying it.
+   * @param entry The entry for the setting to which the value belongs.
+   * @param value The value to validate.
+   * @returns The validated value, or `undefined` if the value is invalid.
+   */
+  private static validateValue(entry: UserSettingProfileManagerEntry, value: unknown): UserSettingValue | undefined {
+    if (!UserSettingProfileManager.hasDefaultType(entry.setting, value)) {
+      return undefined;
+    }
+
+    try {
+      return entry.loadValidator(value, entry.setting) === value ? value : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * A load validator which accepts values that have the same type as their setting's default value and replaces all
+   * other values with the setting's default value. Used for settings that were not given a load validator.
+   * @param loadValue The loaded value.
+   * @param setting The setting to which the value is to be applied.
+   * @returns The value to apply to the setting.
+   */
+  private static validateType(loadValue: unknown, setting: UserSetting<UserSettingValue>): UserSettingValue {
+    return UserSettingProfileManager.hasDefaultType(setting, loadValue) ? loadValue : setting.definition.defaultValue;
+  }
+
+  /**
+   * Checks whether a value has the same type as a setting's default value. Non-finite numbers are not considered to
+   * have the type of a numeric default value.
+   * @param setting The setting to check against.
+   * @param value The value to check.
+   * @returns Whether the value has the same type as the setting's default value.
+   */
+  private static hasDefaultType(setting: UserSetting<UserSettingValue>, value: unknown): value is UserSettingValue {
+    if (typeof value !== typeof setting.definition.defaultValue) {
+      return false;
+    }
+
+    return typeof value !== 'number' || isFinite(value);
+  }
+}
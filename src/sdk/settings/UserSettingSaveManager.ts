@@ -152,6 +152,8 @@ export class UserSettingSaveManager {
       return;
     }
 
+    this.autoSaveKeys.add(key);
+
     for (let i = 0; i < this.entries.length; i++) {
       const entry = this.entries[i];
       entry.autoSaveDataStoreKeys.push(UserSettingSaveManager.getDataStoreKey(entry.setting, key));
@@ -175,6 +177,8 @@ export class UserSettingSaveManager {
       return;
     }
 
+    this.autoSaveKeys.delete(key);
+
     for (let i = 0; i < this.entries.length; i++) {
       const entry = this.entries[i];
       entry.autoSaveDataStoreKeys.splice(entry.autoSaveDataStoreKeys.indexOf(UserSettingSaveManager.getDataStoreKey(entry.setting, key)), 1);
@@ -195,6 +199,7 @@ export class UserSettingSaveManager {
     }
 
     this.entries.length = 0;
+    this.autoSaveKeys.clear();
     this.isAlive = false;
   }
 
@@ -204,7 +209,7 @@ export class UserSettingSaveManager {
    * @param saveKey The save key.
    * @returns the data store key for the setting and save key.
    */
-  private static getDataStoreKey(setting: UserSetting<any>, saveKey: string): string {
+  public static getDataStoreKey(setting: UserSetting<any>, saveKey: string): string {
     return `${UserSettingSaveManager.DATASTORE_PREFIX}.${saveKey}.${setting.definition.name}`;
   }
 }
@@ -1,3 +1,4 @@
 export * from './AliasedUserSettingManager';
 export * from './UserSetting';
-export * from './UserSettingSaveManager';
\ No newline at end of file
+export * from './UserSettingProfileManager';
+export * from './UserSettingSaveManager';
@@ -0,0 +1,9 @@
+import { APSimEnvironment } from '../../autopilot/simulation/APSimEnvironment';
+
+/**
+ * The stand-in sim environment in which flight path regression cases are run. The environment is installed when this
+ * module is loaded, so this module must be imported before any other SDK module.
+ */
+export const flightPathRegressionEnvironment = new APSimEnvironment();
+
+flightPathRegressionEnvironment.install();
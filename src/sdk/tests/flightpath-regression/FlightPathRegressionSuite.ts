@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventBus } from '../../data/EventBus';
+import { FlightPathCalculatorOptions } from '../../flightplan/flightpath/FlightPathCalculator';
+import { StaticFlightPathCalculatorData } from '../../flightplan/flightpath/StaticFlightPathCalculatorDataProvider';
+import { FlightPathRegressionHarness, FlightPathRegressionMismatch, FlightPathRegressionRecord } from '../../flightplan/FlightPathRegressionHarness';
+import { FlightPlanSnapshot, FlightPlanSnapshotUtils } from '../../flightplan/FlightPlanSnapshot';
+import { InMemoryFacilityClient, InMemoryFacilityDataset } from '../../navigation/InMemoryFacilityClient';
+
+/**
+ * A flight path regression case.
+ */
+export type FlightPathRegressionCase = {
+  /** A description of what the case covers. */
+  description: string;
+
+  /** The facilities referenced by the case's flight plan. */
+  dataset: InMemoryFacilityDataset;
+
+  /**
+   * The flight plan to calculate. Hand-written snapshots may omit any field that
+   * {@link FlightPlanSnapshotUtils.validate} fills in.
+   */
+  snapshot: FlightPlanSnapshot;
+
+  /** The airplane state to use during the calculation. */
+  planeState?: Partial<StaticFlightPathCalculatorData>;
+
+  /** Options for the flight path calculator. Options that are not defined take the regression harness's defaults. */
+  options?: Partial<FlightPathCalculatorOptions>;
+};
+
+/**
+ * Outcomes of running a flight path regression case.
+ */
+export enum FlightPathRegressionCaseStatus {
+  /** The calculated flight path matched the case's golden file. */
+  Passed = 'Passed',
+
+  /** The calculated flight path did not match the case's golden file, or the case could not be run. */
+  Failed = 'Failed',
+
+  /** The case's golden file was written from the calculated flight path. */
+  Updated = 'Updated'
+}
+
+/**
+ * The result of running a flight path regression case.
+ */
+export type FlightPathRegressionCaseResult = {
+  /** The name of the case. */
+  name: string;
+
+  /** The outcome of the case. */
+  status: FlightPathRegressionCaseStatus;
+
+  /** The differences found between the calculated flight path and the case's golden file. */
+  mismatches: FlightPathRegressionMismatch[];
+
+  /** A description of the error that prevented the case from being run, if any. */
+  error?: string;
+};
+
+/**
+ * A suite of flight path regression cases stored as JSON files. Each case file (`<name>.json` in the cases directory)
+ * describes a {@link FlightPathRegressionCase}, and the flight path recorded for the case by a
+ * {@link FlightPathRegressionHarness} is compared against the golden file with the same name in the goldens
+ * directory.
+ *
+ * The suite reads and writes files through Node's `fs` module, and its flight path calculations require the sim's
+ * globals, so it can only be run under Node with an installed `APSimEnvironment`.
+ */
+export class FlightPathRegressionSuite {
+  /**
+   * Creates a new instance of FlightPathRegressionSuite.
+   * @param casesDir The path to the directory containing the case files.
+   * @param goldensDir The path to the directory containing the golden files.
+   */
+  public constructor(public readonly casesDir: string, public readonly goldensDir: string) {
+  }
+
+  /**
+   * Gets the names of the cases in this suite.
+   * @returns The names of the cases in this suite, in alphabetical order.
+   */
+  public getCaseNames(): string[] {
+    return fs.readdirSync(this.casesDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .sort();
+  }
+
+  /**
+   * Runs all cases in this suite.
+   * @param update Whether to write the calculated flight paths to the golden files instead of comparing against them.
+   * @returns A Promise which is fulfilled with the results of all cases, in alphabetical order of case name.
+   */
+  public async run(update = false): Promise<FlightPathRegressionCaseResult[]> {
+    const results: FlightPathRegressionCaseResult[] = [];
+
+    // Cases are run one at a time so that their calculations do not share calculator state.
+    for (const name of this.getCaseNames()) {
+      results.push(await this.runCase(name, update));
+    }
+
+    return results;
+  }
+
+  /**
+   * Runs a single case in this suite.
+   * @param name The name of the case to run.
+   * @param update Whether to write the calculated flight path to the golden file instead of comparing against it.
+   * @returns A Promise which is fulfilled with the result of the case.
+   */
+  public async runCase(name: string, update = false): Promise<FlightPathRegressionCaseResult> {
+    const goldenPath = path.join(this.goldensDir, `${name}.json`);
+
+    try {
+      const testCase = FlightPathRegressionSuite.parseCase(fs.readFileSync(path.join(this.casesDir, `${name}.json`), 'utf8'));
+      const record = await FlightPathRegressionSuite.record(testCase);
+
+      if (update) {
+        fs.writeFileSync(goldenPath, `${FlightPathRegressionHarness.toGolden(record)}\n`);
+        return { name, status: FlightPathRegressionCaseStatus.Updated, mismatches: [] };
+      }
+
+      if (!fs.existsSync(goldenPath)) {
+        return { name, status: FlightPathRegressionCaseStatus.Failed, mismatches: [], error: `missing golden file ${goldenPath}` };
+      }
+
+      const mismatches = FlightPathRegressionHarness.compare(record, FlightPathRegressionHarness.fromGolden(fs.readFileSync(goldenPath, 'utf8')));
+
+      return {
+        name,
+        status: mismatches.length === 0 ? FlightPathRegressionCaseStatus.Passed : FlightPathRegressionCaseStatus.Failed,
+        mismatches
+      };
+    } catch (e) {
+      return { name, status: FlightPathRegressionCaseStatus.Failed, mismatches: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+
+  /**
+   * Calculates and records the flight path for a case.
+   * @param testCase The case for which to record the flight path.
+   * @returns A Promise which is fulfilled with the recorded flight path.
+   */
+  public static record(testCase: Readonly<FlightPathRegressionCase>): Promise<FlightPathRegressionRecord> {
+    const harness = new FlightPathRegressionHarness(new InMemoryFacilityClient(testCase.dataset), new EventBus(), testCase.options);
+    return harness.run(testCase.snapshot, testCase.planeState);
+  }
+
+  /**
+   * Parses a case from a case file JSON string.
+   * @param json The JSON string to parse.
+   * @returns The parsed case.
+   * @throws Error if the string does not describe a valid case.
+   */
+  public static parseCase(json: string): FlightPathRegressionCase {
+    const testCase = JSON.parse(json);
+
+    if (typeof testCase?.description !== 'string') {
+      throw new Error('FlightPathRegressionSuite: case does not define a description');
+    }
+
+    if (!Array.isArray(testCase.dataset?.facilities)) {
+      throw new Error('FlightPathRegressionSuite: case does not define a facility dataset');
+    }
+
+    return {
+      description: testCase.description,
+      dataset: testCase.dataset,
+      snapshot: FlightPlanSnapshotUtils.validate(testCase.snapshot),
+      planeState: testCase.planeState,
+      options: testCase.options
+    };
+  }
+}
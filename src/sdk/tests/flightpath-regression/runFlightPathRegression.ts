@@ -0,0 +1,57 @@
+// The regression environment must be imported first so that it is installed before any other SDK module is loaded.
+import './FlightPathRegressionEnvironment';
+
+import * as path from 'path';
+import { FlightPathRegressionCaseResult, FlightPathRegressionCaseStatus, FlightPathRegressionSuite } from './FlightPathRegressionSuite';
+
+/**
+ * Runs the flight path regression suite in this directory and reports the results. Run from the SDK root with:
+ *
+ * `npx ts-node -P tests/flightpath-regression/tsconfig.json tests/flightpath-regression/runFlightPathRegression.ts [--update] [case...]`
+ *
+ * If `--update` is passed, then the golden files are rewritten from the calculated flight paths instead of being
+ * compared against them. If case names are passed, then only those cases are run. The process exits with a non-zero
+ * code if any case fails.
+ */
+async function runFlightPathRegression(): Promise<void> {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const names = args.filter(arg => !arg.startsWith('--'));
+
+  const suite = new FlightPathRegressionSuite(path.join(__dirname, 'cases'), path.join(__dirname, 'goldens'));
+
+  let results: FlightPathRegressionCaseResult[];
+  if (names.length === 0) {
+    results = await suite.run(update);
+  } else {
+    results = [];
+    for (const name of names) {
+      results.push(await suite.runCase(name, update));
+    }
+  }
+
+  let failedCount = 0;
+
+  for (const result of results) {
+    console.log(`${result.status.toUpperCase()} ${result.name}`);
+
+    if (result.error !== undefined) {
+      console.log(`  ${result.error}`);
+    }
+
+    for (const m of result.mismatches) {
+      const location = m.section === null ? `leg ${m.legIndex}` : `leg ${m.legIndex} ${m.section}[${m.vectorIndex}]`;
+      console.log(`  ${location} ${m.field}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`);
+    }
+
+    if (result.status === FlightPathRegressionCaseStatus.Failed) {
+      failedCount++;
+    }
+  }
+
+  console.log(`${results.length - failedCount} of ${results.length} flight path regression cases ${update ? 'updated' : 'passed'}`);
+
+  process.exitCode = failedCount > 0 ? 1 : 0;
+}
+
+runFlightPathRegression();
@@ -1,12 +1,13 @@
 import { EventBus } from '../../data';
 import { FlightPlan, FlightPlanner, LegDefinition, LegDefinitionFlags } from '../../flightplan';
-import { GeoPoint } from '../../geo';
+import { GeoPoint, MagVar } from '../../geo';
 import { BitFlags, UnitType } from '../../math';
-import { AirportFacility, Facility, FacilityType, ICAO, LegType } from '../../navigation';
+import { AirportFacility, AltitudeRestrictionType, Facility, FacilityType, ICAO, LegType, WindEntry } from '../../navigation';
 import { Subscribable } from '../../sub';
 import { FlightPlanPredictorConfiguration } from './FlightPlanPredictorConfiguration';
 import { FlightPlanPredictorStore } from './FlightPlanPredictorStore';
 import { FlightPlanPredictorUtils } from './FlightPlanPredictorUtils';
+import { FlightPlanWindModel } from './FlightPlanWindModel';
 import { ActiveOrUpcomingLegPredictions, LegPredictions, PassedLegPredictions } from './LegPredictions';
 
 /**
@@ -21,6 +22,17 @@ export class FlightPlanPredictor {
 
   private readonly store: FlightPlanPredictorStore;
 
+  private readonly windCache: WindEntry = { direction: 0, trueDegrees: true, speed: 0 };
+
+  /** Distance, in nautical miles, up to which wind-corrected predictions have been accumulated during the current update */
+  private windPredictedDistance = 0;
+
+  /** Time, in seconds, accumulated by wind-corrected predictions during the current update */
+  private windPredictedTime = 0;
+
+  /** Altitude, in feet, used for the most recent wind lookup during the current update */
+  private windAltitude = 0;
+
   /**
    * Ctor
    *
@@ -102,6 +114,8 @@ export class FlightPlanPredictor {
       return;
     }
 
+    this.resetWindPredictions();
+
     // Update all legs
 
     let accumulatedDistance = this.store.lnavDtg.get();
@@ -145,7 +159,7 @@ export class FlightPlanPredictor {
         } else if (isActiveLeg) {
           this.updateActiveLeg(oldPredictions as ActiveOrUpcomingLegPredictions);
         } else {
-          this.updateUpcomingLeg(oldPredictions as ActiveOrUpcomingLegPredictions, leg, accumulatedDistance);
+          this.updateUpcomingLeg(oldPredictions as ActiveOrUpcomingLegPredictions, leg, i, accumulatedDistance);
         }
 
         if (isActiveLeg || isUpcomingLeg) {
@@ -159,7 +173,7 @@ export class FlightPlanPredictor {
         } else if (isActiveLeg) {
           this.updateActiveLeg(newPredictions as ActiveOrUpcomingLegPredictions);
         } else {
-          this.updateUpcomingLeg(newPredictions as ActiveOrUpcomingLegPredictions, leg, accumulatedDistance);
+          this.updateUpcomingLeg(newPredictions as ActiveOrUpcomingLegPredictions, leg, i, accumulatedDistance);
         }
 
         if (isActiveLeg || isUpcomingLeg) {
@@ -585,6 +599,15 @@ export class FlightPlanPredictor {
     targetObject.distance = distance;
 
     this.predictForDistance(targetObject, distance);
+
+    if (this.isWindModelActive()) {
+      // The current ground speed already accounts for the wind on the active leg
+      this.windPredictedDistance = distance;
+      this.windPredictedTime = FlightPlanPredictorUtils.predictTime(this.currentGs(), distance);
+      targetObject.groundSpeed = this.currentGs();
+    } else {
+      delete targetObject.groundSpeed;
+    }
   }
 
   /**
@@ -592,9 +615,10 @@ export class FlightPlanPredictor {
    *
    * @param targetObject        the object to apply the predictions to
    * @param leg                 the leg
+   * @param legIndex            the global index of the leg
    * @param accumulatedDistance accumulated distance in previous predictions before this leg
    */
-  private updateUpcomingLeg(targetObject: ActiveOrUpcomingLegPredictions, leg: LegDefinition, accumulatedDistance: number): void {
+  private updateUpcomingLeg(targetObject: ActiveOrUpcomingLegPredictions, leg: LegDefinition, legIndex: number, accumulatedDistance: number): void {
     if (!leg.calculated) {
       return;
     }
@@ -607,7 +631,18 @@ export class FlightPlanPredictor {
     targetObject.ident = leg.name ?? 'n/a';
     targetObject.distance = distance;
 
-    this.predictForDistance(targetObject, distance);
+    if (this.isWindModelActive()) {
+      const groundSpeed = this.predictLegGroundSpeed(leg, legIndex);
+
+      this.windPredictedTime += FlightPlanPredictorUtils.predictTime(groundSpeed, Math.max(0, distance - this.windPredictedDistance));
+      this.windPredictedDistance = distance;
+
+      targetObject.groundSpeed = groundSpeed;
+      this.predictForTime(targetObject, this.windPredictedTime);
+    } else {
+      delete targetObject.groundSpeed;
+      this.predictForDistance(targetObject, distance);
+    }
   }
 
   /**
@@ -630,6 +665,105 @@ export class FlightPlanPredictor {
     targetObject.fob = fob;
   }
 
+  /**
+   * Predicts performance over a time duration
+   *
+   * @param targetObject the object to apply the predictions to
+   * @param time         the time duration flown, in seconds
+   */
+  private predictForTime(targetObject: Omit<ActiveOrUpcomingLegPredictions, 'kind' | 'distance'>, time: number): void {
+    const unixSeconds = UnitType.MILLISECOND.convertTo(this.store.unixSimTime.get(), UnitType.SECOND);
+    const utcSeconds = unixSeconds % (3600 * 24);
+    const fob = Math.max(0,
+      this.currentFuelWeight() - FlightPlanPredictorUtils.predictFuelUsageForTime(time, this.store.fuelFlow.get(), this.store.fuelWeight.get()));
+
+    targetObject.estimatedTimeEnroute = time;
+    targetObject.estimatedTimeOfArrival = utcSeconds + time;
+    targetObject.fob = fob;
+  }
+
+  /**
+   * Whether wind-corrected predictions can be made
+   *
+   * @returns boolean
+   */
+  private isWindModelActive(): boolean {
+    return !!this.config.windModel?.hasWinds() && this.store.trueAirspeed.get() > 0;
+  }
+
+  /**
+   * Resets the wind-corrected prediction accumulators in preparation for an update
+   */
+  private resetWindPredictions(): void {
+    this.windPredictedDistance = 0;
+    this.windPredictedTime = 0;
+    this.windAltitude = this.config.windModel?.cruiseAltitude ?? this.store.altitude.get();
+  }
+
+  /**
+   * Predicts the wind-corrected ground speed on a leg. Legs flown in the descent use the leg's altitude constraint,
+   * if any, or else the altitude of the previous descent leg. All other legs use the planned cruise altitude, if
+   * known, or else the current altitude.
+   *
+   * @param leg      the leg
+   * @param legIndex the global index of the leg
+   *
+   * @returns knots
+   */
+  private predictLegGroundSpeed(leg: LegDefinition, legIndex: number): number {
+    const windModel = this.config.windModel as FlightPlanWindModel;
+
+    let altitude: number;
+    if (windModel.isDescentLeg(this.plan, leg)) {
+      if (leg.verticalData.altDesc !== AltitudeRestrictionType.Unused && leg.verticalData.altitude1 > 0) {
+        this.windAltitude = UnitType.METER.convertTo(leg.verticalData.altitude1, UnitType.FOOT);
+      }
+
+      altitude = this.windAltitude;
+    } else {
+      altitude = windModel.cruiseAltitude ?? this.store.altitude.get();
+    }
+
+    const course = this.getLegTrueCourse(leg);
+    const wind = windModel.getWind(this.plan, legIndex, altitude, this.windCache);
+
+    if (wind === null || isNaN(course)) {
+      return this.currentGs();
+    }
+
+    const groundSpeed = FlightPlanPredictorUtils.predictGroundSpeed(course, this.store.trueAirspeed.get(), wind.direction, wind.speed);
+
+    return isFinite(groundSpeed) ? Math.max(this.config.minimumPredictionsGroundSpeed, groundSpeed) : this.currentGs();
+  }
+
+  /**
+   * Obtains the true course of a leg
+   *
+   * @param leg the leg
+   *
+   * @returns degrees true, or NaN if the course cannot be determined
+   */
+  private getLegTrueCourse(leg: LegDefinition): number {
+    const calc = leg.calculated;
+
+    if (!calc) {
+      return NaN;
+    }
+
+    if (
+      calc.startLat !== undefined && calc.startLon !== undefined && calc.endLat !== undefined && calc.endLon !== undefined
+      && (calc.startLat !== calc.endLat || calc.startLon !== calc.endLon)
+    ) {
+      return GeoPoint.initialBearing(calc.startLat, calc.startLon, calc.endLat, calc.endLon);
+    }
+
+    if (calc.initialDtk !== undefined) {
+      return MagVar.magneticToTrue(calc.initialDtk, calc.courseMagVar);
+    }
+
+    return NaN;
+  }
+
   /**
    * Obtains current GS with a minimum of 150
    *
@@ -1,3 +1,5 @@
+import { FlightPlanWindModel } from './FlightPlanWindModel';
+
 /**
  * Configuration object for flight plan predictor
  */
@@ -18,4 +20,10 @@ export interface FlightPlanPredictorConfiguration {
    */
   considerTurnAsLegTermination: boolean,
 
+  /**
+   * Forecast wind model used to make wind-corrected predictions for upcoming legs. If not defined, or if the model
+   * contains no winds, predictions for upcoming legs use the current ground speed.
+   */
+  windModel?: FlightPlanWindModel,
+
 }
\ No newline at end of file
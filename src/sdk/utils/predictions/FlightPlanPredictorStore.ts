@@ -14,6 +14,11 @@ export class FlightPlanPredictorStore {
 
   public readonly groundSpeed = ConsumerSubject.create(null, 150);
 
+  /**
+   * True airspeed in knots
+   */
+  public readonly trueAirspeed = ConsumerSubject.create(null, 0);
+
   public readonly altitude = ConsumerSubject.create(null, -1);
 
   /**
@@ -51,6 +56,7 @@ export class FlightPlanPredictorStore {
 
     this.ppos.setConsumer(sub.on('gps-position').atFrequency(1));
     this.groundSpeed.setConsumer(sub.on('ground_speed'));
+    this.trueAirspeed.setConsumer(sub.on('tas'));
     this.altitude.setConsumer(sub.on('pressure_alt'));
     this.fuelFlow.setConsumer(sub.on('fuel_flow_total'));
     this.fuelTotalQuantity.setConsumer(sub.on('fuel_total'));
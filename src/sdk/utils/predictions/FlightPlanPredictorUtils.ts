@@ -1,3 +1,4 @@
+import { NavMath } from '../../geo';
 import { UnitType } from '../../math';
 
 /**
@@ -39,4 +40,34 @@ export class FlightPlanPredictorUtils {
     return fuelVolumeUsed * fuelWeight;
   }
 
+  /**
+   * Predicts fuel usage over a time duration with a fuel flow and weight
+   *
+   * @param time       the time duration in seconds
+   * @param fuelFlow   the total fuel flow in gallons per hour
+   * @param fuelWeight the fuel weight in pounds per gallon
+   *
+   * @returns the predicted fuel usage in pounds
+   */
+  public static predictFuelUsageForTime(time: number, fuelFlow: number, fuelWeight: number): number {
+    return UnitType.SECOND.convertTo(time, UnitType.HOUR) * fuelFlow * fuelWeight;
+  }
+
+  /**
+   * Predicts ground speed along a course with a true airspeed and wind
+   *
+   * @param course        the true course in degrees
+   * @param tas           the true airspeed in knots
+   * @param windDirection the direction from which the wind is blowing, in degrees true
+   * @param windSpeed     the wind speed in knots
+   *
+   * @returns the predicted ground speed in knots, or NaN if the crosswind component exceeds the true airspeed
+   */
+  public static predictGroundSpeed(course: number, tas: number, windDirection: number, windSpeed: number): number {
+    const wca = NavMath.windCorrectionAngle(course, tas, windDirection, windSpeed);
+    const headwind = windSpeed * Math.cos((windDirection - course) * Avionics.Utils.DEG2RAD);
+
+    return tas * Math.cos(wca * Avionics.Utils.DEG2RAD) - headwind;
+  }
+
 }
\ No newline at end of file
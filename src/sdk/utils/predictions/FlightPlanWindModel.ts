@@ -0,0 +1,337 @@
+import { FlightPlan, FlightPlanSegmentType, LegDefinition } from '../../flightplan';
+import { MagVar } from '../../geo';
+import { MathUtils } from '../../math';
+import { AltitudeWindEntry, WindEntry } from '../../navigation';
+
+/**
+ * A model of forecast winds along a flight plan, used by {@link FlightPlanPredictor} to make wind-corrected
+ * predictions.
+ *
+ * The model contains two sets of data: cruise winds and descent winds. Cruise winds are entered per flight plan leg,
+ * with any number of entries per leg at different altitudes. Descent winds are a single table of entries at different
+ * altitudes which applies to all legs in the arrival, approach, and destination segments of a flight plan.
+ *
+ * Winds at a given altitude are interpolated linearly between the bracketing entries. Cruise winds for legs without
+ * entries are interpolated linearly by along-track distance between the nearest preceding and following legs with
+ * entries. All interpolation is performed on wind vectors rather than on direction and speed separately.
+ */
+export class FlightPlanWindModel {
+  private static readonly DESCENT_SEGMENT_TYPES = [FlightPlanSegmentType.Arrival, FlightPlanSegmentType.Approach, FlightPlanSegmentType.Destination];
+
+  private static readonly vec2Cache = [new Float64Array(2), new Float64Array(2)];
+  private static readonly altitudeWindCache = [{ direction: 0, trueDegrees: true, speed: 0 }, { direction: 0, trueDegrees: true, speed: 0 }];
+  private static readonly legWindCache = [{ direction: 0, trueDegrees: true, speed: 0 }, { direction: 0, trueDegrees: true, speed: 0 }];
+
+  private readonly cruiseWinds = new Map<LegDefinition, AltitudeWindEntry[]>();
+  private descentWinds: AltitudeWindEntry[] = [];
+
+  /** The planned cruise altitude, in feet, or `undefined` if the cruise altitude is not known. */
+  public cruiseAltitude: number | undefined = undefined;
+
+  /**
+   * Sets the cruise wind entries for a flight plan leg, replacing any existing entries for the leg.
+   * @param leg The leg for which to set entries.
+   * @param entries The wind entries to set. If the array is empty, then all entries for the leg are removed.
+   */
+  public setCruiseWinds(leg: LegDefinition, entries: readonly AltitudeWindEntry[]): void {
+    if (entries.length === 0) {
+      this.cruiseWinds.delete(leg);
+    } else {
+      this.cruiseWinds.set(leg, FlightPlanWindModel.sortEntries(entries));
+    }
+  }
+
+  /**
+   * Gets the cruise wind entries for a flight plan leg.
+   * @param leg The leg for which to get entries.
+   * @returns The cruise wind entries for the specified leg, ordered by increasing altitude.
+   */
+  public getCruiseWinds(leg: LegDefinition): readonly AltitudeWindEntry[] {
+    return this.cruiseWinds.get(leg) ?? [];
+  }
+
+  /**
+   * Checks whether a flight plan leg has cruise wind entries.
+   * @param leg The leg to check.
+   * @returns Whether the specified leg has cruise wind entries.
+   */
+  public hasCruiseWinds(leg: LegDefinition): boolean {
+    return this.cruiseWinds.has(leg);
+  }
+
+  /**
+   * Sets the descent wind table, replacing the existing table.
+   * @param entries The wind entries to set.
+   */
+  public setDescentWinds(entries: readonly AltitudeWindEntry[]): void {
+    this.descentWinds = FlightPlanWindModel.sortEntries(entries);
+  }
+
+  /**
+   * Gets the descent wind table.
+   * @returns The descent wind entries, ordered by increasing altitude.
+   */
+  public getDescentWinds(): readonly AltitudeWindEntry[] {
+    return this.descentWinds;
+  }
+
+  /**
+   * Removes all cruise and descent wind entries from this model.
+   */
+  public clear(): void {
+    this.cruiseWinds.clear();
+    this.descentWinds = [];
+  }
+
+  /**
+   * Checks whether this model contains any wind entries.
+   * @returns Whether this model contains any wind entries.
+   */
+  public hasWinds(): boolean {
+    return this.cruiseWinds.size > 0 || this.descentWinds.length > 0;
+  }
+
+  /**
+   * Checks whether a flight plan leg is flown in the descent according to this model. Legs in the arrival, approach,
+   * and destination segments of a flight plan are considered to be flown in the descent.
+   * @param plan The flight plan containing the leg.
+   * @param leg The leg to check.
+   * @returns Whether the specified leg is flown in the descent.
+   */
+  public isDescentLeg(plan: FlightPlan, leg: LegDefinition): boolean {
+    const segment = plan.getSegmentFromLeg(leg);
+    return segment !== null && FlightPlanWindModel.DESCENT_SEGMENT_TYPES.includes(segment.segmentType);
+  }
+
+  /**
+   * Gets the forecast wind for a flight plan leg at an altitude. Legs flown in the descent use the descent wind table,
+   * and all other legs use cruise winds. If the descent wind table is empty, descent legs fall back to cruise winds.
+   * @param plan The flight plan containing the leg.
+   * @param legIndex The global index of the leg.
+   * @param altitude The altitude, in feet.
+   * @param out The object to which to write the result.
+   * @returns The forecast wind for the specified leg and altitude, with direction in degrees true, or `null` if no
+   * wind could be determined.
+   */
+  public getWind(plan: FlightPlan, legIndex: number, altitude: number, out: WindEntry): WindEntry | null {
+    const leg = plan.tryGetLeg(legIndex);
+    if (!leg) {
+      return null;
+    }
+
+    if (this.descentWinds.length > 0 && this.isDescentLeg(plan, leg)) {
+      return this.getDescentWind(altitude, leg, out);
+    }
+
+    return this.getCruiseWind(plan, legIndex, altitude, out);
+  }
+
+  /**
+   * Gets the forecast descent wind at an altitude.
+   * @param altitude The altitude, in feet.
+   * @param leg The leg at which the wind is requested, used to convert magnetic directions to true. If not defined,
+   * magnetic directions are left unconverted.
+   * @param out The object to which to write the result.
+   * @returns The forecast descent wind at the specified altitude, with direction in degrees true, or `null` if the
+   * descent wind table is empty.
+   */
+  public getDescentWind(altitude: number, leg: LegDefinition | undefined, out: WindEntry): WindEntry | null {
+    return FlightPlanWindModel.interpolateAltitude(this.descentWinds, altitude, leg, out);
+  }
+
+  /**
+   * Gets the forecast cruise wind for a flight plan leg at an altitude.
+   * @param plan The flight plan containing the leg.
+   * @param legIndex The global index of the leg.
+   * @param altitude The altitude, in feet.
+   * @param out The object to which to write the result.
+   * @returns The forecast cruise wind for the specified leg and altitude, with direction in degrees true, or `null` if
+   * no leg in the flight plan has cruise wind entries.
+   */
+  public getCruiseWind(plan: FlightPlan, legIndex: number, altitude: number, out: WindEntry): WindEntry | null {
+    if (this.cruiseWinds.size === 0) {
+      return null;
+    }
+
+    const leg = plan.tryGetLeg(legIndex);
+    if (!leg) {
+      return null;
+    }
+
+    const entries = this.cruiseWinds.get(leg);
+    if (entries) {
+      return FlightPlanWindModel.interpolateAltitude(entries, altitude, leg, out);
+    }
+
+    let prevIndex = -1;
+    for (let i = legIndex - 1; i >= 0; i--) {
+      if (this.cruiseWinds.has(plan.getLeg(i))) {
+        prevIndex = i;
+        break;
+      }
+    }
+
+    let nextIndex = -1;
+    for (let i = legIndex + 1; i < plan.length; i++) {
+      if (this.cruiseWinds.has(plan.getLeg(i))) {
+        nextIndex = i;
+        break;
+      }
+    }
+
+    if (prevIndex < 0 && nextIndex < 0) {
+      return null;
+    }
+
+    if (prevIndex < 0 || nextIndex < 0) {
+      const nearest = plan.getLeg(prevIndex < 0 ? nextIndex : prevIndex);
+      return FlightPlanWindModel.interpolateAltitude(this.cruiseWinds.get(nearest) as AltitudeWindEntry[], altitude, nearest, out);
+    }
+
+    const prevLeg = plan.getLeg(prevIndex);
+    const nextLeg = plan.getLeg(nextIndex);
+
+    const prevWind = FlightPlanWindModel.interpolateAltitude(
+      this.cruiseWinds.get(prevLeg) as AltitudeWindEntry[], altitude, prevLeg, FlightPlanWindModel.legWindCache[0]
+    ) as WindEntry;
+    const nextWind = FlightPlanWindModel.interpolateAltitude(
+      this.cruiseWinds.get(nextLeg) as AltitudeWindEntry[], altitude, nextLeg, FlightPlanWindModel.legWindCache[1]
+    ) as WindEntry;
+
+    const prevDistance = prevLeg.calculated?.cumulativeDistanceWithTransitions;
+    const nextDistance = nextLeg.calculated?.cumulativeDistanceWithTransitions;
+    const distance = leg.calculated?.cumulativeDistanceWithTransitions;
+
+    let fraction: number;
+    if (prevDistance === undefined || nextDistance === undefined || distance === undefined || nextDistance <= prevDistance) {
+      fraction = (legIndex - prevIndex) / (nextIndex - prevIndex);
+    } else {
+      fraction = MathUtils.clamp((distance - prevDistance) / (nextDistance - prevDistance), 0, 1);
+    }
+
+    return FlightPlanWindModel.lerpWind(prevWind, nextWind, fraction, out);
+  }
+
+  /**
+   * Interpolates a wind at an altitude from a set of entries. The wind at altitudes outside the range of the entries
+   * is equal to the wind of the nearest entry.
+   * @param entries The wind entries, ordered by increasing altitude.
+   * @param altitude The altitude, in feet.
+   * @param leg The leg at which the wind is requested, used to convert magnetic directions to true. If not defined,
+   * magnetic directions are left unconverted.
+   * @param out The object to which to write the result.
+   * @returns The interpolated wind, with direction in degrees true, or `null` if there are no entries.
+   */
+  public static interpolateAltitude(entries: readonly AltitudeWindEntry[], altitude: number, leg: LegDefinition | undefined, out: WindEntry): WindEntry | null {
+    if (entries.length === 0) {
+      return null;
+    }
+
+    let upperIndex = entries.findIndex(entry => entry.altitude >= altitude);
+    if (upperIndex < 0) {
+      upperIndex = entries.length - 1;
+    }
+
+    const upper = FlightPlanWindModel.toTrue(entries[upperIndex], leg, FlightPlanWindModel.altitudeWindCache[0]);
+
+    if (upperIndex === 0 || entries[upperIndex].altitude <= altitude) {
+      return FlightPlanWindModel.copyWind(upper, out);
+    }
+
+    const lowerEntry = entries[upperIndex - 1];
+    const lower = FlightPlanWindModel.toTrue(lowerEntry, leg, FlightPlanWindModel.altitudeWindCache[1]);
+    const fraction = (altitude - lowerEntry.altitude) / (entries[upperIndex].altitude - lowerEntry.altitude);
+
+    return FlightPlanWindModel.lerpWind(lower, upper, fraction, out);
+  }
+
+  /**
+   * Calculates the headwind component of a wind along a course.
+   * @param wind The wind, with direction in degrees true.
+   * @param course The true course, in degrees.
+   * @returns The headwind component of the wind, in the same units as the wind's speed. Negative values indicate a
+   * tailwind.
+   */
+  public static getHeadwind(wind: Readonly<WindEntry>, course: number): number {
+    return wind.speed * Math.cos((wind.direction - course) * Avionics.Utils.DEG2RAD);
+  }
+
+  /**
+   * Converts a wind entry to one with direction in degrees true.
+   * @param entry The entry to convert.
+   * @param leg The leg at which the wind applies.
+   * @param out The object to which to write the result.
+   * @returns The converted wind.
+   */
+  private static toTrue(entry: Readonly<WindEntry>, leg: LegDefinition | undefined, out: WindEntry): WindEntry {
+    out.speed = entry.speed;
+    out.trueDegrees = true;
+
+    const lat = leg?.calculated?.endLat;
+    const lon = leg?.calculated?.endLon;
+    if (!entry.trueDegrees && lat !== undefined && lon !== undefined) {
+      out.direction = MagVar.magneticToTrue(entry.direction, lat, lon);
+    } else {
+      out.direction = entry.direction;
+    }
+
+    return out;
+  }
+
+  /**
+   * Linearly interpolates between two winds by their vectors.
+   * @param a The first wind, with direction in degrees true.
+   * @param b The second wind, with direction in degrees true.
+   * @param fraction The interpolation fraction, where `0` is equal to the first wind and `1` to the second.
+   * @param out The object to which to write the result.
+   * @returns The interpolated wind.
+   */
+  private static lerpWind(a: Readonly<WindEntry>, b: Readonly<WindEntry>, fraction: number, out: WindEntry): WindEntry {
+    const va = FlightPlanWindModel.toVector(a, FlightPlanWindModel.vec2Cache[0]);
+    const vb = FlightPlanWindModel.toVector(b, FlightPlanWindModel.vec2Cache[1]);
+
+    const north = MathUtils.lerp(fraction, 0, 1, va[0], vb[0]);
+    const east = MathUtils.lerp(fraction, 0, 1, va[1], vb[1]);
+
+    out.speed = Math.hypot(north, east);
+    out.direction = out.speed === 0 ? 0 : MathUtils.normalizeAngleDeg(Math.atan2(east, north) * Avionics.Utils.RAD2DEG);
+    out.trueDegrees = true;
+
+    return out;
+  }
+
+  /**
+   * Converts a wind to a vector pointing in the direction from which the wind is blowing.
+   * @param wind The wind, with direction in degrees true.
+   * @param out The vector to which to write the result.
+   * @returns The wind vector, as `[north, east]`.
+   */
+  private static toVector(wind: Readonly<WindEntry>, out: Float64Array): Float64Array {
+    const rad = wind.direction * Avionics.Utils.DEG2RAD;
+    out[0] = wind.speed * Math.cos(rad);
+    out[1] = wind.speed * Math.sin(rad);
+    return out;
+  }
+
+  /**
+   * Copies a wind.
+   * @param wind The wind to copy.
+   * @param out The object to which to write the copy.
+   * @returns The copy.
+   */
+  private static copyWind(wind: Readonly<WindEntry>, out: WindEntry): WindEntry {
+    out.direction = wind.direction;
+    out.trueDegrees = wind.trueDegrees;
+    out.speed = wind.speed;
+    return out;
+  }
+
+  /**
+   * Creates a copy of an array of wind entries ordered by increasing altitude.
+   * @param entries The entries to copy.
+   * @returns A copy of the entries, ordered by increasing altitude.
+   */
+  private static sortEntries(entries: readonly AltitudeWindEntry[]): AltitudeWindEntry[] {
+    return entries.map(entry => ({ ...entry })).sort((a, b) => a.altitude - b.altitude);
+  }
+}
@@ -66,6 +66,11 @@ export interface PassedLegPredictions extends BaseLegPredictions {
 export interface ActiveOrUpcomingLegPredictions extends BaseLegPredictions {
   /** @inheritDoc */
   kind: 'activeOrUpcoming',
+
+  /**
+   * Predicted ground speed on the leg, in knots. Only defined when wind-corrected predictions are available.
+   */
+  groundSpeed?: number,
 }
 
 /**
@@ -0,0 +1,382 @@
+import { ConsumerValue, EventBus, Publisher } from '../../data';
+import { LegDefinition } from '../../flightplan';
+import { AdcEvents, ClockEvents } from '../../instruments';
+import { MathUtils, UnitType } from '../../math';
+import { Accessible, Value } from '../../sub';
+import { AbstractAutothrottle } from '../../autothrottle/AbstractAutothrottle';
+import { AutothrottleEvents } from '../../autothrottle/Autothrottle';
+import { FlightPlanPredictor } from './FlightPlanPredictor';
+
+/**
+ * Statuses of a required time of arrival.
+ */
+export enum RtaStatus {
+  /** No required time of arrival is active. */
+  Inactive = 'Inactive',
+
+  /** The required time of arrival can be met within the airplane's speed limits. */
+  Achievable = 'Achievable',
+
+  /** The airplane will arrive before the required time of arrival window even when flying at its minimum speed. */
+  UnableEarly = 'UnableEarly',
+
+  /** The airplane will arrive after the required time of arrival window even when flying at its maximum speed. */
+  UnableLate = 'UnableLate'
+}
+
+/**
+ * A required time of arrival at a flight plan fix.
+ */
+export interface RequiredTimeOfArrival {
+  /** The flight plan leg terminating at the fix. */
+  readonly leg: LegDefinition;
+
+  /** The earliest time of arrival at the fix, in UTC seconds from midnight. */
+  readonly earliestTime: number;
+
+  /** The latest time of arrival at the fix, in UTC seconds from midnight. */
+  readonly latestTime: number;
+}
+
+/**
+ * Events published by {@link RtaService}.
+ */
+export interface RtaEvents {
+  /** The status of the active required time of arrival. */
+  rta_status: RtaStatus;
+
+  /** The indicated airspeed target, in knots, required to meet the active required time of arrival, or `null` if there is no target. */
+  rta_speed_target_ias: number | null;
+
+  /** The mach target required to meet the active required time of arrival, or `null` if there is no target. */
+  rta_speed_target_mach: number | null;
+
+  /** Whether the speed target required to meet the active required time of arrival is a mach number. */
+  rta_speed_target_is_mach: boolean;
+
+  /**
+   * The predicted difference between the time of arrival at the required time of arrival fix when flying the speed
+   * target and the nearest boundary of the required time of arrival window, in seconds, or `null` if there is no
+   * active required time of arrival. Positive values indicate a late arrival. The value is zero when the predicted time
+   * of arrival is within the window.
+   */
+  rta_time_error: number | null;
+}
+
+/**
+ * Options for {@link RtaService}.
+ */
+export type RtaServiceOptions = {
+  /** The minimum speed target, in knots indicated airspeed. */
+  minIas: number | Accessible<number>;
+
+  /** The maximum speed target, in knots indicated airspeed. */
+  maxIas: number | Accessible<number>;
+
+  /** The minimum speed target, as a mach number. If not defined, then the minimum speed target is limited by indicated airspeed only. */
+  minMach?: number | Accessible<number>;
+
+  /** The maximum speed target, as a mach number. If not defined, then the maximum speed target is limited by indicated airspeed only. */
+  maxMach?: number | Accessible<number>;
+
+  /**
+   * The pressure altitude, in feet, at and above which the speed target is expressed as a mach number. Defaults to
+   * `29000`.
+   */
+  machTransitionAltitude?: number | Accessible<number>;
+
+  /**
+   * An autothrottle to which to send the speed target while a required time of arrival is active. The autothrottle's
+   * selected speed from before the service began sending speed targets is restored when the required time of arrival
+   * is cleared. If not defined, then the speed target is only published to the event bus.
+   */
+  autothrottle?: AbstractAutothrottle;
+};
+
+/**
+ * A service that manages a required time of arrival (RTA) at a flight plan fix. While an RTA is active, the service
+ * uses the flight plan predictions to solve for the speed that arrives at the fix in the middle of the RTA window,
+ * limits the speed to the airplane's minimum and maximum speeds, and reports whether the RTA can be met. The speed
+ * target and status are published to the event bus for use by FMS speed managers and displays, and are optionally sent
+ * to an autothrottle.
+ */
+export class RtaService {
+  private static readonly SECONDS_PER_DAY = 3600 * 24;
+
+  private readonly publisher: Publisher<RtaEvents>;
+
+  private readonly ias: ConsumerValue<number>;
+  private readonly tas: ConsumerValue<number>;
+  private readonly mach: ConsumerValue<number>;
+  private readonly pressureAlt: ConsumerValue<number>;
+  private readonly simTime: ConsumerValue<number>;
+
+  private readonly minIas: Accessible<number>;
+  private readonly maxIas: Accessible<number>;
+  private readonly minMach: Accessible<number>;
+  private readonly maxMach: Accessible<number>;
+  private readonly machTransitionAltitude: Accessible<number>;
+  private readonly autothrottle?: AbstractAutothrottle;
+
+  private readonly atSelectedSpeedIsMach?: ConsumerValue<boolean>;
+  private readonly atSelectedIas?: ConsumerValue<number>;
+  private readonly atSelectedMach?: ConsumerValue<number>;
+
+  /** The autothrottle selected speed to restore when the RTA is cleared, or `null` if the service has not set one. */
+  private savedAtSelectedSpeed: { isMach: boolean, ias: number, mach: number } | null = null;
+
+  private rta: RequiredTimeOfArrival | null = null;
+
+  private status = RtaStatus.Inactive;
+  private targetIas: number | null = null;
+  private targetMach: number | null = null;
+  private targetIsMach = false;
+  private timeError: number | null = null;
+
+  /**
+   * Creates a new instance of RtaService.
+   * @param bus The event bus.
+   * @param predictor The flight plan predictor providing predictions for the flight plan containing the RTA fixes.
+   * @param options Options with which to configure the service.
+   */
+  public constructor(
+    bus: EventBus,
+    private readonly predictor: FlightPlanPredictor,
+    options: Readonly<RtaServiceOptions>
+  ) {
+    this.publisher = bus.getPublisher<RtaEvents>();
+
+    const sub = bus.getSubscriber<AdcEvents & ClockEvents & AutothrottleEvents>();
+    this.ias = ConsumerValue.create(sub.on('ias'), 0);
+    this.tas = ConsumerValue.create(sub.on('tas'), 0);
+    this.mach = ConsumerValue.create(sub.on('mach_number'), 0);
+    this.pressureAlt = ConsumerValue.create(sub.on('pressure_alt'), 0);
+    this.simTime = ConsumerValue.create(sub.on('simTime'), 0);
+
+    this.minIas = RtaService.toAccessible(options.minIas);
+    this.maxIas = RtaService.toAccessible(options.maxIas);
+    this.minMach = RtaService.toAccessible(options.minMach ?? 0);
+    this.maxMach = RtaService.toAccessible(options.maxMach ?? Infinity);
+    this.machTransitionAltitude = RtaService.toAccessible(options.machTransitionAltitude ?? 29000);
+    this.autothrottle = options.autothrottle;
+
+    if (this.autothrottle) {
+      this.atSelectedSpeedIsMach = ConsumerValue.create(sub.on('at_selected_speed_is_mach'), false);
+      this.atSelectedIas = ConsumerValue.create(sub.on('at_selected_ias'), 0);
+      this.atSelectedMach = ConsumerValue.create(sub.on('at_selected_mach'), 0);
+    }
+
+    this.publish();
+  }
+
+  /**
+   * Gets the active required time of arrival.
+   * @returns The active required time of arrival, or `null` if there is none.
+   */
+  public getRta(): RequiredTimeOfArrival | null {
+    return this.rta;
+  }
+
+  /**
+   * Gets the status of the active required time of arrival.
+   * @returns The status of the active required time of arrival.
+   */
+  public getStatus(): RtaStatus {
+    return this.status;
+  }
+
+  /**
+   * Sets the active required time of arrival, replacing any existing one.
+   * @param leg The flight plan leg terminating at the fix.
+   * @param time The required time of arrival, in UTC seconds from midnight.
+   * @param tolerance The tolerance of the required time of arrival, in seconds. The RTA window extends this amount
+   * before and after the required time. Defaults to `0`.
+   * @throws Error if the tolerance is negative.
+   */
+  public setRta(leg: LegDefinition, time: number, tolerance = 0): void {
+    if (!(tolerance >= 0)) {
+      throw new Error(`RtaService: invalid tolerance ${tolerance}`);
+    }
+
+    this.setRtaWindow(leg, time - tolerance, time + tolerance);
+  }
+
+  /**
+   * Sets the active required time of arrival as a time window, replacing any existing one.
+   * @param leg The flight plan leg terminating at the fix.
+   * @param earliestTime The earliest time of arrival, in UTC seconds from midnight.
+   * @param latestTime The latest time of arrival, in UTC seconds from midnight.
+   * @throws Error if the latest time is before the earliest time.
+   */
+  public setRtaWindow(leg: LegDefinition, earliestTime: number, latestTime: number): void {
+    if (!(latestTime >= earliestTime)) {
+      throw new Error(`RtaService: latest time ${latestTime} is before earliest time ${earliestTime}`);
+    }
+
+    this.rta = { leg, earliestTime, latestTime };
+    this.update();
+  }
+
+  /**
+   * Clears the active required time of arrival. If this service has sent speed targets to its autothrottle, then the
+   * autothrottle's previous selected speed is restored.
+   */
+  public clearRta(): void {
+    this.rta = null;
+    this.setInactive();
+
+    if (this.autothrottle && this.savedAtSelectedSpeed) {
+      this.autothrottle.setSelectedSpeedIsMach(this.savedAtSelectedSpeed.isMach);
+      this.autothrottle.setSelectedIas(this.savedAtSelectedSpeed.ias);
+      this.autothrottle.setSelectedMach(this.savedAtSelectedSpeed.mach);
+      this.savedAtSelectedSpeed = null;
+    }
+  }
+
+  /**
+   * Updates this service. The flight plan predictor should be updated before this method is called. If the fix of the
+   * active required time of arrival has been passed or removed from the flight plan, the RTA is cleared.
+   */
+  public update(): void {
+    if (this.rta === null) {
+      return;
+    }
+
+    const predictions = this.predictor.predictionsForLeg(this.rta.leg);
+
+    if (predictions === null || predictions.kind !== 'activeOrUpcoming') {
+      this.clearRta();
+      return;
+    }
+
+    const tas = this.tas.get();
+    const ias = this.ias.get();
+    const mach = this.mach.get();
+
+    if (!(predictions.estimatedTimeEnroute > 0) || tas <= 0 || ias <= 0 || mach <= 0) {
+      this.setInactive();
+      return;
+    }
+
+    const now = UnitType.MILLISECOND.convertTo(this.simTime.get(), UnitType.SECOND) % RtaService.SECONDS_PER_DAY;
+    const timeToEarliest = RtaService.getTimeUntil(now, this.rta.earliestTime);
+    const timeToLatest = timeToEarliest + (this.rta.latestTime - this.rta.earliestTime);
+    const timeToTarget = (timeToEarliest + timeToLatest) / 2;
+
+    const distance = predictions.distance;
+
+    // The difference between the predicted average ground speed and the current true airspeed approximates the
+    // average wind component along the path to the fix.
+    const windComponent = distance / UnitType.SECOND.convertTo(predictions.estimatedTimeEnroute, UnitType.HOUR) - tas;
+
+    // True airspeed is converted to indicated airspeed and mach using the current ratios, which is valid as long as
+    // the airplane remains near its current altitude.
+    const iasPerTas = ias / tas;
+    const machPerTas = mach / tas;
+    const minTas = Math.max(this.minIas.get() / iasPerTas, this.minMach.get() / machPerTas);
+    const maxTas = Math.min(this.maxIas.get() / iasPerTas, this.maxMach.get() / machPerTas);
+
+    // If the middle of the window has already passed, the fastest possible speed is required.
+    const requiredTas = timeToTarget > 0 ? distance / UnitType.SECOND.convertTo(timeToTarget, UnitType.HOUR) - windComponent : maxTas;
+    const targetTas = MathUtils.clamp(requiredTas, minTas, maxTas);
+
+    const targetGroundSpeed = targetTas + windComponent;
+    const predictedTime = targetGroundSpeed > 0 ? UnitType.HOUR.convertTo(distance / targetGroundSpeed, UnitType.SECOND) : Infinity;
+
+    if (predictedTime > timeToLatest) {
+      this.status = RtaStatus.UnableLate;
+      this.timeError = predictedTime - timeToLatest;
+    } else if (predictedTime < timeToEarliest) {
+      this.status = RtaStatus.UnableEarly;
+      this.timeError = predictedTime - timeToEarliest;
+    } else {
+      this.status = RtaStatus.Achievable;
+      this.timeError = 0;
+    }
+
+    this.targetIas = targetTas * iasPerTas;
+    this.targetMach = targetTas * machPerTas;
+    this.targetIsMach = this.pressureAlt.get() >= this.machTransitionAltitude.get();
+
+    if (this.autothrottle) {
+      this.savedAtSelectedSpeed ??= {
+        isMach: this.atSelectedSpeedIsMach?.get() ?? false,
+        ias: this.atSelectedIas?.get() ?? 0,
+        mach: this.atSelectedMach?.get() ?? 0
+      };
+
+      this.autothrottle.setSelectedSpeedIsMach(this.targetIsMach);
+      this.autothrottle.setSelectedIas(this.targetIas);
+      this.autothrottle.setSelectedMach(this.targetMach);
+    }
+
+    this.publish();
+  }
+
+  /**
+   * Destroys this service. Once destroyed, this service will no longer update or publish its status, and the
+   * autothrottle selected speed is not restored.
+   */
+  public destroy(): void {
+    this.rta = null;
+    this.savedAtSelectedSpeed = null;
+
+    this.ias.destroy();
+    this.tas.destroy();
+    this.mach.destroy();
+    this.pressureAlt.destroy();
+    this.simTime.destroy();
+    this.atSelectedSpeedIsMach?.destroy();
+    this.atSelectedIas?.destroy();
+    this.atSelectedMach?.destroy();
+  }
+
+  /**
+   * Sets this service's status to inactive and clears the speed target.
+   */
+  private setInactive(): void {
+    this.status = RtaStatus.Inactive;
+    this.targetIas = null;
+    this.targetMach = null;
+    this.targetIsMach = false;
+    this.timeError = null;
+
+    this.publish();
+  }
+
+  /**
+   * Publishes this service's status and speed target to the event bus.
+   */
+  private publish(): void {
+    const targetIas = this.targetIas === null ? null : Math.round(this.targetIas);
+    const targetMach = this.targetMach === null ? null : Math.round(this.targetMach * 1000) / 1000;
+    const timeError = this.timeError === null ? null : Math.round(this.timeError);
+
+    this.publisher.pub('rta_status', this.status, true, true);
+    this.publisher.pub('rta_speed_target_ias', targetIas, true, true);
+    this.publisher.pub('rta_speed_target_mach', targetMach, true, true);
+    this.publisher.pub('rta_speed_target_is_mach', this.targetIsMach, true, true);
+    this.publisher.pub('rta_time_error', timeError, true, true);
+  }
+
+  /**
+   * Gets the time until a time of day, wrapping across midnight. Times of day up to 12 hours in the past are
+   * considered to be in the past.
+   * @param now The current time, in UTC seconds from midnight.
+   * @param time The time of day, in UTC seconds from midnight.
+   * @returns The time until the specified time of day, in seconds. Negative values indicate the time is in the past.
+   */
+  private static getTimeUntil(now: number, time: number): number {
+    const halfDay = RtaService.SECONDS_PER_DAY / 2;
+    return ((time - now + halfDay) % RtaService.SECONDS_PER_DAY + RtaService.SECONDS_PER_DAY) % RtaService.SECONDS_PER_DAY - halfDay;
+  }
+
+  /**
+   * Converts a number or accessible number to an accessible number.
+   * @param value The value to convert.
+   * @returns An accessible for the specified value.
+   */
+  private static toAccessible(value: number | Accessible<number>): Accessible<number> {
+    return typeof value === 'number' ? Value.create(value) : value;
+  }
+}
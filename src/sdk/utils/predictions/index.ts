@@ -2,4 +2,6 @@ export * from './FlightPlanPredictionProvider';
 export * from './FlightPlanPredictor';
 export * from './FlightPlanPredictorConfiguration';
 export * from './FlightPlanPredictorUtils';
+export * from './FlightPlanWindModel';
 export * from './LegPredictions';
+export * from './RtaService';
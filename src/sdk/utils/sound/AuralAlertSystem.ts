@@ -65,6 +65,14 @@ export type AuralAlertDefinition = {
    * from the queue. Defaults to `Infinity`.
    */
   queuedLifetime?: number;
+
+  /**
+   * The inhibit states during which the alert is inhibited. Inhibited alerts cannot be triggered and will not be
+   * played if activated. An alert that is activated while inhibited, or that is playing when it becomes inhibited,
+   * will be queued to play once it is no longer inhibited if it is still active at that time. If not defined, then the
+   * alert is never inhibited.
+   */
+  inhibitedBy?: readonly string[];
 };
 
 /**
@@ -165,7 +173,13 @@ export interface AuralAlertControlEvents {
    * will play as it was defined during registration.
    *
    * Once activated, the alert will be queued to play once all higher-priority alerts that are playing or queued have
-   * finished playing. If the alert is already active, then this command has no effect.
+   * finished playing. If the alert is already active, then the alert's queue position is unchanged. However, if the
+   * activation data defines a new sequence, then the active alert's sequence and timeout are replaced. The new timeout
+   * is the one defined by the activation data, or the one defined during registration if the activation data does not
+   * define a timeout. The new sequence and timeout will be used if the alert is still queued, and the next time the
+   * alert is requeued (if it repeats) if it is already playing. This allows alerts with dynamically composed sequences
+   * (such as those created by `AuralCalloutComposer`) to keep their place in the queue while their sequences are
+   * updated.
    */
   aural_alert_activate: string | Readonly<AuralAlertActivation>;
 
@@ -215,6 +229,15 @@ export interface AuralAlertControlEvents {
 
   /** Kills all aural alerts. */
   aural_alert_kill_all: void;
+
+  /**
+   * Activates an aural alert inhibit state. Activating an inhibit state will stop all playing alerts that are
+   * inhibited by the state at the earliest opportunity.
+   */
+  aural_alert_activate_inhibit_state: string;
+
+  /** Deactivates an aural alert inhibit state. */
+  aural_alert_deactivate_inhibit_state: string;
 }
 
 /**
@@ -264,7 +287,10 @@ type QueuedAuralAlert = {
   /** The sound packet to play for the alert. */
   packet: SoundPacket;
 
-  /** The time when the alert was first queued, as a UNIX timestamp in milliseconds. */
+  /**
+   * The time when the alert was first queued, or when it was last requeued after it was no longer inhibited, as a UNIX
+   * timestamp in milliseconds.
+   */
   timestamp: number;
 
   /**
@@ -281,6 +307,9 @@ type QueuedAuralAlert = {
  * alert from each queue can play simultaneously. Alerts are queued to be played when they become activated or triggered.
  * If two alerts are queued at the same time, the one with higher priority is played first. Alerts cannot interrupt an
  * already playing alert, regardless of their relative priorities.
+ *
+ * Alerts can be inhibited by inhibit states, which are activated and deactivated through
+ * {@link AuralAlertControlEvents}. Alerts that are inhibited by at least one active inhibit state cannot be played.
  */
 export class AuralAlertSystem {
   private static readonly ALERT_COMPARATOR = (a: QueuedAuralAlert, b: QueuedAuralAlert): number => {
@@ -320,6 +349,11 @@ export class AuralAlertSystem {
   private readonly activeAlerts = new Map<string, QueuedAuralAlert>();
   private readonly triggeredAlerts = new Map<string, QueuedAuralAlert>();
 
+  private readonly activeInhibitStates = new Set<string>();
+
+  /** Active alerts that were prevented from playing because they were inhibited. */
+  private readonly inhibitedAlerts = new Set<QueuedAuralAlert>();
+
   private isSoundServerInit = false;
   private isSoundServerAwake = false;
 
@@ -346,6 +380,8 @@ export class AuralAlertSystem {
     this.controlSub.on('aural_alert_deactivate_all').handle(this.deactivateAllAlerts.bind(this));
     this.controlSub.on('aural_alert_untrigger_all').handle(this.untriggerAllAlerts.bind(this));
     this.controlSub.on('aural_alert_kill_all').handle(this.killAllAlerts.bind(this));
+    this.controlSub.on('aural_alert_activate_inhibit_state').handle(this.activateInhibitState.bind(this));
+    this.controlSub.on('aural_alert_deactivate_inhibit_state').handle(this.deactivateInhibitState.bind(this));
 
     // Hold all pending alerts in their queues until the sound server is initialized. Then, start dequeuing alerts.
     Wait.awaitConsumer(this.soundServerSub.on('sound_server_initialized'), init => init, true).then(() => {
@@ -527,8 +563,15 @@ export class AuralAlertSystem {
 
     this.activateSuffix(queuedId, suffixedId);
 
-    // If the alert is already active, then do nothing.
-    if (this.activeAlerts.has(queuedId)) {
+    // If the alert is already active, then only update its sequence and timeout if a new sequence was defined.
+    const existing = this.activeAlerts.get(queuedId);
+    if (existing) {
+      const sequence = activationObject?.sequence;
+      if (sequence !== undefined && !AuralAlertSystem.isSequenceEqual(sequence, existing.packet.sequence)) {
+        // Replace the packet instead of mutating it, since the existing packet may have already been sent to the sound
+        // server.
+        existing.packet = { ...existing.packet, sequence, timeout: activationObject?.timeout ?? alertDef.timeout };
+      }
       return;
     }
 
@@ -591,6 +634,11 @@ export class AuralAlertSystem {
       return;
     }
 
+    // Inhibited alerts cannot be triggered.
+    if (this.isInhibited(alertDef)) {
+      return;
+    }
+
     if (alias !== undefined && !this.isAliasUnique(uuid, alias)) {
       return;
     }
@@ -666,10 +714,18 @@ export class AuralAlertSystem {
   }
 
   /**
-   * Queues an alert to be played.
+   * Queues an alert to be played. If the alert is inhibited, then it will not be queued. Instead, if the alert is
+   * active, then it will be queued once it is no longer inhibited.
    * @param alert The alert to queue.
    */
   private queueAlert(alert: QueuedAuralAlert): void {
+    if (this.isInhibited(alert.definition)) {
+      if (this.activeAlerts.get(alert.id) === alert) {
+        this.inhibitedAlerts.add(alert);
+      }
+      return;
+    }
+
     const queueName = alert.definition.queue;
     const queueEntry = this.queues.get(queueName) ?? this.createQueue(queueName);
 
@@ -730,8 +786,17 @@ export class AuralAlertSystem {
           // of just comparing their IDs because the alert could have been deactivated and activated or triggered again
           // while it was queued. The maps contain the queued alert object from the most recent activation/trigger, so
           // that is the one we want to play.
+          const isInhibited = this.isInhibited(next.definition);
+
+          // If the queued alert became inhibited while it was queued and it is still active, then save it so that it
+          // can be requeued once it is no longer inhibited.
+          if (isInhibited && this.activeAlerts.get(next.id) === next) {
+            this.inhibitedAlerts.add(next);
+          }
+
           if (
-            time - next.timestamp <= next.queuedLifetime
+            !isInhibited
+            && time - next.timestamp <= next.queuedLifetime
             && (
               this.activeAlerts.get(next.id) === next
               || this.triggeredAlerts.get(next.id) === next
@@ -743,7 +808,8 @@ export class AuralAlertSystem {
             nextAlerts.insert(next);
             break;
           } else {
-            // If the queued alert was expired, replaced, deactivated, or untriggered, then remove it from the queue.
+            // If the queued alert was inhibited, expired, replaced, deactivated, or untriggered, then remove it from
+            // the queue.
             track.queue.removeMin();
           }
         }
@@ -1050,6 +1116,76 @@ export class AuralAlertSystem {
     }
   }
 
+  /**
+   * Activates an inhibit state. All currently playing alerts that are inhibited by the state will be stopped at the
+   * earliest opportunity.
+   * @param state The inhibit state to activate.
+   */
+  private activateInhibitState(state: string): void {
+    if (this.activeInhibitStates.has(state)) {
+      return;
+    }
+
+    this.activeInhibitStates.add(state);
+
+    for (const playingAlerts of this.playing.values()) {
+      for (const playing of playingAlerts) {
+        if (playing.definition.inhibitedBy?.includes(state)) {
+          // Save the alert if it is active so that it can be requeued once it is no longer inhibited.
+          if (this.activeAlerts.get(playing.id) === playing) {
+            this.inhibitedAlerts.add(playing);
+          }
+
+          this.soundServerPublisher.pub('sound_server_kill', playing.packet.key, true, false);
+        }
+      }
+    }
+  }
+
+  /**
+   * Deactivates an inhibit state. All active alerts that were prevented from playing because they were inhibited and
+   * that are no longer inhibited will be queued to play. If this system is not active, then the alerts are not queued
+   * and remain saved.
+   * @param state The inhibit state to deactivate.
+   */
+  private deactivateInhibitState(state: string): void {
+    if (!this.activeInhibitStates.delete(state)) {
+      return;
+    }
+
+    for (const alert of this.inhibitedAlerts) {
+      if (this.activeAlerts.get(alert.id) !== alert) {
+        this.inhibitedAlerts.delete(alert);
+      } else if (this.isActive && !this.isInhibited(alert.definition)) {
+        this.inhibitedAlerts.delete(alert);
+
+        // Reset the alert's timestamp so that the time it spent inhibited does not count against its queued lifetime.
+        alert.timestamp = Date.now();
+        this.queueAlert(alert);
+      }
+    }
+  }
+
+  /**
+   * Checks whether an alert is inhibited by any currently active inhibit state.
+   * @param definition The definition of the alert to check.
+   * @returns Whether the specified alert is inhibited.
+   */
+  private isInhibited(definition: Readonly<AuralAlertDefinition>): boolean {
+    const inhibitedBy = definition.inhibitedBy;
+    if (!inhibitedBy || this.activeInhibitStates.size === 0) {
+      return false;
+    }
+
+    for (let i = 0; i < inhibitedBy.length; i++) {
+      if (this.activeInhibitStates.has(inhibitedBy[i])) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Responds to when a sound packet stops playing.
    * @param key The key of the stopped packet.
@@ -1161,6 +1297,7 @@ export class AuralAlertSystem {
       this.idToTriggeredSuffixedIds.clear();
 
       // Clear all queued alerts.
+      this.inhibitedAlerts.clear();
       for (const queueEntry of this.queues.values()) {
         queueEntry.debounceTimer.clear();
         for (const track of queueEntry.tracks.values()) {
@@ -1182,6 +1319,20 @@ export class AuralAlertSystem {
     }
   }
 
+  /**
+   * Checks whether two sound atom sequences are equal.
+   * @param a The first sequence.
+   * @param b The second sequence.
+   * @returns Whether the two sound atom sequences are equal.
+   */
+  private static isSequenceEqual(a: string | readonly string[], b: string | readonly string[]): boolean {
+    if (typeof a === 'string' || typeof b === 'string') {
+      return a === b;
+    }
+
+    return a.length === b.length && a.every((atom, index) => atom === b[index]);
+  }
+
   /**
    * Creates a sound packet key for a queue track.
    * @param queueName The name of the queue.
@@ -0,0 +1,375 @@
+import { AuralAlertActivation } from './AuralAlertSystem';
+
+/**
+ * A sound atom in a voice pack.
+ */
+export type AuralVoiceAtom = {
+  /** The ID of the sound atom. */
+  readonly id: string;
+
+  /** The duration of the sound atom, in milliseconds. */
+  readonly duration: number;
+};
+
+/**
+ * A voice pack used to compose aural callouts. A voice pack maps phrases to sound atoms, either as atom IDs or as atoms
+ * with known durations. Phrases are one or more lower-case words separated by single spaces (e.g. `'five'`,
+ * `'two thousand'`, or `"two o'clock"`), which allows a pack to provide single recordings for common multi-word
+ * phrases. The special phrase `','` defines an optional pause atom.
+ *
+ * Numbers are composed from the following words: `'zero'` through `'nineteen'`, `'twenty'` through `'ninety'` in
+ * tens, `'hundred'`, `'thousand'`, `'million'`, `'minus'`, and `'point'`. Clock positions are composed from the words
+ * `'one'` through `'twelve'` followed by `"o'clock"`.
+ */
+export type AuralVoicePack = Readonly<Record<string, string | Readonly<AuralVoiceAtom>>>;
+
+/**
+ * A composed aural callout.
+ */
+export type AuralCallout = {
+  /** The sequence of sound atom IDs to play for the callout. */
+  readonly sequence: readonly string[];
+
+  /**
+   * The total duration of the callout, in milliseconds, or `undefined` if the duration of at least one of the
+   * callout's atoms is unknown.
+   */
+  readonly duration: number | undefined;
+};
+
+/**
+ * Styles with which to speak numbers.
+ */
+export enum AuralNumberStyle {
+  /** Numbers are spoken as words, e.g. `2500` is spoken as "two thousand five hundred". */
+  Words = 'Words',
+
+  /** Numbers are spoken digit by digit, e.g. `2500` is spoken as "two five zero zero". */
+  Digits = 'Digits'
+}
+
+/**
+ * A value that can be substituted into an aural callout template.
+ */
+export type AuralCalloutValue = number | string;
+
+/**
+ * Options for {@link AuralCalloutComposer}.
+ */
+export type AuralCalloutComposerOptions = {
+  /**
+   * The margin to add to the duration of a callout when computing the timeout of an activation for the callout, in
+   * milliseconds. Defaults to `2000`.
+   */
+  timeoutMargin?: number;
+};
+
+/**
+ * Composes aural callouts from numbers, clock positions, and templated phrases into sequences of sound atoms sourced
+ * from a voice pack. Composed callouts can be played through {@link AuralAlertSystem} by using their sequences to
+ * override the sequences of registered alerts when activating or triggering the alerts.
+ *
+ * Templates are phrases that contain placeholders in the form `{name}` or `{name:format}`, where `name` is the key of
+ * a value to substitute and `format` is one of `words`, `digits`, or `clock`. Numeric values are spoken as words
+ * unless a format is specified. String values are spoken as phrases, and the format is ignored. For example, the
+ * template `'traffic, {clock:clock}, {level}'` with values `{ clock: 2, level: 'high' }` is spoken as
+ * "traffic, two o'clock, high".
+ */
+export class AuralCalloutComposer {
+  private static readonly ONES = [
+    'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+    'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+  ];
+  private static readonly TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+  private static readonly SCALES: readonly [number, string][] = [[1e6, 'million'], [1e3, 'thousand']];
+
+  private static readonly PAUSE = ',';
+  private static readonly PLACEHOLDER_REGEX = /\{([^{}:]+)(?::([^{}]+))?\}/g;
+  private static readonly MAX_NUMBER = 1e15;
+
+  private readonly atoms = new Map<string, Readonly<AuralVoiceAtom> | string>();
+  private readonly maxPhraseLength: number;
+
+  private readonly timeoutMargin: number;
+
+  /**
+   * Creates a new instance of AuralCalloutComposer.
+   * @param voicePack The voice pack from which to source sound atoms.
+   * @param options Options with which to configure the composer.
+   */
+  public constructor(voicePack: AuralVoicePack, options?: Readonly<AuralCalloutComposerOptions>) {
+    let maxPhraseLength = 1;
+
+    for (const phrase in voicePack) {
+      const words = AuralCalloutComposer.splitWords(phrase);
+      this.atoms.set(words.join(' '), voicePack[phrase]);
+      maxPhraseLength = Math.max(maxPhraseLength, words.length);
+    }
+
+    this.maxPhraseLength = maxPhraseLength;
+
+    this.timeoutMargin = options?.timeoutMargin ?? 2000;
+  }
+
+  /**
+   * Composes a callout for a number.
+   * @param value The number to speak. Must be finite and have a magnitude less than one quadrillion.
+   * @param style The style with which to speak the number. Defaults to {@link AuralNumberStyle.Words}.
+   * @returns A callout for the specified number.
+   * @throws Error if the number is out of range or the voice pack is missing a required word.
+   */
+  public composeNumber(value: number, style = AuralNumberStyle.Words): AuralCallout {
+    return this.composeWords(AuralCalloutComposer.numberToWords(value, style));
+  }
+
+  /**
+   * Composes a callout for a clock position.
+   * @param clock The clock position to speak, in hours. The position is rounded to the nearest hour, and a position
+   * of zero is spoken as twelve o'clock.
+   * @returns A callout for the specified clock position.
+   * @throws Error if the clock position is not finite or the voice pack is missing a required word.
+   */
+  public composeClockPosition(clock: number): AuralCallout {
+    return this.composeWords(AuralCalloutComposer.clockToWords(clock));
+  }
+
+  /**
+   * Composes a callout for a phrase.
+   * @param phrase The phrase to speak. Words are separated by whitespace, and commas denote optional pauses.
+   * @returns A callout for the specified phrase.
+   * @throws Error if the voice pack is missing a required word.
+   */
+  public composePhrase(phrase: string): AuralCallout {
+    return this.composeWords(AuralCalloutComposer.splitWords(phrase));
+  }
+
+  /**
+   * Composes a callout from a template.
+   * @param template The template to speak.
+   * @param values The values to substitute into the template's placeholders, keyed by name.
+   * @returns A callout for the specified template.
+   * @throws Error if a placeholder has no value or has an invalid format, or if the voice pack is missing a required
+   * word.
+   */
+  public compose(template: string, values?: Readonly<Record<string, AuralCalloutValue>>): AuralCallout {
+    const words: string[] = [];
+
+    const regex = new RegExp(AuralCalloutComposer.PLACEHOLDER_REGEX);
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(template)) !== null) {
+      words.push(...AuralCalloutComposer.splitWords(template.substring(lastIndex, match.index)));
+      words.push(...AuralCalloutComposer.valueToWords(match[1].trim(), match[2]?.trim(), values));
+      lastIndex = regex.lastIndex;
+    }
+
+    words.push(...AuralCalloutComposer.splitWords(template.substring(lastIndex)));
+
+    return this.composeWords(words);
+  }
+
+  /**
+   * Creates activation data for an aural alert that plays a callout.
+   * @param uuid The ID of the alert to activate or trigger.
+   * @param callout The callout to play.
+   * @param activation Additional activation data. If a timeout is not defined and the duration of the callout is
+   * known, then the timeout is set to the duration of the callout plus this composer's timeout margin.
+   * @returns Activation data for the specified alert that plays the specified callout.
+   */
+  public createActivation(
+    uuid: string,
+    callout: AuralCallout,
+    activation?: Readonly<Omit<AuralAlertActivation, 'uuid' | 'sequence'>>
+  ): AuralAlertActivation {
+    return {
+      ...activation,
+      uuid,
+      sequence: callout.sequence,
+      timeout: activation?.timeout ?? (callout.duration === undefined ? undefined : callout.duration + this.timeoutMargin)
+    };
+  }
+
+  /**
+   * Composes a callout from a sequence of words. Each word or run of words is mapped to the sound atom of the longest
+   * matching phrase in this composer's voice pack.
+   * @param words The words to speak.
+   * @returns A callout for the specified words.
+   * @throws Error if the voice pack is missing a required word.
+   */
+  private composeWords(words: readonly string[]): AuralCallout {
+    const sequence: string[] = [];
+    let duration: number | undefined = 0;
+
+    for (let i = 0; i < words.length;) {
+      let atom: Readonly<AuralVoiceAtom> | string | undefined = undefined;
+      let phraseLength = Math.min(this.maxPhraseLength, words.length - i);
+
+      for (; phraseLength > 0; phraseLength--) {
+        atom = this.atoms.get(words.slice(i, i + phraseLength).join(' '));
+        if (atom !== undefined) {
+          break;
+        }
+      }
+
+      if (atom === undefined) {
+        // Pauses are optional.
+        if (words[i] !== AuralCalloutComposer.PAUSE) {
+          throw new Error(`AuralCalloutComposer: voice pack has no sound atom for word '${words[i]}'`);
+        }
+
+        i++;
+        continue;
+      }
+
+      if (typeof atom === 'string') {
+        sequence.push(atom);
+        duration = undefined;
+      } else {
+        sequence.push(atom.id);
+        duration = duration === undefined ? undefined : duration + atom.duration;
+      }
+
+      i += phraseLength;
+    }
+
+    return { sequence, duration };
+  }
+
+  /**
+   * Splits a phrase into lower-case words. Commas are split into their own words.
+   * @param phrase The phrase to split.
+   * @returns The words in the specified phrase.
+   */
+  private static splitWords(phrase: string): string[] {
+    return phrase.toLowerCase().replace(/,/g, ' , ').split(/\s+/).filter(word => word !== '');
+  }
+
+  /**
+   * Converts a template placeholder value to words.
+   * @param name The name of the placeholder.
+   * @param format The format of the placeholder, if any.
+   * @param values The values to substitute into the template's placeholders, keyed by name.
+   * @returns The words for the specified placeholder.
+   * @throws Error if the placeholder has no value or has an invalid format.
+   */
+  private static valueToWords(name: string, format: string | undefined, values?: Readonly<Record<string, AuralCalloutValue>>): string[] {
+    const value = values?.[name];
+
+    if (value === undefined) {
+      throw new Error(`AuralCalloutComposer: no value for template placeholder '${name}'`);
+    }
+
+    if (typeof value === 'string') {
+      return AuralCalloutComposer.splitWords(value);
+    }
+
+    switch (format) {
+      case undefined:
+      case 'words':
+        return AuralCalloutComposer.numberToWords(value, AuralNumberStyle.Words);
+      case 'digits':
+        return AuralCalloutComposer.numberToWords(value, AuralNumberStyle.Digits);
+      case 'clock':
+        return AuralCalloutComposer.clockToWords(value);
+      default:
+        throw new Error(`AuralCalloutComposer: invalid format '${format}' for template placeholder '${name}'`);
+    }
+  }
+
+  /**
+   * Converts a clock position to words.
+   * @param clock The clock position, in hours.
+   * @returns The words for the specified clock position.
+   * @throws Error if the clock position is not finite.
+   */
+  private static clockToWords(clock: number): string[] {
+    if (!isFinite(clock)) {
+      throw new Error(`AuralCalloutComposer: invalid clock position ${clock}`);
+    }
+
+    const hour = ((Math.round(clock) % 12) + 12) % 12;
+    return [AuralCalloutComposer.ONES[hour === 0 ? 12 : hour], 'o\'clock'];
+  }
+
+  /**
+   * Converts a number to words.
+   * @param value The number to convert.
+   * @param style The style with which to speak the number.
+   * @returns The words for the specified number.
+   * @throws Error if the number is out of range.
+   */
+  private static numberToWords(value: number, style: AuralNumberStyle): string[] {
+    if (!(Math.abs(value) < AuralCalloutComposer.MAX_NUMBER)) {
+      throw new Error(`AuralCalloutComposer: number ${value} is out of range`);
+    }
+
+    const words: string[] = [];
+
+    if (value < 0) {
+      words.push('minus');
+    }
+
+    // Numbers with very small magnitudes are stringified in exponential notation, so round them to the maximum number
+    // of fractional digits that can be stringified in positional notation.
+    const absValue = Math.abs(value);
+    const [integerString, fractionString] = (absValue < 1e-6 ? absValue.toFixed(20).replace(/\.?0+$/, '') : absValue.toString()).split('.');
+
+    if (style === AuralNumberStyle.Digits) {
+      AuralCalloutComposer.pushDigitWords(integerString, words);
+    } else {
+      AuralCalloutComposer.pushIntegerWords(Number(integerString), words);
+    }
+
+    if (fractionString !== undefined) {
+      words.push('point');
+      AuralCalloutComposer.pushDigitWords(fractionString, words);
+    }
+
+    return words;
+  }
+
+  /**
+   * Appends the words for each digit in a string of digits to an array.
+   * @param digits The string of digits.
+   * @param words The array to which to append the words.
+   */
+  private static pushDigitWords(digits: string, words: string[]): void {
+    for (let i = 0; i < digits.length; i++) {
+      words.push(AuralCalloutComposer.ONES[Number(digits[i])]);
+    }
+  }
+
+  /**
+   * Appends the words for a non-negative integer to an array.
+   * @param value The integer.
+   * @param words The array to which to append the words.
+   */
+  private static pushIntegerWords(value: number, words: string[]): void {
+    if (value === 0) {
+      words.push('zero');
+      return;
+    }
+
+    for (const [scale, scaleWord] of AuralCalloutComposer.SCALES) {
+      if (value >= scale) {
+        AuralCalloutComposer.pushIntegerWords(Math.floor(value / scale), words);
+        words.push(scaleWord);
+        value %= scale;
+      }
+    }
+
+    if (value >= 100) {
+      words.push(AuralCalloutComposer.ONES[Math.floor(value / 100)], 'hundred');
+      value %= 100;
+    }
+
+    if (value >= 20) {
+      words.push(AuralCalloutComposer.TENS[Math.floor(value / 10)]);
+      value %= 10;
+      value > 0 && words.push(AuralCalloutComposer.ONES[value]);
+    } else if (value > 0) {
+      words.push(AuralCalloutComposer.ONES[value]);
+    }
+  }
+}
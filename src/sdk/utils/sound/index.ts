@@ -2,5 +2,6 @@ export * from './AuralAlertRegistrationManager';
 export * from './AuralAlertSystem';
 export * from './AuralAlertSystemWarningAdapter';
 export * from './AuralAlertSystemXmlAdapter';
+export * from './AuralCalloutComposer';
 export * from './CasAuralAlertTransporter';
 export * from './SoundServer';
\ No newline at end of file